@@ -6,18 +6,23 @@ import {
   CaptureStatus,
   ConstraintType,
   invokeCaptureCompletion,
+  invokePlanQueue,
   invokeScheduleCapture,
+  linkCapturePredecessor,
   listCaptures,
+  listPencilledCaptures,
   listScheduledCaptures,
   lockCaptureWindow,
   parseCapture,
   ParseMode,
+  ParseTaskItem,
   ParseTaskResponse,
   PlanSummary,
   ScheduleDecision,
   ScheduleOptions,
   syncCaptureEvents,
   undoPlan,
+  watchCalendarChanges,
 } from "@/lib/capture";
 import {
   extractScheduleReasons,
@@ -27,19 +32,27 @@ import {
 } from "@/lib/schedule-insights";
 import {
   type CalendarHealth,
-  connectGoogleCalendar,
+  connectCalendar,
   getCalendarHealth,
 } from "@/lib/google-connect";
+import { cancelScheduledNotification } from "@/lib/notifications";
 import {
-  cancelScheduledNotification,
-  scheduleReminderAt,
-} from "@/lib/notifications";
+  enqueueOfflineCapture,
+  isNetworkError,
+  listOfflineCaptures,
+  type OfflineCapture,
+  type OfflineSyncResult,
+  removeOfflineCapture,
+  syncOfflineCaptures,
+} from "@/lib/offline-captures";
 import { getAssistantModePreference } from "@/lib/preferences";
+import { registerPushDevice } from "@/lib/push-devices";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ActivityIndicator,
   Alert,
+  AppState,
   KeyboardAvoidingView,
   Modal,
   Platform,
@@ -64,6 +77,7 @@ const IMPORTANCE_LEVELS = [
 ];
 
 const REMINDER_STORAGE_KEY = "@diaGuru.reminders";
+const OFFLINE_SYNC_INTERVAL_MS = 60_000;
 
 type PendingCaptureState = {
   baseContent: string;
@@ -73,6 +87,31 @@ type PendingCaptureState = {
   parseResult: ParseTaskResponse | null;
 };
 
+type BulkReviewItem = {
+  key: string;
+  include: boolean;
+  title: string;
+  minutes: string;
+  item: ParseTaskItem;
+};
+
+// A capture that listed several tasks, waiting for the user to confirm them.
+type BulkReviewState = {
+  importance: number;
+  parseResult: ParseTaskResponse;
+  items: BulkReviewItem[];
+};
+
+// A session the user is checking in on without having finished it.
+type CheckInState = {
+  capture: Capture;
+  percentDone: number | null;
+  minutes: string;
+  split: boolean;
+};
+
+const CHECK_IN_PERCENTAGES = [25, 50, 75];
+
 type ReminderEntry = {
   notificationId: string;
   plannedEnd: string;
@@ -353,6 +392,59 @@ function normalizeDisplayTitle(value: unknown) {
   return flattened.length > 0 ? flattened : null;
 }
 
+// Shapes one reviewed item like a single-task parse so it saves the same way.
+function bulkItemParseResult(
+  parent: ParseTaskResponse,
+  entry: BulkReviewItem,
+): ParseTaskResponse {
+  const title = normalizeDisplayTitle(entry.title);
+  return {
+    ...parent,
+    content: entry.item.content,
+    structured: {
+      ...entry.item.structured,
+      extraction: {
+        ...entry.item.structured.extraction,
+        title: title ?? entry.item.structured.extraction.title,
+      },
+    },
+    needed: entry.item.needed,
+    follow_up: entry.item.follow_up,
+    items: undefined,
+  };
+}
+
+function summarizeOfflineSync(
+  result: OfflineSyncResult,
+): HomeStatusNotice | null {
+  const parts: string[] = [];
+  if (result.saved.length > 0) {
+    parts.push(
+      `${result.saved.length} offline ${
+        result.saved.length === 1 ? "capture was" : "captures were"
+      } added to your queue.`,
+    );
+  }
+  if (result.duplicates.length > 0) {
+    parts.push(
+      `Skipped ${result.duplicates.length} already saved: ${result.duplicates
+        .map((entry) => `"${entry.content}"`)
+        .join(", ")}.`,
+    );
+  }
+  if (result.needsDetails.length > 0) {
+    parts.push(
+      `${result.needsDetails.length} need more detail before they can be saved.`,
+    );
+  }
+  if (parts.length === 0) return null;
+  return {
+    tone: result.needsDetails.length > 0 ? "warning" : "success",
+    title: "Offline captures synced",
+    message: parts.join(" "),
+  };
+}
+
 function showScheduleWhy(capture: Capture) {
   const reasons = extractScheduleReasons(capture);
   const body = reasons.map((reason) => `- ${reason}`).join("\n");
@@ -880,8 +972,11 @@ export default function HomeTab() {
   } | null>(null);
   const [followUpAnswer, setFollowUpAnswer] = useState("");
 
+  const [bulkReview, setBulkReview] = useState<BulkReviewState | null>(null);
+  const [checkIn, setCheckIn] = useState<CheckInState | null>(null);
   const [pending, setPending] = useState<Capture[]>([]);
   const [scheduled, setScheduled] = useState<Capture[]>([]);
+  const [pencilled, setPencilled] = useState<Capture[]>([]);
   const [pendingLoading, setPendingLoading] = useState(true);
   const [scheduledLoading, setScheduledLoading] = useState(true);
   const [pendingError, setPendingError] = useState<string | null>(null);
@@ -916,108 +1011,42 @@ export default function HomeTab() {
     useState<ExternalConflictState | null>(null);
   const [captureDetailsOpen, setCaptureDetailsOpen] = useState(false);
   const [queueOpen, setQueueOpen] = useState(false);
+  const [offlineCaptures, setOfflineCaptures] = useState<OfflineCapture[]>([]);
 
   const [refreshing, setRefreshing] = useState(false);
   const [scheduling, setScheduling] = useState(false);
   const [actionCaptureId, setActionCaptureId] = useState<string | null>(null);
 
   const autoSchedulingRef = useRef(false);
-  const reminderRegistryRef = useRef<ReminderRegistry>({});
-  const reminderSyncingRef = useRef(false);
   const calendarHealthRequestRef = useRef(false);
-  const [reminderLoaded, setReminderLoaded] = useState(false);
 
+  // Reminders are pushed by the server, so they follow the plan on every
+  // device; this one only registers for them.
+  useEffect(() => {
+    if (!userId) return;
+    registerPushDevice(userId).catch((error) =>
+      console.log("push device registration failed", error),
+    );
+  }, [userId]);
+
+  // Earlier versions scheduled local reminders; cancel them once so they do
+  // not fire next to the pushed ones.
   useEffect(() => {
-    let active = true;
     (async () => {
       try {
         const stored = await AsyncStorage.getItem(REMINDER_STORAGE_KEY);
-        if (stored && active) {
-          reminderRegistryRef.current = JSON.parse(stored) as ReminderRegistry;
+        if (!stored) return;
+        const registry = JSON.parse(stored) as ReminderRegistry;
+        for (const entry of Object.values(registry)) {
+          await cancelScheduledNotification(entry.notificationId);
         }
+        await AsyncStorage.removeItem(REMINDER_STORAGE_KEY);
       } catch (error) {
-        console.log("reminder registry load failed", error);
-      } finally {
-        if (active) setReminderLoaded(true);
+        console.log("local reminder cleanup failed", error);
       }
     })();
-    return () => {
-      active = false;
-    };
   }, []);
 
-  const ensureReminders = useCallback(async () => {
-    if (!reminderLoaded) return;
-    if (reminderSyncingRef.current) return;
-    reminderSyncingRef.current = true;
-    try {
-      const registry = reminderRegistryRef.current;
-      const nextRegistry: ReminderRegistry = {};
-      const now = Date.now();
-
-      for (const capture of scheduled) {
-        if (capture.status !== "scheduled") continue;
-        if (!capture.planned_end) continue;
-
-        const endDate = new Date(capture.planned_end);
-        if (Number.isNaN(endDate.getTime())) continue;
-
-        if (endDate.getTime() <= now) {
-          const existing = registry[capture.id];
-          if (existing) {
-            await cancelScheduledNotification(existing.notificationId);
-          }
-          continue;
-        }
-
-        const existing = registry[capture.id];
-        if (existing && existing.plannedEnd === capture.planned_end) {
-          nextRegistry[capture.id] = existing;
-          continue;
-        }
-
-        if (existing) {
-          await cancelScheduledNotification(existing.notificationId);
-        }
-
-        try {
-          const notificationId = await scheduleReminderAt(
-            endDate,
-            "Time to check in",
-            `Did you complete "${capture.content}" ? `,
-          );
-          nextRegistry[capture.id] = {
-            notificationId,
-            plannedEnd: capture.planned_end,
-          };
-        } catch (error) {
-          console.log("reminder schedule failed", error);
-        }
-      }
-
-      for (const [captureId, entry] of Object.entries(registry)) {
-        if (!nextRegistry[captureId]) {
-          await cancelScheduledNotification(entry.notificationId);
-        }
-      }
-
-      reminderRegistryRef.current = nextRegistry;
-      await AsyncStorage.setItem(
-        REMINDER_STORAGE_KEY,
-        JSON.stringify(nextRegistry),
-      );
-    } catch (error) {
-      console.log("reminder sync failed", error);
-    } finally {
-      reminderSyncingRef.current = false;
-    }
-  }, [reminderLoaded, scheduled]);
-
-  useEffect(() => {
-    if (!reminderLoaded) return;
-    ensureReminders();
-  }, [ensureReminders, reminderLoaded]);
-
   const refreshCalendarHealth = useCallback(async () => {
     if (!userId) {
       setCalendarHealth(null);
@@ -1061,8 +1090,12 @@ export default function HomeTab() {
     setScheduledLoading(true);
     setScheduledError(null);
     try {
-      const list = await listScheduledCaptures();
+      const [list, pencilledList] = await Promise.all([
+        listScheduledCaptures(),
+        listPencilledCaptures(),
+      ]);
       setScheduled(list);
+      setPencilled(pencilledList);
       return list;
     } catch (error: any) {
       setScheduledError(error?.message ?? "Failed to load scheduled captures");
@@ -1079,6 +1112,9 @@ export default function HomeTab() {
     } catch (error) {
       console.log("sync-captures error", error);
     }
+    watchCalendarChanges().catch((error) => {
+      console.log("calendar-watch error", error);
+    });
   }, [userId]);
 
   useEffect(() => {
@@ -1131,7 +1167,7 @@ export default function HomeTab() {
   const scheduleTopCapture = useCallback(
     async (
       captureId?: string,
-      mode: "schedule" | "reschedule" = "schedule",
+      mode: "schedule" | "reschedule" | "progress" = "schedule",
       options?: ScheduleOptions,
     ) => {
       if (!userId) return null;
@@ -1178,7 +1214,11 @@ export default function HomeTab() {
             response.explanation,
           );
           const successTitle =
-            mode === "reschedule" ? "Rescheduled" : "Scheduled";
+            mode === "reschedule"
+              ? "Rescheduled"
+              : mode === "progress"
+                ? "Remainder scheduled"
+                : "Scheduled";
           const baseSuccessMessage =
             scheduledLabel && response.capture?.content
               ? `${response.capture.content} is set for ${scheduledLabel}.`
@@ -1211,7 +1251,7 @@ export default function HomeTab() {
           message,
         });
         Alert.alert("Scheduling failed", message);
-        if (message?.toLowerCase().includes("google calendar not linked")) {
+        if (message?.toLowerCase().includes("calendar not linked")) {
           refreshCalendarHealth();
         }
         return null;
@@ -1369,7 +1409,28 @@ export default function HomeTab() {
       // Fetch the latest pending list (ranked)
       const queue = await loadPending();
       let scheduledCount = 0;
-      for (const cap of queue) {
+      // Place the whole queue in one server pass first; only captures that did
+      // not fit go through the per-capture overlap/rebalance retries below.
+      let leftovers = queue;
+      try {
+        const batch = await invokePlanQueue({
+          timezone,
+          timezoneOffsetMinutes,
+        });
+        scheduledCount += batch.scheduled.length;
+        const lastChunks = batch.scheduled[batch.scheduled.length - 1]?.chunks;
+        if (lastChunks) {
+          setRecentChunks(lastChunks as UICapturedChunk[]);
+        }
+        const unplacedIds = new Set(
+          batch.unplaced.map((entry) => entry.captureId),
+        );
+        leftovers = queue.filter((cap) => unplacedIds.has(cap.id));
+        await Promise.all([loadPending(), loadScheduled()]);
+      } catch (e: any) {
+        console.log("plan_queue error, falling back to per-capture", e);
+      }
+      for (const cap of leftovers) {
         try {
           const resp = await invokeScheduleCapture(cap.id, "schedule", {
             allowRebalance: true,
@@ -1534,7 +1595,7 @@ export default function HomeTab() {
     userId,
   ]);
 
-  const finalizeCapture = useCallback(
+  const persistCapture = useCallback(
     async (
       content: string,
       estimatedMinutes: number | null,
@@ -1574,11 +1635,20 @@ export default function HomeTab() {
           }
         : null;
 
+      // Keep the learned-duration note only while the estimate is the one
+      // it describes; minutes the user typed replace it.
+      const durationAdjustment =
+        parseResult?.structured?.duration_adjustment?.to === estimatedMinutes
+          ? parseResult.structured.duration_adjustment
+          : null;
       // Persist rich facets in scheduling_notes for server-side policy
       const schedulingNotes = extraction
         ? JSON.stringify({
             importance: extraction.importance ?? null,
             flexibility: extraction.flexibility ?? null,
+            ...(durationAdjustment
+              ? { duration_adjustment: durationAdjustment }
+              : {}),
           })
         : null;
 
@@ -1615,10 +1685,53 @@ export default function HomeTab() {
           isSoftStart: constraint.isSoftStart,
           externalityScore: constraint.externalityScore,
           taskTypeHint: constraint.taskTypeHint,
+          recurrenceRule:
+            parseResult?.structured?.capture?.recurrence_rule ??
+            extraction?.recurrence?.rule ??
+            null,
+          location:
+            parseResult?.structured?.capture?.location ??
+            extraction?.location ??
+            null,
         },
         userId,
       );
 
+      const dependsOnReference =
+        parseResult?.structured?.capture?.depends_on_reference ??
+        extraction?.depends_on?.reference ??
+        null;
+      let predecessor: Capture | null = null;
+      if (dependsOnReference) {
+        try {
+          predecessor = await linkCapturePredecessor(
+            created,
+            dependsOnReference,
+          );
+        } catch (error) {
+          console.log("link predecessor error", error);
+        }
+      }
+
+      return { created, predecessor, displayTitle };
+    },
+    [userId],
+  );
+
+  const finalizeCapture = useCallback(
+    async (
+      content: string,
+      estimatedMinutes: number | null,
+      selectedImportance: number,
+      parseResult: ParseTaskResponse | null,
+    ) => {
+      const { created, predecessor, displayTitle } = await persistCapture(
+        content,
+        estimatedMinutes,
+        selectedImportance,
+        parseResult,
+      );
+
       setIdea("");
       setMinutesInput("");
       setImportance(2);
@@ -1628,22 +1741,133 @@ export default function HomeTab() {
       setStatusNotice({
         tone: "success",
         title: "Capture saved",
-        message: `"${displayTitle}" was added to your queue.`,
+        message: predecessor
+          ? `"${displayTitle}" was added to your queue and will follow "${predecessor.content}".`
+          : `"${displayTitle}" was added to your queue.`,
       });
       return created;
     },
-    [loadPending, userId],
+    [loadPending, persistCapture],
+  );
+
+  const refreshOfflineCaptures = useCallback(async () => {
+    if (!userId) {
+      setOfflineCaptures([]);
+      return [];
+    }
+    const entries = await listOfflineCaptures(userId);
+    setOfflineCaptures(entries);
+    return entries;
+  }, [userId]);
+
+  const syncOffline = useCallback(async () => {
+    if (!userId) return;
+    const queued = await refreshOfflineCaptures();
+    if (!queued.some((entry) => entry.status === "waiting")) return;
+    try {
+      const result = await syncOfflineCaptures(
+        userId,
+        async (entry, estimatedMinutes, parseResult) =>
+          (
+            await persistCapture(
+              entry.content,
+              estimatedMinutes,
+              entry.importance,
+              parseResult,
+            )
+          ).created,
+      );
+      setOfflineCaptures(result.remaining);
+      if (result.saved.length > 0) {
+        await loadPending();
+      }
+      const notice = summarizeOfflineSync(result);
+      if (notice) setStatusNotice(notice);
+    } catch (error) {
+      console.log("offline capture sync failed", error);
+      await refreshOfflineCaptures();
+    }
+  }, [loadPending, persistCapture, refreshOfflineCaptures, userId]);
+
+  const queueOfflineCapture = useCallback(
+    async (
+      content: string,
+      estimatedMinutes: number | null,
+      selectedImportance: number,
+    ) => {
+      if (!userId) return;
+      await enqueueOfflineCapture(userId, {
+        content,
+        estimatedMinutes,
+        importance: selectedImportance,
+        timezone,
+      });
+      setIdea("");
+      setMinutesInput("");
+      setImportance(2);
+      setPendingCapture(null);
+      await refreshOfflineCaptures();
+      setStatusNotice({
+        tone: "info",
+        title: "Saved offline",
+        message: `"${content}" is waiting to sync. DiaGuru will finish it once you're back online.`,
+      });
+    },
+    [refreshOfflineCaptures, timezone, userId],
+  );
+
+  const handleOfflineReview = useCallback(
+    async (entry: OfflineCapture) => {
+      if (!userId) return;
+      await removeOfflineCapture(userId, entry.localId);
+      setIdea(entry.content);
+      setMinutesInput(
+        entry.estimatedMinutes ? String(entry.estimatedMinutes) : "",
+      );
+      setImportance(entry.importance);
+      await refreshOfflineCaptures();
+    },
+    [refreshOfflineCaptures, userId],
   );
 
+  const handleOfflineDiscard = useCallback(
+    async (entry: OfflineCapture) => {
+      if (!userId) return;
+      await removeOfflineCapture(userId, entry.localId);
+      await refreshOfflineCaptures();
+    },
+    [refreshOfflineCaptures, userId],
+  );
+
+  useEffect(() => {
+    if (!userId) {
+      setOfflineCaptures([]);
+      return;
+    }
+    syncOffline();
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active") syncOffline();
+    });
+    const timer = setInterval(syncOffline, OFFLINE_SYNC_INTERVAL_MS);
+    return () => {
+      subscription.remove();
+      clearInterval(timer);
+    };
+  }, [syncOffline, userId]);
+
   const handleReconnectCalendar = useCallback(() => {
-    connectGoogleCalendar().catch((error) => {
-      console.log("google connect error", error);
+    const provider = calendarHealth?.provider ?? "google";
+    connectCalendar(provider).catch((error) => {
+      console.log("calendar connect error", error);
+      // CalDAV has no sign-in page; the error explains where to relink.
       Alert.alert(
         "Reconnect failed",
-        "Unable to open Google sign-in right now. Please try again.",
+        provider === "caldav" && error instanceof Error
+          ? error.message
+          : "Unable to open calendar sign-in right now. Please try again.",
       );
     });
-  }, []);
+  }, [calendarHealth?.provider]);
 
   const dismissPlanSummary = useCallback(() => {
     setRecentPlan(null);
@@ -1710,6 +1934,38 @@ export default function HomeTab() {
     setSubmitting(false);
   }, []);
 
+  const saveFollowUpCapture = useCallback(
+    async (minutes: number, parseResult: ParseTaskResponse | null) => {
+      if (!pendingCapture) return;
+      let capture: Capture;
+      try {
+        capture = await finalizeCapture(
+          pendingCapture.baseContent,
+          minutes,
+          pendingCapture.importance,
+          parseResult,
+        );
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+        setFollowUpState(null);
+        setFollowUpAnswer("");
+        await queueOfflineCapture(
+          pendingCapture.baseContent,
+          minutes,
+          pendingCapture.importance,
+        );
+        return;
+      }
+
+      setFollowUpState(null);
+      setFollowUpAnswer("");
+      setPendingCapture(null);
+
+      await attemptSchedule(capture.id);
+    },
+    [attemptSchedule, finalizeCapture, pendingCapture, queueOfflineCapture],
+  );
+
   const handleFollowUpSubmit = useCallback(async () => {
     if (!followUpState || !pendingCapture) return;
     const answer = followUpAnswer.trim();
@@ -1724,8 +1980,42 @@ export default function HomeTab() {
     try {
       setSubmitting(true);
 
-      let resolvedMinutes: number | null = null;
-      const numericMatch = answer.match(/(\d+(?:\.\d+)?)/);
+      // With a server-side session the answer is merged into the earlier
+      // extraction, and the server may ask about another missing field.
+      let parseResult = pendingCapture.parseResult;
+      const sessionId = parseResult?.follow_up?.session_id;
+      if (sessionId) {
+        try {
+          parseResult = await parseCapture({
+            text: pendingCapture.baseContent,
+            sessionId,
+            answer,
+            timezone,
+            now: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.log("clarification answer failed", error);
+        }
+        const next = parseResult?.follow_up;
+        if (parseResult !== pendingCapture.parseResult && next?.session_id) {
+          setPendingCapture({
+            ...pendingCapture,
+            appended: [...pendingCapture.appended, answer],
+            parseResult,
+          });
+          setFollowUpState({
+            prompt: next.prompt,
+            missing: next.missing ?? [],
+          });
+          setFollowUpAnswer("");
+          return;
+        }
+      }
+
+      let resolvedMinutes: number | null =
+        parseResult?.structured?.estimated_minutes ?? null;
+      const numericMatch =
+        resolvedMinutes === null ? answer.match(/(\d+(?:\.\d+)?)/) : null;
       if (numericMatch) {
         const numeric = Number(numericMatch[1]);
         if (!Number.isNaN(numeric) && numeric > 0) {
@@ -1742,31 +2032,34 @@ export default function HomeTab() {
         return;
       }
 
-      const capture = await finalizeCapture(
-        pendingCapture.baseContent,
-        resolvedMinutes,
-        pendingCapture.importance,
-        pendingCapture.parseResult,
-      );
-
-      setFollowUpState(null);
-      setFollowUpAnswer("");
-      setPendingCapture(null);
-
-      await attemptSchedule(capture.id);
+      await saveFollowUpCapture(resolvedMinutes, parseResult);
     } catch (error: any) {
       Alert.alert("Save failed", error?.message ?? "Could not save capture.");
     } finally {
       setSubmitting(false);
     }
   }, [
-    attemptSchedule,
-    finalizeCapture,
     followUpAnswer,
     followUpState,
     pendingCapture,
+    saveFollowUpCapture,
+    timezone,
   ]);
 
+  // Later questions in a session are optional once the duration is known.
+  const handleFollowUpSaveNow = useCallback(async () => {
+    const minutes = pendingCapture?.parseResult?.structured?.estimated_minutes;
+    if (!pendingCapture || !minutes) return;
+    try {
+      setSubmitting(true);
+      await saveFollowUpCapture(minutes, pendingCapture.parseResult);
+    } catch (error: any) {
+      Alert.alert("Save failed", error?.message ?? "Could not save capture.");
+    } finally {
+      setSubmitting(false);
+    }
+  }, [pendingCapture, saveFollowUpCapture]);
+
   const handleAddCapture = useCallback(async () => {
     if (!userId) {
       Alert.alert("Sign in required", "Please sign in to save ideas.");
@@ -1796,6 +2089,7 @@ export default function HomeTab() {
       }
     }
 
+    let created: Capture | null = null;
     try {
       setSubmitting(true);
       setPendingCapture(null);
@@ -1813,18 +2107,44 @@ export default function HomeTab() {
           now: new Date().toISOString(),
         });
       } catch (error) {
+        if (isNetworkError(error)) {
+          await queueOfflineCapture(content, resolvedMinutes, importance);
+          return;
+        }
         if (!hasMinutes) {
           const message =
             error instanceof Error && error.message
               ? error.message
               : "We could not infer the duration automatically.";
-          Alert.alert("DeepSeek failed", message);
+          Alert.alert("Could not read capture", message);
 
           setSubmitting(false);
           return;
         }
       }
 
+      if (parseResult?.items && parseResult.items.length > 1) {
+        setBulkReview({
+          importance,
+          parseResult,
+          items: parseResult.items.map((item, index) => {
+            const minutes =
+              item.structured.estimated_minutes ?? resolvedMinutes;
+            return {
+              key: String(index),
+              include: true,
+              title:
+                normalizeDisplayTitle(item.structured.extraction.title) ??
+                item.content,
+              minutes: minutes ? String(minutes) : "",
+              item,
+            };
+          }),
+        });
+        setSubmitting(false);
+        return;
+      }
+
       if (!hasMinutes) {
         const candidate = parseResult?.structured?.estimated_minutes;
         if (typeof candidate === "number" && candidate > 0) {
@@ -1851,8 +2171,8 @@ export default function HomeTab() {
           return;
         } else {
           Alert.alert(
-            "DeepSeek failed",
-            "DeepSeek did not provide a clarifying question in conversational strict mode.",
+            "Could not read capture",
+            "The assistant did not provide a clarifying question for this capture.",
           );
           setSubmitting(false);
           return;
@@ -1861,14 +2181,14 @@ export default function HomeTab() {
 
       if (resolvedMinutes === null) {
         Alert.alert(
-          "DeepSeek failed",
-          "DeepSeek could not infer a duration from your capture.",
+          "Could not read capture",
+          "The assistant could not infer a duration from your capture.",
         );
         setSubmitting(false);
         return;
       }
 
-      const created = await finalizeCapture(
+      created = await finalizeCapture(
         content,
         resolvedMinutes,
         importance,
@@ -1876,6 +2196,10 @@ export default function HomeTab() {
       );
       await attemptSchedule(created.id);
     } catch (error: any) {
+      if (!created && isNetworkError(error)) {
+        await queueOfflineCapture(content, resolvedMinutes, importance);
+        return;
+      }
       Alert.alert("Save failed", error?.message ?? "Could not save capture.");
     } finally {
       setSubmitting(false);
@@ -1886,10 +2210,108 @@ export default function HomeTab() {
     idea,
     importance,
     minutesInput,
+    queueOfflineCapture,
     timezone,
     userId,
   ]);
 
+  const updateBulkItem = useCallback(
+    (key: string, patch: Partial<BulkReviewItem>) => {
+      setBulkReview((prev) =>
+        prev
+          ? {
+              ...prev,
+              items: prev.items.map((entry) =>
+                entry.key === key ? { ...entry, ...patch } : entry,
+              ),
+            }
+          : prev,
+      );
+    },
+    [],
+  );
+
+  const handleBulkCancel = useCallback(() => {
+    setBulkReview(null);
+    setSubmitting(false);
+  }, []);
+
+  const handleBulkConfirm = useCallback(async () => {
+    if (!bulkReview) return;
+    const chosen = bulkReview.items.filter((entry) => entry.include);
+    if (chosen.length === 0) {
+      Alert.alert("Nothing selected", "Keep at least one task, or cancel.");
+      return;
+    }
+    const minutesByKey = new Map<string, number>();
+    for (const entry of chosen) {
+      const minutes = Number(entry.minutes.trim());
+      if (!entry.minutes.trim() || Number.isNaN(minutes) || minutes <= 0) {
+        Alert.alert(
+          "Check duration",
+          `Add the estimated minutes for "${entry.title.trim() || entry.item.content}".`,
+        );
+        return;
+      }
+      minutesByKey.set(entry.key, Math.round(minutes));
+    }
+
+    const saved: Capture[] = [];
+    try {
+      setSubmitting(true);
+      for (const entry of chosen) {
+        try {
+          const { created } = await persistCapture(
+            entry.item.content,
+            minutesByKey.get(entry.key)!,
+            bulkReview.importance,
+            bulkItemParseResult(bulkReview.parseResult, entry),
+          );
+          saved.push(created);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+          await queueOfflineCapture(
+            entry.item.content,
+            minutesByKey.get(entry.key)!,
+            bulkReview.importance,
+          );
+        }
+      }
+
+      setBulkReview(null);
+      setIdea("");
+      setMinutesInput("");
+      setImportance(2);
+      if (saved.length === 0) return;
+      await loadPending();
+      setStatusNotice({
+        tone: "success",
+        title: "Captures saved",
+        message: `${saved.length} tasks were added to your queue.`,
+      });
+
+      for (const capture of saved) {
+        const response = await attemptSchedule(capture.id);
+        // Stop at the first conflict so its prompt is not replaced by the next.
+        if (response?.decision?.type === "preferred_conflict") break;
+      }
+    } catch (error: any) {
+      Alert.alert("Save failed", error?.message ?? "Could not save captures.");
+      if (saved.length > 0) {
+        setBulkReview(null);
+        await loadPending();
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  }, [
+    attemptSchedule,
+    bulkReview,
+    loadPending,
+    persistCapture,
+    queueOfflineCapture,
+  ]);
+
   const overdueScheduled = useMemo(
     () =>
       scheduled.filter(
@@ -1927,6 +2349,12 @@ export default function HomeTab() {
     upcomingScheduled.length - (nextUpcomingCapture ? 1 : 0),
   );
   const followUpVisible = Boolean(followUpState);
+  const followUpCanSave = Boolean(
+    pendingCapture?.parseResult?.structured?.estimated_minutes,
+  );
+  const bulkReviewVisible = Boolean(bulkReview);
+  const bulkSelectedCount =
+    bulkReview?.items.filter((entry) => entry.include).length ?? 0;
   const externalConflictVisible = Boolean(externalConflictState);
   const externalConflictSlotLabel = externalConflictState
     ? formatSlotLabel(externalConflictState.decision.preferred)
@@ -1961,6 +2389,13 @@ export default function HomeTab() {
             title: "Marked complete",
             message: `"${capture.content}" was marked as completed.`,
           });
+        } else if (action === "skipped") {
+          await invokeCaptureCompletion(capture.id, "skip");
+          setStatusNotice({
+            tone: "success",
+            title: "Occurrence skipped",
+            message: `"${capture.content}" on ${capture.occurrence_date} was skipped.`,
+          });
         } else if (action === "reschedule") {
           await invokeCaptureCompletion(capture.id, "reschedule");
           // Immediately try to schedule this capture again
@@ -1988,6 +2423,35 @@ export default function HomeTab() {
     ],
   );
 
+  const handleCheckInSubmit = useCallback(async () => {
+    if (!checkIn) return;
+    const minutes = Number.parseInt(checkIn.minutes, 10);
+    const remainingMinutes =
+      Number.isFinite(minutes) && minutes > 0 ? minutes : undefined;
+    if (remainingMinutes === undefined && checkIn.percentDone === null) {
+      Alert.alert(
+        "How much is left?",
+        "Pick how far you got or enter the minutes you still need.",
+      );
+      return;
+    }
+    const { capture } = checkIn;
+    setCheckIn(null);
+    setActionCaptureId(capture.id);
+    try {
+      const response = await scheduleTopCapture(capture.id, "progress", {
+        percentDone: checkIn.percentDone ?? undefined,
+        remainingMinutes,
+        splitRemainder: checkIn.split,
+      });
+      if (response?.decision) {
+        presentScheduleConflict(capture.id, response.decision, "schedule");
+      }
+    } finally {
+      setActionCaptureId(null);
+    }
+  }, [checkIn, presentScheduleConflict, scheduleTopCapture]);
+
   const captureForm = (
     <View style={styles.captureSection}>
       <Text style={styles.sectionTitle}>Capture</Text>
@@ -2077,6 +2541,19 @@ export default function HomeTab() {
         </Text>
       </TouchableOpacity>
 
+      {offlineCaptures.length > 0 ? (
+        <View style={{ gap: 12 }}>
+          {offlineCaptures.map((entry) => (
+            <OfflineCaptureCard
+              key={entry.localId}
+              entry={entry}
+              onReview={() => handleOfflineReview(entry)}
+              onDiscard={() => handleOfflineDiscard(entry)}
+            />
+          ))}
+        </View>
+      ) : null}
+
       {pendingLoading ? (
         <ActivityIndicator />
       ) : pendingError ? (
@@ -2190,6 +2667,19 @@ export default function HomeTab() {
                   onReschedule={() =>
                     handleCompletionAction(capture, "reschedule")
                   }
+                  onNotFinished={() =>
+                    setCheckIn({
+                      capture,
+                      percentDone: null,
+                      minutes: "",
+                      split: false,
+                    })
+                  }
+                  onSkip={
+                    capture.recurrence_parent_id
+                      ? () => handleCompletionAction(capture, "skipped")
+                      : undefined
+                  }
                 />
               ))}
               {overdueScheduled.length > overduePreview.length ? (
@@ -2219,6 +2709,15 @@ export default function HomeTab() {
           )}
         </>
       )}
+
+      {!scheduledLoading && pencilled.length > 0 ? (
+        <View style={{ gap: 12 }}>
+          <Text style={styles.sectionSubtitle}>Pencilled in</Text>
+          {pencilled.map((capture) => (
+            <PencilledCard key={capture.id} capture={capture} />
+          ))}
+        </View>
+      ) : null}
     </View>
   );
 
@@ -2332,7 +2831,7 @@ export default function HomeTab() {
           style={styles.followUpBackdrop}
         >
           <View style={styles.followUpCard}>
-            <Text style={styles.followUpTitle}>DeepSeek asks</Text>
+            <Text style={styles.followUpTitle}>DiaGuru asks</Text>
             <Text style={styles.followUpPrompt}>
               {followUpState?.prompt ??
                 "Please answer the assistant\u2019s question."}
@@ -2359,6 +2858,15 @@ export default function HomeTab() {
               >
                 <Text style={styles.tertiaryButtonText}>Cancel</Text>
               </TouchableOpacity>
+              {followUpCanSave ? (
+                <TouchableOpacity
+                  onPress={handleFollowUpSaveNow}
+                  style={styles.tertiaryButton}
+                  disabled={submitting}
+                >
+                  <Text style={styles.tertiaryButtonText}>Save now</Text>
+                </TouchableOpacity>
+              ) : null}
               <TouchableOpacity
                 onPress={handleFollowUpSubmit}
                 style={[
@@ -2376,6 +2884,205 @@ export default function HomeTab() {
         </KeyboardAvoidingView>
       </Modal>
 
+      <Modal
+        visible={bulkReviewVisible}
+        animationType="fade"
+        transparent
+        onRequestClose={handleBulkCancel}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+          style={styles.followUpBackdrop}
+        >
+          <View style={[styles.followUpCard, styles.bulkReviewCard]}>
+            <Text style={styles.followUpTitle}>
+              {bulkReview?.items.length ?? 0} tasks found
+            </Text>
+            <Text style={styles.followUpPrompt}>
+              Check each one before DiaGuru adds them to your queue.
+            </Text>
+            <ScrollView contentContainerStyle={styles.bulkReviewList}>
+              {bulkReview?.items.map((entry) => (
+                <View
+                  key={entry.key}
+                  style={[
+                    styles.bulkReviewRow,
+                    !entry.include && styles.bulkReviewRowSkipped,
+                  ]}
+                >
+                  <View style={styles.bulkReviewHeader}>
+                    <Text style={styles.followUpHint} numberOfLines={1}>
+                      {entry.item.content}
+                    </Text>
+                    <TouchableOpacity
+                      onPress={() =>
+                        updateBulkItem(entry.key, { include: !entry.include })
+                      }
+                      disabled={submitting}
+                      accessibilityRole="checkbox"
+                      accessibilityState={{ checked: entry.include }}
+                    >
+                      <Text style={styles.tertiaryButtonText}>
+                        {entry.include ? "Skip" : "Keep"}
+                      </Text>
+                    </TouchableOpacity>
+                  </View>
+                  <TextInput
+                    style={styles.followUpInput}
+                    value={entry.title}
+                    onChangeText={(title) =>
+                      updateBulkItem(entry.key, { title })
+                    }
+                    placeholder="Title"
+                    placeholderTextColor="#9CA3AF"
+                    editable={entry.include && !submitting}
+                  />
+                  <TextInput
+                    style={[styles.followUpInput, styles.bulkReviewMinutes]}
+                    value={entry.minutes}
+                    onChangeText={(minutes) =>
+                      updateBulkItem(entry.key, { minutes })
+                    }
+                    placeholder="Minutes"
+                    placeholderTextColor="#9CA3AF"
+                    keyboardType="number-pad"
+                    editable={entry.include && !submitting}
+                  />
+                </View>
+              ))}
+            </ScrollView>
+            <View style={styles.followUpActions}>
+              <TouchableOpacity
+                onPress={handleBulkCancel}
+                style={styles.tertiaryButton}
+                disabled={submitting}
+              >
+                <Text style={styles.tertiaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleBulkConfirm}
+                style={[
+                  styles.confirmButton,
+                  (submitting || bulkSelectedCount === 0) &&
+                    styles.confirmButtonDisabled,
+                ]}
+                disabled={submitting || bulkSelectedCount === 0}
+              >
+                <Text style={styles.confirmButtonText}>
+                  {submitting
+                    ? "Saving..."
+                    : `Save ${bulkSelectedCount} ${bulkSelectedCount === 1 ? "task" : "tasks"}`}
+                </Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
+      <Modal
+        visible={Boolean(checkIn)}
+        animationType="fade"
+        transparent
+        onRequestClose={() => setCheckIn(null)}
+      >
+        <KeyboardAvoidingView
+          behavior={Platform.OS === "ios" ? "padding" : undefined}
+          style={styles.followUpBackdrop}
+        >
+          <View style={styles.followUpCard}>
+            <Text style={styles.followUpTitle}>How far did you get?</Text>
+            <Text style={styles.followUpPrompt}>
+              {checkIn
+                ? `DiaGuru will schedule only what is left of "${checkIn.capture.content}".`
+                : ""}
+            </Text>
+            <View style={styles.importanceRow}>
+              {CHECK_IN_PERCENTAGES.map((percent) => {
+                const active = checkIn?.percentDone === percent;
+                return (
+                  <TouchableOpacity
+                    key={percent}
+                    style={[
+                      styles.importanceChip,
+                      active && styles.importanceChipActive,
+                    ]}
+                    onPress={() =>
+                      setCheckIn((current) =>
+                        current
+                          ? {
+                              ...current,
+                              percentDone: active ? null : percent,
+                            }
+                          : current,
+                      )
+                    }
+                  >
+                    <Text
+                      style={[
+                        styles.importanceChipText,
+                        active && styles.importanceChipTextActive,
+                      ]}
+                    >
+                      {percent}% done
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <TextInput
+              style={styles.followUpInput}
+              value={checkIn?.minutes ?? ""}
+              onChangeText={(minutes) =>
+                setCheckIn((current) =>
+                  current ? { ...current, minutes } : current,
+                )
+              }
+              placeholder="Or minutes still needed"
+              placeholderTextColor="#9CA3AF"
+              keyboardType="number-pad"
+            />
+            <View style={styles.importanceRow}>
+              <TouchableOpacity
+                style={[
+                  styles.importanceChip,
+                  checkIn?.split && styles.importanceChipActive,
+                ]}
+                onPress={() =>
+                  setCheckIn((current) =>
+                    current ? { ...current, split: !current.split } : current,
+                  )
+                }
+                accessibilityRole="checkbox"
+                accessibilityState={{ checked: Boolean(checkIn?.split) }}
+              >
+                <Text
+                  style={[
+                    styles.importanceChipText,
+                    checkIn?.split && styles.importanceChipTextActive,
+                  ]}
+                >
+                  Keep the finished part as its own session
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.followUpActions}>
+              <TouchableOpacity
+                onPress={() => setCheckIn(null)}
+                style={styles.tertiaryButton}
+              >
+                <Text style={styles.tertiaryButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={handleCheckInSubmit}
+                style={styles.confirmButton}
+              >
+                <Text style={styles.confirmButtonText}>Schedule the rest</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </KeyboardAvoidingView>
+      </Modal>
+
       <Modal
         visible={externalConflictVisible}
         animationType="fade"
@@ -2483,16 +3190,68 @@ function CaptureCard({ capture, rank }: { capture: Capture; rank: number }) {
   );
 }
 
+function OfflineCaptureCard({
+  entry,
+  onReview,
+  onDiscard,
+}: {
+  entry: OfflineCapture;
+  onReview: () => void;
+  onDiscard: () => void;
+}) {
+  const needsDetails = entry.status === "needs_details";
+  return (
+    <View style={[styles.captureCard, styles.offlineCard]}>
+      <View style={styles.captureCardHeader}>
+        <Text style={[styles.captureTitle, styles.captureTitleFlex]}>
+          {entry.content}
+        </Text>
+        <Text
+          style={[
+            styles.offlineBadge,
+            needsDetails && styles.offlineBadgeWarning,
+          ]}
+        >
+          {needsDetails ? "Needs details" : "Waiting to sync"}
+        </Text>
+      </View>
+      <Text style={styles.captureMeta}>
+        {"Importance: " +
+          (IMPORTANCE_LEVELS.find((it) => it.value === entry.importance)
+            ?.label ?? "Medium")}
+        {entry.estimatedMinutes ? " | ~" + entry.estimatedMinutes + " min" : ""}
+      </Text>
+      {needsDetails && entry.lastError ? (
+        <Text style={styles.captureMeta}>{entry.lastError}</Text>
+      ) : null}
+      <View style={styles.offlineActions}>
+        {needsDetails ? (
+          <TouchableOpacity onPress={onReview} style={styles.secondaryButton}>
+            <Text style={styles.secondaryButtonText}>Edit</Text>
+          </TouchableOpacity>
+        ) : null}
+        <TouchableOpacity onPress={onDiscard} style={styles.secondaryButton}>
+          <Text style={styles.secondaryButtonText}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
 function ScheduledCard({
   capture,
   pendingAction,
   onComplete,
   onReschedule,
+  onNotFinished,
+  onSkip,
 }: {
   capture: Capture;
   pendingAction: boolean;
   onComplete: () => void;
   onReschedule: () => void;
+  onNotFinished?: () => void;
+  onSkip?: () => void;
 }) {
   const start = capture.planned_start ? new Date(capture.planned_start) : null;
   const end = capture.planned_end ? new Date(capture.planned_end) : null;
@@ -2545,6 +3304,46 @@ function ScheduledCard({
             Reschedule
           </Text>
         </TouchableOpacity>
+        {onNotFinished ? (
+          <TouchableOpacity
+            style={[
+              styles.secondaryButton,
+              { flex: 1 },
+              pendingAction && styles.primaryButtonDisabled,
+            ]}
+            onPress={onNotFinished}
+            disabled={pendingAction}
+          >
+            <Text
+              style={[
+                styles.secondaryButtonText,
+                pendingAction && styles.secondaryButtonTextDisabled,
+              ]}
+            >
+              Not finished
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+        {onSkip ? (
+          <TouchableOpacity
+            style={[
+              styles.secondaryButton,
+              { flex: 1 },
+              pendingAction && styles.primaryButtonDisabled,
+            ]}
+            onPress={onSkip}
+            disabled={pendingAction}
+          >
+            <Text
+              style={[
+                styles.secondaryButtonText,
+                pendingAction && styles.secondaryButtonTextDisabled,
+              ]}
+            >
+              Skip
+            </Text>
+          </TouchableOpacity>
+        ) : null}
       </View>
       <TouchableOpacity
         style={styles.whyLink}
@@ -2556,6 +3355,24 @@ function ScheduledCard({
   );
 }
 
+// A far-deadline capture with a tentative slot; it reaches the calendar once
+// the commitment window gets to it.
+function PencilledCard({ capture }: { capture: Capture }) {
+  const label = formatCaptureScheduleSummary(capture);
+  const reasonPreview = getScheduleReasonPreview(capture, 1)[0] ?? null;
+  return (
+    <View style={styles.captureCard}>
+      <Text style={styles.captureTitle}>{capture.content}</Text>
+      <Text style={styles.captureMeta}>
+        {label ? `Tentatively ${label}` : "Tentative time unavailable"}
+      </Text>
+      {reasonPreview ? (
+        <Text style={styles.captureReasonPreview}>{reasonPreview}</Text>
+      ) : null}
+    </View>
+  );
+}
+
 function ScheduledSummaryCard({ capture }: { capture: Capture }) {
   const start = capture.planned_start ? new Date(capture.planned_start) : null;
   const end = capture.planned_end ? new Date(capture.planned_end) : null;
@@ -2840,6 +3657,19 @@ const styles = StyleSheet.create({
   captureTitle: { fontSize: 16, fontWeight: "600", color: "#111827" },
   captureTitleFlex: { flex: 1 },
   captureMeta: { color: "#475569" },
+  offlineCard: { borderStyle: "dashed", backgroundColor: "#F8FAFC" },
+  offlineBadge: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#1D4ED8",
+    backgroundColor: "#DBEAFE",
+    borderRadius: 999,
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    overflow: "hidden",
+  },
+  offlineBadgeWarning: { color: "#B45309", backgroundColor: "#FEF3C7" },
+  offlineActions: { flexDirection: "row", justifyContent: "flex-end", gap: 8 },
   captureReasonPreview: {
     color: "#334155",
     lineHeight: 20,
@@ -2902,6 +3732,30 @@ const styles = StyleSheet.create({
     color: "#111827",
     backgroundColor: "#FFFFFF",
   },
+  bulkReviewCard: {
+    maxHeight: "85%",
+  },
+  bulkReviewList: {
+    gap: 12,
+  },
+  bulkReviewRow: {
+    gap: 8,
+    paddingBottom: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: "#E2E8F0",
+  },
+  bulkReviewRowSkipped: {
+    opacity: 0.5,
+  },
+  bulkReviewHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    gap: 12,
+  },
+  bulkReviewMinutes: {
+    width: 120,
+  },
   followUpActions: {
     flexDirection: "row",
     justifyContent: "flex-end",
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import {
   Alert,
   ActivityIndicator,
@@ -10,19 +10,48 @@ import {
 } from 'react-native';
 import { SafeAreaView, useSafeAreaInsets } from 'react-native-safe-area-context';
 
+import { SchedulerPreferencesCard } from '@/components/SchedulerPreferencesCard';
+import { useSupabaseSession } from '@/hooks/useSupabaseSession';
+import { type CalendarListEntry, fetchCalendars, saveBusyCalendars } from '@/lib/calendar';
 import type { ParseMode } from '@/lib/capture';
 import { requestNotificationPermission, scheduleIn, sendLocal } from '../../lib/notifications';
-import { getAssistantModePreference } from '@/lib/preferences';
+import { getAssistantModePreference, setAssistantModePreference } from '@/lib/preferences';
+import { registerPushDevice } from '@/lib/push-devices';
+
+const ASSISTANT_MODES: { mode: ParseMode; title: string; description: string }[] = [
+  {
+    mode: 'conversational_strict',
+    title: 'Conversational strict',
+    description:
+      'Reads captures with the configured language model and asks one clarifying question when details are missing.',
+  },
+  {
+    mode: 'local_rules',
+    title: 'Local rules',
+    description:
+      'Reads captures with built-in grammar rules, so task text never reaches a language model. Works best with plain phrasing like "call mom tomorrow at 3".',
+  },
+];
 
 export default function SettingsScreen() {
   const [status, setStatus] = useState<'unknown' | 'granted' | 'denied'>('unknown');
   const [assistantMode, setAssistantMode] = useState<ParseMode>('conversational_strict');
   const [modeLoading, setModeLoading] = useState(true);
+  const [calendars, setCalendars] = useState<CalendarListEntry[]>([]);
+  const [calendarsLoading, setCalendarsLoading] = useState(true);
+  const [calendarsError, setCalendarsError] = useState<string | null>(null);
+  const [savingCalendarId, setSavingCalendarId] = useState<string | null>(null);
   const insets = useSafeAreaInsets();
+  const { session } = useSupabaseSession();
 
   const ask = async () => {
     const ok = await requestNotificationPermission();
     setStatus(ok ? 'granted' : 'denied');
+    if (ok && session?.user) {
+      registerPushDevice(session.user.id).catch((error) =>
+        console.log('push device registration failed', error),
+      );
+    }
     Alert.alert(ok ? 'Notifications enabled' : 'Permission denied');
   };
 
@@ -34,6 +63,52 @@ export default function SettingsScreen() {
     })();
   }, []);
 
+  const chooseAssistantMode = useCallback(async (mode: ParseMode) => {
+    setAssistantMode(mode);
+    await setAssistantModePreference(mode);
+  }, []);
+
+  useEffect(() => {
+    fetchCalendars()
+      .then((entries) => {
+        setCalendars(entries);
+        setCalendarsError(null);
+      })
+      .catch((error) => {
+        console.log('calendar list error', error);
+        setCalendarsError('Connect Google Calendar to choose which calendars count as busy.');
+      })
+      .finally(() => setCalendarsLoading(false));
+  }, []);
+
+  const toggleBusyCalendar = useCallback(
+    async (calendar: CalendarListEntry) => {
+      if (calendar.isTarget || savingCalendarId) return;
+      const nextIds = calendars
+        .filter((entry) => !entry.isTarget)
+        .filter((entry) =>
+          entry.id === calendar.id ? !calendar.countsAsBusy : entry.countsAsBusy,
+        )
+        .map((entry) => entry.id);
+      setSavingCalendarId(calendar.id);
+      try {
+        const saved = await saveBusyCalendars(nextIds);
+        setCalendars((prev) =>
+          prev.map((entry) => ({
+            ...entry,
+            countsAsBusy: entry.isTarget || saved.includes(entry.id),
+          })),
+        );
+      } catch (error) {
+        console.log('save busy calendars error', error);
+        Alert.alert('Could not update calendars', 'Please try again in a moment.');
+      } finally {
+        setSavingCalendarId(null);
+      }
+    },
+    [calendars, savingCalendarId],
+  );
+
   return (
     <SafeAreaView style={[styles.safeArea, { paddingTop: Math.max(insets.top, 16) }]}>
       <ScrollView
@@ -44,33 +119,82 @@ export default function SettingsScreen() {
           <Text style={styles.eyebrow}>Settings</Text>
           <Text style={styles.heroTitle}>Tune notifications and assistant behavior.</Text>
           <Text style={styles.heroSubtitle}>
-            DiaGuru currently uses a single conversational mode, so this screen is mostly about staying
-            informed and keeping reminders reliable.
+            Choose how captures are read, which calendars count as busy, and keep reminders
+            reliable.
           </Text>
         </View>
 
         <View style={styles.card}>
           <Text style={styles.sectionTitle}>Assistant mode</Text>
           <Text style={styles.sectionSubtitle}>
-            The assistant runs in conversational strict mode and asks one clarifying question using
-            DeepSeek when details are missing.
+            Pick how DiaGuru turns a capture into a task. New captures use the selected mode.
+          </Text>
+
+          {ASSISTANT_MODES.map((option) => {
+            const active = option.mode === assistantMode;
+            return (
+              <TouchableOpacity
+                key={option.mode}
+                style={[styles.modeCard, active && styles.modeCardActive]}
+                onPress={() => chooseAssistantMode(option.mode)}
+                disabled={modeLoading}
+                accessibilityRole="radio"
+                accessibilityState={{ checked: active, disabled: modeLoading }}
+              >
+                <View style={styles.modeHeader}>
+                  <Text style={styles.modeTitle}>{option.title}</Text>
+                  {active ? (
+                    <View style={styles.modePill}>
+                      <Text style={styles.modePillText}>Active</Text>
+                    </View>
+                  ) : null}
+                  {modeLoading && active ? <ActivityIndicator size="small" color="#334155" /> : null}
+                </View>
+                <Text style={styles.modeDescription}>{option.description}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+
+        <SchedulerPreferencesCard userId={session?.user.id ?? null} />
+
+        <View style={styles.card}>
+          <Text style={styles.sectionTitle}>Busy calendars</Text>
+          <Text style={styles.sectionSubtitle}>
+            DiaGuru avoids busy time on every calendar selected here, not just the one it schedules
+            into.
           </Text>
 
-          <View style={styles.modeCard}>
-            <View style={styles.modeHeader}>
-              <View style={styles.modePill}>
-                <Text style={styles.modePillText}>Active</Text>
+          {calendarsLoading ? <ActivityIndicator size="small" color="#334155" /> : null}
+          {calendarsError ? <Text style={styles.modeStatus}>{calendarsError}</Text> : null}
+          {calendars.map((calendar) => (
+            <TouchableOpacity
+              key={calendar.id}
+              style={styles.calendarRow}
+              onPress={() => toggleBusyCalendar(calendar)}
+              disabled={calendar.isTarget || savingCalendarId !== null}
+              accessibilityRole="checkbox"
+              accessibilityState={{ checked: calendar.countsAsBusy, disabled: calendar.isTarget }}
+            >
+              <View
+                style={[
+                  styles.calendarSwatch,
+                  { backgroundColor: calendar.backgroundColor ?? '#CBD5E1' },
+                ]}
+              />
+              <View style={styles.calendarText}>
+                <Text style={styles.calendarName}>{calendar.summary}</Text>
+                {calendar.isTarget ? (
+                  <Text style={styles.modeStatus}>DiaGuru schedules here</Text>
+                ) : null}
               </View>
-              {modeLoading ? <ActivityIndicator size="small" color="#334155" /> : null}
-            </View>
-            <Text style={styles.modeTitle}>Conversational strict</Text>
-            <Text style={styles.modeDescription}>
-              DeepSeek only, with no deterministic fallback.
-            </Text>
-            <Text style={styles.modeStatus}>
-              Current mode: {assistantMode === 'conversational_strict' ? 'Conversational strict' : assistantMode}
-            </Text>
-          </View>
+              {savingCalendarId === calendar.id ? (
+                <ActivityIndicator size="small" color="#334155" />
+              ) : (
+                <Text style={styles.statusValue}>{calendar.countsAsBusy ? 'Busy' : 'Ignored'}</Text>
+              )}
+            </TouchableOpacity>
+          ))}
         </View>
 
         <View style={styles.card}>
@@ -172,6 +296,9 @@ const styles = StyleSheet.create({
     borderWidth: 1,
     borderColor: '#E2E8F0',
   },
+  modeCardActive: {
+    borderColor: '#111827',
+  },
   modeHeader: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -237,6 +364,26 @@ const styles = StyleSheet.create({
     fontSize: 15,
     fontWeight: '600',
   },
+  calendarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 6,
+  },
+  calendarSwatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+  },
+  calendarText: {
+    flex: 1,
+    gap: 2,
+  },
+  calendarName: {
+    color: '#111827',
+    fontSize: 15,
+    fontWeight: '600',
+  },
   statusRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3,6 +3,7 @@ import { Stack, useRouter, useSegments } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { useEffect } from 'react';
 import 'react-native-reanimated';
+import { listenForNotificationActions } from '../lib/notification-actions';
 import { supabase } from '../lib/supabase';
 
 function AuthGate() {
@@ -22,6 +23,8 @@ function AuthGate() {
 }
 
 export default function RootLayout() {
+  useEffect(() => listenForNotificationActions(), []);
+
   return (
     <ThemeProvider value={DefaultTheme}>
       <AuthGate />
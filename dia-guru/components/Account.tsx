@@ -1,5 +1,12 @@
-import { connectGoogleCalendar } from '@/lib/google-connect';
+import {
+  CALENDAR_PROVIDER_LABELS,
+  type CalendarProvider,
+  connectCalendar,
+  linkCalDavCalendar,
+  OAUTH_CALENDAR_PROVIDERS,
+} from '@/lib/google-connect';
 import { fetchProfile, upsertProfile } from '@/lib/profile';
+import { unregisterPushDevice } from '@/lib/push-devices';
 import { Session } from '@supabase/supabase-js';
 import { useCallback, useEffect, useState } from 'react';
 import {
@@ -27,8 +34,12 @@ export default function Account({ session }: { session: Session }) {
 
   const [linking, setLinking] = useState(false);
   const [checkingGoogle, setCheckingGoogle] = useState(false);
-  const [googleLinked, setGoogleLinked] = useState(false);
+  const [linkedProviders, setLinkedProviders] = useState<CalendarProvider[]>([]);
   const [googleError, setGoogleError] = useState<string | null>(null);
+  const [caldavUrl, setCaldavUrl] = useState('');
+  const [caldavUsername, setCaldavUsername] = useState('');
+  const [caldavPassword, setCaldavPassword] = useState('');
+  const [linkingCalDav, setLinkingCalDav] = useState(false);
 
   const userId = session?.user?.id;
 
@@ -60,15 +71,17 @@ export default function Account({ session }: { session: Session }) {
     try {
       const { data, error } = await supabase
         .from('calendar_accounts')
-        .select('id')
-        .eq('user_id', userId)
-        .eq('provider', 'google')
-        .maybeSingle();
+        .select('provider')
+        .eq('user_id', userId);
       if (error) throw error;
-      setGoogleLinked(!!data);
+      setLinkedProviders(
+        (data ?? [])
+          .map((row) => row.provider as CalendarProvider)
+          .filter((provider) => provider in CALENDAR_PROVIDER_LABELS),
+      );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
-      setGoogleLinked(false);
+      setLinkedProviders([]);
       setGoogleError(message);
     } finally {
       setCheckingGoogle(false);
@@ -122,24 +135,58 @@ export default function Account({ session }: { session: Session }) {
     }
   }
 
-  async function handleConnectGoogle() {
+  async function handleConnect(provider: CalendarProvider) {
+    const label = CALENDAR_PROVIDER_LABELS[provider];
     try {
       setLinking(true);
       setGoogleError(null);
-      await connectGoogleCalendar();
+      await connectCalendar(provider);
       Alert.alert(
         'Check your browser',
-        'Approve Google Calendar access, then return to DiaGuru to finish linking.',
+        `Approve ${label} access, then return to DiaGuru to finish linking.`,
       );
     } catch (error) {
       const message = error instanceof Error ? error.message : String(error);
       setGoogleError(message);
-      Alert.alert('Google connect failed', message);
+      Alert.alert(`${label} connect failed`, message);
     } finally {
       setLinking(false);
     }
   }
 
+  async function handleLinkCalDav() {
+    if (!caldavUrl.trim() || !caldavUsername.trim() || !caldavPassword) {
+      Alert.alert('Missing details', 'Enter the calendar URL, username and app password.');
+      return;
+    }
+    try {
+      setLinkingCalDav(true);
+      setGoogleError(null);
+      const result = await linkCalDavCalendar({
+        calendarUrl: caldavUrl,
+        username: caldavUsername,
+        password: caldavPassword,
+      });
+      setCaldavPassword('');
+      Alert.alert(
+        'CalDAV calendar linked',
+        `DiaGuru will schedule into ${result.displayName ?? result.calendarUrl}.`,
+      );
+      await refreshGoogleStatus();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      setGoogleError(message);
+      Alert.alert('CalDAV link failed', message);
+    } finally {
+      setLinkingCalDav(false);
+    }
+  }
+
+  const calendarLinked = linkedProviders.length > 0;
+  const linkedLabel = linkedProviders
+    .map((provider) => CALENDAR_PROVIDER_LABELS[provider])
+    .join(' and ');
+
   return (
     <SafeAreaView style={styles.safeArea}>
       <KeyboardAvoidingView
@@ -155,13 +202,13 @@ export default function Account({ session }: { session: Session }) {
             <Text style={styles.eyebrow}>Profile</Text>
             <Text style={styles.heroTitle}>Keep DiaGuru connected to the right account.</Text>
             <Text style={styles.heroSubtitle}>
-              Update your profile details, check Google Calendar status, and stay ready for scheduling
+              Update your profile details, check your calendar status, and stay ready for scheduling
               without bouncing between screens.
             </Text>
             <View style={styles.statusRow}>
-              <View style={[styles.statusPill, googleLinked ? styles.statusPillSuccess : styles.statusPillNeutral]}>
-                <Text style={[styles.statusPillText, googleLinked && styles.statusPillTextSuccess]}>
-                  {googleLinked ? 'Google Calendar linked' : 'Google Calendar not linked'}
+              <View style={[styles.statusPill, calendarLinked ? styles.statusPillSuccess : styles.statusPillNeutral]}>
+                <Text style={[styles.statusPillText, calendarLinked && styles.statusPillTextSuccess]}>
+                  {calendarLinked ? `${linkedLabel} linked` : 'No calendar linked'}
                 </Text>
               </View>
             </View>
@@ -216,15 +263,16 @@ export default function Account({ session }: { session: Session }) {
           </View>
 
           <View style={styles.card}>
-            <Text style={styles.sectionTitle}>Google Calendar</Text>
+            <Text style={styles.sectionTitle}>Calendar</Text>
             <Text style={styles.sectionSubtitle}>
-              Link the calendar that should receive DiaGuru sessions and health checks.
+              Link the Google, Outlook or CalDAV calendar that should receive DiaGuru sessions and
+              health checks.
             </Text>
 
             <View style={styles.statusList}>
               <View style={styles.statusRowCompact}>
                 <Text style={styles.statusLabel}>Linked</Text>
-                <Text style={styles.statusValue}>{googleLinked ? 'Yes' : 'No'}</Text>
+                <Text style={styles.statusValue}>{calendarLinked ? linkedLabel : 'No'}</Text>
               </View>
               <View style={styles.statusRowCompact}>
                 <Text style={styles.statusLabel}>Last check</Text>
@@ -235,25 +283,32 @@ export default function Account({ session }: { session: Session }) {
             {googleError ? <Text style={styles.errorText}>{googleError}</Text> : null}
 
             <View style={styles.buttonStack}>
-              <TouchableOpacity
-                style={[
-                  styles.primaryButton,
-                  (linking || checkingGoogle || googleLinked) && styles.buttonDisabled,
-                ]}
-                disabled={linking || checkingGoogle || googleLinked}
-                onPress={handleConnectGoogle}
-                accessibilityRole="button"
-              >
-                <Text style={styles.primaryButtonText}>
-                  {linking
-                    ? 'Opening browser...'
-                    : checkingGoogle
-                      ? 'Checking status...'
-                      : googleLinked
-                        ? 'Google Calendar connected'
-                        : 'Connect Google Calendar'}
-                </Text>
-              </TouchableOpacity>
+              {OAUTH_CALENDAR_PROVIDERS.map((provider) => {
+                const linked = linkedProviders.includes(provider);
+                const label = CALENDAR_PROVIDER_LABELS[provider];
+                return (
+                  <TouchableOpacity
+                    key={provider}
+                    style={[
+                      styles.primaryButton,
+                      (linking || checkingGoogle || linked) && styles.buttonDisabled,
+                    ]}
+                    disabled={linking || checkingGoogle || linked}
+                    onPress={() => handleConnect(provider)}
+                    accessibilityRole="button"
+                  >
+                    <Text style={styles.primaryButtonText}>
+                      {linking
+                        ? 'Opening browser...'
+                        : checkingGoogle
+                          ? 'Checking status...'
+                          : linked
+                            ? `${label} connected`
+                            : `Connect ${label}`}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
               <TouchableOpacity
                 style={[styles.secondaryButton, checkingGoogle && styles.buttonDisabled]}
                 onPress={refreshGoogleStatus}
@@ -267,9 +322,76 @@ export default function Account({ session }: { session: Session }) {
             </View>
           </View>
 
+          <View style={styles.card}>
+            <Text style={styles.sectionTitle}>CalDAV calendar</Text>
+            <Text style={styles.sectionSubtitle}>
+              For Nextcloud, Fastmail and other CalDAV servers. Use the calendar&apos;s CalDAV URL and
+              an app password, not your main password. Linking again replaces the saved password.
+            </Text>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Calendar URL</Text>
+              <TextInput
+                value={caldavUrl}
+                onChangeText={setCaldavUrl}
+                placeholder="https://cloud.example.com/remote.php/dav/calendars/me/personal/"
+                placeholderTextColor="#94A3B8"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                style={styles.input}
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>Username</Text>
+              <TextInput
+                value={caldavUsername}
+                onChangeText={setCaldavUsername}
+                placeholder="you@example.com"
+                placeholderTextColor="#94A3B8"
+                autoCapitalize="none"
+                autoCorrect={false}
+                style={styles.input}
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Text style={styles.label}>App password</Text>
+              <TextInput
+                value={caldavPassword}
+                onChangeText={setCaldavPassword}
+                placeholder="App password"
+                placeholderTextColor="#94A3B8"
+                autoCapitalize="none"
+                autoCorrect={false}
+                secureTextEntry
+                style={styles.input}
+              />
+            </View>
+
+            <TouchableOpacity
+              style={[styles.primaryButton, linkingCalDav && styles.buttonDisabled]}
+              onPress={handleLinkCalDav}
+              disabled={linkingCalDav}
+              accessibilityRole="button"
+            >
+              <Text style={styles.primaryButtonText}>
+                {linkingCalDav
+                  ? 'Checking calendar...'
+                  : linkedProviders.includes('caldav')
+                    ? 'Update CalDAV calendar'
+                    : 'Link CalDAV calendar'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+
           <TouchableOpacity
             style={styles.dangerButton}
-            onPress={() => supabase.auth.signOut()}
+            onPress={async () => {
+              await unregisterPushDevice();
+              await supabase.auth.signOut();
+            }}
             accessibilityRole="button"
           >
             <Text style={styles.dangerButtonText}>Sign out</Text>
@@ -1,6 +1,12 @@
 import { ActivityIndicator, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 
-import type { CalendarHealth } from '@/lib/google-connect';
+import type { CalendarHealth, CalendarProvider } from '@/lib/google-connect';
+
+const PROVIDER_LABELS: Record<CalendarProvider, string> = {
+  google: 'Google Calendar',
+  outlook: 'Outlook Calendar',
+  caldav: 'CalDAV Calendar',
+};
 
 type Props = {
   health: CalendarHealth | null;
@@ -19,6 +25,7 @@ export function CalendarHealthNotice({
 }: Props) {
   const showBanner = health?.status === 'needs_reconnect';
   const showError = Boolean(error);
+  const providerLabel = PROVIDER_LABELS[health?.provider ?? 'google'];
 
   if (!showBanner && !showError) {
     return null;
@@ -36,7 +43,7 @@ export function CalendarHealthNotice({
           </View>
           <Text style={styles.noticeTitle}>Calendar check failed</Text>
           <Text style={styles.noticeText}>
-            {error ?? 'We could not verify your Google Calendar link right now.'}
+            {error ?? `We could not verify your ${providerLabel} link right now.`}
           </Text>
           <TouchableOpacity
             onPress={onRetry}
@@ -57,7 +64,7 @@ export function CalendarHealthNotice({
             </View>
             {checking ? <ActivityIndicator size="small" color="#92400E" /> : null}
           </View>
-          <Text style={styles.noticeTitle}>Reconnect Google Calendar</Text>
+          <Text style={styles.noticeTitle}>{`Reconnect ${providerLabel}`}</Text>
           <Text style={styles.noticeText}>
             DiaGuru needs access to your calendar to plan sessions automatically. Reconnect now to
             resume scheduling.
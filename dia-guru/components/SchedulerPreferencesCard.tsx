@@ -0,0 +1,517 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ActivityIndicator, Alert, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import {
+  bandsFor,
+  CAP_TASK_TYPES,
+  type Chronotype,
+  CHRONOTYPES,
+  commitmentWindowFor,
+  dailyCapFor,
+  DEFAULT_BUFFER_MINUTES,
+  DEFAULT_MAX_MOVES_PER_RUN,
+  DEFAULT_TIME_OF_DAY_BANDS,
+  fetchSchedulerPreferences,
+  isValidWorkingHours,
+  REMINDER_KINDS,
+  reminderLeadFor,
+  saveSchedulerPreferences,
+  type SchedulerPreferences,
+  type WeekdayKey,
+  WEEKDAYS,
+  weeklyCapFor,
+  workingHoursFor,
+} from '@/lib/scheduler-preferences';
+
+type Props = {
+  userId: string | null;
+};
+
+const WEEKDAY_LABELS: Record<WeekdayKey, string> = {
+  mon: 'Mon',
+  tue: 'Tue',
+  wed: 'Wed',
+  thu: 'Thu',
+  fri: 'Fri',
+  sat: 'Sat',
+  sun: 'Sun',
+};
+
+const CHRONOTYPE_LABELS: Record<Chronotype, string> = {
+  early: 'Early bird',
+  intermediate: 'In between',
+  late: 'Night owl',
+};
+
+const HOUR_STEP = 0.5;
+const REMINDER_LEAD_STEPS = [0, 5, 10, 15, 30, 45, 60, 90, 120];
+const DAILY_CAP_STEP = 30;
+const MAX_DAILY_CAP = 12 * 60;
+const WEEKLY_CAP_STEP = 5 * 60;
+const MAX_WEEKLY_CAP = 80 * 60;
+// The server only searches a week ahead, so the window cannot be longer.
+const MAX_COMMITMENT_WINDOW_DAYS = 7;
+const EMPTY_HOURS_NOTICE = 'Working hours must start and end at different times.';
+
+function formatHour(hour: number) {
+  const whole = Math.floor(hour);
+  const minutes = Math.round((hour - whole) * 60);
+  return `${String(whole).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function formatTaskType(taskType: string) {
+  return taskType.replace(/_/g, ' ');
+}
+
+function formatLead(minutes: number) {
+  if (minutes <= 0) return 'Off';
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${minutes} min`;
+}
+
+function formatCap(minutes: number) {
+  if (minutes <= 0) return 'No cap';
+  return minutes % 60 === 0 ? `${minutes / 60} h` : `${(minutes / 60).toFixed(1)} h`;
+}
+
+type StepperProps = {
+  label: string;
+  onDecrement: () => void;
+  onIncrement: () => void;
+};
+
+function Stepper({ label, onDecrement, onIncrement }: StepperProps) {
+  return (
+    <View style={styles.stepper}>
+      <TouchableOpacity onPress={onDecrement} style={styles.stepButton} accessibilityRole="button">
+        <Text style={styles.stepButtonText}>-</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepValue}>{label}</Text>
+      <TouchableOpacity onPress={onIncrement} style={styles.stepButton} accessibilityRole="button">
+        <Text style={styles.stepButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+export function SchedulerPreferencesCard({ userId }: Props) {
+  const [prefs, setPrefs] = useState<SchedulerPreferences | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [dirty, setDirty] = useState(false);
+  const [hoursNotice, setHoursNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!userId) {
+      setLoading(false);
+      return;
+    }
+    fetchSchedulerPreferences(userId)
+      .then(setPrefs)
+      .catch((error) => console.log('scheduler preferences load error', error))
+      .finally(() => setLoading(false));
+  }, [userId]);
+
+  const update = useCallback((next: (current: SchedulerPreferences) => SchedulerPreferences) => {
+    setPrefs((current) => (current ? next(current) : current));
+    setDirty(true);
+  }, []);
+
+  const shiftWorkingHours = (day: WeekdayKey, edge: 'start_hour' | 'end_hour', delta: number) => {
+    if (!prefs) return;
+    const hours = { ...workingHoursFor(prefs, day) };
+    // Steps wrap around midnight; an end before the start is a night shift.
+    hours[edge] = (hours[edge] + delta + 24) % 24;
+    if (edge === 'end_hour' && hours.end_hour === 0) hours.end_hour = 24;
+    if (!isValidWorkingHours(hours)) {
+      setHoursNotice(EMPTY_HOURS_NOTICE);
+      return;
+    }
+    setHoursNotice(null);
+    update((current) => ({
+      ...current,
+      working_hours: { ...current.working_hours, [day]: hours },
+    }));
+  };
+
+  const shiftBand = (taskType: string, edge: 'start' | 'end', delta: number) =>
+    update((current) => {
+      const [first, ...rest] = bandsFor(current, taskType);
+      if (!first) return current;
+      const band = { ...first, [edge]: Math.min(24, Math.max(0, first[edge] + delta)) };
+      if (band.start >= band.end) return current;
+      return {
+        ...current,
+        time_of_day_bands: { ...current.time_of_day_bands, [taskType]: [band, ...rest] },
+      };
+    });
+
+  const shiftNumber = (
+    field: 'buffer_minutes' | 'max_moves_per_run',
+    fallback: number,
+    delta: number,
+    max: number,
+  ) =>
+    update((current) => ({
+      ...current,
+      [field]: Math.min(max, Math.max(0, (current[field] ?? fallback) + delta)),
+    }));
+
+  const shiftDailyCap = (taskType: string, delta: number) =>
+    update((current) => ({
+      ...current,
+      daily_cap_minutes: {
+        ...current.daily_cap_minutes,
+        [taskType]: Math.min(MAX_DAILY_CAP, Math.max(0, dailyCapFor(current, taskType) + delta)),
+      },
+    }));
+
+  const shiftWeeklyCap = (delta: number) =>
+    update((current) => ({
+      ...current,
+      weekly_cap_minutes: Math.min(MAX_WEEKLY_CAP, Math.max(0, weeklyCapFor(current) + delta)),
+    }));
+
+  const shiftCommitmentWindow = (delta: number) =>
+    update((current) => ({
+      ...current,
+      commitment_window_days: Math.min(
+        MAX_COMMITMENT_WINDOW_DAYS,
+        Math.max(1, commitmentWindowFor(current) + delta),
+      ),
+    }));
+
+  // Cycles Learned -> Early bird -> In between -> Night owl.
+  const shiftChronotype = (direction: 1 | -1) =>
+    update((current) => {
+      const options = [null, ...CHRONOTYPES];
+      const index = options.indexOf(current.chronotype);
+      const next = options[(index + direction + options.length) % options.length];
+      return { ...current, chronotype: next };
+    });
+
+  // Steps through REMINDER_LEAD_STEPS from wherever the current lead sits.
+  const shiftReminderLead = (kind: string, direction: 1 | -1) =>
+    update((current) => {
+      const lead = reminderLeadFor(current, kind);
+      const next =
+        direction > 0
+          ? REMINDER_LEAD_STEPS.find((step) => step > lead)
+          : [...REMINDER_LEAD_STEPS].reverse().find((step) => step < lead);
+      if (next === undefined) return current;
+      return {
+        ...current,
+        reminder_lead_minutes: { ...current.reminder_lead_minutes, [kind]: next },
+      };
+    });
+
+  const handleSave = async () => {
+    if (!prefs || saving) return;
+    setSaving(true);
+    try {
+      await saveSchedulerPreferences(prefs);
+      setDirty(false);
+    } catch (error) {
+      console.log('scheduler preferences save error', error);
+      Alert.alert('Could not save preferences', 'Please try again in a moment.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.sectionTitle}>Working hours</Text>
+      <Text style={styles.sectionSubtitle}>
+        DiaGuru only schedules inside these hours. Night-shift and early-bird schedules are
+        welcome.
+      </Text>
+
+      {loading ? <ActivityIndicator size="small" color="#334155" /> : null}
+      {!loading && !prefs ? (
+        <Text style={styles.hint}>Sign in to edit your scheduling preferences.</Text>
+      ) : null}
+
+      {prefs ? (
+        <>
+          {WEEKDAYS.map((day) => {
+            const hours = workingHoursFor(prefs, day);
+            return (
+              <View key={day}>
+                <View style={styles.row}>
+                  <Text style={styles.rowLabel}>{WEEKDAY_LABELS[day]}</Text>
+                  <Stepper
+                    label={formatHour(hours.start_hour)}
+                    onDecrement={() => shiftWorkingHours(day, 'start_hour', -HOUR_STEP)}
+                    onIncrement={() => shiftWorkingHours(day, 'start_hour', HOUR_STEP)}
+                  />
+                  <Stepper
+                    label={formatHour(hours.end_hour)}
+                    onDecrement={() => shiftWorkingHours(day, 'end_hour', -HOUR_STEP)}
+                    onIncrement={() => shiftWorkingHours(day, 'end_hour', HOUR_STEP)}
+                  />
+                </View>
+                {isValidWorkingHours(hours) ? null : (
+                  <Text style={styles.warning}>
+                    These hours start and end together, so the default hours are used instead.
+                  </Text>
+                )}
+              </View>
+            );
+          })}
+          {hoursNotice ? <Text style={styles.warning}>{hoursNotice}</Text> : null}
+
+          <Text style={styles.subheading}>Preferred times by task type</Text>
+          {Object.keys(DEFAULT_TIME_OF_DAY_BANDS).map((taskType) => {
+            const [band] = bandsFor(prefs, taskType);
+            if (!band) return null;
+            return (
+              <View key={taskType} style={styles.row}>
+                <Text style={styles.rowLabel}>{formatTaskType(taskType)}</Text>
+                <Stepper
+                  label={formatHour(band.start)}
+                  onDecrement={() => shiftBand(taskType, 'start', -HOUR_STEP)}
+                  onIncrement={() => shiftBand(taskType, 'start', HOUR_STEP)}
+                />
+                <Stepper
+                  label={formatHour(band.end)}
+                  onDecrement={() => shiftBand(taskType, 'end', -HOUR_STEP)}
+                  onIncrement={() => shiftBand(taskType, 'end', HOUR_STEP)}
+                />
+              </View>
+            );
+          })}
+
+          <Text style={styles.subheading}>Energy</Text>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Chronotype</Text>
+            <Stepper
+              label={prefs.chronotype ? CHRONOTYPE_LABELS[prefs.chronotype] : 'Learned'}
+              onDecrement={() => shiftChronotype(-1)}
+              onIncrement={() => shiftChronotype(1)}
+            />
+          </View>
+          <Text style={styles.hint}>
+            Focused work goes to your peak hours and admin to the dips. Learned follows the hours
+            you finish deep work on time.
+          </Text>
+
+          <Text style={styles.subheading}>Workload caps</Text>
+          {CAP_TASK_TYPES.map((taskType) => (
+            <View key={taskType} style={styles.row}>
+              <Text style={styles.rowLabel}>{formatTaskType(taskType)} per day</Text>
+              <Stepper
+                label={formatCap(dailyCapFor(prefs, taskType))}
+                onDecrement={() => shiftDailyCap(taskType, -DAILY_CAP_STEP)}
+                onIncrement={() => shiftDailyCap(taskType, DAILY_CAP_STEP)}
+              />
+            </View>
+          ))}
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Scheduled per week</Text>
+            <Stepper
+              label={formatCap(weeklyCapFor(prefs))}
+              onDecrement={() => shiftWeeklyCap(-WEEKLY_CAP_STEP)}
+              onIncrement={() => shiftWeeklyCap(WEEKLY_CAP_STEP)}
+            />
+          </View>
+          <Text style={styles.hint}>
+            Once a day or week is full, new sessions move to the next day with room.
+          </Text>
+
+          <Text style={styles.subheading}>Long-range planning</Text>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Add to calendar</Text>
+            <Stepper
+              label={`${commitmentWindowFor(prefs)} days ahead`}
+              onDecrement={() => shiftCommitmentWindow(-1)}
+              onIncrement={() => shiftCommitmentWindow(1)}
+            />
+          </View>
+          <Text style={styles.hint}>
+            Tasks due later are pencilled in across the weeks before their deadline and only added
+            to your calendar once they are this close.
+          </Text>
+
+          <Text style={styles.subheading}>Reminders before start</Text>
+          {REMINDER_KINDS.map((kind) => (
+            <View key={kind} style={styles.row}>
+              <Text style={styles.rowLabel}>{formatTaskType(kind)}</Text>
+              <Stepper
+                label={formatLead(reminderLeadFor(prefs, kind))}
+                onDecrement={() => shiftReminderLead(kind, -1)}
+                onIncrement={() => shiftReminderLead(kind, 1)}
+              />
+            </View>
+          ))}
+          <Text style={styles.hint}>Applies to sessions planned or moved after you save.</Text>
+
+          <Text style={styles.subheading}>Rescheduling</Text>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Buffer between tasks</Text>
+            <Stepper
+              label={`${prefs.buffer_minutes ?? DEFAULT_BUFFER_MINUTES} min`}
+              onDecrement={() => shiftNumber('buffer_minutes', DEFAULT_BUFFER_MINUTES, -5, 60)}
+              onIncrement={() => shiftNumber('buffer_minutes', DEFAULT_BUFFER_MINUTES, 5, 60)}
+            />
+          </View>
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Max tasks moved per run</Text>
+            <Stepper
+              label={String(prefs.max_moves_per_run ?? DEFAULT_MAX_MOVES_PER_RUN)}
+              onDecrement={() =>
+                shiftNumber('max_moves_per_run', DEFAULT_MAX_MOVES_PER_RUN, -1, 20)
+              }
+              onIncrement={() => shiftNumber('max_moves_per_run', DEFAULT_MAX_MOVES_PER_RUN, 1, 20)}
+            />
+          </View>
+
+          <View style={styles.row}>
+            <Text style={styles.rowLabel}>Move missed low-importance tasks</Text>
+            <TouchableOpacity
+              style={[styles.toggle, prefs.auto_reschedule_overdue && styles.toggleOn]}
+              onPress={() =>
+                update((current) => ({
+                  ...current,
+                  auto_reschedule_overdue: !current.auto_reschedule_overdue,
+                }))
+              }
+              accessibilityRole="switch"
+              accessibilityState={{ checked: prefs.auto_reschedule_overdue }}
+            >
+              <Text
+                style={[styles.toggleText, prefs.auto_reschedule_overdue && styles.toggleTextOn]}
+              >
+                {prefs.auto_reschedule_overdue ? 'On' : 'Off'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+          <Text style={styles.hint}>
+            Sessions that end without a check-in wait for your confirmation. With this on,
+            low-importance ones are moved to the next free slot instead.
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.primaryButton, (!dirty || saving) && styles.buttonDisabled]}
+            onPress={handleSave}
+            disabled={!dirty || saving}
+            accessibilityRole="button"
+          >
+            <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Save preferences'}</Text>
+          </TouchableOpacity>
+        </>
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 18,
+    padding: 18,
+    gap: 14,
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
+  },
+  sectionTitle: {
+    color: '#111827',
+    fontSize: 18,
+    fontWeight: '700',
+  },
+  sectionSubtitle: {
+    color: '#475569',
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  subheading: {
+    color: '#111827',
+    fontSize: 15,
+    fontWeight: '700',
+    paddingTop: 4,
+  },
+  hint: {
+    color: '#64748B',
+    fontSize: 13,
+  },
+  warning: {
+    color: '#B45309',
+    fontSize: 13,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: 8,
+  },
+  rowLabel: {
+    flex: 1,
+    color: '#334155',
+    fontSize: 14,
+    fontWeight: '600',
+    textTransform: 'capitalize',
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  stepButton: {
+    width: 30,
+    height: 30,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#CBD5E1',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  stepButtonText: {
+    color: '#111827',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  stepValue: {
+    minWidth: 52,
+    textAlign: 'center',
+    color: '#111827',
+    fontSize: 14,
+    fontVariant: ['tabular-nums'],
+  },
+  toggle: {
+    minWidth: 52,
+    height: 30,
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#CBD5E1',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 10,
+  },
+  toggleOn: {
+    backgroundColor: '#111827',
+    borderColor: '#111827',
+  },
+  toggleText: {
+    color: '#111827',
+    fontSize: 14,
+    fontWeight: '700',
+  },
+  toggleTextOn: {
+    color: '#FFFFFF',
+  },
+  primaryButton: {
+    minHeight: 48,
+    borderRadius: 14,
+    backgroundColor: '#111827',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingHorizontal: 16,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '800',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+});
@@ -1 +1,24 @@
+import { findPredecessorMatch } from '../capture';
+
+jest.mock('@/lib/supabase', () => ({ supabase: {} }));
+
 test.todo('add unit coverage for capture scheduling helpers');
+
+describe('findPredecessorMatch', () => {
+  const candidates = [
+    { id: 'draft', content: 'Write the quarterly report draft' },
+    { id: 'slides', content: 'Prepare slides for review' },
+  ];
+
+  it('matches a reference against capture content', () => {
+    expect(findPredecessorMatch('the report draft', candidates)?.id).toBe(
+      'draft',
+    );
+    expect(findPredecessorMatch('my slides', candidates)?.id).toBe('slides');
+  });
+
+  it('returns null when too few words overlap', () => {
+    expect(findPredecessorMatch('budget spreadsheet', candidates)).toBeNull();
+    expect(findPredecessorMatch('the', candidates)).toBeNull();
+  });
+});
@@ -1,4 +1,9 @@
-import { connectGoogleCalendar, getCalendarHealth } from '../google-connect';
+import {
+  connectGoogleCalendar,
+  connectOutlookCalendar,
+  getCalendarHealth,
+  linkCalDavCalendar,
+} from '../google-connect';
 
 jest.mock('expo-linking', () => ({ openURL: jest.fn() }));
 
@@ -87,4 +92,44 @@ describe('google-connect helpers', () => {
     expect(urlArg).toContain('scope=');
     expect(urlArg).toContain('state=user-jwt');
   });
+
+  it('opens Microsoft OAuth URL with calendar scopes', async () => {
+    supabase.auth.getSession.mockResolvedValue({ data: { session: { access_token: 'user-jwt' } } });
+    process.env.EXPO_PUBLIC_MICROSOFT_CLIENT_ID = 'ms-client';
+    process.env.EXPO_PUBLIC_MICROSOFT_REDIRECT_URI = 'https://example.com/cb/outlook';
+
+    await connectOutlookCalendar();
+
+    const urlArg = String(openURL.mock.calls[0][0]);
+    expect(urlArg).toContain('https://login.microsoftonline.com/common/oauth2/v2.0/authorize?');
+    expect(urlArg).toContain('client_id=ms-client');
+    expect(urlArg).toContain('redirect_uri=https%3A%2F%2Fexample.com%2Fcb%2Foutlook');
+    expect(urlArg).toContain('scope=offline_access+Calendars.ReadWrite');
+    expect(urlArg).toContain('state=user-jwt');
+  });
+
+  it('links a CalDAV calendar through the caldav-link function', async () => {
+    const linked = {
+      provider: 'caldav',
+      calendarUrl: 'https://dav.example.com/cal/',
+      displayName: 'Work',
+    };
+    supabase.functions.invoke.mockResolvedValue({ data: linked, error: null });
+
+    const result = await linkCalDavCalendar({
+      calendarUrl: ' https://dav.example.com/cal/ ',
+      username: ' ada ',
+      password: 'app pass',
+    });
+
+    expect(supabase.functions.invoke).toHaveBeenCalledWith('caldav-link', {
+      body: {
+        calendarUrl: 'https://dav.example.com/cal/',
+        username: 'ada',
+        password: 'app pass',
+      },
+    });
+    expect(result).toEqual(linked);
+    expect(openURL).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,119 @@
+import * as Notifications from 'expo-notifications';
+
+import { invokeCaptureCompletion, invokeScheduleCapture } from '../capture';
+
+jest.mock('expo-notifications', () => ({
+  setNotificationHandler: jest.fn(),
+  setNotificationCategoryAsync: jest.fn().mockResolvedValue(undefined),
+  scheduleNotificationAsync: jest.fn(() => Promise.resolve('notif-id')),
+  dismissNotificationAsync: jest.fn().mockResolvedValue(undefined),
+  addNotificationResponseReceivedListener: jest.fn(() => ({ remove: jest.fn() })),
+  getLastNotificationResponseAsync: jest.fn().mockResolvedValue(null),
+  clearLastNotificationResponseAsync: jest.fn().mockResolvedValue(undefined),
+  SchedulableTriggerInputTypes: { TIME_INTERVAL: 'timeInterval', DATE: 'date' },
+  DEFAULT_ACTION_IDENTIFIER: 'expo.modules.notifications.actions.DEFAULT',
+}));
+
+jest.mock('react-native', () => ({
+  Platform: { OS: 'ios' },
+}));
+
+jest.mock('../capture', () => ({
+  invokeCaptureCompletion: jest.fn().mockResolvedValue({ message: 'Done', capture: null }),
+  invokeScheduleCapture: jest.fn().mockResolvedValue({
+    message: 'Moved to 3:00 PM.',
+    capture: null,
+    decision: null,
+  }),
+}));
+
+// eslint-disable-next-line import/first
+import { handleNotificationResponse, listenForNotificationActions } from '../notification-actions';
+
+function response(
+  actionIdentifier: string,
+  data: Record<string, unknown> = { captureId: 'cap-1' },
+) {
+  return {
+    actionIdentifier,
+    notification: {
+      date: 0,
+      request: {
+        identifier: 'notif-1',
+        content: {
+          title: 'Time to check in',
+          body: 'Did you complete "Draft the report"?',
+          data,
+          categoryIdentifier: 'capture-reminder',
+        },
+        trigger: null,
+      },
+    },
+  } as unknown as Notifications.NotificationResponse;
+}
+
+describe('handleNotificationResponse', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('completes the capture from the Done button', async () => {
+    await expect(handleNotificationResponse(response('capture.done'))).resolves.toBe(true);
+
+    expect(invokeCaptureCompletion).toHaveBeenCalledWith('cap-1', 'complete');
+    expect(Notifications.dismissNotificationAsync).toHaveBeenCalledWith('notif-1');
+  });
+
+  it('shows the reminder again after a snooze', async () => {
+    await handleNotificationResponse(response('capture.snooze'));
+
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+      content: {
+        title: 'Time to check in',
+        body: 'Did you complete "Draft the report"?',
+        data: { captureId: 'cap-1' },
+        categoryIdentifier: 'capture-reminder',
+      },
+      trigger: { type: 'timeInterval', seconds: 900 },
+    });
+    expect(invokeCaptureCompletion).not.toHaveBeenCalled();
+  });
+
+  it('reschedules and reports the new slot', async () => {
+    await handleNotificationResponse(response('capture.reschedule'));
+
+    expect(invokeScheduleCapture).toHaveBeenCalledWith('cap-1', 'reschedule');
+    expect(Notifications.scheduleNotificationAsync).toHaveBeenCalledWith({
+      content: { title: 'Rescheduled', body: 'Moved to 3:00 PM.' },
+      trigger: null,
+    });
+  });
+
+  it('leaves plain taps and other notifications to the app', async () => {
+    await expect(
+      handleNotificationResponse(response(Notifications.DEFAULT_ACTION_IDENTIFIER)),
+    ).resolves.toBe(false);
+    await expect(handleNotificationResponse(response('capture.done', {}))).resolves.toBe(false);
+
+    expect(invokeCaptureCompletion).not.toHaveBeenCalled();
+    expect(Notifications.dismissNotificationAsync).not.toHaveBeenCalled();
+  });
+});
+
+describe('listenForNotificationActions', () => {
+  it('runs the button that launched the app once', async () => {
+    const launch = response('capture.done');
+    jest.mocked(Notifications.getLastNotificationResponseAsync).mockResolvedValueOnce(launch);
+
+    const cleanup = listenForNotificationActions();
+    const listener = jest.mocked(Notifications.addNotificationResponseReceivedListener).mock
+      .calls[0][0];
+    listener(launch);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    cleanup();
+
+    expect(invokeCaptureCompletion).toHaveBeenCalledTimes(1);
+    expect(invokeCaptureCompletion).toHaveBeenCalledWith('cap-1', 'complete');
+    expect(Notifications.clearLastNotificationResponseAsync).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,161 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { type Capture, parseCapture } from '../capture';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  jest.requireActual('@react-native-async-storage/async-storage/jest/async-storage-mock'),
+);
+
+const savedRows: { content: string; extraction_json: unknown }[] = [];
+
+jest.mock('@/lib/supabase', () => ({
+  supabase: {
+    from: () => ({
+      select: () => ({
+        eq: () => ({
+          gte: () => Promise.resolve({ data: savedRows, error: null }),
+        }),
+      }),
+    }),
+  },
+}));
+
+jest.mock('../capture', () => ({
+  parseCapture: jest.fn(),
+}));
+
+// eslint-disable-next-line import/first
+import {
+  enqueueOfflineCapture,
+  isDuplicateOfOffline,
+  isNetworkError,
+  listOfflineCaptures,
+  type PersistOfflineCapture,
+  syncOfflineCaptures,
+} from '../offline-captures';
+
+const USER_ID = 'user-1';
+const parseCaptureMock = parseCapture as jest.Mock;
+
+function savedCapture(content: string): Capture {
+  return {
+    id: 'saved',
+    user_id: USER_ID,
+    content,
+    estimated_minutes: null,
+    importance: 2,
+    status: 'pending',
+    scheduled_for: null,
+    planned_start: null,
+    planned_end: null,
+    calendar_event_id: null,
+    calendar_event_etag: null,
+    last_check_in: null,
+    scheduling_notes: null,
+    extraction_json: null,
+    constraint_type: 'flexible',
+    constraint_time: null,
+    constraint_end: null,
+    constraint_date: null,
+    original_target_time: null,
+    deadline_at: null,
+    window_start: null,
+    window_end: null,
+    start_target_at: null,
+    is_soft_start: false,
+    externality_score: 0,
+    reschedule_count: 0,
+    task_type_hint: null,
+    freeze_until: null,
+    plan_id: null,
+    manual_touch_at: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    priorityScore: 0,
+  };
+}
+
+describe('isNetworkError', () => {
+  it('recognises failed requests', () => {
+    expect(isNetworkError(new TypeError('Network request failed'))).toBe(true);
+    expect(
+      isNetworkError(new Error('Failed to send a request to the Edge Function')),
+    ).toBe(true);
+    expect(isNetworkError({ name: 'FunctionsFetchError', message: 'boom' })).toBe(true);
+  });
+
+  it('ignores server-side errors', () => {
+    expect(isNetworkError(new Error('Unable to parse capture text.'))).toBe(false);
+    expect(isNetworkError(null)).toBe(false);
+  });
+});
+
+describe('isDuplicateOfOffline', () => {
+  it('matches on title or original prompt, ignoring case and spacing', () => {
+    const entry = { content: '  Call   the dentist ' };
+    expect(isDuplicateOfOffline(entry, { content: 'call the dentist' })).toBe(true);
+    expect(
+      isDuplicateOfOffline(entry, {
+        content: 'Dentist call',
+        extraction_json: { original_prompt: 'Call the dentist' },
+      }),
+    ).toBe(true);
+    expect(isDuplicateOfOffline(entry, { content: 'Call the plumber' })).toBe(false);
+  });
+});
+
+describe('syncOfflineCaptures', () => {
+  beforeEach(async () => {
+    savedRows.length = 0;
+    parseCaptureMock.mockReset();
+    await AsyncStorage.clear();
+  });
+
+  const input = { estimatedMinutes: null, importance: 2, timezone: 'UTC' };
+
+  it('saves parsed captures and drops ones already saved', async () => {
+    savedRows.push({ content: 'Buy milk', extraction_json: null });
+    await enqueueOfflineCapture(USER_ID, { ...input, content: 'buy milk' });
+    await enqueueOfflineCapture(USER_ID, { ...input, content: 'Write report' });
+    parseCaptureMock.mockResolvedValue({ structured: { estimated_minutes: 45 } });
+    const persist = jest.fn<ReturnType<PersistOfflineCapture>, Parameters<PersistOfflineCapture>>(
+      async (entry) => savedCapture(entry.content),
+    );
+
+    const result = await syncOfflineCaptures(USER_ID, persist);
+
+    expect(result.duplicates.map((entry) => entry.content)).toEqual(['buy milk']);
+    expect(persist).toHaveBeenCalledTimes(1);
+    expect(persist.mock.calls[0][1]).toBe(45);
+    expect(await listOfflineCaptures(USER_ID)).toEqual([]);
+  });
+
+  it('keeps entries queued when the connection drops again', async () => {
+    await enqueueOfflineCapture(USER_ID, { ...input, content: 'First' });
+    await enqueueOfflineCapture(USER_ID, { ...input, content: 'Second' });
+    parseCaptureMock.mockRejectedValue(new TypeError('Network request failed'));
+    const persist = jest.fn();
+
+    const result = await syncOfflineCaptures(USER_ID, persist);
+
+    expect(persist).not.toHaveBeenCalled();
+    expect(result.remaining.map((entry) => entry.content)).toEqual(['First', 'Second']);
+    expect(result.remaining.every((entry) => entry.status === 'waiting')).toBe(true);
+  });
+
+  it('parks captures the parser cannot size', async () => {
+    await enqueueOfflineCapture(USER_ID, { ...input, content: 'Plan the offsite' });
+    parseCaptureMock.mockResolvedValue({
+      structured: {},
+      follow_up: { prompt: 'How long will it take?' },
+    });
+
+    const result = await syncOfflineCaptures(USER_ID, jest.fn());
+
+    expect(result.needsDetails).toHaveLength(1);
+    expect(result.remaining[0]).toMatchObject({
+      status: 'needs_details',
+      lastError: 'How long will it take?',
+    });
+  });
+});
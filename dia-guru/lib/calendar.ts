@@ -16,3 +16,29 @@ export async function fetchUpcomingEvents(rangeDays = 7) {
   if (error) throw error;
   return (data?.items ?? []) as SimpleEvent[];
 }
+
+export type CalendarListEntry = {
+  id: string;
+  summary: string;
+  primary: boolean;
+  backgroundColor: string | null;
+  accessRole: string | null;
+  isTarget: boolean;
+  countsAsBusy: boolean;
+};
+
+export async function fetchCalendars() {
+  const { data, error } = await supabase.functions.invoke('calendar-list', {
+    body: { mode: 'calendars' },
+  });
+  if (error) throw error;
+  return (data?.calendars ?? []) as CalendarListEntry[];
+}
+
+export async function saveBusyCalendars(calendarIds: string[]) {
+  const { data, error } = await supabase.functions.invoke('calendar-list', {
+    body: { mode: 'set_busy_calendars', calendarIds },
+  });
+  if (error) throw error;
+  return (data?.busyCalendarIds ?? []) as string[];
+}
@@ -5,7 +5,11 @@ export type CaptureStatus =
   | "pending"
   | "scheduled"
   | "awaiting_confirmation"
-  | "completed";
+  | "completed"
+  | "recurring"
+  | "skipped"
+  // Tentatively placed past the commitment window; not on the calendar yet.
+  | "pencilled";
 
 export type Capture = {
   id: string;
@@ -42,6 +46,7 @@ export type Capture = {
   min_chunk_minutes?: number | null;
   max_splits?: number | null;
   extraction_kind?: string | null;
+  location?: string | null;
   time_pref_time_of_day?: string | null;
   time_pref_day?: string | null;
   importance_rationale?: string | null;
@@ -51,6 +56,10 @@ export type Capture = {
   freeze_until: string | null;
   plan_id: string | null;
   manual_touch_at: string | null;
+  recurrence_rule?: string | null;
+  recurrence_exceptions?: string[] | null;
+  recurrence_parent_id?: string | null;
+  occurrence_date?: string | null;
   created_at: string;
   updated_at: string;
   priorityScore: number;
@@ -94,6 +103,8 @@ export type CaptureInput = {
   isSoftStart?: boolean;
   externalityScore?: number;
   taskTypeHint?: string | null;
+  recurrenceRule?: string | null;
+  location?: string | null;
 };
 
 function normalizeConstraintType(value: unknown): ConstraintType {
@@ -183,6 +194,7 @@ function mapCaptureRow(row: Record<string, any>): Capture {
     min_chunk_minutes: row.min_chunk_minutes ?? null,
     max_splits: row.max_splits ?? null,
     extraction_kind: row.extraction_kind ?? null,
+    location: row.location ?? null,
     time_pref_time_of_day: row.time_pref_time_of_day ?? null,
     time_pref_day: row.time_pref_day ?? null,
     importance_rationale: row.importance_rationale ?? null,
@@ -192,6 +204,12 @@ function mapCaptureRow(row: Record<string, any>): Capture {
     freeze_until: row.freeze_until ?? null,
     plan_id: row.plan_id ?? null,
     manual_touch_at: row.manual_touch_at ?? null,
+    recurrence_rule: row.recurrence_rule ?? null,
+    recurrence_exceptions: Array.isArray(row.recurrence_exceptions)
+      ? row.recurrence_exceptions
+      : null,
+    recurrence_parent_id: row.recurrence_parent_id ?? null,
+    occurrence_date: row.occurrence_date ?? null,
     created_at: row.created_at,
     updated_at: row.updated_at,
     priorityScore: 0,
@@ -221,7 +239,9 @@ function mapCaptureRow(row: Record<string, any>): Capture {
   return capture;
 }
 
-export type ParseMode = "conversational_strict";
+// conversational_strict asks the configured LLM; local_rules never leaves the
+// deployment and reads the text with grammar rules instead.
+export type ParseMode = "conversational_strict" | "local_rules";
 
 // Rich extraction types mirrored from parse-task
 export type TaskExtraction = {
@@ -280,6 +300,15 @@ export type TaskExtraction = {
   missing: string[];
   clarifying_question: string | null;
   notes: string[];
+  recurrence?: {
+    rule: string;
+    source: "explicit" | "inferred";
+  } | null;
+  depends_on?: {
+    reference: string;
+    source: "explicit" | "inferred";
+  } | null;
+  location?: string | null;
 };
 
 export type CaptureMapping = {
@@ -300,6 +329,9 @@ export type CaptureMapping = {
   start_target_at: string | null;
   is_soft_start: boolean;
   task_type_hint: string | null;
+  recurrence_rule?: string | null;
+  depends_on_reference?: string | null;
+  location?: string | null;
   scheduled_source?: "explicit" | "inferred" | null;
   scheduled_precision?: "exact" | "approximate" | null;
   execution_window_relation?:
@@ -335,10 +367,43 @@ export type CaptureMapping = {
   reason?: string;
 };
 
+export type LlmCallMetrics = {
+  provider: "openai" | "anthropic" | "ollama" | "fake";
+  model: string;
+  attempts: number;
+  latency_ms: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  errored?: boolean;
+};
+
+// An estimate corrected by how long the user's tasks of the same type took.
+export type DurationAdjustment = {
+  from: number;
+  to: number;
+  samples: number;
+  note: string;
+};
+
+// One task read out of a capture that listed several.
+export type ParseTaskItem = {
+  content: string;
+  structured: {
+    estimated_minutes?: number;
+    duration_adjustment?: DurationAdjustment;
+    extraction: TaskExtraction;
+    capture: Partial<CaptureMapping> & { reason?: string };
+  };
+  needed: string[];
+  follow_up: ParseTaskResponse["follow_up"];
+};
+
 export type ParseTaskResponse = {
   content: string;
   structured: {
     estimated_minutes?: number;
+    // Set when estimated_minutes was corrected from completion history.
+    duration_adjustment?: DurationAdjustment;
     datetime?: string;
     window?: { start?: string; end?: string };
     extraction?: TaskExtraction;
@@ -347,10 +412,16 @@ export type ParseTaskResponse = {
   notes: string[];
   needed: string[];
   mode: ParseMode;
+  // Present when the text listed several tasks; the top-level fields then
+  // describe the first one.
+  items?: ParseTaskItem[];
   follow_up?: {
     type: "clarify";
     prompt: string;
     missing: string[];
+    // Set when parse-task keeps the clarification; answer with sessionId.
+    session_id?: string;
+    field?: string;
   } | null;
   metadata: {
     duckling: {
@@ -366,6 +437,7 @@ export type ParseTaskResponse = {
       errored?: boolean;
       used_fallback?: boolean;
     };
+    llm?: LlmCallMetrics | null;
   };
 };
 
@@ -374,6 +446,9 @@ export type ParseCaptureArgs = {
   mode?: ParseMode;
   timezone?: string;
   now?: string;
+  split?: boolean;
+  sessionId?: string;
+  answer?: string;
 };
 
 export async function parseCapture(
@@ -385,6 +460,9 @@ export async function parseCapture(
       mode: input.mode ?? "conversational_strict",
       timezone: input.timezone,
       now: input.now,
+      split: input.split,
+      session_id: input.sessionId,
+      answer: input.answer,
     },
   });
 
@@ -487,6 +565,7 @@ export type ScheduleDecision = {
     llmAttempted: boolean;
     llmModel?: string | null;
     llmError?: string | null;
+    llmMetrics?: LlmCallMetrics | null;
     preemptionAttempted?: boolean;
     preemptionBlockedByLock?: boolean;
     lockReasons?: {
@@ -550,6 +629,33 @@ export type ScheduleCaptureResponse = {
   chunks?: SerializedChunk[];
   overlap?: ScheduleOverlap | null;
   explanation?: Record<string, unknown> | null;
+  occurrences?: Capture[];
+  unplacedDates?: string[];
+};
+
+export type PlanQueueResponse = {
+  message: string;
+  planSummary: PlanSummary | null;
+  scheduled: {
+    capture: Capture;
+    chunks: SerializedChunk[];
+    explanation?: Record<string, unknown> | null;
+  }[];
+  // Far-deadline captures given a tentative slot in a later week.
+  pencilled: Capture[];
+  unplaced: {
+    captureId: string;
+    content: string;
+    reason:
+      | "no_slot"
+      | "workload_cap"
+      | "slot_exceeds_deadline"
+      | "predecessor_unplaced"
+      | "predecessor_unscheduled"
+      | "dependency_cycle";
+    // Which cap kept a "workload_cap" capture off the calendar.
+    note?: string;
+  }[];
 };
 
 export type ScheduleOptions = {
@@ -559,6 +665,10 @@ export type ScheduleOptions = {
   allowRebalance?: boolean;
   timezone?: string;
   timezoneOffsetMinutes?: number;
+  // Check-in progress, sent with the "progress" action.
+  percentDone?: number;
+  remainingMinutes?: number;
+  splitRemainder?: boolean;
 };
 
 export async function listCaptures(): Promise<Capture[]> {
@@ -623,6 +733,8 @@ export async function addCapture(input: CaptureInput, userId?: string) {
     isSoftStart = false,
     externalityScore = 0,
     taskTypeHint = null,
+    recurrenceRule = null,
+    location = null,
   } = input;
   const targetUserId = userId ??
     (await supabase.auth.getSession()).data.session?.user.id ??
@@ -668,6 +780,8 @@ export async function addCapture(input: CaptureInput, userId?: string) {
       is_soft_start: isSoftStart,
       externality_score: externalityScore,
       task_type_hint: taskTypeHint,
+      recurrence_rule: recurrenceRule,
+      location,
     })
     .select("*")
     .single();
@@ -677,6 +791,89 @@ export async function addCapture(input: CaptureInput, userId?: string) {
   return mapCaptureRow(data as Record<string, unknown>);
 }
 
+const MATCH_STOPWORDS = new Set([
+  "a",
+  "an",
+  "and",
+  "for",
+  "my",
+  "of",
+  "on",
+  "our",
+  "the",
+  "to",
+  "with",
+]);
+
+function matchTokens(text: string) {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 1 && !MATCH_STOPWORDS.has(token));
+}
+
+/**
+ * Picks the capture a free-text reference ("the draft") most likely points
+ * at. At least half of the reference's words must appear in the capture's
+ * content; earlier candidates win ties.
+ */
+export function findPredecessorMatch<T extends Pick<Capture, "id" | "content">>(
+  reference: string,
+  candidates: T[],
+): T | null {
+  const wanted = matchTokens(reference);
+  if (wanted.length === 0) return null;
+  let best: T | null = null;
+  let bestScore = 0;
+  for (const candidate of candidates) {
+    const tokens = new Set(matchTokens(candidate.content));
+    const hits = wanted.filter((token) => tokens.has(token)).length;
+    const score = hits / wanted.length;
+    if (score >= 0.5 && score > bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Links a capture to the open capture its dependency reference names, so
+ * the scheduler places it only after that predecessor ends. Returns the
+ * predecessor, or null when nothing matched.
+ */
+export async function linkCapturePredecessor(
+  capture: Capture,
+  reference: string,
+): Promise<Capture | null> {
+  const { data, error } = await supabase
+    .from("capture_entries")
+    .select("*")
+    .in("status", ["pending", "scheduled", "awaiting_confirmation"])
+    .neq("id", capture.id)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+
+  const candidates = (data ?? []).map((row) =>
+    mapCaptureRow(row as Record<string, unknown>)
+  );
+  const predecessor = findPredecessorMatch(reference, candidates);
+  if (!predecessor) return null;
+
+  const { error: linkError } = await supabase
+    .from("capture_dependencies")
+    .insert({
+      user_id: capture.user_id,
+      capture_id: capture.id,
+      predecessor_id: predecessor.id,
+    });
+
+  if (linkError) throw linkError;
+
+  return predecessor;
+}
+
 export async function updateCaptureStatus(
   id: string,
   status: CaptureStatus,
@@ -712,9 +909,25 @@ export async function listScheduledCaptures(): Promise<Capture[]> {
   })) as Capture[];
 }
 
+// Far-deadline captures pencilled into later weeks, soonest first. They go
+// on the calendar once they enter the commitment window.
+export async function listPencilledCaptures(): Promise<Capture[]> {
+  const { data, error } = await supabase
+    .from("capture_entries")
+    .select("*")
+    .eq("status", "pencilled")
+    .order("planned_start", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map((row) =>
+    mapCaptureRow(row as Record<string, unknown>),
+  );
+}
+
 export async function invokeScheduleCapture(
   captureId: string,
-  action: "schedule" | "reschedule" = "schedule",
+  action: "schedule" | "reschedule" | "progress" = "schedule",
   options?: ScheduleOptions,
 ): Promise<ScheduleCaptureResponse> {
   const { data, error } = await supabase.functions.invoke("schedule-capture", {
@@ -733,20 +946,57 @@ export async function invokeScheduleCapture(
     chunks?: SerializedChunk[];
     overlap?: ScheduleOverlap | null;
     explanation?: Record<string, unknown> | null;
+    occurrences?: Record<string, unknown>[];
+    unplacedDates?: string[];
   };
   return {
     ...payload,
     capture: payload.capture ? mapCaptureRow(payload.capture) : null,
     planSummary: payload.planSummary ?? null,
+    occurrences: payload.occurrences?.map(mapCaptureRow),
+  };
+}
+
+export async function invokePlanQueue(
+  options?: Pick<ScheduleOptions, "timezone" | "timezoneOffsetMinutes">,
+): Promise<PlanQueueResponse> {
+  const { data, error } = await supabase.functions.invoke("schedule-capture", {
+    body: {
+      action: "plan_queue",
+      ...(options ?? {}),
+    },
+  });
+  if (error) throw error;
+  const payload = data as {
+    message: string;
+    planSummary?: PlanSummary | null;
+    scheduled?: {
+      capture: Record<string, unknown>;
+      chunks: SerializedChunk[];
+      explanation?: Record<string, unknown> | null;
+    }[];
+    pencilled?: Record<string, unknown>[];
+    unplaced?: PlanQueueResponse["unplaced"];
+  };
+  return {
+    message: payload.message,
+    planSummary: payload.planSummary ?? null,
+    scheduled: (payload.scheduled ?? []).map((entry) => ({
+      ...entry,
+      capture: mapCaptureRow(entry.capture),
+    })),
+    pencilled: (payload.pencilled ?? []).map(mapCaptureRow),
+    unplaced: payload.unplaced ?? [],
   };
 }
 
 export async function invokeCaptureCompletion(
   captureId: string,
-  action: "complete" | "reschedule",
+  action: "complete" | "reschedule" | "skip",
+  options: { actualMinutes?: number } = {},
 ) {
   const { data, error } = await supabase.functions.invoke("schedule-capture", {
-    body: { captureId, action },
+    body: { captureId, action, actualMinutes: options.actualMinutes },
   });
   if (error) throw error;
   const payload = data as {
@@ -764,12 +1014,28 @@ export async function syncCaptureEvents() {
   if (error) throw error;
   return data as {
     message: string;
+    mode: "full" | "incremental" | "window";
     updates: number;
     scannedEvents: number;
+    removedEvents: number;
     refreshedToken: boolean;
   };
 }
 
+// Registers (or renews) the calendar push channel so edits made outside the
+// app sync without it being open. Unsupported providers report supported: false.
+export async function watchCalendarChanges() {
+  const { data, error } = await supabase.functions.invoke("calendar-watch", {
+    body: { action: "register" },
+  });
+  if (error) throw error;
+  return data as {
+    provider: string;
+    supported: boolean;
+    channel: { channelId: string; expiresAt: string; renewed: boolean } | null;
+  };
+}
+
 export async function undoPlan(planId: string) {
   const { data, error } = await supabase.functions.invoke("undo-plan", {
     body: { planId },
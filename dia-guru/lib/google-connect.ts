@@ -1,8 +1,32 @@
 import { supabase } from '@/lib/supabase';
 import * as Linking from 'expo-linking';
 
+export type CalendarProvider = 'google' | 'outlook' | 'caldav';
+
+export const CALENDAR_PROVIDER_LABELS: Record<CalendarProvider, string> = {
+  google: 'Google Calendar',
+  outlook: 'Outlook Calendar',
+  caldav: 'CalDAV Calendar',
+};
+
+// Providers linked through a browser sign-in; CalDAV uses an app password.
+export const OAUTH_CALENDAR_PROVIDERS: CalendarProvider[] = ['google', 'outlook'];
+
+export type CalDavLinkInput = {
+  calendarUrl: string;
+  username: string;
+  password: string;
+};
+
+export type CalDavLinkResult = {
+  provider: 'caldav';
+  calendarUrl: string;
+  displayName: string | null;
+};
+
 export type CalendarHealth = {
   status: 'unlinked' | 'healthy' | 'needs_reconnect';
+  provider?: CalendarProvider | null;
   linked: boolean;
   needsReconnect: boolean;
   hasRefreshToken: boolean;
@@ -42,6 +66,54 @@ export async function connectGoogleCalendar() {
   await Linking.openURL(`https://accounts.google.com/o/oauth2/v2/auth?${params.toString()}`);
 }
 
+export async function connectOutlookCalendar() {
+  const {
+    data: { session },
+  } = await supabase.auth.getSession();
+  if (!session?.access_token) throw new Error('Not signed in');
+
+  const clientId = process.env.EXPO_PUBLIC_MICROSOFT_CLIENT_ID;
+  if (!clientId) throw new Error('Missing EXPO_PUBLIC_MICROSOFT_CLIENT_ID');
+  const redirectUri =
+    process.env.EXPO_PUBLIC_MICROSOFT_REDIRECT_URI ??
+    'https://wnjykvdliwjeeytbfeux.functions.supabase.co/oauth-cb/outlook';
+
+  const params = new URLSearchParams({
+    client_id: clientId,
+    redirect_uri: redirectUri,
+    response_type: 'code',
+    response_mode: 'query',
+    prompt: 'select_account',
+    state: session.access_token,
+    scope: 'offline_access Calendars.ReadWrite',
+  });
+
+  await Linking.openURL(
+    `https://login.microsoftonline.com/common/oauth2/v2.0/authorize?${params.toString()}`,
+  );
+}
+
+export function connectCalendar(provider: CalendarProvider) {
+  if (provider === 'caldav') {
+    return Promise.reject(
+      new Error('Link your CalDAV calendar again from Profile with a new app password.'),
+    );
+  }
+  return provider === 'outlook' ? connectOutlookCalendar() : connectGoogleCalendar();
+}
+
+export async function linkCalDavCalendar(input: CalDavLinkInput): Promise<CalDavLinkResult> {
+  const { data, error } = await supabase.functions.invoke('caldav-link', {
+    body: {
+      calendarUrl: input.calendarUrl.trim(),
+      username: input.username.trim(),
+      password: input.password,
+    },
+  });
+  if (error) throw error;
+  return data as CalDavLinkResult;
+}
+
 export async function getCalendarHealth(): Promise<CalendarHealth> {
   const { data, error } = await supabase.functions.invoke('calendar-health');
   if (error) throw error;
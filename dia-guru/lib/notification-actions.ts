@@ -0,0 +1,83 @@
+import * as Notifications from 'expo-notifications';
+
+import { invokeCaptureCompletion, invokeScheduleCapture } from './capture';
+import {
+  CAPTURE_ACTIONS,
+  registerNotificationCategories,
+  sendLocal,
+  snoozeNotification,
+} from './notifications';
+
+const SNOOZE_MINUTES = 15;
+
+// Responses already acted on, so a launch response that also reaches the
+// listener runs its button only once.
+const handledResponses = new Set<string>();
+
+function captureIdOf(response: Notifications.NotificationResponse) {
+  const captureId = response.notification.request.content.data?.captureId;
+  return typeof captureId === 'string' && captureId ? captureId : null;
+}
+
+/**
+ * Runs the button picked on a capture reminder.
+ * Returns false for plain taps and for notifications that are not capture
+ * reminders, which the app handles as usual.
+ */
+export async function handleNotificationResponse(response: Notifications.NotificationResponse) {
+  const { actionIdentifier, notification } = response;
+  const captureId = captureIdOf(response);
+  const actions: string[] = Object.values(CAPTURE_ACTIONS);
+  if (!captureId || !actions.includes(actionIdentifier)) return false;
+
+  try {
+    await Notifications.dismissNotificationAsync(notification.request.identifier);
+  } catch (error) {
+    console.log('dismiss notification failed', error);
+  }
+
+  try {
+    if (actionIdentifier === CAPTURE_ACTIONS.done) {
+      await invokeCaptureCompletion(captureId, 'complete');
+    } else if (actionIdentifier === CAPTURE_ACTIONS.snooze) {
+      await snoozeNotification(notification.request.content, SNOOZE_MINUTES);
+    } else {
+      const result = await invokeScheduleCapture(captureId, 'reschedule');
+      // A conflict leaves the capture pending until it is resolved on Home.
+      await sendLocal(result.decision ? 'Pick a new time' : 'Rescheduled', result.message);
+    }
+  } catch (error) {
+    console.log('notification action failed', actionIdentifier, error);
+    await sendLocal('Could not update your task', 'Open DiaGuru to try again.');
+  }
+  return true;
+}
+
+async function handleResponseOnce(response: Notifications.NotificationResponse) {
+  const key = `${response.notification.request.identifier}:${response.actionIdentifier}`;
+  if (handledResponses.has(key)) return;
+  handledResponses.add(key);
+  if (await handleNotificationResponse(response)) {
+    // Otherwise the next launch finds it again and repeats the button.
+    await Notifications.clearLastNotificationResponseAsync();
+  }
+}
+
+/**
+ * Sets up the reminder buttons and handles their responses, including the one
+ * that launched the app when it was not running; returns the cleanup for the
+ * listener.
+ */
+export function listenForNotificationActions() {
+  registerNotificationCategories().catch((error) => {
+    console.log('notification categories failed', error);
+  });
+  const onError = (error: unknown) => console.log('notification response failed', error);
+  const subscription = Notifications.addNotificationResponseReceivedListener((response) => {
+    handleResponseOnce(response).catch(onError);
+  });
+  Notifications.getLastNotificationResponseAsync()
+    .then((response) => (response ? handleResponseOnce(response) : undefined))
+    .catch(onError);
+  return () => subscription.remove();
+}
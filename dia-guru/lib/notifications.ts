@@ -1,6 +1,15 @@
 import * as Notifications from 'expo-notifications';
 import { Platform } from 'react-native';
 
+// Category the send-notifications function puts on start and check-in pushes;
+// its buttons are handled by lib/notification-actions.
+export const CAPTURE_REMINDER_CATEGORY = 'capture-reminder';
+export const CAPTURE_ACTIONS = {
+  done: 'capture.done',
+  snooze: 'capture.snooze',
+  reschedule: 'capture.reschedule',
+} as const;
+
 Notifications.setNotificationHandler({
   handleNotification: async () => ({
     shouldShowAlert: true, shouldShowBanner: true, shouldShowList: true, shouldPlaySound: false, shouldSetBadge: false,
@@ -14,6 +23,18 @@ export async function requestNotificationPermission() {
   return res.granted || res.ios?.status === Notifications.IosAuthorizationStatus.PROVISIONAL;
 }
 
+export async function registerNotificationCategories() {
+  if (Platform.OS === 'web') return;
+  // Buttons open the app: a response only reaches JS while it runs, and a
+  // cold launch picks it up through getLastNotificationResponseAsync.
+  const options = { opensAppToForeground: true };
+  await Notifications.setNotificationCategoryAsync(CAPTURE_REMINDER_CATEGORY, [
+    { identifier: CAPTURE_ACTIONS.done, buttonTitle: 'Done', options },
+    { identifier: CAPTURE_ACTIONS.snooze, buttonTitle: 'Snooze 15m', options },
+    { identifier: CAPTURE_ACTIONS.reschedule, buttonTitle: 'Reschedule', options },
+  ]);
+}
+
 async function ensureAndroidChannel() {
   if (Platform.OS !== 'android') return;
   await Notifications.setNotificationChannelAsync('default', {
@@ -35,6 +56,26 @@ export async function scheduleIn(seconds: number, title: string, body: string) {
   });
 }
 
+// Shows `content` again after `minutes`, keeping its data and action buttons.
+export async function snoozeNotification(
+  content: Notifications.NotificationContent,
+  minutes: number,
+) {
+  await ensureAndroidChannel();
+  return Notifications.scheduleNotificationAsync({
+    content: {
+      title: content.title,
+      body: content.body,
+      data: content.data,
+      categoryIdentifier: content.categoryIdentifier ?? undefined,
+    },
+    trigger: {
+      type: Notifications.SchedulableTriggerInputTypes.TIME_INTERVAL,
+      seconds: minutes * 60,
+    },
+  });
+}
+
 export async function scheduleReminderAt(date: Date, title: string, body: string) {
   await ensureAndroidChannel();
   const trigger: Notifications.DateTriggerInput | null = date.getTime() <= Date.now()
@@ -0,0 +1,255 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { type Capture, parseCapture, type ParseTaskResponse } from './capture';
+import { supabase } from './supabase';
+
+const OFFLINE_CAPTURES_KEY = '@diaGuru.offlineCaptures';
+const MAX_SYNC_ATTEMPTS = 5;
+const DUPLICATE_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export type OfflineCaptureStatus = 'waiting' | 'needs_details';
+
+export type OfflineCapture = {
+  localId: string;
+  content: string;
+  estimatedMinutes: number | null;
+  importance: number;
+  timezone: string;
+  createdAt: string;
+  status: OfflineCaptureStatus;
+  attempts: number;
+  lastError: string | null;
+};
+
+export type OfflineCaptureInput = Pick<
+  OfflineCapture,
+  'content' | 'estimatedMinutes' | 'importance' | 'timezone'
+>;
+
+export type PersistOfflineCapture = (
+  entry: OfflineCapture,
+  estimatedMinutes: number,
+  parseResult: ParseTaskResponse | null,
+) => Promise<Capture>;
+
+export type OfflineSyncResult = {
+  saved: Capture[];
+  duplicates: OfflineCapture[];
+  needsDetails: OfflineCapture[];
+  remaining: OfflineCapture[];
+};
+
+const NETWORK_ERROR_NAMES = new Set(['FunctionsFetchError', 'AuthRetryableFetchError']);
+const NETWORK_ERROR_PATTERN =
+  /network request failed|failed to fetch|failed to send a request|network ?error|internet connection appears to be offline/i;
+
+/**
+ * True when an error came from the request never reaching Supabase, as
+ * opposed to the server rejecting it. Only these failures are queued.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  if (typeof error === 'string') return NETWORK_ERROR_PATTERN.test(error);
+  if (typeof error !== 'object') return false;
+  const record = error as { name?: unknown; message?: unknown };
+  if (typeof record.name === 'string' && NETWORK_ERROR_NAMES.has(record.name)) return true;
+  return typeof record.message === 'string' && NETWORK_ERROR_PATTERN.test(record.message);
+}
+
+function normalizeCaptureText(text: string) {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * True when a saved capture row was created from the same text as the
+ * offline entry, either as its title or as the prompt it was parsed from.
+ */
+export function isDuplicateOfOffline(
+  entry: Pick<OfflineCapture, 'content'>,
+  row: { content?: string | null; extraction_json?: unknown },
+) {
+  const wanted = normalizeCaptureText(entry.content);
+  if (!wanted) return false;
+  if (typeof row.content === 'string' && normalizeCaptureText(row.content) === wanted) {
+    return true;
+  }
+  const extraction = row.extraction_json as { original_prompt?: unknown } | null | undefined;
+  return (
+    typeof extraction?.original_prompt === 'string' &&
+    normalizeCaptureText(extraction.original_prompt) === wanted
+  );
+}
+
+function storageKey(userId: string) {
+  return `${OFFLINE_CAPTURES_KEY}:${userId}`;
+}
+
+async function writeOfflineCaptures(userId: string, entries: OfflineCapture[]) {
+  if (entries.length === 0) {
+    await AsyncStorage.removeItem(storageKey(userId));
+    return;
+  }
+  await AsyncStorage.setItem(storageKey(userId), JSON.stringify(entries));
+}
+
+export async function listOfflineCaptures(userId: string): Promise<OfflineCapture[]> {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    if (!stored) return [];
+    const parsed = JSON.parse(stored);
+    return Array.isArray(parsed) ? (parsed as OfflineCapture[]) : [];
+  } catch (error) {
+    console.log('offline captures read failed', error);
+    return [];
+  }
+}
+
+export async function enqueueOfflineCapture(
+  userId: string,
+  input: OfflineCaptureInput,
+): Promise<OfflineCapture> {
+  const entry: OfflineCapture = {
+    ...input,
+    content: input.content.trim(),
+    localId: `offline-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    status: 'waiting',
+    attempts: 0,
+    lastError: null,
+  };
+  const entries = await listOfflineCaptures(userId);
+  await writeOfflineCaptures(userId, [...entries, entry]);
+  return entry;
+}
+
+export async function removeOfflineCapture(userId: string, localId: string) {
+  const entries = await listOfflineCaptures(userId);
+  await writeOfflineCaptures(
+    userId,
+    entries.filter((entry) => entry.localId !== localId),
+  );
+}
+
+async function hasSavedDuplicate(userId: string, entry: OfflineCapture) {
+  const since = new Date(new Date(entry.createdAt).getTime() - DUPLICATE_LOOKBACK_MS);
+  const { data, error } = await supabase
+    .from('capture_entries')
+    .select('id, content, extraction_json')
+    .eq('user_id', userId)
+    .gte('created_at', since.toISOString());
+  if (error) throw error;
+  return (data ?? []).some((row) => isDuplicateOfOffline(entry, row));
+}
+
+/**
+ * Writes the sync's view of the queue without clobbering edits made while it
+ * ran: entries discarded meanwhile stay gone and new ones are appended.
+ */
+async function writeSyncProgress(
+  userId: string,
+  snapshot: OfflineCapture[],
+  pending: OfflineCapture[],
+) {
+  const latest = await listOfflineCaptures(userId);
+  const latestIds = new Set(latest.map((entry) => entry.localId));
+  const snapshotIds = new Set(snapshot.map((entry) => entry.localId));
+  await writeOfflineCaptures(userId, [
+    ...pending.filter((entry) => latestIds.has(entry.localId)),
+    ...latest.filter((entry) => !snapshotIds.has(entry.localId)),
+  ]);
+}
+
+let activeSync: Promise<OfflineSyncResult> | null = null;
+
+/**
+ * Sends queued offline captures through parse-task and saves them in the
+ * order they were typed. Entries whose text is already saved are dropped as
+ * duplicates; entries the parser cannot size are parked as needs_details.
+ * Stops at the first network failure and leaves the rest queued.
+ */
+export function syncOfflineCaptures(
+  userId: string,
+  persist: PersistOfflineCapture,
+): Promise<OfflineSyncResult> {
+  if (!activeSync) {
+    activeSync = runOfflineSync(userId, persist).finally(() => {
+      activeSync = null;
+    });
+  }
+  return activeSync;
+}
+
+async function runOfflineSync(
+  userId: string,
+  persist: PersistOfflineCapture,
+): Promise<OfflineSyncResult> {
+  const result: OfflineSyncResult = { saved: [], duplicates: [], needsDetails: [], remaining: [] };
+  const entries = await listOfflineCaptures(userId);
+  const queue = [...entries];
+  const kept: OfflineCapture[] = [];
+
+  while (queue.length > 0) {
+    const entry = queue.shift()!;
+    if (entry.status !== 'waiting') {
+      kept.push(entry);
+      continue;
+    }
+
+    try {
+      if (await hasSavedDuplicate(userId, entry)) {
+        result.duplicates.push(entry);
+        continue;
+      }
+
+      let parseResult: ParseTaskResponse | null = null;
+      let parseError: string | null = null;
+      try {
+        parseResult = await parseCapture({
+          text: entry.content,
+          timezone: entry.timezone,
+          now: entry.createdAt,
+          // A queued entry stays one capture; it may already have a duration.
+          split: false,
+        });
+      } catch (error) {
+        if (isNetworkError(error)) throw error;
+        parseError = error instanceof Error ? error.message : String(error);
+      }
+
+      const parsedMinutes = parseResult?.structured?.estimated_minutes;
+      const minutes =
+        entry.estimatedMinutes ??
+        (typeof parsedMinutes === 'number' && parsedMinutes > 0 ? parsedMinutes : null);
+      if (minutes === null) {
+        const parked: OfflineCapture = {
+          ...entry,
+          status: 'needs_details',
+          lastError: parseError ?? parseResult?.follow_up?.prompt ?? 'Duration could not be inferred.',
+        };
+        result.needsDetails.push(parked);
+        kept.push(parked);
+        continue;
+      }
+
+      result.saved.push(await persist(entry, minutes, parseResult));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (isNetworkError(error)) {
+        kept.push({ ...entry, lastError: message }, ...queue.splice(0));
+        break;
+      }
+      const attempts = entry.attempts + 1;
+      kept.push({
+        ...entry,
+        attempts,
+        lastError: message,
+        status: attempts >= MAX_SYNC_ATTEMPTS ? 'needs_details' : 'waiting',
+      });
+    } finally {
+      await writeSyncProgress(userId, entries, [...kept, ...queue]);
+    }
+  }
+
+  result.remaining = await listOfflineCaptures(userId);
+  return result;
+}
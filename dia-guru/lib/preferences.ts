@@ -6,12 +6,15 @@ const ASSISTANT_MODE_KEY = '@diaGuru.assistantMode';
 export async function getAssistantModePreference(): Promise<ParseMode> {
   try {
     const stored = await AsyncStorage.getItem(ASSISTANT_MODE_KEY);
-    if (stored === 'conversational_strict') {
-      return 'conversational_strict';
+    if (stored === 'conversational_strict' || stored === 'local_rules') {
+      return stored;
     }
-    if (stored === 'conversational' || stored === 'deterministic') {
+    if (stored === 'conversational') {
       return 'conversational_strict';
     }
+    if (stored === 'deterministic') {
+      return 'local_rules';
+    }
   } catch (error) {
     console.log('assistant mode read failed', error);
   }
@@ -0,0 +1,57 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import Constants from 'expo-constants';
+import * as Notifications from 'expo-notifications';
+import { Platform } from 'react-native';
+
+import { requestNotificationPermission } from './notifications';
+import { supabase } from './supabase';
+
+const PUSH_TOKEN_STORAGE_KEY = '@diaGuru.pushToken';
+
+function easProjectId(): string | null {
+  const extra = Constants.expoConfig?.extra as { eas?: { projectId?: string } } | undefined;
+  return extra?.eas?.projectId ?? Constants.easConfig?.projectId ?? null;
+}
+
+/**
+ * Registers this device for the reminders the send-notifications function
+ * pushes. Only asks for permission when `prompt` is set; returns the Expo push
+ * token, or null when notifications are not permitted or push is unavailable
+ * (web, builds without an EAS project id).
+ */
+export async function registerPushDevice(userId: string, options: { prompt?: boolean } = {}) {
+  if (Platform.OS === 'web') return null;
+  const projectId = easProjectId();
+  if (!projectId) return null;
+  const permitted = options.prompt
+    ? await requestNotificationPermission()
+    : (await Notifications.getPermissionsAsync()).granted;
+  if (!permitted) return null;
+
+  const { data: token } = await Notifications.getExpoPushTokenAsync({ projectId });
+  const { error } = await supabase.from('push_devices').upsert(
+    {
+      user_id: userId,
+      expo_push_token: token,
+      platform: Platform.OS,
+      last_seen_at: new Date().toISOString(),
+    },
+    { onConflict: 'expo_push_token' },
+  );
+  if (error) throw error;
+  await AsyncStorage.setItem(PUSH_TOKEN_STORAGE_KEY, token);
+  return token;
+}
+
+// Called before signing out so the next account on this device does not get
+// the previous one's reminders.
+export async function unregisterPushDevice() {
+  const token = await AsyncStorage.getItem(PUSH_TOKEN_STORAGE_KEY);
+  if (!token) return;
+  const { error } = await supabase.from('push_devices').delete().eq('expo_push_token', token);
+  if (error) {
+    console.log('push device unregister failed', error);
+    return;
+  }
+  await AsyncStorage.removeItem(PUSH_TOKEN_STORAGE_KEY);
+}
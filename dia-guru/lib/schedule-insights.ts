@@ -87,6 +87,7 @@ export function extractScheduleReasons(capture: ScheduleLikeCapture) {
   const raw = capture.scheduling_notes;
   const scheduleReasons: string[] = [];
   let scheduleNote: string | null = null;
+  let durationNote: string | null = null;
 
   if (raw && typeof raw === "string") {
     try {
@@ -107,6 +108,14 @@ export function extractScheduleReasons(capture: ScheduleLikeCapture) {
         if (typeof note === "string" && note.trim().length > 0) {
           scheduleNote = note.trim();
         }
+        const durationAdjustment = (parsed as Record<string, unknown>)
+          .duration_adjustment as { note?: unknown } | undefined;
+        if (
+          typeof durationAdjustment?.note === "string" &&
+          durationAdjustment.note.trim().length > 0
+        ) {
+          durationNote = durationAdjustment.note.trim();
+        }
       }
     } catch {
       scheduleNote = raw.trim() || null;
@@ -124,6 +133,10 @@ export function extractScheduleReasons(capture: ScheduleLikeCapture) {
         ? [scheduleNote]
         : [];
 
+  if (durationNote) {
+    combined.push(durationNote);
+  }
+
   if (combined.length < 2 && extractionReasons.length > 0) {
     combined.push(...extractionReasons);
   }
@@ -0,0 +1,161 @@
+// lib/scheduler-preferences.ts
+import { supabase } from './supabase';
+
+export type WeekdayKey = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+export type WorkingHours = { start_hour: number; end_hour: number };
+
+export type TimeOfDayBand = { start: number; end: number };
+
+export type Chronotype = 'early' | 'intermediate' | 'late';
+
+export type SchedulerPreferences = {
+  user_id: string;
+  working_hours: Partial<Record<WeekdayKey, WorkingHours>>;
+  time_of_day_bands: Record<string, TimeOfDayBand[]>;
+  buffer_minutes: number | null;
+  max_moves_per_run: number | null;
+  auto_reschedule_overdue: boolean;
+  timezone: string | null;
+  reminder_lead_minutes: Record<string, number>;
+  // Null lets the server learn the energy curve from completed deep work.
+  chronotype: Chronotype | null;
+  // Minutes per day by task type; 0 lifts a default cap.
+  daily_cap_minutes: Record<string, number>;
+  // Null keeps the default weekly cap; 0 lifts it.
+  weekly_cap_minutes: number | null;
+  // Days ahead within which pencilled captures go on the calendar.
+  commitment_window_days: number | null;
+};
+
+export const WEEKDAYS: WeekdayKey[] = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+// Mirrors the server defaults in schedule-capture/scheduler-config.ts.
+export const DEFAULT_WORKING_HOURS: WorkingHours = { start_hour: 8, end_hour: 22 };
+export const DEFAULT_BUFFER_MINUTES = 10;
+export const DEFAULT_MAX_MOVES_PER_RUN = 5;
+export const DEFAULT_TIME_OF_DAY_BANDS: Record<string, TimeOfDayBand[]> = {
+  deep_work: [{ start: 8, end: 12 }],
+  admin: [{ start: 13, end: 17 }],
+  creative: [{ start: 10, end: 15 }],
+  errand: [{ start: 12, end: 18 }],
+  health: [{ start: 6, end: 9 }, { start: 17, end: 20 }],
+  social: [{ start: 18, end: 22 }],
+  collaboration: [{ start: 9, end: 17 }],
+};
+
+// Mirrors the server defaults in _shared/notification-jobs.ts. Keys are
+// extraction kinds or task types; 0 turns a pre-start reminder off.
+export const DEFAULT_REMINDER_LEAD_MINUTES: Record<string, number> = {
+  appointment: 60,
+  deep_work: 10,
+};
+export const REMINDER_KINDS = ['appointment', 'meeting', 'call', 'deep_work', 'study', 'errand'];
+
+export const CHRONOTYPES: Chronotype[] = ['early', 'intermediate', 'late'];
+
+// Mirrors the server defaults in schedule-capture/scheduler-config.ts.
+export const DEFAULT_DAILY_CAP_MINUTES: Record<string, number> = {
+  deep_work: 240,
+  admin: 120,
+};
+export const DEFAULT_WEEKLY_CAP_MINUTES = 35 * 60;
+export const CAP_TASK_TYPES = ['deep_work', 'admin', 'creative', 'collaboration', 'errand'];
+export const DEFAULT_COMMITMENT_WINDOW_DAYS = 7;
+
+export function emptySchedulerPreferences(userId: string): SchedulerPreferences {
+  return {
+    user_id: userId,
+    working_hours: {},
+    time_of_day_bands: {},
+    buffer_minutes: null,
+    max_moves_per_run: null,
+    auto_reschedule_overdue: false,
+    timezone: null,
+    reminder_lead_minutes: {},
+    chronotype: null,
+    daily_cap_minutes: {},
+    weekly_cap_minutes: null,
+    commitment_window_days: null,
+  };
+}
+
+export function workingHoursFor(prefs: SchedulerPreferences, day: WeekdayKey): WorkingHours {
+  return prefs.working_hours[day] ?? DEFAULT_WORKING_HOURS;
+}
+
+// Matches the scheduler: an end before the start runs into the next morning.
+export function isValidWorkingHours(hours: WorkingHours) {
+  return (
+    hours.start_hour >= 0 &&
+    hours.start_hour < 24 &&
+    hours.end_hour >= 0 &&
+    hours.end_hour <= 24 &&
+    hours.start_hour !== hours.end_hour
+  );
+}
+
+export function bandsFor(prefs: SchedulerPreferences, taskType: string): TimeOfDayBand[] {
+  return prefs.time_of_day_bands[taskType] ?? DEFAULT_TIME_OF_DAY_BANDS[taskType] ?? [];
+}
+
+export function reminderLeadFor(prefs: SchedulerPreferences, kind: string): number {
+  return prefs.reminder_lead_minutes[kind] ?? DEFAULT_REMINDER_LEAD_MINUTES[kind] ?? 0;
+}
+
+export function dailyCapFor(prefs: SchedulerPreferences, taskType: string): number {
+  return prefs.daily_cap_minutes[taskType] ?? DEFAULT_DAILY_CAP_MINUTES[taskType] ?? 0;
+}
+
+export function weeklyCapFor(prefs: SchedulerPreferences): number {
+  return prefs.weekly_cap_minutes ?? DEFAULT_WEEKLY_CAP_MINUTES;
+}
+
+export function commitmentWindowFor(prefs: SchedulerPreferences): number {
+  return prefs.commitment_window_days ?? DEFAULT_COMMITMENT_WINDOW_DAYS;
+}
+
+export async function fetchSchedulerPreferences(userId: string) {
+  const { data, error } = await supabase
+    .from('user_scheduler_preferences')
+    .select(
+      'user_id, working_hours, time_of_day_bands, buffer_minutes, max_moves_per_run, auto_reschedule_overdue, timezone, reminder_lead_minutes, chronotype, daily_cap_minutes, weekly_cap_minutes, commitment_window_days',
+    )
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) return emptySchedulerPreferences(userId);
+  return {
+    ...emptySchedulerPreferences(userId),
+    ...(data as Partial<SchedulerPreferences>),
+    working_hours: (data.working_hours ?? {}) as SchedulerPreferences['working_hours'],
+    time_of_day_bands: (data.time_of_day_bands ?? {}) as SchedulerPreferences['time_of_day_bands'],
+    reminder_lead_minutes: (data.reminder_lead_minutes ??
+      {}) as SchedulerPreferences['reminder_lead_minutes'],
+    daily_cap_minutes: (data.daily_cap_minutes ?? {}) as SchedulerPreferences['daily_cap_minutes'],
+  };
+}
+
+function deviceTimezone() {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone ?? null;
+  } catch {
+    return null;
+  }
+}
+
+// The timezone is saved with the preferences so scheduled jobs, which have no
+// device to ask, can place sessions inside the user's working hours.
+export async function saveSchedulerPreferences(prefs: SchedulerPreferences) {
+  const { error } = await supabase
+    .from('user_scheduler_preferences')
+    .upsert({ ...prefs, timezone: deviceTimezone() ?? prefs.timezone });
+  if (error) throw error;
+
+  // Pending pre-start reminders were queued with the old lead times; rebuild
+  // them. The save already went through, so a failure here is only logged.
+  const { error: refreshError } = await supabase.functions.invoke('schedule-capture', {
+    body: { action: 'refresh_reminders' },
+  });
+  if (refreshError) console.log('reminder refresh failed', refreshError);
+}
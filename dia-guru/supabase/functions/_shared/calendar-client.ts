@@ -1,48 +1,89 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 import type { CalendarAccountRow, CalendarTokenRow, Database } from "../types.ts";
+import { type CalendarProvider, CalendarProviderError, calendarProviderFor } from "./calendar-provider.ts";
+
+export type LinkedCalendarAccount = {
+  id: number;
+  provider: CalendarProvider;
+  needsReconnect: boolean;
+  busyCalendarIds: string[];
+  calendarUrl: string | null;
+};
 
-const GOOGLE_TOKEN = "https://oauth2.googleapis.com/token";
-
-type CalendarClientCredentials = {
+export type CalendarClientCredentials = {
   accountId: number;
+  provider: CalendarProvider;
   accessToken: string;
   refreshToken: string | null;
   refreshed: boolean;
+  busyCalendarIds: string[];
+  calendarUrl: string | null;
 };
 
-export async function resolveCalendarClient(
+/**
+ * Picks the calendar account DiaGuru schedules into. A user may link Google,
+ * Outlook and a CalDAV server; a healthy account wins over one that needs a
+ * reconnect, then the most recently linked one. Passing `accountId` loads that
+ * account instead, so an event is always edited where it was created.
+ */
+export async function loadCalendarAccount(
   admin: SupabaseClient<Database, "public">,
   userId: string,
-  clientId: string,
-  clientSecret: string,
-) {
-  const { data: accountData, error: accountError } = await admin
+  accountId?: number | null,
+): Promise<LinkedCalendarAccount | null> {
+  let query = admin
     .from("calendar_accounts")
-    .select("id, needs_reconnect")
-    .eq("user_id", userId)
-    .eq("provider", "google")
-    .single();
-  if (accountError || !accountData) return null;
+    .select("id, provider, needs_reconnect, busy_calendar_ids, calendar_url")
+    .eq("user_id", userId);
+  if (accountId != null) query = query.eq("id", accountId);
+  const { data, error } = await query.order("id", { ascending: false });
+  if (error) throw new Error(error.message);
+
+  const accounts = ((data ?? []) as CalendarAccountRow[])
+    .map((row) => {
+      const provider = calendarProviderFor(row.provider);
+      if (!provider) return null;
+      return {
+        id: row.id,
+        provider,
+        needsReconnect: Boolean(row.needs_reconnect),
+        busyCalendarIds: row.busy_calendar_ids ?? [],
+        calendarUrl: row.calendar_url ?? null,
+      };
+    })
+    .filter((account): account is LinkedCalendarAccount => account !== null);
+
+  return accounts.find((account) => !account.needsReconnect) ?? accounts[0] ?? null;
+}
 
-  const accountRow = accountData as CalendarAccountRow;
+export async function resolveCalendarClient(
+  admin: SupabaseClient<Database, "public">,
+  userId: string,
+  accountId?: number | null,
+) {
+  const account = await loadCalendarAccount(admin, userId, accountId).catch(() => null);
+  if (!account) return null;
 
   const { data: tokenRow, error: tokenError } = await admin
     .from("calendar_tokens")
     .select("access_token, refresh_token, expiry")
-    .eq("account_id", accountRow.id)
+    .eq("account_id", account.id)
     .single();
   if (tokenError || !tokenRow) {
-    await setCalendarReconnectFlag(admin, accountRow.id, true);
+    await setCalendarReconnectFlag(admin, account.id, true);
     return null;
   }
 
   const typedToken = tokenRow as CalendarTokenRow;
 
   const credentials: CalendarClientCredentials = {
-    accountId: accountRow.id,
+    accountId: account.id,
+    provider: account.provider,
     accessToken: typedToken.access_token,
     refreshToken: typedToken.refresh_token,
     refreshed: false,
+    busyCalendarIds: account.busyCalendarIds,
+    calendarUrl: account.calendarUrl,
   };
 
   const expiryMillis = typedToken.expiry ? Date.parse(typedToken.expiry) : 0;
@@ -50,66 +91,65 @@ export async function resolveCalendarClient(
   const alreadyExpired = expiryIsValid ? expiryMillis <= Date.now() : true;
   const expiresSoon = expiryIsValid ? expiryMillis <= Date.now() + 30_000 : true;
   const needsRefresh =
-    !credentials.accessToken || alreadyExpired || expiresSoon || accountRow.needs_reconnect;
+    !credentials.accessToken || alreadyExpired || expiresSoon || account.needsReconnect;
 
   if (needsRefresh) {
-    const refreshed = await refreshCalendarAccess({
-      credentials,
-      admin,
-      clientId,
-      clientSecret,
-    });
+    const refreshed = await refreshCalendarAccess(admin, credentials);
     if (!refreshed) {
       await setCalendarReconnectFlag(admin, credentials.accountId, true);
       return null;
     }
-    credentials.refreshed = true;
   }
 
   await setCalendarReconnectFlag(admin, credentials.accountId, false);
   return credentials;
 }
 
-async function refreshCalendarAccess(args: {
-  credentials: CalendarClientCredentials;
-  admin: SupabaseClient<Database, "public">;
-  clientId: string;
-  clientSecret: string;
-}): Promise<boolean> {
-  const { credentials, admin, clientId, clientSecret } = args;
+/**
+ * Trades the stored refresh token for a new access token through the
+ * account's provider, updating the credentials in place and persisting them.
+ */
+export async function refreshCalendarAccess(
+  admin: SupabaseClient<Database, "public">,
+  credentials: CalendarClientCredentials,
+): Promise<boolean> {
   const refreshToken = credentials.refreshToken;
   if (!refreshToken) return false;
 
-  const refreshed = await refreshGoogleToken(refreshToken, clientId, clientSecret);
-  if (!refreshed || typeof refreshed.access_token !== "string") {
-    return false;
-  }
-
-  const nextRefreshToken =
-    typeof refreshed.refresh_token === "string" && refreshed.refresh_token.trim().length > 0
-      ? refreshed.refresh_token
-      : refreshToken;
+  const refreshed = await credentials.provider.refreshAccessToken(refreshToken);
+  if (!refreshed) return false;
 
-  credentials.accessToken = refreshed.access_token;
-  credentials.refreshToken = nextRefreshToken;
+  credentials.accessToken = refreshed.accessToken;
+  credentials.refreshToken = refreshed.refreshToken ?? refreshToken;
   credentials.refreshed = true;
 
-  const expiresIn =
-    typeof refreshed.expires_in === "number" && Number.isFinite(refreshed.expires_in) && refreshed.expires_in > 0
-      ? refreshed.expires_in
-      : 3600;
-
   await persistCalendarToken(admin, {
     accountId: credentials.accountId,
     accessToken: credentials.accessToken,
-    refreshToken: nextRefreshToken,
-    expiresInSeconds: expiresIn,
+    refreshToken: credentials.refreshToken,
+    expiresInSeconds: refreshed.expiresInSeconds,
   });
 
   return true;
 }
 
-async function persistCalendarToken(
+/** Runs a provider call, refreshing the access token once on a 401. */
+export async function withCalendarAuth<T>(
+  admin: SupabaseClient<Database, "public">,
+  credentials: CalendarClientCredentials,
+  request: (accessToken: string) => Promise<T>,
+): Promise<T> {
+  try {
+    return await request(credentials.accessToken);
+  } catch (error) {
+    if (error instanceof CalendarProviderError && error.status === 401 && (await refreshCalendarAccess(admin, credentials))) {
+      return await request(credentials.accessToken);
+    }
+    throw error;
+  }
+}
+
+export async function persistCalendarToken(
   admin: SupabaseClient<Database, "public">,
   params: { accountId: number; accessToken: string; refreshToken: string | null; expiresInSeconds: number },
 ) {
@@ -135,28 +175,14 @@ async function persistCalendarToken(
   return expiryIso;
 }
 
-async function refreshGoogleToken(refreshToken: string, clientId: string, clientSecret: string) {
-  const body = new URLSearchParams({
-    client_id: clientId,
-    client_secret: clientSecret,
-    refresh_token: refreshToken,
-    grant_type: "refresh_token",
-  });
-
-  const res = await fetch(GOOGLE_TOKEN, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body,
-  });
-  if (!res.ok) return null;
-  return await res.json();
-}
-
-async function setCalendarReconnectFlag(
+export async function setCalendarReconnectFlag(
   admin: SupabaseClient<Database, "public">,
   accountId: number,
   needsReconnect: boolean,
 ) {
-  await admin.from("calendar_accounts").update({ needs_reconnect: needsReconnect }).eq("id", accountId);
+  try {
+    await admin.from("calendar_accounts").update({ needs_reconnect: needsReconnect }).eq("id", accountId);
+  } catch (error) {
+    console.log("Failed to update reconnect flag", error);
+  }
 }
-
@@ -0,0 +1,388 @@
+import { assertEquals } from "std/assert";
+
+import {
+  assertPublicCalDavHost,
+  caldavCalendarProvider,
+  caldavCredential,
+  CalendarProviderError,
+  calendarProviderFor,
+  extractProviderError,
+  fromOutlookEvent,
+  googleCalendarProvider,
+  isPrivateNetworkAddress,
+  probeCalDavCalendar,
+  providerCalendarId,
+} from "./calendar-provider.ts";
+
+const PRIVATE_PROPERTY_ID =
+  "String {5b3e1b8e-6a43-4a4e-9a6c-1f0d2b9c7d41} Name diaGuruPrivate";
+
+Deno.test("fromOutlookEvent maps Graph events onto the Google shape", () => {
+  const event = fromOutlookEvent({
+    id: "AAMk-1",
+    subject: "[DG] Draft report",
+    location: { displayName: "Library" },
+    "@odata.etag": 'W/"abc"',
+    lastModifiedDateTime: "2026-10-19T08:00:00Z",
+    start: { dateTime: "2026-10-20T09:00:00.0000000", timeZone: "UTC" },
+    end: { dateTime: "2026-10-20T10:30:00.0000000", timeZone: "UTC" },
+    singleValueExtendedProperties: [
+      {
+        id: PRIVATE_PROPERTY_ID,
+        value: JSON.stringify({ diaGuru: "true", capture_id: "cap-1" }),
+      },
+    ],
+  });
+
+  assertEquals(event, {
+    id: "AAMk-1",
+    summary: "[DG] Draft report",
+    location: "Library",
+    etag: 'W/"abc"',
+    updated: "2026-10-19T08:00:00Z",
+    start: { dateTime: "2026-10-20T09:00:00.000Z" },
+    end: { dateTime: "2026-10-20T10:30:00.000Z" },
+    extendedProperties: {
+      private: { diaGuru: "true", capture_id: "cap-1" },
+    },
+  });
+});
+
+Deno.test("fromOutlookEvent handles all-day, untagged and cancelled events", () => {
+  const allDay = fromOutlookEvent({
+    id: "AAMk-2",
+    isAllDay: true,
+    start: { dateTime: "2026-10-21T00:00:00.0000000", timeZone: "UTC" },
+    end: { dateTime: "2026-10-22T00:00:00.0000000", timeZone: "UTC" },
+  });
+  assertEquals(allDay?.start, { date: "2026-10-21" });
+  assertEquals(allDay?.end, { date: "2026-10-22" });
+  assertEquals(allDay?.extendedProperties, undefined);
+
+  assertEquals(
+    fromOutlookEvent({
+      id: "AAMk-3",
+      isCancelled: true,
+      start: { dateTime: "2026-10-21T09:00:00", timeZone: "UTC" },
+      end: { dateTime: "2026-10-21T10:00:00", timeZone: "UTC" },
+    }),
+    null,
+  );
+});
+
+Deno.test("extractProviderError reads Graph and OAuth error bodies", () => {
+  assertEquals(
+    extractProviderError({
+      error: { code: "ErrorItemNotFound", message: "The item was not found." },
+    }),
+    "The item was not found.",
+  );
+  assertEquals(
+    extractProviderError({
+      error: "invalid_grant",
+      error_description: "AADSTS70000: The refresh token has expired.",
+    }),
+    "AADSTS70000: The refresh token has expired.",
+  );
+});
+
+Deno.test("providerCalendarId picks the calendar each provider writes to", () => {
+  const google = calendarProviderFor("google")!;
+  const outlook = calendarProviderFor("outlook")!;
+  const caldav = calendarProviderFor("caldav")!;
+  assertEquals(
+    providerCalendarId(google, "team@group.calendar"),
+    "team@group.calendar",
+  );
+  assertEquals(providerCalendarId(outlook, "team@group.calendar"), "primary");
+  assertEquals(
+    providerCalendarId(caldav, "team@group.calendar", CALDAV_COLLECTION),
+    CALDAV_COLLECTION,
+  );
+  assertEquals(calendarProviderFor("exchange"), null);
+});
+
+const CALDAV_COLLECTION = "https://dav.example.com/calendars/ada/diaguru/";
+const CALDAV_CREDENTIAL = caldavCredential("ada", "app-password");
+
+type StoredResource = { etag: string; data: string };
+
+// A stand-in CalDAV server holding one calendar collection in memory. It
+// honours Basic auth and the If-Match / If-None-Match preconditions.
+function createCalDavStandIn() {
+  const resources = new Map<string, StoredResource>();
+  const requests: { method: string; url: string; body: string }[] = [];
+  let version = 0;
+
+  const handle = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    const method = init?.method ?? "GET";
+    const headers = new Headers(init?.headers);
+    const body = typeof init?.body === "string" ? init.body : "";
+    requests.push({ method, url: url.toString(), body });
+    await Promise.resolve();
+
+    if (headers.get("Authorization") !== `Basic ${CALDAV_CREDENTIAL}`) {
+      return new Response("Unauthorized", { status: 401 });
+    }
+    const collection = new URL(CALDAV_COLLECTION);
+    if (url.pathname === collection.pathname) {
+      if (method === "PROPFIND") {
+        return multistatus(
+          `<d:response><d:href>${collection.pathname}</d:href><d:propstat><d:prop>` +
+            `<d:resourcetype><d:collection/><cal:calendar/></d:resourcetype>` +
+            `<d:displayname>DiaGuru</d:displayname></d:prop></d:propstat></d:response>`,
+        );
+      }
+      if (method === "REPORT") {
+        return multistatus(
+          [...resources.entries()].map(([name, resource]) =>
+            `<d:response><d:href>${collection.pathname}${name}</d:href><d:propstat><d:prop>` +
+            `<d:getetag>${resource.etag.replace(/"/g, "&quot;")}</d:getetag>` +
+            `<cal:calendar-data>${
+              resource.data.replace(/&/g, "&amp;").replace(/</g, "&lt;")
+            }</cal:calendar-data></d:prop></d:propstat></d:response>`
+          ).join(""),
+        );
+      }
+      return new Response(null, { status: 405 });
+    }
+
+    const name = decodeURIComponent(
+      url.pathname.slice(collection.pathname.length),
+    );
+    const existing = resources.get(name);
+    if (method === "PUT") {
+      if (existing && headers.get("If-None-Match") === "*") {
+        return new Response(null, { status: 412 });
+      }
+      const etag = `"v${++version}"`;
+      resources.set(name, { etag, data: body });
+      return new Response(null, { status: 201, headers: { ETag: etag } });
+    }
+    if (!existing) return new Response("Not found", { status: 404 });
+    if (method === "GET") {
+      return new Response(existing.data, { headers: { ETag: existing.etag } });
+    }
+    if (method === "DELETE") {
+      const ifMatch = headers.get("If-Match");
+      if (ifMatch && ifMatch !== existing.etag) {
+        return new Response(null, { status: 412 });
+      }
+      resources.delete(name);
+      return new Response(null, { status: 204 });
+    }
+    return new Response(null, { status: 405 });
+  };
+
+  return { resources, requests, handle };
+}
+
+function multistatus(responses: string) {
+  return new Response(
+    `<?xml version="1.0" encoding="utf-8"?>` +
+      `<d:multistatus xmlns:d="DAV:" xmlns:cal="urn:ietf:params:xml:ns:caldav">${responses}</d:multistatus>`,
+    { status: 207, headers: { "Content-Type": "application/xml" } },
+  );
+}
+
+async function withCalDavStandIn(
+  run: (server: ReturnType<typeof createCalDavStandIn>) => Promise<void>,
+) {
+  const server = createCalDavStandIn();
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = server.handle as typeof fetch;
+  try {
+    await run(server);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+}
+
+Deno.test("CalDAV provider creates, lists and deletes tagged events", async () => {
+  await withCalDavStandIn(async (server) => {
+    const created = await caldavCalendarProvider.createEvent(
+      CALDAV_CREDENTIAL,
+      CALDAV_COLLECTION,
+      {
+        summary: "[DG] Draft report, part 1",
+        description: "DiaGuru scheduled task (importance 2).",
+        start: new Date("2026-10-20T09:00:00Z"),
+        end: new Date("2026-10-20T10:30:00Z"),
+        privateProperties: { diaGuru: "true", capture_id: "cap-1" },
+      },
+    );
+    assertEquals(created.etag, '"v1"');
+    assertEquals(server.resources.has(created.id), true);
+
+    const events = await caldavCalendarProvider.listEvents(
+      CALDAV_CREDENTIAL,
+      CALDAV_COLLECTION,
+      "2026-10-20T00:00:00.000Z",
+      "2026-10-21T00:00:00.000Z",
+    );
+    assertEquals(events, [{
+      id: created.id,
+      summary: "[DG] Draft report, part 1",
+      etag: '"v1"',
+      updated: undefined,
+      start: { dateTime: "2026-10-20T09:00:00.000Z" },
+      end: { dateTime: "2026-10-20T10:30:00.000Z" },
+      extendedProperties: {
+        private: { diaGuru: "true", capture_id: "cap-1" },
+      },
+    }]);
+    const report = server.requests.find((request) =>
+      request.method === "REPORT"
+    );
+    assertEquals(
+      report?.body.includes(
+        '<C:time-range start="20261020T000000Z" end="20261021T000000Z"/>',
+      ),
+      true,
+    );
+
+    await caldavCalendarProvider.deleteEvent(
+      CALDAV_CREDENTIAL,
+      CALDAV_COLLECTION,
+      { eventId: created.id, etag: created.etag },
+    );
+    assertEquals(server.resources.size, 0);
+    assertEquals(
+      await caldavCalendarProvider.getEvent(
+        CALDAV_CREDENTIAL,
+        CALDAV_COLLECTION,
+        created.id,
+      ),
+      null,
+    );
+  });
+});
+
+Deno.test("CalDAV provider refuses to delete an event edited since it was read", async () => {
+  await withCalDavStandIn(async (server) => {
+    server.resources.set("external.ics", {
+      etag: '"v9"',
+      data: "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nUID:external\r\n" +
+        "DTSTART:20261020T090000Z\r\nDTEND:20261020T100000Z\r\n" +
+        "END:VEVENT\r\nEND:VCALENDAR\r\n",
+    });
+
+    const error = await caldavCalendarProvider.deleteEvent(
+      CALDAV_CREDENTIAL,
+      CALDAV_COLLECTION,
+      { eventId: "external.ics", etag: '"v1"' },
+    ).catch((reason) => reason);
+    assertEquals(error instanceof CalendarProviderError, true);
+    assertEquals(error.status, 412);
+    assertEquals(server.resources.has("external.ics"), true);
+  });
+});
+
+Deno.test("CalDAV provider surfaces rejected credentials as 401", async () => {
+  await withCalDavStandIn(async () => {
+    const error = await caldavCalendarProvider.listEvents(
+      caldavCredential("ada", "revoked"),
+      CALDAV_COLLECTION,
+      "2026-10-20T00:00:00.000Z",
+      "2026-10-21T00:00:00.000Z",
+    ).catch((reason) => reason);
+    assertEquals(error instanceof CalendarProviderError, true);
+    assertEquals(error.status, 401);
+    assertEquals(
+      await probeCalDavCalendar(CALDAV_COLLECTION, CALDAV_CREDENTIAL),
+      { displayName: "DiaGuru" },
+    );
+  });
+});
+
+Deno.test("CalDAV links refuse cleartext and private hosts", async () => {
+  const resolve = (hostname: string) =>
+    Promise.resolve(
+      hostname === "dav.example.com" ? ["93.184.216.34"] : [
+        "10.0.0.5",
+      ],
+    );
+  const refusal = (url: string) =>
+    assertPublicCalDavHost(url, resolve).then(
+      () => null,
+      (error: CalendarProviderError) => error.message,
+    );
+
+  assertEquals(await refusal(CALDAV_COLLECTION), null);
+  assertEquals(
+    await refusal("http://dav.example.com/calendars/ada/"),
+    "CalDAV calendar URL must be https",
+  );
+  for (
+    const url of [
+      "https://localhost/dav/",
+      "https://127.0.0.1/dav/",
+      "https://[::1]/dav/",
+      "https://169.254.169.254/latest/",
+      "https://[::ffff:192.168.1.2]/dav/",
+      "https://dav.internal.example/",
+    ]
+  ) {
+    assertEquals(
+      await refusal(url),
+      "CalDAV calendar URL must point to a public server",
+    );
+  }
+  assertEquals(isPrivateNetworkAddress("172.32.0.1"), false);
+  assertEquals(isPrivateNetworkAddress("fd00::1"), true);
+  assertEquals(isPrivateNetworkAddress("2606:4700::1111"), false);
+});
+
+Deno.test("Google listChanges pages through a sync and keeps the final token", async () => {
+  const urls: URL[] = [];
+  const pages: Record<string, unknown>[] = [
+    { items: [{ id: "evt-1", start: {}, end: {} }], nextPageToken: "page-2" },
+    {
+      items: [{ id: "evt-2", status: "cancelled" }],
+      nextSyncToken: "sync-2",
+    },
+  ];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request) => {
+    urls.push(new URL(input instanceof Request ? input.url : input));
+    return Promise.resolve(Response.json(pages[urls.length - 1]));
+  }) as typeof fetch;
+  try {
+    const changes = await googleCalendarProvider.listChanges!(
+      "token",
+      "primary",
+      "sync-1",
+    );
+    assertEquals(changes.events.map((event) => event.id), ["evt-1", "evt-2"]);
+    assertEquals(changes.nextSyncToken, "sync-2");
+    assertEquals(changes.fullSync, false);
+    assertEquals(urls[0].searchParams.get("syncToken"), "sync-1");
+    assertEquals(urls[0].searchParams.has("timeMin"), false);
+    assertEquals(urls[1].searchParams.get("pageToken"), "page-2");
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("Google listChanges reports an expired sync token as 410", async () => {
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = (() =>
+    Promise.resolve(
+      Response.json(
+        { error: { code: 410, message: "Sync token is no longer valid." } },
+        { status: 410 },
+      ),
+    )) as typeof fetch;
+  try {
+    const error = await googleCalendarProvider.listChanges!(
+      "token",
+      "primary",
+      "stale",
+    ).catch((reason) => reason);
+    assertEquals(error instanceof CalendarProviderError, true);
+    assertEquals(error.status, 410);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
@@ -0,0 +1,973 @@
+// Calendar providers behind one interface. Every provider speaks in
+// Google-shaped events (start/end dateTime, private extended properties) so
+// the scheduler, sync and undo code never branch on where an event lives.
+
+import {
+  buildICalEvent,
+  displayNameOf,
+  isCalendarCollection,
+  parseICalEvents,
+  parseMultistatus,
+} from "./ical.ts";
+
+const GOOGLE_TOKEN = "https://oauth2.googleapis.com/token";
+const GOOGLE_CALENDAR_API = "https://www.googleapis.com/calendar/v3";
+const MICROSOFT_GRAPH = "https://graph.microsoft.com/v1.0";
+const MICROSOFT_SCOPE = "offline_access Calendars.ReadWrite";
+// Outlook has no free-form private properties, so DiaGuru's markers ride in
+// one single-value extended property holding a JSON object.
+const OUTLOOK_PRIVATE_PROPERTY =
+  "String {5b3e1b8e-6a43-4a4e-9a6c-1f0d2b9c7d41} Name diaGuruPrivate";
+const OUTLOOK_EXPAND =
+  `singleValueExtendedProperties($filter=id eq '${OUTLOOK_PRIVATE_PROPERTY}')`;
+const OUTLOOK_MAX_PAGES = 5;
+// A full Google sync walks the whole calendar; past this many pages it is
+// left incomplete rather than running the function out of time.
+const GOOGLE_SYNC_MAX_PAGES = 40;
+// CalDAV app passwords do not expire; the nominal expiry only keeps the
+// shared token refresh path from running on every request.
+const CALDAV_CREDENTIAL_TTL_SECONDS = 365 * 24 * 60 * 60;
+
+export type CalendarProviderId = "google" | "outlook" | "caldav";
+
+export type ProviderCalendarEvent = {
+  id: string;
+  // "cancelled" marks deletions reported by an incremental sync.
+  status?: string;
+  summary?: string;
+  // Free text as the provider stores it; read for travel-time buffers.
+  location?: string;
+  etag?: string;
+  updated?: string;
+  start: { dateTime?: string; date?: string };
+  end: { dateTime?: string; date?: string };
+  extendedProperties?: {
+    private?: Record<string, string>;
+    shared?: Record<string, string>;
+  };
+};
+
+export type NewProviderEvent = {
+  summary: string;
+  description: string;
+  location?: string | null;
+  start: Date;
+  end: Date;
+  privateProperties: Record<string, string>;
+};
+
+export type FreeBusyCalendars = Record<
+  string,
+  { busy?: { start: string; end: string }[]; errors?: unknown[] }
+>;
+
+export type ProviderEventChanges = {
+  events: ProviderCalendarEvent[];
+  // Null when the provider stopped paging before handing out a new token.
+  nextSyncToken: string | null;
+  fullSync: boolean;
+};
+
+export type ProviderWatchChannel = {
+  id: string;
+  address: string;
+  token: string;
+  ttlSeconds: number;
+};
+
+export type ProviderWatchRegistration = {
+  resourceId: string;
+  expiresAt: string;
+};
+
+export type ProviderTokenGrant = {
+  accessToken: string;
+  refreshToken: string | null;
+  expiresInSeconds: number;
+};
+
+export type CalendarProvider = {
+  id: CalendarProviderId;
+  label: string;
+  exchangeCode: (code: string) => Promise<ProviderTokenGrant>;
+  refreshAccessToken: (
+    refreshToken: string,
+  ) => Promise<ProviderTokenGrant | null>;
+  listEvents: (
+    accessToken: string,
+    calendarId: string,
+    timeMin: string,
+    timeMax: string,
+  ) => Promise<ProviderCalendarEvent[]>;
+  getEvent: (
+    accessToken: string,
+    calendarId: string,
+    eventId: string,
+  ) => Promise<ProviderCalendarEvent | null>;
+  createEvent: (
+    accessToken: string,
+    calendarId: string,
+    event: NewProviderEvent,
+  ) => Promise<{ id: string; etag: string | null }>;
+  // Resolves quietly when the event is already gone; a stale etag throws 412.
+  deleteEvent: (
+    accessToken: string,
+    calendarId: string,
+    options: { eventId: string; etag?: string | null },
+  ) => Promise<void>;
+  // Without a sync token this is a full sync of the whole calendar. A token
+  // the provider no longer accepts throws with status 410.
+  listChanges?: (
+    accessToken: string,
+    calendarId: string,
+    syncToken: string | null,
+  ) => Promise<ProviderEventChanges>;
+  // Push notifications for calendar changes, delivered to `channel.address`.
+  watchEvents?: (
+    accessToken: string,
+    calendarId: string,
+    channel: ProviderWatchChannel,
+  ) => Promise<ProviderWatchRegistration>;
+  stopWatch?: (
+    accessToken: string,
+    channel: { id: string; resourceId: string },
+  ) => Promise<void>;
+  queryFreeBusy?: (
+    accessToken: string,
+    calendarIds: string[],
+    timeMin: string,
+    timeMax: string,
+  ) => Promise<FreeBusyCalendars>;
+};
+
+export class CalendarProviderError extends Error {
+  status: number;
+  details?: unknown;
+  constructor(message: string, status = 500, details?: unknown) {
+    super(message);
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export async function safeParse(res: Response) {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+/** Pulls a readable message out of a Google or Microsoft Graph error body. */
+export function extractProviderError(payload: unknown) {
+  if (!payload) return null;
+  if (typeof payload === "string") return payload;
+  if (typeof payload !== "object") return null;
+
+  const top = payload as Record<string, unknown>;
+  if (typeof top.error_description === "string" && top.error_description) {
+    return top.error_description;
+  }
+  if (typeof top.error === "string" && top.error.trim()) return top.error;
+  if (top.error && typeof top.error === "object") {
+    const nested = top.error as Record<string, unknown>;
+    if (typeof nested.message === "string" && nested.message.trim()) {
+      return nested.message;
+    }
+    if (Array.isArray(nested.errors) && nested.errors.length > 0) {
+      const first = nested.errors[0] as Record<string, unknown>;
+      if (typeof first.message === "string" && first.message.trim()) {
+        return first.message;
+      }
+      if (typeof first.reason === "string" && first.reason.trim()) {
+        return first.reason;
+      }
+    }
+    if (typeof nested.code === "string" && nested.code.trim()) {
+      return nested.code;
+    }
+  }
+  if (typeof top.message === "string" && top.message.trim()) return top.message;
+  return null;
+}
+
+async function requestJson(
+  url: string,
+  init: RequestInit,
+  failure: string,
+): Promise<unknown> {
+  const res = await fetch(url, init);
+  const payload = await safeParse(res);
+  if (!res.ok) {
+    throw new CalendarProviderError(
+      extractProviderError(payload) ?? `${failure} (status ${res.status})`,
+      res.status,
+      payload,
+    );
+  }
+  return payload;
+}
+
+async function requestToken(
+  url: string,
+  form: Record<string, string>,
+): Promise<ProviderTokenGrant | null> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams(form),
+  });
+  if (!res.ok) return null;
+  const payload = (await safeParse(res)) as Record<string, unknown> | null;
+  if (!payload || typeof payload.access_token !== "string") return null;
+  const expiresIn = Number(payload.expires_in);
+  return {
+    accessToken: payload.access_token,
+    refreshToken: typeof payload.refresh_token === "string" &&
+        payload.refresh_token.trim().length > 0
+      ? payload.refresh_token
+      : null,
+    expiresInSeconds: Number.isFinite(expiresIn) && expiresIn > 0
+      ? expiresIn
+      : 3600,
+  };
+}
+
+async function exchangeOrThrow(
+  grant: Promise<ProviderTokenGrant | null>,
+  label: string,
+) {
+  const token = await grant;
+  if (!token) {
+    throw new CalendarProviderError(`${label} token exchange failed`, 502);
+  }
+  return token;
+}
+
+function env(name: string) {
+  return (Deno.env.get(name) ?? "").trim();
+}
+
+function googleEventsUrl(calendarId: string) {
+  return `${GOOGLE_CALENDAR_API}/calendars/${
+    encodeURIComponent(calendarId)
+  }/events`;
+}
+
+export const googleCalendarProvider: CalendarProvider = {
+  id: "google",
+  label: "Google Calendar",
+  exchangeCode: (code) =>
+    exchangeOrThrow(
+      requestToken(GOOGLE_TOKEN, {
+        code,
+        client_id: env("GOOGLE_CLIENT_ID"),
+        client_secret: env("GOOGLE_CLIENT_SECRET"),
+        redirect_uri: env("GOOGLE_REDIRECT_URI"),
+        grant_type: "authorization_code",
+      }),
+      "Google",
+    ),
+  refreshAccessToken: (refreshToken) =>
+    requestToken(GOOGLE_TOKEN, {
+      client_id: env("GOOGLE_CLIENT_ID"),
+      client_secret: env("GOOGLE_CLIENT_SECRET"),
+      refresh_token: refreshToken,
+      grant_type: "refresh_token",
+    }),
+  listEvents: async (accessToken, calendarId, timeMin, timeMax) => {
+    const url = new URL(googleEventsUrl(calendarId));
+    url.searchParams.set("singleEvents", "true");
+    url.searchParams.set("orderBy", "startTime");
+    url.searchParams.set("timeMin", timeMin);
+    url.searchParams.set("timeMax", timeMax);
+    url.searchParams.set("maxResults", "250");
+    const payload = await requestJson(
+      url.toString(),
+      { headers: { Authorization: `Bearer ${accessToken}` } },
+      "Google events fetch failed",
+    );
+    const items = payload && typeof payload === "object"
+      ? (payload as Record<string, unknown>).items
+      : null;
+    return Array.isArray(items) ? (items as ProviderCalendarEvent[]) : [];
+  },
+  listChanges: async (accessToken, calendarId, syncToken) => {
+    const events: ProviderCalendarEvent[] = [];
+    let pageToken: string | null = null;
+    let nextSyncToken: string | null = null;
+    for (let page = 0; page < GOOGLE_SYNC_MAX_PAGES; page++) {
+      // Time bounds and filters cannot be combined with sync tokens, so the
+      // full sync that issues the first token reads the whole calendar too.
+      const url = new URL(googleEventsUrl(calendarId));
+      url.searchParams.set("maxResults", "250");
+      if (syncToken) url.searchParams.set("syncToken", syncToken);
+      if (pageToken) url.searchParams.set("pageToken", pageToken);
+      const payload = await requestJson(
+        url.toString(),
+        { headers: { Authorization: `Bearer ${accessToken}` } },
+        "Google events sync failed",
+      ) as Record<string, unknown> | null;
+      if (Array.isArray(payload?.items)) {
+        events.push(...(payload.items as ProviderCalendarEvent[]));
+      }
+      pageToken = typeof payload?.nextPageToken === "string"
+        ? payload.nextPageToken
+        : null;
+      if (!pageToken) {
+        nextSyncToken = typeof payload?.nextSyncToken === "string"
+          ? payload.nextSyncToken
+          : null;
+        break;
+      }
+    }
+    return { events, nextSyncToken, fullSync: !syncToken };
+  },
+  getEvent: async (accessToken, calendarId, eventId) => {
+    const res = await fetch(`${googleEventsUrl(calendarId)}/${eventId}`, {
+      headers: { Authorization: `Bearer ${accessToken}` },
+    });
+    if (res.status === 404) return null;
+    const payload = await safeParse(res);
+    if (!res.ok) {
+      throw new CalendarProviderError(
+        extractProviderError(payload) ??
+          `Failed to fetch calendar event (status ${res.status})`,
+        res.status,
+        payload,
+      );
+    }
+    return payload as ProviderCalendarEvent;
+  },
+  createEvent: async (accessToken, calendarId, event) => {
+    const payload = await requestJson(
+      googleEventsUrl(calendarId),
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          summary: event.summary,
+          description: event.description,
+          ...(event.location ? { location: event.location } : {}),
+          start: { dateTime: event.start.toISOString() },
+          end: { dateTime: event.end.toISOString() },
+          reminders: { useDefault: true },
+          extendedProperties: { private: event.privateProperties },
+        }),
+      },
+      "Failed to create calendar event",
+    ) as Record<string, unknown> | null;
+    return readCreatedEvent(payload?.id, payload?.etag, payload, "Google");
+  },
+  deleteEvent: (accessToken, calendarId, options) =>
+    deleteWithEtag(
+      `${googleEventsUrl(calendarId)}/${options.eventId}`,
+      `Bearer ${accessToken}`,
+      options,
+    ),
+  watchEvents: async (accessToken, calendarId, channel) => {
+    const payload = await requestJson(
+      `${googleEventsUrl(calendarId)}/watch`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          id: channel.id,
+          type: "web_hook",
+          address: channel.address,
+          token: channel.token,
+          params: { ttl: String(channel.ttlSeconds) },
+        }),
+      },
+      "Google watch request failed",
+    ) as Record<string, unknown> | null;
+    const expiration = Number(payload?.expiration);
+    if (
+      typeof payload?.resourceId !== "string" || !Number.isFinite(expiration)
+    ) {
+      throw new CalendarProviderError(
+        "Google did not return a watch channel",
+        502,
+        payload,
+      );
+    }
+    return {
+      resourceId: payload.resourceId,
+      expiresAt: new Date(expiration).toISOString(),
+    };
+  },
+  stopWatch: async (accessToken, channel) => {
+    const res = await fetch(`${GOOGLE_CALENDAR_API}/channels/stop`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${accessToken}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ id: channel.id, resourceId: channel.resourceId }),
+    });
+    // A channel that already expired or was stopped is as good as stopped.
+    if (res.ok || res.status === 404) return;
+    const payload = await safeParse(res);
+    throw new CalendarProviderError(
+      extractProviderError(payload) ??
+        `Failed to stop watch channel (status ${res.status})`,
+      res.status,
+      payload,
+    );
+  },
+  queryFreeBusy: async (accessToken, calendarIds, timeMin, timeMax) => {
+    const payload = await requestJson(
+      `${GOOGLE_CALENDAR_API}/freeBusy`,
+      {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          timeMin,
+          timeMax,
+          items: calendarIds.map((id) => ({ id })),
+        }),
+      },
+      "Google freebusy query failed",
+    );
+    const calendars = payload && typeof payload === "object"
+      ? (payload as Record<string, unknown>).calendars
+      : null;
+    return (calendars && typeof calendars === "object"
+      ? calendars
+      : {}) as FreeBusyCalendars;
+  },
+};
+
+function readCreatedEvent(
+  id: unknown,
+  etag: unknown,
+  payload: unknown,
+  label: string,
+) {
+  if (!id || typeof id !== "string") {
+    throw new CalendarProviderError(
+      `${label} did not return an event id`,
+      502,
+      payload,
+    );
+  }
+  return { id, etag: typeof etag === "string" ? etag : null };
+}
+
+async function deleteWithEtag(
+  url: string,
+  authorization: string,
+  options: { eventId: string; etag?: string | null },
+) {
+  const headers: Record<string, string> = { Authorization: authorization };
+  if (options.etag) headers["If-Match"] = options.etag;
+  const res = await fetch(url, { method: "DELETE", headers });
+  if (res.ok || res.status === 404) return;
+  const payload = await safeParse(res);
+  throw new CalendarProviderError(
+    extractProviderError(payload) ??
+      `Failed to delete calendar event (status ${res.status})`,
+    res.status,
+    res.status === 412 ? { eventId: options.eventId, payload } : payload,
+  );
+}
+
+function outlookTokenUrl() {
+  return `https://login.microsoftonline.com/${
+    env("MICROSOFT_TENANT_ID") || "common"
+  }/oauth2/v2.0/token`;
+}
+
+function outlookCalendarPath(calendarId: string) {
+  return calendarId === "primary"
+    ? `${MICROSOFT_GRAPH}/me/calendar`
+    : `${MICROSOFT_GRAPH}/me/calendars/${encodeURIComponent(calendarId)}`;
+}
+
+type GraphDateTime = { dateTime?: string; timeZone?: string } | null;
+
+// Graph returns UTC wall-clock strings with seven fractional digits and no
+// offset once the Prefer header pins the time zone to UTC.
+function fromGraphDateTime(value: GraphDateTime) {
+  if (!value?.dateTime) return null;
+  const parsed = new Date(`${value.dateTime.slice(0, 19)}Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
+
+function toGraphDateTime(date: Date) {
+  return { dateTime: date.toISOString().slice(0, 19), timeZone: "UTC" };
+}
+
+/** Maps a Microsoft Graph event onto the Google-shaped event the core uses. */
+export function fromOutlookEvent(
+  raw: Record<string, unknown>,
+): ProviderCalendarEvent | null {
+  if (typeof raw.id !== "string" || raw.isCancelled === true) return null;
+  const start = fromGraphDateTime(raw.start as GraphDateTime);
+  const end = fromGraphDateTime(raw.end as GraphDateTime);
+  if (!start || !end) return null;
+
+  let privateProperties: Record<string, string> | undefined;
+  const extended = Array.isArray(raw.singleValueExtendedProperties)
+    ? (raw.singleValueExtendedProperties as { id?: string; value?: string }[])
+    : [];
+  const marker = extended.find((entry) =>
+    entry.id?.toLowerCase() === OUTLOOK_PRIVATE_PROPERTY.toLowerCase()
+  );
+  if (marker?.value) {
+    try {
+      const parsed = JSON.parse(marker.value);
+      if (parsed && typeof parsed === "object") privateProperties = parsed;
+    } catch {
+      // A hand-edited property is treated as untagged.
+    }
+  }
+
+  const location = (raw.location as { displayName?: unknown } | undefined)
+    ?.displayName;
+  return {
+    id: raw.id,
+    summary: typeof raw.subject === "string" ? raw.subject : undefined,
+    ...(typeof location === "string" && location ? { location } : {}),
+    etag: typeof raw["@odata.etag"] === "string"
+      ? raw["@odata.etag"] as string
+      : undefined,
+    updated: typeof raw.lastModifiedDateTime === "string"
+      ? raw.lastModifiedDateTime
+      : undefined,
+    start: raw.isAllDay ? { date: start.slice(0, 10) } : { dateTime: start },
+    end: raw.isAllDay ? { date: end.slice(0, 10) } : { dateTime: end },
+    extendedProperties: privateProperties
+      ? { private: privateProperties }
+      : undefined,
+  };
+}
+
+function outlookHeaders(accessToken: string) {
+  return {
+    Authorization: `Bearer ${accessToken}`,
+    Prefer: 'outlook.timezone="UTC"',
+  };
+}
+
+export const outlookCalendarProvider: CalendarProvider = {
+  id: "outlook",
+  label: "Outlook Calendar",
+  exchangeCode: (code) =>
+    exchangeOrThrow(
+      requestToken(outlookTokenUrl(), {
+        code,
+        client_id: env("MICROSOFT_CLIENT_ID"),
+        client_secret: env("MICROSOFT_CLIENT_SECRET"),
+        redirect_uri: env("MICROSOFT_REDIRECT_URI"),
+        grant_type: "authorization_code",
+        scope: MICROSOFT_SCOPE,
+      }),
+      "Microsoft",
+    ),
+  refreshAccessToken: (refreshToken) =>
+    requestToken(outlookTokenUrl(), {
+      client_id: env("MICROSOFT_CLIENT_ID"),
+      client_secret: env("MICROSOFT_CLIENT_SECRET"),
+      refresh_token: refreshToken,
+      grant_type: "refresh_token",
+      scope: MICROSOFT_SCOPE,
+    }),
+  listEvents: async (accessToken, calendarId, timeMin, timeMax) => {
+    const url = new URL(`${outlookCalendarPath(calendarId)}/calendarView`);
+    url.searchParams.set("startDateTime", timeMin);
+    url.searchParams.set("endDateTime", timeMax);
+    url.searchParams.set("$top", "250");
+    url.searchParams.set("$orderby", "start/dateTime");
+    url.searchParams.set("$expand", OUTLOOK_EXPAND);
+
+    const events: ProviderCalendarEvent[] = [];
+    let next: string | null = url.toString();
+    for (let page = 0; next && page < OUTLOOK_MAX_PAGES; page++) {
+      const payload = await requestJson(
+        next,
+        { headers: outlookHeaders(accessToken) },
+        "Outlook events fetch failed",
+      ) as Record<string, unknown> | null;
+      const items = Array.isArray(payload?.value) ? payload.value : [];
+      for (const item of items as Record<string, unknown>[]) {
+        const event = fromOutlookEvent(item);
+        if (event) events.push(event);
+      }
+      const link = payload?.["@odata.nextLink"];
+      next = typeof link === "string" ? link : null;
+    }
+    return events;
+  },
+  getEvent: async (accessToken, _calendarId, eventId) => {
+    const url = new URL(`${MICROSOFT_GRAPH}/me/events/${eventId}`);
+    url.searchParams.set("$expand", OUTLOOK_EXPAND);
+    const res = await fetch(url.toString(), {
+      headers: outlookHeaders(accessToken),
+    });
+    if (res.status === 404) return null;
+    const payload = await safeParse(res);
+    if (!res.ok) {
+      throw new CalendarProviderError(
+        extractProviderError(payload) ??
+          `Failed to fetch calendar event (status ${res.status})`,
+        res.status,
+        payload,
+      );
+    }
+    return fromOutlookEvent(payload as Record<string, unknown>);
+  },
+  createEvent: async (accessToken, calendarId, event) => {
+    const payload = await requestJson(
+      `${outlookCalendarPath(calendarId)}/events`,
+      {
+        method: "POST",
+        headers: {
+          ...outlookHeaders(accessToken),
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          subject: event.summary,
+          body: { contentType: "text", content: event.description },
+          ...(event.location
+            ? { location: { displayName: event.location } }
+            : {}),
+          start: toGraphDateTime(event.start),
+          end: toGraphDateTime(event.end),
+          singleValueExtendedProperties: [
+            {
+              id: OUTLOOK_PRIVATE_PROPERTY,
+              value: JSON.stringify(event.privateProperties),
+            },
+          ],
+        }),
+      },
+      "Failed to create calendar event",
+    ) as Record<string, unknown> | null;
+    return readCreatedEvent(
+      payload?.id,
+      payload?.["@odata.etag"],
+      payload,
+      "Outlook",
+    );
+  },
+  deleteEvent: (accessToken, _calendarId, options) =>
+    deleteWithEtag(
+      `${MICROSOFT_GRAPH}/me/events/${options.eventId}`,
+      `Bearer ${accessToken}`,
+      options,
+    ),
+};
+
+/**
+ * CalDAV servers take HTTP Basic auth with an app password, so the stored
+ * "access token" is the encoded `username:password` pair.
+ */
+export function caldavCredential(username: string, password: string) {
+  const bytes = new TextEncoder().encode(`${username}:${password}`);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+function caldavCollectionUrl(calendarId: string) {
+  let url: URL;
+  try {
+    url = new URL(calendarId);
+  } catch {
+    throw new CalendarProviderError("CalDAV calendar URL is not set", 400);
+  }
+  // The app password goes along with every request.
+  if (url.protocol !== "https:") {
+    throw new CalendarProviderError("CalDAV calendar URL must be https", 400);
+  }
+  if (!url.pathname.endsWith("/")) url.pathname = `${url.pathname}/`;
+  return url;
+}
+
+type HostResolver = (hostname: string) => Promise<string[]>;
+
+async function resolveHostAddresses(hostname: string) {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, "A"),
+    Deno.resolveDns(hostname, "AAAA"),
+  ]);
+  return lookups.flatMap((lookup) =>
+    lookup.status === "fulfilled" ? lookup.value : []
+  );
+}
+
+/**
+ * Whether an IPv4 or IPv6 address is loopback, private, link-local or
+ * otherwise not a public internet host.
+ */
+export function isPrivateNetworkAddress(address: string): boolean {
+  const ipv4 = address.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = ipv4.slice(1, 3).map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+  const ipv6 = address.toLowerCase().replace(/^\[|\]$/g, "");
+  if (!ipv6.includes(":")) return false;
+  const mapped = ipv6.match(
+    /^::ffff:(?:(\d+\.\d+\.\d+\.\d+)|([\da-f]{1,4}):([\da-f]{1,4}))$/,
+  );
+  if (mapped) {
+    if (mapped[1]) return isPrivateNetworkAddress(mapped[1]);
+    const high = parseInt(mapped[2], 16);
+    const low = parseInt(mapped[3], 16);
+    return isPrivateNetworkAddress(
+      [high >> 8, high & 0xff, low >> 8, low & 0xff].join("."),
+    );
+  }
+  return ipv6 === "::" || ipv6 === "::1" || /^f[cd]/.test(ipv6) ||
+    /^fe[89ab]/.test(ipv6) || ipv6.startsWith("ff");
+}
+
+/**
+ * Refuses a CalDAV URL whose host is, or resolves to, a loopback, private or
+ * link-local address, so linking cannot be used to reach the server's own
+ * network. Hosts that do not resolve are left for the request to fail on.
+ */
+export async function assertPublicCalDavHost(
+  calendarId: string,
+  resolve: HostResolver = resolveHostAddresses,
+) {
+  const hostname = caldavCollectionUrl(calendarId).hostname.toLowerCase();
+  const literal = /^[\d.]+$/.test(hostname) || hostname.startsWith("[");
+  const addresses = literal ? [hostname] : await resolve(hostname);
+  if (
+    hostname === "localhost" || hostname.endsWith(".localhost") ||
+    addresses.some(isPrivateNetworkAddress)
+  ) {
+    throw new CalendarProviderError(
+      "CalDAV calendar URL must point to a public server",
+      400,
+    );
+  }
+}
+
+function caldavResourceUrl(calendarId: string, eventId: string) {
+  return new URL(encodeURIComponent(eventId), caldavCollectionUrl(calendarId))
+    .toString();
+}
+
+// Event ids are the resource names inside the calendar collection.
+function caldavResourceId(href: string) {
+  const path = href.replace(/^https?:\/\/[^/]+/i, "").replace(/\/+$/, "");
+  return decodeURIComponent(path.slice(path.lastIndexOf("/") + 1));
+}
+
+function formatCalDavTime(iso: string) {
+  return new Date(iso).toISOString().replace(/[-:]/g, "").replace(
+    /\.\d{3}/,
+    "",
+  );
+}
+
+async function caldavRequest(
+  url: string,
+  accessToken: string,
+  init: { method: string; headers?: Record<string, string>; body?: string },
+  failure: string,
+) {
+  const res = await fetch(url, {
+    ...init,
+    headers: { Authorization: `Basic ${accessToken}`, ...init.headers },
+  });
+  if (!res.ok) {
+    const payload = await safeParse(res);
+    throw new CalendarProviderError(
+      `${failure} (status ${res.status})`,
+      res.status,
+      payload,
+    );
+  }
+  return res;
+}
+
+/**
+ * Checks that a URL is a calendar collection the credential can read, before
+ * it is linked. Returns the collection's display name when it has one.
+ */
+export async function probeCalDavCalendar(
+  calendarId: string,
+  accessToken: string,
+) {
+  const res = await caldavRequest(
+    caldavCollectionUrl(calendarId).toString(),
+    accessToken,
+    {
+      method: "PROPFIND",
+      headers: {
+        Depth: "0",
+        "Content-Type": "application/xml; charset=utf-8",
+      },
+      body: `<?xml version="1.0" encoding="utf-8" ?>
+<D:propfind xmlns:D="DAV:">
+  <D:prop><D:resourcetype/><D:displayname/></D:prop>
+</D:propfind>`,
+    },
+    "CalDAV calendar lookup failed",
+  );
+  const xml = await res.text();
+  if (!isCalendarCollection(xml)) {
+    throw new CalendarProviderError("URL is not a CalDAV calendar", 400);
+  }
+  return { displayName: displayNameOf(xml) };
+}
+
+export const caldavCalendarProvider: CalendarProvider = {
+  id: "caldav",
+  label: "CalDAV Calendar",
+  exchangeCode: () =>
+    Promise.reject(
+      new CalendarProviderError(
+        "CalDAV calendars are linked with an app password",
+        400,
+      ),
+    ),
+  refreshAccessToken: (refreshToken) =>
+    Promise.resolve({
+      accessToken: refreshToken,
+      refreshToken,
+      expiresInSeconds: CALDAV_CREDENTIAL_TTL_SECONDS,
+    }),
+  listEvents: async (accessToken, calendarId, timeMin, timeMax) => {
+    const start = formatCalDavTime(timeMin);
+    const end = formatCalDavTime(timeMax);
+    // Asking the server to expand recurrences returns each instance in UTC.
+    const res = await caldavRequest(
+      caldavCollectionUrl(calendarId).toString(),
+      accessToken,
+      {
+        method: "REPORT",
+        headers: {
+          Depth: "1",
+          "Content-Type": "application/xml; charset=utf-8",
+        },
+        body: `<?xml version="1.0" encoding="utf-8" ?>
+<C:calendar-query xmlns:D="DAV:" xmlns:C="urn:ietf:params:xml:ns:caldav">
+  <D:prop>
+    <D:getetag/>
+    <C:calendar-data><C:expand start="${start}" end="${end}"/></C:calendar-data>
+  </D:prop>
+  <C:filter>
+    <C:comp-filter name="VCALENDAR">
+      <C:comp-filter name="VEVENT">
+        <C:time-range start="${start}" end="${end}"/>
+      </C:comp-filter>
+    </C:comp-filter>
+  </C:filter>
+</C:calendar-query>`,
+      },
+      "CalDAV events fetch failed",
+    );
+    const events: ProviderCalendarEvent[] = [];
+    for (const response of parseMultistatus(await res.text())) {
+      if (!response.calendarData) continue;
+      events.push(
+        ...parseICalEvents(
+          caldavResourceId(response.href),
+          response.calendarData,
+          response.etag,
+        ),
+      );
+    }
+    return events.sort((a, b) =>
+      (a.start.dateTime ?? a.start.date ?? "").localeCompare(
+        b.start.dateTime ?? b.start.date ?? "",
+      )
+    );
+  },
+  getEvent: async (accessToken, calendarId, eventId) => {
+    const res = await fetch(caldavResourceUrl(calendarId, eventId), {
+      headers: { Authorization: `Basic ${accessToken}` },
+    });
+    if (res.status === 404) return null;
+    if (!res.ok) {
+      throw new CalendarProviderError(
+        `Failed to fetch calendar event (status ${res.status})`,
+        res.status,
+        await safeParse(res),
+      );
+    }
+    const [event] = parseICalEvents(
+      eventId,
+      await res.text(),
+      res.headers.get("ETag"),
+    );
+    return event ?? null;
+  },
+  createEvent: async (accessToken, calendarId, event) => {
+    const uid = `diaguru-${crypto.randomUUID()}`;
+    const eventId = `${uid}.ics`;
+    const res = await caldavRequest(
+      caldavResourceUrl(calendarId, eventId),
+      accessToken,
+      {
+        method: "PUT",
+        headers: {
+          "Content-Type": "text/calendar; charset=utf-8",
+          "If-None-Match": "*",
+        },
+        body: buildICalEvent({ uid, ...event }),
+      },
+      "Failed to create calendar event",
+    );
+    // Servers may omit the ETag when they rewrite the stored object; deletes
+    // then go through without a precondition.
+    return { id: eventId, etag: res.headers.get("ETag") };
+  },
+  deleteEvent: (accessToken, calendarId, options) =>
+    deleteWithEtag(
+      caldavResourceUrl(calendarId, options.eventId),
+      `Basic ${accessToken}`,
+      options,
+    ),
+};
+
+const PROVIDERS: Record<CalendarProviderId, CalendarProvider> = {
+  google: googleCalendarProvider,
+  outlook: outlookCalendarProvider,
+  caldav: caldavCalendarProvider,
+};
+
+export function calendarProviderFor(
+  id: string | null | undefined,
+): CalendarProvider | null {
+  if (id === "google" || id === "outlook" || id === "caldav") {
+    return PROVIDERS[id];
+  }
+  return null;
+}
+
+/**
+ * Calendar ids configured through the environment name Google calendars and
+ * CalDAV accounts carry their own collection URL; Outlook always writes to
+ * the account's default calendar.
+ */
+export function providerCalendarId(
+  provider: CalendarProvider,
+  configuredCalendarId: string,
+  accountCalendarUrl: string | null = null,
+) {
+  if (provider.id === "google") return configuredCalendarId;
+  if (provider.id === "caldav") return accountCalendarUrl ?? "";
+  return "primary";
+}
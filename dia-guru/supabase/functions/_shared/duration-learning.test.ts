@@ -0,0 +1,181 @@
+import { assertEquals } from "std/assert";
+
+import type { CaptureDurationSampleRow } from "../types.ts";
+import {
+  type DurationSample,
+  learnedDuration,
+  measureActualMinutes,
+  readDurationAdjustment,
+  recordDurationSample,
+  withDurationAdjustment,
+} from "./duration-learning.ts";
+
+function sample(
+  estimated: number,
+  actual: number,
+  taskType = "errand",
+): DurationSample {
+  return {
+    task_type_hint: taskType,
+    estimated_minutes: estimated,
+    actual_minutes: actual,
+  };
+}
+
+Deno.test("measureActualMinutes prefers the reported check-in", () => {
+  assertEquals(
+    measureActualMinutes({
+      plannedStart: "2026-10-19T09:00:00Z",
+      plannedEnd: "2026-10-19T09:30:00Z",
+      completedAt: new Date("2026-10-19T09:30:00Z"),
+      reportedMinutes: 52,
+    }),
+    { minutes: 52, source: "check_in" },
+  );
+});
+
+Deno.test("measureActualMinutes reads the planned window against the completion", () => {
+  const window = {
+    plannedStart: "2026-10-19T09:00:00Z",
+    plannedEnd: "2026-10-19T09:30:00Z",
+  };
+  const at = (iso: string) =>
+    measureActualMinutes({ ...window, completedAt: new Date(iso) });
+
+  // Finished early.
+  assertEquals(at("2026-10-19T09:20:00Z"), {
+    minutes: 20,
+    source: "planned_window",
+  });
+  // Answered the end-of-session reminder a few minutes late.
+  assertEquals(at("2026-10-19T09:40:00Z")?.minutes, 30);
+  // Ran over.
+  assertEquals(at("2026-10-19T10:05:00Z")?.minutes, 65);
+  // Checked in much later, or before the session started.
+  assertEquals(at("2026-10-19T14:00:00Z"), null);
+  assertEquals(at("2026-10-19T08:00:00Z"), null);
+  assertEquals(
+    measureActualMinutes({
+      plannedStart: null,
+      plannedEnd: null,
+      completedAt: new Date("2026-10-19T09:20:00Z"),
+    }),
+    null,
+  );
+});
+
+Deno.test("measureActualMinutes skips planned windows that span several sessions", () => {
+  const chunked = {
+    plannedStart: "2026-10-19T09:00:00Z",
+    plannedEnd: "2026-10-21T10:00:00Z",
+    completedAt: new Date("2026-10-21T10:00:00Z"),
+    estimatedMinutes: 120,
+  };
+  assertEquals(measureActualMinutes(chunked), null);
+  assertEquals(
+    measureActualMinutes({ ...chunked, reportedMinutes: 150 }),
+    { minutes: 150, source: "check_in" },
+  );
+  assertEquals(
+    measureActualMinutes({
+      plannedStart: "2026-10-19T09:00:00Z",
+      plannedEnd: "2026-10-19T11:00:00Z",
+      completedAt: new Date("2026-10-19T10:45:00Z"),
+      estimatedMinutes: 120,
+    })?.minutes,
+    105,
+  );
+});
+
+Deno.test("learnedDuration applies the median ratio for the task type", () => {
+  const samples = [
+    sample(30, 45),
+    sample(30, 40),
+    sample(60, 100),
+    sample(30, 10, "call"),
+  ];
+
+  assertEquals(
+    learnedDuration({ estimate: null, taskType: "Errand", samples }),
+    {
+      from: 30,
+      to: 45,
+      samples: 3,
+      note: 'Adjusted from 30 → 45 min based on history of 3 "errand" tasks.',
+    },
+  );
+  assertEquals(
+    learnedDuration({ estimate: 60, taskType: "errand", samples })?.to,
+    90,
+  );
+  // Too few samples of this type, or no type at all.
+  assertEquals(
+    learnedDuration({ estimate: 30, taskType: "call", samples }),
+    null,
+  );
+  assertEquals(
+    learnedDuration({ estimate: 30, taskType: null, samples }),
+    null,
+  );
+});
+
+Deno.test("learnedDuration ignores corrections under five minutes", () => {
+  const samples = [sample(30, 32), sample(30, 31), sample(30, 29)];
+  assertEquals(
+    learnedDuration({ estimate: 30, taskType: "errand", samples }),
+    null,
+  );
+});
+
+Deno.test("duration adjustments round-trip through scheduling notes", () => {
+  const adjustment = {
+    from: 30,
+    to: 45,
+    samples: 3,
+    note: "Adjusted from 30 → 45 min based on history.",
+  };
+  const notes = withDurationAdjustment(
+    JSON.stringify({ importance: { urgency: 3 } }),
+    adjustment,
+  );
+
+  assertEquals(JSON.parse(notes).importance, { urgency: 3 });
+  assertEquals(readDurationAdjustment(notes), adjustment);
+  assertEquals(readDurationAdjustment("Marked completed by user."), null);
+});
+
+Deno.test("recordDurationSample stores the estimate from before the adjustment", async () => {
+  const inserted: CaptureDurationSampleRow[] = [];
+  const admin = {
+    from: () => ({
+      insert: (row: CaptureDurationSampleRow) => {
+        inserted.push(row);
+        return Promise.resolve({ error: null });
+      },
+    }),
+  } as unknown as Parameters<typeof recordDurationSample>[0];
+
+  const row = await recordDurationSample(admin, {
+    capture: {
+      id: "cap-1",
+      user_id: "user-1",
+      task_type_hint: " Errand ",
+      estimated_minutes: 45,
+      planned_start: "2026-10-19T09:00:00Z",
+      planned_end: "2026-10-19T09:45:00Z",
+      scheduling_notes: withDurationAdjustment(null, {
+        from: 30,
+        to: 45,
+        samples: 3,
+        note: "",
+      }),
+    },
+    completedAt: new Date("2026-10-19T09:50:00Z"),
+  });
+
+  assertEquals(inserted, [row!]);
+  assertEquals(row?.task_type_hint, "errand");
+  assertEquals(row?.estimated_minutes, 30);
+  assertEquals(row?.actual_minutes, 45);
+  assertEquals(row?.source, "planned_window");
+});
@@ -0,0 +1,262 @@
+// Learns how long a user's tasks really take. Each completion is stored as a
+// sample of the estimate a capture was planned with against the minutes it
+// actually took; the median ratio over recent samples of the same task type
+// corrects new estimates of that type.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type {
+  CaptureDurationSampleRow,
+  CaptureEntryRow,
+  Database,
+} from "../types.ts";
+
+type AdminClient = SupabaseClient<Database, "public">;
+
+export const DEFAULT_ESTIMATE_MINUTES = 30;
+export const MIN_SAMPLES = 3;
+const RECENT_SAMPLES = 10;
+const HISTORY_LIMIT = 200;
+const MIN_RATIO = 0.5;
+const MAX_RATIO = 3;
+const MIN_MINUTES = 5;
+const MAX_MINUTES = 480;
+// The check-in reminder fires at planned_end, so answering it a little late
+// says nothing about the work itself.
+const CHECK_IN_SLACK_MS = 15 * 60 * 1000;
+// A completion more than this many planned lengths after the start is a
+// forgotten check-in rather than an overrun.
+const MAX_OVERRUN_FACTOR = 3;
+// A planned window this much longer than the estimate spans several chunks or
+// sessions, so the time from its start says nothing about the work.
+const MAX_WINDOW_FACTOR = 1.5;
+
+export type DurationSample = Pick<
+  CaptureDurationSampleRow,
+  "task_type_hint" | "estimated_minutes" | "actual_minutes"
+>;
+
+export type DurationAdjustment = {
+  from: number;
+  to: number;
+  samples: number;
+  note: string;
+};
+
+type CaptureDurationFields = Pick<
+  CaptureEntryRow,
+  | "id"
+  | "user_id"
+  | "task_type_hint"
+  | "estimated_minutes"
+  | "planned_start"
+  | "planned_end"
+  | "scheduling_notes"
+>;
+
+export function normalizeTaskType(hint: string | null | undefined) {
+  const normalized = hint?.trim().toLowerCase();
+  return normalized ? normalized : null;
+}
+
+function clampMinutes(minutes: number) {
+  return Math.min(MAX_MINUTES, Math.max(MIN_MINUTES, Math.round(minutes)));
+}
+
+function median(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Minutes a completed capture took. A reported value from the check-in wins;
+ * otherwise the time from planned_start to the completion is used when the
+ * planned window was a single session of about `estimatedMinutes` and the
+ * completion plausibly ended it. Returns null when neither says anything
+ * about the work.
+ */
+export function measureActualMinutes(input: {
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  completedAt: Date;
+  reportedMinutes?: number | null;
+  estimatedMinutes?: number | null;
+}): { minutes: number; source: "check_in" | "planned_window" } | null {
+  const reported = input.reportedMinutes;
+  if (
+    typeof reported === "number" && Number.isFinite(reported) && reported > 0
+  ) {
+    return { minutes: clampMinutes(reported), source: "check_in" };
+  }
+
+  const start = input.plannedStart ? Date.parse(input.plannedStart) : NaN;
+  const end = input.plannedEnd ? Date.parse(input.plannedEnd) : NaN;
+  const completed = input.completedAt.getTime();
+  if (Number.isNaN(start) || Number.isNaN(end) || end <= start) return null;
+  if (completed <= start) return null;
+  const estimate = input.estimatedMinutes;
+  if (
+    typeof estimate === "number" && estimate > 0 &&
+    end - start > estimate * 60000 * MAX_WINDOW_FACTOR
+  ) {
+    return null;
+  }
+
+  // Finishing early counts up to the completion; a check-in within the slack
+  // counts as finishing on time.
+  const finished = completed <= end + CHECK_IN_SLACK_MS
+    ? Math.min(completed, end)
+    : completed;
+  if (finished - start > (end - start) * MAX_OVERRUN_FACTOR) return null;
+  return {
+    minutes: clampMinutes((finished - start) / 60000),
+    source: "planned_window",
+  };
+}
+
+/**
+ * The learned estimate for a task of `taskType`, or null when there are fewer
+ * than MIN_SAMPLES completions of that type or the correction would change the
+ * estimate by less than five minutes. `samples` are expected newest first.
+ */
+export function learnedDuration(input: {
+  estimate: number | null;
+  taskType: string | null;
+  samples: DurationSample[];
+}): DurationAdjustment | null {
+  const taskType = normalizeTaskType(input.taskType);
+  if (!taskType) return null;
+  const recent = input.samples
+    .filter((sample) =>
+      normalizeTaskType(sample.task_type_hint) === taskType &&
+      sample.estimated_minutes > 0 && sample.actual_minutes > 0
+    )
+    .slice(0, RECENT_SAMPLES);
+  if (recent.length < MIN_SAMPLES) return null;
+
+  const ratio = Math.min(
+    MAX_RATIO,
+    Math.max(
+      MIN_RATIO,
+      median(
+        recent.map((sample) =>
+          sample.actual_minutes / sample.estimated_minutes
+        ),
+      ),
+    ),
+  );
+  const from = input.estimate && input.estimate > 0
+    ? input.estimate
+    : DEFAULT_ESTIMATE_MINUTES;
+  const to = clampMinutes(Math.round((from * ratio) / 5) * 5);
+  if (Math.abs(to - from) < 5) return null;
+  return {
+    from,
+    to,
+    samples: recent.length,
+    note:
+      `Adjusted from ${from} → ${to} min based on history of ${recent.length} "${taskType}" tasks.`,
+  };
+}
+
+function parseNotes(notes: string | null | undefined) {
+  if (!notes) return {};
+  try {
+    const parsed = JSON.parse(notes);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed as Record<string, unknown>
+      : {};
+  } catch {
+    return {};
+  }
+}
+
+/** Stores the adjustment in the scheduling_notes JSON, keeping other keys. */
+export function withDurationAdjustment(
+  notes: string | null | undefined,
+  adjustment: DurationAdjustment,
+) {
+  return JSON.stringify({
+    ...parseNotes(notes),
+    duration_adjustment: adjustment,
+  });
+}
+
+export function readDurationAdjustment(
+  notes: string | null | undefined,
+): DurationAdjustment | null {
+  const value = parseNotes(notes).duration_adjustment as
+    | Partial<DurationAdjustment>
+    | undefined;
+  if (
+    !value || typeof value.from !== "number" || typeof value.to !== "number"
+  ) {
+    return null;
+  }
+  return {
+    from: value.from,
+    to: value.to,
+    samples: typeof value.samples === "number" ? value.samples : 0,
+    note: typeof value.note === "string" ? value.note : "",
+  };
+}
+
+/**
+ * Recent samples across every task type, newest first. `learnedDuration`
+ * picks the ones matching a task.
+ */
+export async function loadDurationSamples(
+  admin: AdminClient,
+  userId: string,
+): Promise<DurationSample[]> {
+  const { data, error } = await admin
+    .from("capture_duration_samples")
+    .select("task_type_hint, estimated_minutes, actual_minutes")
+    .eq("user_id", userId)
+    .order("completed_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (error) throw new Error(error.message);
+  return (data ?? []) as DurationSample[];
+}
+
+/**
+ * Records how long `capture` took, measured against the estimate it had
+ * before any learned adjustment so corrections do not feed on themselves.
+ * Returns the stored sample, or null when nothing could be measured.
+ */
+export async function recordDurationSample(
+  admin: AdminClient,
+  input: {
+    capture: CaptureDurationFields;
+    completedAt: Date;
+    reportedMinutes?: number | null;
+  },
+): Promise<CaptureDurationSampleRow | null> {
+  const { capture, completedAt } = input;
+  const actual = measureActualMinutes({
+    plannedStart: capture.planned_start,
+    plannedEnd: capture.planned_end,
+    completedAt,
+    reportedMinutes: input.reportedMinutes,
+    estimatedMinutes: capture.estimated_minutes,
+  });
+  if (!actual) return null;
+
+  const estimate = readDurationAdjustment(capture.scheduling_notes)?.from ??
+    capture.estimated_minutes ?? DEFAULT_ESTIMATE_MINUTES;
+  const row: CaptureDurationSampleRow = {
+    user_id: capture.user_id,
+    capture_id: capture.id,
+    task_type_hint: normalizeTaskType(capture.task_type_hint),
+    estimated_minutes: clampMinutes(estimate),
+    actual_minutes: actual.minutes,
+    source: actual.source,
+    completed_at: completedAt.toISOString(),
+  };
+  const { error } = await admin.from("capture_duration_samples").insert(row);
+  if (error) throw new Error(error.message);
+  return row;
+}
@@ -0,0 +1,86 @@
+import { assertEquals } from "std/assert";
+
+import {
+  chronotypeCurve,
+  energyBands,
+  energyDemandFor,
+  type EnergySample,
+  learnEnergyCurve,
+  slotEnergy,
+} from "./energy-curve.ts";
+
+function sample(
+  completedAt: string,
+  actual = 60,
+  estimated = 60,
+  taskType = "deep_work",
+): EnergySample {
+  return {
+    task_type_hint: taskType,
+    estimated_minutes: estimated,
+    actual_minutes: actual,
+    completed_at: completedAt,
+  };
+}
+
+const WORKING_WINDOW = { startHour: 8, endHour: 22 };
+
+Deno.test("chronotypeCurve only knows the declared chronotypes", () => {
+  assertEquals(chronotypeCurve("early")?.length, 24);
+  assertEquals(chronotypeCurve("owl"), null);
+  assertEquals(chronotypeCurve(null), null);
+});
+
+Deno.test("energyDemandFor splits heavy work from admin", () => {
+  assertEquals(energyDemandFor("Deep_Work"), "high");
+  assertEquals(energyDemandFor("admin"), "low");
+  assertEquals(energyDemandFor("social"), null);
+  assertEquals(energyDemandFor(null), null);
+});
+
+Deno.test("energyBands finds peaks and troughs inside working hours", () => {
+  const late = chronotypeCurve("late")!;
+  assertEquals(energyBands(late, "high", WORKING_WINDOW), [
+    { start: 16, end: 22 },
+  ]);
+  assertEquals(energyBands(late, "low", WORKING_WINDOW), [
+    { start: 8, end: 11 },
+    { start: 13, end: 15 },
+  ]);
+});
+
+Deno.test("slotEnergy reads the curve in local time", () => {
+  const early = chronotypeCurve("early")!;
+  const slot = {
+    start: new Date("2026-10-19T07:00:00Z"),
+    end: new Date("2026-10-19T08:00:00Z"),
+  };
+  assertEquals(slotEnergy(early, slot, 0), 0.8);
+  // 07:00Z is 09:00 two hours east of UTC.
+  assertEquals(slotEnergy(early, slot, 120), 1);
+});
+
+Deno.test("learnEnergyCurve peaks where deep work was finished on time", () => {
+  const samples = [
+    "2026-10-12T11:00:00Z",
+    "2026-10-13T11:00:00Z",
+    "2026-10-14T11:00:00Z",
+    "2026-10-15T11:00:00Z",
+    "2026-10-16T11:00:00Z",
+  ].map((completedAt) => sample(completedAt));
+
+  const curve = learnEnergyCurve(samples, 0)!;
+  assertEquals(curve[10], 1);
+  assertEquals(curve[9], 0.6);
+  assertEquals(curve[15], 0.2);
+
+  // Overruns and other task types say nothing about the user's peaks.
+  assertEquals(
+    learnEnergyCurve([
+      ...samples.slice(0, 3),
+      sample("2026-10-17T11:00:00Z", 90, 60),
+      sample("2026-10-18T11:00:00Z", 60, 60, "errand"),
+    ], 0),
+    null,
+  );
+});
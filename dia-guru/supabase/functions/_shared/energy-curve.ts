@@ -0,0 +1,196 @@
+// A user's energy over the day, as 24 hourly levels between 0 and 1 indexed by
+// local hour. Cognitively heavy captures are steered to the peaks and light
+// admin work to the troughs. The curve comes from a declared chronotype or is
+// learned from the hours in which deep work was actually completed on time.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { CaptureDurationSampleRow, Database } from "../types.ts";
+import { normalizeTaskType } from "./duration-learning.ts";
+
+type AdminClient = SupabaseClient<Database, "public">;
+
+export type EnergyCurve = number[];
+
+export type Chronotype = "early" | "intermediate" | "late";
+
+// Whether a capture wants the user's peaks ("high") or can take the troughs.
+export type EnergyDemand = "high" | "low";
+
+export type EnergyCurveSource = "declared" | "learned";
+
+export type EnergySample = Pick<
+  CaptureDurationSampleRow,
+  "task_type_hint" | "estimated_minutes" | "actual_minutes" | "completed_at"
+>;
+
+export const CHRONOTYPES: Chronotype[] = ["early", "intermediate", "late"];
+
+// deno-fmt-ignore
+const CHRONOTYPE_CURVES: Record<Chronotype, EnergyCurve> = {
+  early: [
+    0.1, 0.1, 0.1, 0.1, 0.2, 0.4, 0.6, 0.8, 0.9, 1, 1, 0.9,
+    0.7, 0.5, 0.4, 0.5, 0.6, 0.6, 0.5, 0.4, 0.3, 0.2, 0.1, 0.1,
+  ],
+  intermediate: [
+    0.1, 0.1, 0.1, 0.1, 0.1, 0.2, 0.3, 0.5, 0.7, 0.9, 1, 0.9,
+    0.7, 0.5, 0.4, 0.5, 0.7, 0.7, 0.6, 0.5, 0.4, 0.3, 0.2, 0.1,
+  ],
+  late: [
+    0.2, 0.1, 0.1, 0.1, 0.1, 0.1, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6,
+    0.6, 0.5, 0.5, 0.6, 0.8, 0.9, 1, 1, 0.9, 0.8, 0.6, 0.4,
+  ],
+};
+
+export const HIGH_ENERGY_TASK_TYPES = ["deep_work", "creative", "study"];
+export const LOW_ENERGY_TASK_TYPES = ["admin", "errand"];
+
+// Hours at or above PEAK_LEVEL suit heavy work; at or below TROUGH_LEVEL,
+// admin.
+export const PEAK_LEVEL = 0.7;
+export const TROUGH_LEVEL = 0.5;
+// On-time completions needed before a curve is learned.
+export const MIN_ENERGY_SAMPLES = 5;
+const HISTORY_LIMIT = 100;
+// Learned hours without any completions still get this level, so they read
+// as troughs rather than as impossible.
+const LEARNED_FLOOR = 0.2;
+const SAMPLE_STEP_MINUTES = 15;
+
+/** The curve for a declared chronotype, or null when none is set. */
+export function chronotypeCurve(value: unknown): EnergyCurve | null {
+  if (typeof value !== "string") return null;
+  return (CHRONOTYPES as string[]).includes(value)
+    ? CHRONOTYPE_CURVES[value as Chronotype]
+    : null;
+}
+
+export function energyDemandFor(
+  taskType: string | null | undefined,
+): EnergyDemand | null {
+  const normalized = normalizeTaskType(taskType);
+  if (!normalized) return null;
+  if (HIGH_ENERGY_TASK_TYPES.includes(normalized)) return "high";
+  if (LOW_ENERGY_TASK_TYPES.includes(normalized)) return "low";
+  return null;
+}
+
+function localHour(date: Date, offsetMinutes: number) {
+  return new Date(date.getTime() + offsetMinutes * 60000).getUTCHours();
+}
+
+/** Mean energy level over a slot, sampled every quarter hour. */
+export function slotEnergy(
+  curve: EnergyCurve,
+  slot: { start: Date; end: Date },
+  offsetMinutes: number,
+) {
+  const levels: number[] = [];
+  for (
+    let cursor = slot.start.getTime();
+    cursor < slot.end.getTime() || levels.length === 0;
+    cursor += SAMPLE_STEP_MINUTES * 60000
+  ) {
+    levels.push(curve[localHour(new Date(cursor), offsetMinutes)] ?? 0);
+  }
+  return levels.reduce((sum, level) => sum + level, 0) / levels.length;
+}
+
+/** How well an energy level suits a capture: 1 is ideal, 0 the worst. */
+export function energyFit(level: number, demand: EnergyDemand) {
+  return demand === "high" ? level : 1 - level;
+}
+
+/**
+ * Whole-hour bands inside `window` where the curve suits `demand`: the peaks
+ * for heavy work, the troughs for admin. Bands are in chronological order;
+ * an empty list means the curve has no such stretch in working hours.
+ */
+export function energyBands(
+  curve: EnergyCurve,
+  demand: EnergyDemand,
+  window: { startHour: number; endHour: number },
+) {
+  const bands: { start: number; end: number }[] = [];
+  const suits = (level: number) =>
+    demand === "high" ? level >= PEAK_LEVEL : level <= TROUGH_LEVEL;
+  for (
+    let hour = Math.ceil(window.startHour);
+    hour < Math.floor(window.endHour);
+    hour++
+  ) {
+    // Overnight working hours run past 24 into the next morning.
+    if (!suits(curve[hour % 24] ?? 0)) continue;
+    const last = bands[bands.length - 1];
+    if (last && last.end === hour) {
+      last.end = hour + 1;
+    } else {
+      bands.push({ start: hour, end: hour + 1 });
+    }
+  }
+  return bands;
+}
+
+/**
+ * Learns a curve from the hours heavy work was done in. Only samples of
+ * high-demand task types that took no longer than estimated count; each one
+ * weighs the local hours its session covered. Returns null below
+ * MIN_ENERGY_SAMPLES.
+ */
+export function learnEnergyCurve(
+  samples: EnergySample[],
+  offsetMinutes: number,
+): EnergyCurve | null {
+  const onTime = samples.filter((sample) =>
+    energyDemandFor(sample.task_type_hint) === "high" &&
+    sample.actual_minutes > 0 &&
+    sample.actual_minutes <= sample.estimated_minutes &&
+    !Number.isNaN(Date.parse(sample.completed_at))
+  );
+  if (onTime.length < MIN_ENERGY_SAMPLES) return null;
+
+  const minutesByHour = new Array<number>(24).fill(0);
+  for (const sample of onTime) {
+    const end = Date.parse(sample.completed_at);
+    for (
+      let cursor = end - sample.actual_minutes * 60000;
+      cursor < end;
+      cursor += SAMPLE_STEP_MINUTES * 60000
+    ) {
+      const step = Math.min(SAMPLE_STEP_MINUTES, (end - cursor) / 60000);
+      minutesByHour[localHour(new Date(cursor), offsetMinutes)] += step;
+    }
+  }
+
+  // Neighbouring hours share a little of each other's weight so a single
+  // busy hour does not read as the only good one.
+  const smoothed = minutesByHour.map((minutes, hour) =>
+    minutesByHour[(hour + 23) % 24] * 0.25 + minutes * 0.5 +
+    minutesByHour[(hour + 1) % 24] * 0.25
+  );
+  const max = Math.max(...smoothed);
+  if (max <= 0) return null;
+  return smoothed.map((value) =>
+    Math.round((LEARNED_FLOOR + (1 - LEARNED_FLOOR) * value / max) * 100) /
+    100
+  );
+}
+
+/**
+ * Recent completions of heavy task types, newest first, for
+ * `learnEnergyCurve`.
+ */
+export async function loadEnergySamples(
+  admin: AdminClient,
+  userId: string,
+): Promise<EnergySample[]> {
+  const { data, error } = await admin
+    .from("capture_duration_samples")
+    .select("task_type_hint, estimated_minutes, actual_minutes, completed_at")
+    .eq("user_id", userId)
+    .in("task_type_hint", HIGH_ENERGY_TASK_TYPES)
+    .order("completed_at", { ascending: false })
+    .limit(HISTORY_LIMIT);
+  if (error) throw new Error(error.message);
+  return (data ?? []) as EnergySample[];
+}
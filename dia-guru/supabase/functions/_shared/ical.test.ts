@@ -0,0 +1,106 @@
+import { assertEquals } from "std/assert";
+
+import {
+  buildICalEvent,
+  isCalendarCollection,
+  parseICalEvents,
+  parseMultistatus,
+} from "./ical.ts";
+
+Deno.test("buildICalEvent round-trips through parseICalEvents", () => {
+  const data = buildICalEvent(
+    {
+      uid: "diaguru-1",
+      summary: "[DG] Review notes; then send, quickly",
+      description: "Line one\nLine two ".repeat(8),
+      location: "Dentist, 12 Main St",
+      start: new Date("2026-10-20T09:00:00Z"),
+      end: new Date("2026-10-20T09:45:00Z"),
+      privateProperties: { diaGuru: "true", capture_id: "cap-1" },
+    },
+    new Date("2026-10-19T12:00:00Z"),
+  );
+
+  assertEquals(
+    data.split("\r\n").every((line) =>
+      new TextEncoder().encode(line).length <= 75
+    ),
+    true,
+  );
+  assertEquals(parseICalEvents("diaguru-1.ics", data, '"e1"'), [{
+    id: "diaguru-1.ics",
+    summary: "[DG] Review notes; then send, quickly",
+    location: "Dentist, 12 Main St",
+    etag: '"e1"',
+    updated: undefined,
+    start: { dateTime: "2026-10-20T09:00:00.000Z" },
+    end: { dateTime: "2026-10-20T09:45:00.000Z" },
+    extendedProperties: {
+      private: { diaGuru: "true", capture_id: "cap-1" },
+    },
+  }]);
+});
+
+Deno.test("parseICalEvents resolves zones, durations and all-day events", () => {
+  const data = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT",
+    "UID:standup",
+    "DTSTART;TZID=Europe/Berlin:20261020T090000",
+    "DURATION:PT30M",
+    "SUMMARY:Standup",
+    "BEGIN:VALARM",
+    "DESCRIPTION:Reminder",
+    "DTSTART:20000101T000000Z",
+    "END:VALARM",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:holiday",
+    "DTSTART;VALUE=DATE:20261026",
+    "SUMMARY:Holiday",
+    "END:VEVENT",
+    "BEGIN:VEVENT",
+    "UID:dropped",
+    "STATUS:CANCELLED",
+    "DTSTART:20261021T090000Z",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+  const [standup, holiday, ...rest] = parseICalEvents("shared.ics", data);
+  assertEquals(standup.start, { dateTime: "2026-10-20T07:00:00.000Z" });
+  assertEquals(standup.end, { dateTime: "2026-10-20T07:30:00.000Z" });
+  assertEquals(holiday.id, "shared.ics#1");
+  assertEquals(holiday.start, { date: "2026-10-26" });
+  assertEquals(holiday.end, { date: "2026-10-27" });
+  assertEquals(rest, []);
+});
+
+Deno.test("parseMultistatus reads prefixed and unprefixed responses", () => {
+  const responses = parseMultistatus(`<?xml version="1.0"?>
+<multistatus xmlns="DAV:">
+  <response>
+    <href>/cal/a.ics</href>
+    <propstat><prop>
+      <getetag>&quot;1&quot;</getetag>
+      <C:calendar-data xmlns:C="urn:ietf:params:xml:ns:caldav"><![CDATA[BEGIN:VCALENDAR]]></C:calendar-data>
+    </prop></propstat>
+  </response>
+  <D:response xmlns:D="DAV:"><D:href>/cal/b.ics</D:href><D:getetag/></D:response>
+</multistatus>`);
+
+  assertEquals(responses, [
+    { href: "/cal/a.ics", etag: '"1"', calendarData: "BEGIN:VCALENDAR" },
+    { href: "/cal/b.ics", etag: null, calendarData: null },
+  ]);
+  assertEquals(
+    isCalendarCollection(
+      "<d:resourcetype><d:collection/><c:calendar/></d:resourcetype>",
+    ),
+    true,
+  );
+  assertEquals(
+    isCalendarCollection("<d:resourcetype><d:collection/></d:resourcetype>"),
+    false,
+  );
+});
@@ -0,0 +1,353 @@
+// Minimal iCalendar (RFC 5545) and WebDAV multistatus handling for the CalDAV
+// provider. Only what DiaGuru reads and writes is covered: VEVENT timing,
+// summary, location, status and the X-DIAGURU-PRIVATE markers.
+
+import type { ProviderCalendarEvent } from "./calendar-provider.ts";
+
+const PRIVATE_PROPERTY = "X-DIAGURU-PRIVATE";
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ICalEventInput = {
+  uid: string;
+  summary: string;
+  description: string;
+  location?: string | null;
+  start: Date;
+  end: Date;
+  privateProperties: Record<string, string>;
+};
+
+export type DavResponse = {
+  href: string;
+  etag: string | null;
+  calendarData: string | null;
+};
+
+type ContentLine = {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+};
+
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(value: string) {
+  return value.replace(
+    /\\([\\;,nN])/g,
+    (_match, char: string) => char === "n" || char === "N" ? "\n" : char,
+  );
+}
+
+// Content lines longer than 75 octets must be folded onto continuation lines.
+function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= 75) return line;
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const char of line) {
+    const charSize = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (size + charSize > limit) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += char;
+    size += charSize;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function formatUtc(date: Date) {
+  return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/** Serialises one DiaGuru event as a standalone VCALENDAR object. */
+export function buildICalEvent(event: ICalEventInput, now = new Date()) {
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//DiaGuru//Scheduler//EN",
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    `DTSTAMP:${formatUtc(now)}`,
+    `DTSTART:${formatUtc(event.start)}`,
+    `DTEND:${formatUtc(event.end)}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+    `DESCRIPTION:${escapeText(event.description)}`,
+    ...(event.location ? [`LOCATION:${escapeText(event.location)}`] : []),
+    ...Object.entries(event.privateProperties).map(([key, value]) =>
+      `${PRIVATE_PROPERTY};KEY=${key}:${escapeText(value)}`
+    ),
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(foldLine).join("\r\n")}\r\n`;
+}
+
+function parseContentLine(line: string): ContentLine | null {
+  let inQuotes = false;
+  let split = -1;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') inQuotes = !inQuotes;
+    if (char === ":" && !inQuotes) {
+      split = i;
+      break;
+    }
+  }
+  if (split < 0) return null;
+
+  const [name, ...rawParams] = line.slice(0, split).split(";");
+  const params: Record<string, string> = {};
+  for (const raw of rawParams) {
+    const eq = raw.indexOf("=");
+    if (eq < 0) continue;
+    params[raw.slice(0, eq).toUpperCase()] = raw.slice(eq + 1).replace(
+      /^"|"$/g,
+      "",
+    );
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(split + 1) };
+}
+
+function timeZoneOffsetMillis(utcMillis: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(utcMillis));
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value ?? 0);
+  return Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second"),
+  ) - utcMillis;
+}
+
+// Wall-clock time in an IANA zone to UTC. The second pass settles times that
+// sit next to a DST transition.
+function zonedToUtc(wallClockMillis: number, timeZone: string) {
+  try {
+    const first = wallClockMillis -
+      timeZoneOffsetMillis(wallClockMillis, timeZone);
+    return wallClockMillis - timeZoneOffsetMillis(first, timeZone);
+  } catch {
+    // Servers sometimes send Windows zone names; read those as UTC.
+    return wallClockMillis;
+  }
+}
+
+type ICalTime = { iso: string; allDay: boolean; millis: number };
+
+function parseICalTime(line: ContentLine | undefined): ICalTime | null {
+  if (!line) return null;
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(
+    line.value.trim(),
+  );
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second, utc] = match;
+  const wallClock = Date.UTC(
+    Number(year),
+    Number(month) - 1,
+    Number(day),
+    Number(hour ?? 0),
+    Number(minute ?? 0),
+    Number(second ?? 0),
+  );
+  if (line.params.VALUE === "DATE" || hour === undefined) {
+    return {
+      iso: `${year}-${month}-${day}`,
+      allDay: true,
+      millis: wallClock,
+    };
+  }
+  // Floating times carry no zone; UTC is the least surprising reading.
+  const millis = utc || !line.params.TZID
+    ? wallClock
+    : zonedToUtc(wallClock, line.params.TZID);
+  return { iso: new Date(millis).toISOString(), allDay: false, millis };
+}
+
+function parseDurationMillis(value: string | undefined) {
+  if (!value) return null;
+  const match =
+    /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/
+      .exec(value.trim());
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const millis = (Number(weeks ?? 0) * 7 + Number(days ?? 0)) * DAY_MS +
+    Number(hours ?? 0) * 3_600_000 + Number(minutes ?? 0) * 60_000 +
+    Number(seconds ?? 0) * 1000;
+  return sign === "-" ? -millis : millis;
+}
+
+function toEvent(
+  resourceId: string,
+  props: ContentLine[],
+  index: number,
+  etag: string | null,
+): ProviderCalendarEvent | null {
+  const first = (name: string) => props.find((prop) => prop.name === name);
+  if (first("STATUS")?.value.trim().toUpperCase() === "CANCELLED") return null;
+
+  const start = parseICalTime(first("DTSTART"));
+  if (!start) return null;
+  let end = parseICalTime(first("DTEND"));
+  if (!end) {
+    const duration = parseDurationMillis(first("DURATION")?.value) ??
+      (start.allDay ? DAY_MS : 0);
+    const millis = start.millis + duration;
+    end = {
+      iso: start.allDay
+        ? new Date(millis).toISOString().slice(0, 10)
+        : new Date(millis).toISOString(),
+      allDay: start.allDay,
+      millis,
+    };
+  }
+
+  const privateProperties: Record<string, string> = {};
+  for (const prop of props) {
+    if (prop.name === PRIVATE_PROPERTY && prop.params.KEY) {
+      privateProperties[prop.params.KEY] = unescapeText(prop.value);
+    }
+  }
+
+  const summary = first("SUMMARY");
+  const location = first("LOCATION");
+  const lastModified = parseICalTime(first("LAST-MODIFIED"));
+  return {
+    // Expanded recurrences share one resource; only the first instance keeps
+    // the bare resource id so deletes still address the stored object.
+    id: index === 0 ? resourceId : `${resourceId}#${index}`,
+    summary: summary ? unescapeText(summary.value) : undefined,
+    ...(location?.value ? { location: unescapeText(location.value) } : {}),
+    etag: etag ?? undefined,
+    updated: lastModified && !lastModified.allDay
+      ? lastModified.iso
+      : undefined,
+    start: start.allDay ? { date: start.iso } : { dateTime: start.iso },
+    end: end.allDay ? { date: end.iso } : { dateTime: end.iso },
+    extendedProperties: Object.keys(privateProperties).length > 0
+      ? { private: privateProperties }
+      : undefined,
+  };
+}
+
+/**
+ * Reads the VEVENTs of one calendar object resource. Properties of nested
+ * components (VALARM) are ignored so an alarm's DESCRIPTION never leaks into
+ * the event.
+ */
+export function parseICalEvents(
+  resourceId: string,
+  data: string,
+  etag: string | null = null,
+): ProviderCalendarEvent[] {
+  const lines = data.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: ProviderCalendarEvent[] = [];
+  const stack: string[] = [];
+  let props: ContentLine[] = [];
+  let index = 0;
+
+  for (const raw of lines) {
+    if (!raw.trim()) continue;
+    const line = parseContentLine(raw);
+    if (!line) continue;
+    if (line.name === "BEGIN") {
+      stack.push(line.value.trim().toUpperCase());
+      if (stack[stack.length - 1] === "VEVENT") props = [];
+      continue;
+    }
+    if (line.name === "END") {
+      const closed = stack.pop();
+      if (closed === "VEVENT") {
+        const event = toEvent(resourceId, props, index++, etag);
+        if (event) events.push(event);
+      }
+      continue;
+    }
+    if (stack[stack.length - 1] === "VEVENT") props.push(line);
+  }
+  return events;
+}
+
+function decodeXml(value: string) {
+  const cdata = /^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/.exec(value);
+  if (cdata) return cdata[1];
+  return value
+    .replace(
+      /&#x([0-9a-f]+);/gi,
+      (_m, hex: string) => String.fromCodePoint(parseInt(hex, 16)),
+    )
+    .replace(
+      /&#(\d+);/g,
+      (_m, dec: string) => String.fromCodePoint(Number(dec)),
+    )
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function elementText(xml: string, localName: string) {
+  const pattern = new RegExp(
+    `<(?:[\\w-]+:)?${localName}(?=[\\s/>])[^>]*?(?:/>|>([\\s\\S]*?)</(?:[\\w-]+:)?${localName}>)`,
+    "i",
+  );
+  const match = pattern.exec(xml);
+  if (!match) return null;
+  return decodeXml(match[1] ?? "").trim();
+}
+
+/**
+ * Pulls href, getetag and calendar-data out of a WebDAV multistatus body.
+ * Namespace prefixes differ between servers, so elements are matched by
+ * local name only.
+ */
+export function parseMultistatus(xml: string): DavResponse[] {
+  const responses: DavResponse[] = [];
+  const pattern =
+    /<(?:[\w-]+:)?response(?=[\s>])[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?response>/gi;
+  for (const match of xml.matchAll(pattern)) {
+    const body = match[1];
+    const href = elementText(body, "href");
+    if (!href) continue;
+    responses.push({
+      href,
+      etag: elementText(body, "getetag") || null,
+      calendarData: elementText(body, "calendar-data") || null,
+    });
+  }
+  return responses;
+}
+
+/** True when a PROPFIND response describes a calendar collection. */
+export function isCalendarCollection(xml: string) {
+  const resourceType = elementText(xml, "resourcetype");
+  return resourceType !== null &&
+    /<(?:[\w-]+:)?calendar[\s/>]/i.test(resourceType);
+}
+
+export function displayNameOf(xml: string) {
+  return elementText(xml, "displayname") || null;
+}
@@ -0,0 +1,214 @@
+import { assertEquals } from "std/assert";
+
+import {
+  completeJson,
+  completeText,
+  createAnthropicProvider,
+  createFakeLlmProvider,
+  type JsonSchema,
+  type LlmProvider,
+  LlmProviderError,
+  resolveLlmSettings,
+  validateJsonSchema,
+} from "./llm-provider.ts";
+
+const ACTION_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["action"],
+  properties: {
+    action: { enum: ["suggest_slot", "defer"] },
+    message: { type: ["string", "null"] },
+  },
+};
+
+const REQUEST = { system: "Reply in JSON.", user: "Help", maxTokens: 50 };
+const NO_DELAY = { timeoutMs: 1000, retries: 1, retryDelayMs: 0 };
+
+function withEnv(values: Record<string, string>, run: () => void) {
+  const names = [
+    "LLM_PROVIDER",
+    "LLM_BASE_URL",
+    "LLM_API_KEY",
+    "LLM_MODEL",
+    ...Object.keys(values),
+  ];
+  const saved = new Map(names.map((name) => [name, Deno.env.get(name)]));
+  for (const name of names) Deno.env.delete(name);
+  for (const [name, value] of Object.entries(values)) Deno.env.set(name, value);
+  try {
+    run();
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+}
+
+Deno.test("validateJsonSchema reports type, enum and required violations", () => {
+  assertEquals(validateJsonSchema({ action: "defer" }, ACTION_SCHEMA), []);
+  assertEquals(validateJsonSchema([], ACTION_SCHEMA), ["$ must be object"]);
+  assertEquals(
+    validateJsonSchema({ action: "cancel", message: 3 }, ACTION_SCHEMA),
+    [
+      '$.action must be one of "suggest_slot", "defer"',
+      "$.message must be string or null",
+    ],
+  );
+  assertEquals(validateJsonSchema({}, ACTION_SCHEMA), [
+    "$.action is required",
+  ]);
+});
+
+Deno.test("completeJson retries an invalid reply with stricter instructions", async () => {
+  const provider = createFakeLlmProvider([
+    "Sure! Here you go: not json",
+    '```json\n{"action":"defer","message":"Later"}\n```',
+  ]);
+
+  const result = await completeJson(
+    provider,
+    REQUEST,
+    ACTION_SCHEMA,
+    NO_DELAY,
+  );
+
+  assertEquals(result.value, { action: "defer", message: "Later" });
+  assertEquals(result.metrics.attempts, 2);
+  assertEquals(result.metrics.provider, "fake");
+  assertEquals(result.metrics.errored, undefined);
+  assertEquals(
+    result.metrics.output_tokens,
+    "Sure! Here you go: not json".length +
+      '```json\n{"action":"defer","message":"Later"}\n```'.length,
+  );
+  assertEquals(provider.requests[0].json, true);
+  assertEquals(provider.requests[0].system, "Reply in JSON.");
+  assertEquals(
+    provider.requests[1].system.startsWith("Reply in JSON.\n"),
+    true,
+  );
+  assertEquals(provider.requests[1].system.includes("STRICT OUTPUT"), true);
+});
+
+Deno.test("completeJson gives up after its retries and reports metrics", async () => {
+  const provider = createFakeLlmProvider(['{"action":"cancel"}']);
+
+  const error = await completeJson(
+    provider,
+    REQUEST,
+    ACTION_SCHEMA,
+    NO_DELAY,
+  ).catch((reason) => reason);
+
+  assertEquals(error instanceof LlmProviderError, true);
+  assertEquals(
+    error.message,
+    'LLM reply failed validation: $.action must be one of "suggest_slot", "defer"',
+  );
+  assertEquals(error.metrics.attempts, 2);
+  assertEquals(error.metrics.errored, true);
+  assertEquals(provider.requests.length, 2);
+});
+
+Deno.test("completeText does not retry errors that will not pass", async () => {
+  const provider = createFakeLlmProvider([
+    new LlmProviderError("LLM responded 401: bad key", 401),
+    "never reached",
+  ]);
+
+  const error = await completeText(provider, REQUEST, NO_DELAY).catch((
+    reason,
+  ) => reason);
+
+  assertEquals(error.status, 401);
+  assertEquals(error.metrics.attempts, 1);
+  assertEquals(provider.requests.length, 1);
+});
+
+Deno.test("completeText times out a stalled provider on every attempt", async () => {
+  let calls = 0;
+  const stalled: LlmProvider = {
+    id: "fake",
+    model: "stalled",
+    complete: (_request, signal) => {
+      calls += 1;
+      return new Promise((_resolve, reject) => {
+        signal.addEventListener("abort", () => reject(signal.reason));
+      });
+    },
+  };
+
+  const error = await completeText(stalled, REQUEST, {
+    timeoutMs: 10,
+    retries: 1,
+    retryDelayMs: 0,
+  }).catch((reason) => reason);
+
+  assertEquals(error instanceof LlmProviderError, true);
+  assertEquals(error.status, 504);
+  assertEquals(error.message, "LLM timed out after 10ms");
+  assertEquals(calls, 2);
+});
+
+Deno.test("Anthropic provider sends a Messages request and reads usage", async () => {
+  const requests: Request[] = [];
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = ((input: string | URL | Request, init?: RequestInit) => {
+    requests.push(new Request(input, init));
+    return Promise.resolve(Response.json({
+      content: [{ type: "text", text: "What time works?" }],
+      usage: { input_tokens: 42, output_tokens: 5 },
+    }));
+  }) as typeof fetch;
+  try {
+    const provider = createAnthropicProvider({
+      baseUrl: "https://llm.example.test/v1/",
+      apiKey: "secret",
+      model: "claude-test",
+    });
+    const result = await completeText(provider, REQUEST, NO_DELAY);
+
+    assertEquals(result.text, "What time works?");
+    assertEquals(result.metrics.input_tokens, 42);
+    assertEquals(result.metrics.output_tokens, 5);
+    assertEquals(requests[0].url, "https://llm.example.test/v1/messages");
+    assertEquals(requests[0].headers.get("x-api-key"), "secret");
+    const body = await requests[0].json();
+    assertEquals(body.system, "Reply in JSON.");
+    assertEquals(body.messages, [{ role: "user", content: "Help" }]);
+    assertEquals(body.max_tokens, 50);
+  } finally {
+    globalThis.fetch = originalFetch;
+  }
+});
+
+Deno.test("resolveLlmSettings reads the environment before the fallback", () => {
+  withEnv({}, () => {
+    assertEquals(resolveLlmSettings(), null);
+    assertEquals(resolveLlmSettings({ apiKey: "legacy" }), {
+      provider: "openai",
+      baseUrl: null,
+      apiKey: "legacy",
+      model: "deepseek-chat",
+    });
+  });
+  withEnv({ LLM_PROVIDER: "ollama" }, () => {
+    assertEquals(resolveLlmSettings(), {
+      provider: "ollama",
+      baseUrl: null,
+      apiKey: null,
+      model: "llama3.1",
+    });
+  });
+  withEnv({
+    LLM_PROVIDER: "llama.cpp",
+    LLM_BASE_URL: "http://localhost:8080/v1",
+  }, () => {
+    assertEquals(resolveLlmSettings({ model: "legacy" })?.provider, "openai");
+    assertEquals(resolveLlmSettings({ model: "legacy" })?.model, "legacy");
+  });
+  withEnv({ LLM_PROVIDER: "anthropic" }, () => {
+    assertEquals(resolveLlmSettings(), null);
+  });
+});
@@ -0,0 +1,693 @@
+// Language model providers behind one interface. Callers describe a prompt
+// and, for structured replies, a JSON schema; the helpers here add timeouts,
+// retries, reply validation and the metrics surfaced in function responses.
+
+export type LlmProviderId = "openai" | "anthropic" | "ollama" | "fake";
+
+export type LlmRequest = {
+  system: string;
+  user: string;
+  maxTokens: number;
+  temperature?: number;
+  // Ask for a single JSON object where the provider supports a JSON mode.
+  json?: boolean;
+};
+
+export type LlmUsage = {
+  inputTokens: number | null;
+  outputTokens: number | null;
+};
+
+export type LlmReply = {
+  text: string;
+  usage: LlmUsage;
+  // Raw provider payload, kept for debug output.
+  payload: unknown;
+};
+
+export type LlmProvider = {
+  id: LlmProviderId;
+  model: string;
+  complete: (request: LlmRequest, signal: AbortSignal) => Promise<LlmReply>;
+};
+
+export type LlmCallMetrics = {
+  provider: LlmProviderId;
+  model: string;
+  attempts: number;
+  latency_ms: number;
+  input_tokens: number | null;
+  output_tokens: number | null;
+  errored?: boolean;
+};
+
+export type LlmCallOptions = {
+  timeoutMs: number;
+  retries: number;
+  retryDelayMs?: number;
+};
+
+// The subset of JSON Schema the replies are checked against.
+export type JsonSchema = {
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: readonly unknown[];
+  properties?: Record<string, JsonSchema>;
+  required?: readonly string[];
+  items?: JsonSchema;
+};
+
+type JsonSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean"
+  | "null";
+
+export type LlmSettings = {
+  provider: LlmProviderId;
+  baseUrl: string | null;
+  apiKey: string | null;
+  model: string;
+};
+
+const DEFAULT_RETRY_DELAY_MS = 250;
+const OPENAI_DEFAULT_BASE_URL = "https://api.deepseek.com/v1";
+const ANTHROPIC_DEFAULT_BASE_URL = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+const OLLAMA_DEFAULT_BASE_URL = "http://localhost:11434";
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  openai: "deepseek-chat",
+  anthropic: "claude-3-5-haiku-latest",
+  ollama: "llama3.1",
+  fake: "fake",
+};
+const STRICT_JSON_INSTRUCTION =
+  "STRICT OUTPUT: Return exactly one minified JSON object on a single line with no spaces or newlines. No markdown, no code fences, no commentary.";
+
+export class LlmProviderError extends Error {
+  status: number;
+  // Timeouts, rate limits, server errors and malformed replies are retried.
+  retryable: boolean;
+  details?: unknown;
+  metrics?: LlmCallMetrics;
+  constructor(
+    message: string,
+    status = 502,
+    retryable = false,
+    details?: unknown,
+  ) {
+    super(message);
+    this.status = status;
+    this.retryable = retryable;
+    this.details = details;
+  }
+}
+
+async function safeParse(res: Response) {
+  const text = await res.text();
+  if (!text) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function extractLlmError(payload: unknown) {
+  if (!payload) return null;
+  if (typeof payload === "string") return payload.slice(0, 200);
+  if (typeof payload !== "object") return null;
+  const top = payload as Record<string, unknown>;
+  if (typeof top.error === "string" && top.error.trim()) return top.error;
+  if (top.error && typeof top.error === "object") {
+    const nested = top.error as Record<string, unknown>;
+    if (typeof nested.message === "string" && nested.message.trim()) {
+      return nested.message;
+    }
+  }
+  if (typeof top.message === "string" && top.message.trim()) return top.message;
+  return null;
+}
+
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  signal: AbortSignal,
+  label: string,
+) {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      ...headers,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const payload = await safeParse(res);
+  if (!res.ok) {
+    throw new LlmProviderError(
+      `${label} responded ${res.status}: ${
+        extractLlmError(payload) ?? "request failed"
+      }`,
+      res.status,
+      res.status === 408 || res.status === 429 || res.status >= 500,
+      payload,
+    );
+  }
+  return payload;
+}
+
+function readCount(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> | null {
+  return value && typeof value === "object" && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : null;
+}
+
+function stringContent(content: unknown) {
+  if (typeof content === "string") return content;
+  if (content && typeof content === "object") {
+    try {
+      return JSON.stringify(content);
+    } catch {
+      return null;
+    }
+  }
+  return null;
+}
+
+function emptyReply(label: string, payload: unknown): never {
+  throw new LlmProviderError(
+    `${label} returned no message content`,
+    502,
+    true,
+    payload,
+  );
+}
+
+/**
+ * Chat-completions servers: OpenAI, DeepSeek, and local llama.cpp or vLLM
+ * servers, which accept a missing API key.
+ */
+export function createOpenAiCompatibleProvider(settings: {
+  baseUrl: string | null;
+  apiKey: string | null;
+  model: string;
+}): LlmProvider {
+  const base = (settings.baseUrl ?? OPENAI_DEFAULT_BASE_URL).replace(
+    /\/+$/,
+    "",
+  );
+  const endpoint = /\/chat\/completions$/i.test(base)
+    ? base
+    : `${base}/chat/completions`;
+  return {
+    id: "openai",
+    model: settings.model,
+    complete: async (request, signal) => {
+      const payload = await postJson(
+        endpoint,
+        settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {},
+        {
+          model: settings.model,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.user },
+          ],
+          max_tokens: request.maxTokens,
+          temperature: request.temperature ?? 0,
+          stream: false,
+          ...(request.json ? { response_format: { type: "json_object" } } : {}),
+        },
+        signal,
+        "LLM",
+      );
+      const record = asRecord(payload);
+      const choices = record?.choices;
+      const first = Array.isArray(choices) ? asRecord(choices[0]) : null;
+      const text = stringContent(asRecord(first?.message)?.content);
+      if (!text) emptyReply("LLM", payload);
+      const usage = asRecord(record?.usage);
+      return {
+        text,
+        usage: {
+          inputTokens: readCount(usage?.prompt_tokens),
+          outputTokens: readCount(usage?.completion_tokens),
+        },
+        payload,
+      };
+    },
+  };
+}
+
+/** Anthropic's Messages API. It has no JSON mode; the prompt asks for JSON. */
+export function createAnthropicProvider(settings: {
+  baseUrl: string | null;
+  apiKey: string | null;
+  model: string;
+}): LlmProvider {
+  const base = (settings.baseUrl ?? ANTHROPIC_DEFAULT_BASE_URL).replace(
+    /\/+$/,
+    "",
+  );
+  return {
+    id: "anthropic",
+    model: settings.model,
+    complete: async (request, signal) => {
+      const payload = await postJson(
+        `${base}/messages`,
+        {
+          "x-api-key": settings.apiKey ?? "",
+          "anthropic-version": ANTHROPIC_VERSION,
+        },
+        {
+          model: settings.model,
+          system: request.system,
+          messages: [{ role: "user", content: request.user }],
+          max_tokens: request.maxTokens,
+          temperature: request.temperature ?? 0,
+        },
+        signal,
+        "Anthropic",
+      );
+      const record = asRecord(payload);
+      const blocks = Array.isArray(record?.content) ? record.content : [];
+      const text = blocks
+        .map((block) => asRecord(block))
+        .filter((block) => block?.type === "text")
+        .map((block) => String(block?.text ?? ""))
+        .join("");
+      if (!text.trim()) emptyReply("Anthropic", payload);
+      const usage = asRecord(record?.usage);
+      return {
+        text,
+        usage: {
+          inputTokens: readCount(usage?.input_tokens),
+          outputTokens: readCount(usage?.output_tokens),
+        },
+        payload,
+      };
+    },
+  };
+}
+
+/** A local Ollama server through its native chat endpoint. */
+export function createOllamaProvider(settings: {
+  baseUrl: string | null;
+  model: string;
+}): LlmProvider {
+  const base = (settings.baseUrl ?? OLLAMA_DEFAULT_BASE_URL).replace(
+    /\/+$/,
+    "",
+  );
+  return {
+    id: "ollama",
+    model: settings.model,
+    complete: async (request, signal) => {
+      const payload = await postJson(
+        `${base}/api/chat`,
+        {},
+        {
+          model: settings.model,
+          messages: [
+            { role: "system", content: request.system },
+            { role: "user", content: request.user },
+          ],
+          stream: false,
+          ...(request.json ? { format: "json" } : {}),
+          options: {
+            temperature: request.temperature ?? 0,
+            num_predict: request.maxTokens,
+          },
+        },
+        signal,
+        "Ollama",
+      );
+      const record = asRecord(payload);
+      const text = stringContent(asRecord(record?.message)?.content);
+      if (!text) emptyReply("Ollama", payload);
+      return {
+        text,
+        usage: {
+          inputTokens: readCount(record?.prompt_eval_count),
+          outputTokens: readCount(record?.eval_count),
+        },
+        payload,
+      };
+    },
+  };
+}
+
+export type FakeLlmReply =
+  | string
+  | Error
+  | ((request: LlmRequest) => string | Error);
+
+/**
+ * Replays canned replies in order and repeats the last one once they run
+ * out. Requests are recorded so tests can inspect the prompts.
+ */
+export function createFakeLlmProvider(
+  replies: FakeLlmReply[],
+  model = DEFAULT_MODELS.fake,
+): LlmProvider & { requests: LlmRequest[] } {
+  const requests: LlmRequest[] = [];
+  return {
+    id: "fake",
+    model,
+    requests,
+    complete: (request) => {
+      const next = replies[Math.min(requests.length, replies.length - 1)];
+      requests.push(request);
+      const reply = typeof next === "function" ? next(request) : next;
+      if (reply === undefined) {
+        return Promise.reject(
+          new LlmProviderError("Fake returned no message content", 502, true),
+        );
+      }
+      if (reply instanceof Error) return Promise.reject(reply);
+      return Promise.resolve({
+        text: reply,
+        usage: {
+          inputTokens: request.system.length + request.user.length,
+          outputTokens: reply.length,
+        },
+        payload: null,
+      });
+    },
+  };
+}
+
+function readProviderId(value: string): LlmProviderId | null {
+  const normalized = value.trim().toLowerCase();
+  if (normalized === "openai" || normalized === "deepseek") return "openai";
+  if (normalized === "llamacpp" || normalized === "llama.cpp") return "openai";
+  if (normalized === "anthropic" || normalized === "ollama") return normalized;
+  if (normalized === "fake") return "fake";
+  return null;
+}
+
+function env(name: string) {
+  return (Deno.env.get(name) ?? "").trim();
+}
+
+/**
+ * Reads the provider settings from LLM_PROVIDER, LLM_BASE_URL, LLM_API_KEY
+ * and LLM_MODEL. `fallback` fills in whatever those leave unset, which is
+ * how a function keeps honouring older variable names. Returns null when
+ * hosted providers have no API key.
+ */
+export function resolveLlmSettings(
+  fallback: Partial<LlmSettings> = {},
+): LlmSettings | null {
+  const providerRaw = env("LLM_PROVIDER");
+  const provider = providerRaw
+    ? readProviderId(providerRaw)
+    : fallback.provider ?? "openai";
+  if (!provider) return null;
+
+  const baseUrl = env("LLM_BASE_URL").replace(/\s+/g, "") ||
+    fallback.baseUrl || null;
+  const apiKey = env("LLM_API_KEY") || fallback.apiKey || null;
+  const model = env("LLM_MODEL") || fallback.model || DEFAULT_MODELS[provider];
+
+  // A keyless chat-completions server is only assumed when one was named.
+  const needsKey = provider === "anthropic" ||
+    (provider === "openai" && !(providerRaw && baseUrl));
+  if (needsKey && !apiKey) return null;
+  return { provider, baseUrl, apiKey, model };
+}
+
+export function createLlmProvider(settings: LlmSettings): LlmProvider {
+  switch (settings.provider) {
+    case "anthropic":
+      return createAnthropicProvider(settings);
+    case "ollama":
+      return createOllamaProvider(settings);
+    case "fake":
+      // Lets a deployed function run end to end without a model.
+      return createFakeLlmProvider(
+        [env("LLM_FAKE_RESPONSE") || "{}"],
+        settings.model,
+      );
+    default:
+      return createOpenAiCompatibleProvider(settings);
+  }
+}
+
+export function resolveLlmProvider(
+  fallback: Partial<LlmSettings> = {},
+): LlmProvider | null {
+  const settings = resolveLlmSettings(fallback);
+  return settings ? createLlmProvider(settings) : null;
+}
+
+/** Returns one message per violation; an empty list means the value fits. */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "$",
+): string[] {
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(value, type))) {
+      return [`${path} must be ${types.join(" or ")}`];
+    }
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [
+      `${path} must be one of ${
+        schema.enum.map((item) => JSON.stringify(item)).join(", ")
+      }`,
+    ];
+  }
+
+  const errors: string[] = [];
+  const record = asRecord(value);
+  if (record) {
+    for (const key of schema.required ?? []) {
+      if (!(key in record)) errors.push(`${path}.${key} is required`);
+    }
+    for (const [key, child] of Object.entries(schema.properties ?? {})) {
+      if (key in record) {
+        errors.push(
+          ...validateJsonSchema(record[key], child, `${path}.${key}`),
+        );
+      }
+    }
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(
+        ...validateJsonSchema(item, schema.items!, `${path}[${index}]`),
+      );
+    });
+  }
+  return errors;
+}
+
+function matchesType(value: unknown, type: JsonSchemaType) {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return asRecord(value) !== null;
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+  }
+}
+
+/** Pulls the JSON object out of a reply that wrapped it in prose or fences. */
+export function extractJsonObject(text: string): string | null {
+  if (!text) return null;
+  const fence = /```(?:json)?\s*([\s\S]*?)\s*```/i.exec(text);
+  if (fence && fence[1]) return fence[1].trim();
+  const first = text.indexOf("{");
+  const last = text.lastIndexOf("}");
+  if (first >= 0 && last > first) return text.slice(first, last + 1).trim();
+  return null;
+}
+
+function parseJsonReply(text: string, schema: JsonSchema) {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    const recovered = extractJsonObject(text);
+    try {
+      parsed = recovered ? JSON.parse(recovered) : undefined;
+    } catch {
+      parsed = undefined;
+    }
+  }
+  if (parsed === undefined) {
+    throw new LlmProviderError("LLM did not return valid JSON", 502, true);
+  }
+  const errors = validateJsonSchema(parsed, schema);
+  if (errors.length > 0) {
+    throw new LlmProviderError(
+      `LLM reply failed validation: ${errors.slice(0, 3).join("; ")}`,
+      502,
+      true,
+      parsed,
+    );
+  }
+  return parsed;
+}
+
+function isAbort(error: unknown) {
+  return error instanceof DOMException && error.name === "AbortError";
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function completeWithin(
+  provider: LlmProvider,
+  request: LlmRequest,
+  timeoutMs: number,
+) {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    return await provider.complete(request, controller.signal);
+  } catch (error) {
+    if (isAbort(error) || controller.signal.aborted) {
+      throw new LlmProviderError(
+        `LLM timed out after ${timeoutMs}ms`,
+        504,
+        true,
+      );
+    }
+    if (error instanceof LlmProviderError) throw error;
+    // Network failures surface as TypeErrors from fetch.
+    throw new LlmProviderError(
+      error instanceof Error ? error.message : String(error),
+      502,
+      true,
+    );
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function runWithRetries<T>(
+  provider: LlmProvider,
+  request: LlmRequest,
+  options: LlmCallOptions,
+  read: (reply: LlmReply) => T,
+): Promise<{ value: T; reply: LlmReply; metrics: LlmCallMetrics }> {
+  const started = performance.now();
+  const metrics: LlmCallMetrics = {
+    provider: provider.id,
+    model: provider.model,
+    attempts: 0,
+    latency_ms: 0,
+    input_tokens: null,
+    output_tokens: null,
+  };
+  const addUsage = (usage: LlmUsage) => {
+    if (usage.inputTokens !== null) {
+      metrics.input_tokens = (metrics.input_tokens ?? 0) + usage.inputTokens;
+    }
+    if (usage.outputTokens !== null) {
+      metrics.output_tokens = (metrics.output_tokens ?? 0) + usage.outputTokens;
+    }
+  };
+
+  let current = request;
+  for (;;) {
+    metrics.attempts += 1;
+    try {
+      const reply = await completeWithin(provider, current, options.timeoutMs);
+      addUsage(reply.usage);
+      try {
+        const value = read(reply);
+        metrics.latency_ms = Math.round(performance.now() - started);
+        return { value, reply, metrics };
+      } catch (error) {
+        if (error instanceof LlmProviderError && error.details === undefined) {
+          error.details = reply.text;
+        }
+        // A malformed reply is retried with firmer formatting instructions.
+        if (current.json) {
+          current = {
+            ...request,
+            system: `${request.system}\n${STRICT_JSON_INSTRUCTION}`,
+          };
+        }
+        throw error;
+      }
+    } catch (error) {
+      const failure = error instanceof LlmProviderError
+        ? error
+        : new LlmProviderError(String(error));
+      if (!failure.retryable || metrics.attempts > options.retries) {
+        metrics.latency_ms = Math.round(performance.now() - started);
+        metrics.errored = true;
+        failure.metrics = metrics;
+        throw failure;
+      }
+      const delay = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+      if (delay > 0) await sleep(delay * metrics.attempts);
+    }
+  }
+}
+
+/**
+ * Sends one prompt with a per-attempt timeout, retrying failures that may
+ * pass on a second try. Failures throw LlmProviderError with `metrics` set.
+ */
+export async function completeText(
+  provider: LlmProvider,
+  request: LlmRequest,
+  options: LlmCallOptions,
+) {
+  const { value, reply, metrics } = await runWithRetries(
+    provider,
+    request,
+    options,
+    (reply) => {
+      const text = reply.text.trim();
+      if (!text) emptyReply("LLM", reply.payload);
+      return text;
+    },
+  );
+  return { text: value, payload: reply.payload, metrics };
+}
+
+/**
+ * Like completeText, but the reply must be a JSON object matching `schema`.
+ * Replies that do not parse or validate count as retryable failures.
+ */
+export async function completeJson<T>(
+  provider: LlmProvider,
+  request: LlmRequest,
+  schema: JsonSchema,
+  options: LlmCallOptions,
+) {
+  const { value, reply, metrics } = await runWithRetries(
+    provider,
+    { ...request, json: true },
+    options,
+    (reply) => parseJsonReply(reply.text, schema) as T,
+  );
+  return { value, text: reply.text, payload: reply.payload, metrics };
+}
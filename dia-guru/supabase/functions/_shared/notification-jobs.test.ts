@@ -0,0 +1,160 @@
+import { assertEquals } from "std/assert";
+
+import type { CaptureEntryRow } from "../types.ts";
+import {
+  buildNotificationJobs,
+  isNotificationJobCurrent,
+  reminderLeadMinutes,
+} from "./notification-jobs.ts";
+
+const NOW = new Date("2026-10-19T08:00:00Z");
+
+function capture(overrides: Partial<CaptureEntryRow> = {}) {
+  return {
+    id: "cap-1",
+    user_id: "user-1",
+    content: "Draft the report",
+    status: "scheduled",
+    planned_start: "2026-10-19T09:00:00Z",
+    planned_end: "2026-10-19T10:00:00Z",
+    deadline_at: null,
+    ...overrides,
+  } as CaptureEntryRow;
+}
+
+function summarize(jobs: ReturnType<typeof buildNotificationJobs>) {
+  return jobs.map((job) => `${job.kind}@${job.send_at}`);
+}
+
+Deno.test("buildNotificationJobs reminds at the start and end of a session", () => {
+  const jobs = buildNotificationJobs(capture(), NOW);
+
+  assertEquals(summarize(jobs), [
+    "start@2026-10-19T09:00:00.000Z",
+    "check_in@2026-10-19T10:00:00.000Z",
+  ]);
+  assertEquals(jobs[1].title, "Time to check in");
+  assertEquals(jobs[1].body, 'Did you complete "Draft the report"?');
+  assertEquals(jobs[1].status, "pending");
+});
+
+Deno.test("buildNotificationJobs warns ahead of a deadline the session does not meet", () => {
+  // Planned to finish after the warning: warn.
+  assertEquals(
+    summarize(
+      buildNotificationJobs(
+        capture({ deadline_at: "2026-10-19T11:00:00Z" }),
+        NOW,
+      ),
+    ).at(-1),
+    "deadline@2026-10-19T09:00:00.000Z",
+  );
+  // Planned to finish well before the deadline: the check-in covers it.
+  assertEquals(
+    buildNotificationJobs(
+      capture({ deadline_at: "2026-10-19T18:00:00Z" }),
+      NOW,
+    ).map((job) => job.kind),
+    ["start", "check_in"],
+  );
+  // Unscheduled captures only get the deadline warning.
+  assertEquals(
+    summarize(
+      buildNotificationJobs(
+        capture({
+          status: "pending",
+          planned_start: null,
+          planned_end: null,
+          deadline_at: "2026-10-19T18:00:00Z",
+        }),
+        NOW,
+      ),
+    ),
+    ["deadline@2026-10-19T16:00:00.000Z"],
+  );
+});
+
+Deno.test("buildNotificationJobs skips due reminders and closed captures", () => {
+  assertEquals(
+    summarize(
+      buildNotificationJobs(capture(), new Date("2026-10-19T09:30:00Z")),
+    ),
+    ["check_in@2026-10-19T10:00:00.000Z"],
+  );
+  assertEquals(
+    buildNotificationJobs(
+      capture({
+        status: "completed",
+        deadline_at: "2026-10-19T18:00:00Z",
+      }),
+      NOW,
+    ),
+    [],
+  );
+});
+
+Deno.test("buildNotificationJobs sends a heads-up ahead of kinds with a lead time", () => {
+  const jobs = buildNotificationJobs(
+    capture({ extraction_kind: "appointment" }),
+    new Date("2026-10-19T07:00:00Z"),
+  );
+
+  assertEquals(summarize(jobs), [
+    "pre_start@2026-10-19T08:00:00.000Z",
+    "start@2026-10-19T09:00:00.000Z",
+    "check_in@2026-10-19T10:00:00.000Z",
+  ]);
+  assertEquals(jobs[0].title, "Starting soon");
+  assertEquals(jobs[0].body, '"Draft the report" starts in 1 hour.');
+  assertEquals(
+    summarize(
+      buildNotificationJobs(capture({ task_type_hint: "deep_work" }), NOW),
+    )[0],
+    "pre_start@2026-10-19T08:50:00.000Z",
+  );
+  assertEquals(
+    buildNotificationJobs(
+      capture({ extraction_kind: "call" }),
+      NOW,
+      { call: 15 },
+    )[0].body,
+    '"Draft the report" starts in 15 minutes.',
+  );
+});
+
+Deno.test("reminderLeadMinutes prefers the extraction kind and honours overrides", () => {
+  const appointment = {
+    extraction_kind: "Appointment",
+    task_type_hint: "deep_work",
+  };
+
+  assertEquals(reminderLeadMinutes(appointment), 60);
+  assertEquals(reminderLeadMinutes(appointment, { appointment: 90 }), 90);
+  // Turning the kind off does not fall through to the task type.
+  assertEquals(reminderLeadMinutes(appointment, { appointment: 0 }), null);
+  assertEquals(
+    reminderLeadMinutes({ extraction_kind: "task", task_type_hint: "admin" }),
+    null,
+  );
+});
+
+Deno.test("isNotificationJobCurrent rejects jobs for moved or finished captures", () => {
+  const [start] = buildNotificationJobs(capture(), NOW);
+
+  assertEquals(isNotificationJobCurrent(start, capture()), true);
+  assertEquals(
+    isNotificationJobCurrent(
+      start,
+      capture({
+        planned_start: "2026-10-19T13:00:00Z",
+        planned_end: "2026-10-19T14:00:00Z",
+      }),
+    ),
+    false,
+  );
+  assertEquals(
+    isNotificationJobCurrent(start, capture({ status: "pending" })),
+    false,
+  );
+  assertEquals(isNotificationJobCurrent(start, null), false);
+});
@@ -0,0 +1,256 @@
+// Push reminders for captures, queued server-side so they follow the plan on
+// every device. A capture's pending jobs are rebuilt from its current row
+// whenever a function changes its planned times or status; pre-start lead
+// times come from the user's scheduler preferences.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type {
+  CaptureEntryRow,
+  Database,
+  NotificationJobRow,
+} from "../types.ts";
+
+type AdminClient = SupabaseClient<Database, "public">;
+
+// How long before a deadline the warning goes out.
+const DEADLINE_LEAD_MS = 2 * 60 * 60 * 1000;
+const OPEN_STATUSES = new Set([
+  "pending",
+  "scheduled",
+  "awaiting_confirmation",
+]);
+const JOB_CAPTURE_COLUMNS =
+  "id, user_id, content, status, planned_start, planned_end, deadline_at, extraction_kind, task_type_hint";
+
+// Minutes before a session its pre-start reminder goes out, by extraction kind
+// or task type. Mirrors DEFAULT_REMINDER_LEAD_MINUTES in
+// lib/scheduler-preferences.ts; users override single entries, 0 turns one off.
+export const DEFAULT_REMINDER_LEAD_MINUTES: ReminderLeadMinutes = {
+  appointment: 60,
+  deep_work: 10,
+};
+
+export type ReminderLeadMinutes = Record<string, number>;
+
+type CaptureNotificationFields = Pick<
+  CaptureEntryRow,
+  | "id"
+  | "user_id"
+  | "content"
+  | "status"
+  | "planned_start"
+  | "planned_end"
+  | "deadline_at"
+  | "extraction_kind"
+  | "task_type_hint"
+>;
+
+function parseTime(value: string | null | undefined) {
+  if (!value) return null;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * The pre-start lead time for `capture`: its extraction kind decides when the
+ * user or the defaults have an entry for it, otherwise its task type does.
+ * Null when neither has one or the entry is turned off.
+ */
+export function reminderLeadMinutes(
+  capture: Pick<
+    CaptureNotificationFields,
+    "extraction_kind" | "task_type_hint"
+  >,
+  overrides?: ReminderLeadMinutes | null,
+) {
+  const leads = { ...DEFAULT_REMINDER_LEAD_MINUTES, ...(overrides ?? {}) };
+  for (const key of [capture.extraction_kind, capture.task_type_hint]) {
+    const normalized = key?.trim().toLowerCase();
+    if (!normalized || !Object.hasOwn(leads, normalized)) continue;
+    const minutes = leads[normalized];
+    return Number.isFinite(minutes) && minutes > 0 ? minutes : null;
+  }
+  return null;
+}
+
+function formatLead(minutes: number) {
+  if (minutes % 60 === 0) {
+    const hours = minutes / 60;
+    return hours === 1 ? "1 hour" : `${hours} hours`;
+  }
+  return minutes === 1 ? "1 minute" : `${minutes} minutes`;
+}
+
+/**
+ * The reminders `capture` should get from now on: a heads-up `leads` ahead of
+ * the session, the start and the end-of-session check-in while it is
+ * scheduled, and a warning ahead of its deadline while it is still open,
+ * unless its session ends before the warning anyway. Reminders already due
+ * are left out.
+ */
+export function buildNotificationJobs(
+  capture: CaptureNotificationFields,
+  now: Date,
+  leads?: ReminderLeadMinutes | null,
+): NotificationJobRow[] {
+  const jobs: NotificationJobRow[] = [];
+  const add = (
+    kind: NotificationJobRow["kind"],
+    sendAt: number,
+    title: string,
+    body: string,
+  ) => {
+    if (sendAt <= now.getTime()) return;
+    jobs.push({
+      user_id: capture.user_id,
+      capture_id: capture.id,
+      kind,
+      send_at: new Date(sendAt).toISOString(),
+      title,
+      body,
+      status: "pending",
+    });
+  };
+
+  const start = parseTime(capture.planned_start);
+  const end = parseTime(capture.planned_end);
+  if (capture.status === "scheduled" && start !== null && end !== null) {
+    const lead = reminderLeadMinutes(capture, leads);
+    if (lead !== null) {
+      add(
+        "pre_start",
+        start - lead * 60 * 1000,
+        "Starting soon",
+        `"${capture.content}" starts in ${formatLead(lead)}.`,
+      );
+    }
+    add("start", start, "Time to start", `"${capture.content}" starts now.`);
+    add(
+      "check_in",
+      end,
+      "Time to check in",
+      `Did you complete "${capture.content}"?`,
+    );
+  }
+
+  const deadline = parseTime(capture.deadline_at);
+  if (OPEN_STATUSES.has(capture.status) && deadline !== null) {
+    const warnAt = deadline - DEADLINE_LEAD_MS;
+    if (end === null || end > warnAt) {
+      add(
+        "deadline",
+        warnAt,
+        "Deadline approaching",
+        `"${capture.content}" is due in 2 hours.`,
+      );
+    }
+  }
+  return jobs;
+}
+
+/**
+ * Whether `job` still matches the capture it was queued for. Not every path
+ * that moves a capture rebuilds its jobs (a reschedule that ends in a
+ * conflict, for one), so the sender checks before delivering.
+ */
+export function isNotificationJobCurrent(
+  job: Pick<NotificationJobRow, "kind" | "send_at">,
+  capture: CaptureNotificationFields | null | undefined,
+  leads?: ReminderLeadMinutes | null,
+) {
+  const sendAt = parseTime(job.send_at);
+  if (!capture || sendAt === null) return false;
+  return buildNotificationJobs(capture, new Date(sendAt - 1), leads).some(
+    (candidate) =>
+      candidate.kind === job.kind && parseTime(candidate.send_at) === sendAt,
+  );
+}
+
+export async function loadNotificationCaptures(
+  admin: AdminClient,
+  captureIds: string[],
+) {
+  const { data, error } = await admin
+    .from("capture_entries")
+    .select(JOB_CAPTURE_COLUMNS)
+    .in("id", captureIds);
+  if (error) throw new Error(error.message);
+  return (data ?? []) as CaptureNotificationFields[];
+}
+
+// Users without a preferences row are left out and get the defaults.
+export async function loadReminderLeads(
+  admin: AdminClient,
+  userIds: string[],
+) {
+  const leads = new Map<string, ReminderLeadMinutes>();
+  if (userIds.length === 0) return leads;
+  const { data, error } = await admin
+    .from("user_scheduler_preferences")
+    .select("user_id, reminder_lead_minutes")
+    .in("user_id", userIds);
+  if (error) throw new Error(error.message);
+  for (const row of data ?? []) {
+    leads.set(row.user_id, row.reminder_lead_minutes ?? {});
+  }
+  return leads;
+}
+
+/**
+ * Replaces the pending jobs of the given captures with ones built from their
+ * current rows. Reminders are best effort: a failure is logged and never
+ * fails the change that triggered it.
+ */
+export async function enqueueNotificationJobs(
+  admin: AdminClient,
+  captureIds: string[],
+  now: Date,
+) {
+  const ids = [...new Set(captureIds)];
+  if (ids.length === 0) return;
+  try {
+    const captures = await loadNotificationCaptures(admin, ids);
+    const leads = await loadReminderLeads(admin, [
+      ...new Set(captures.map((capture) => capture.user_id)),
+    ]);
+    const { error: deleteError } = await admin
+      .from("notification_jobs")
+      .delete()
+      .in("capture_id", ids)
+      .eq("status", "pending");
+    if (deleteError) throw new Error(deleteError.message);
+
+    const jobs = captures.flatMap((capture) =>
+      buildNotificationJobs(capture, now, leads.get(capture.user_id))
+    );
+    if (jobs.length === 0) return;
+    const { error: insertError } = await admin
+      .from("notification_jobs")
+      .insert(jobs);
+    if (insertError) throw new Error(insertError.message);
+  } catch (error) {
+    console.log("notification jobs enqueue failed", ids, error);
+  }
+}
+
+/**
+ * Rebuilds the pending jobs of every open capture of `userId`, for when a
+ * change outside the capture rows (such as new lead times) moves its
+ * reminders. Returns how many captures were refreshed.
+ */
+export async function enqueueUserNotificationJobs(
+  admin: AdminClient,
+  userId: string,
+  now: Date,
+) {
+  const { data, error } = await admin
+    .from("capture_entries")
+    .select("id")
+    .eq("user_id", userId)
+    .in("status", [...OPEN_STATUSES]);
+  if (error) throw new Error(error.message);
+  const ids = (data ?? []).map((row) => row.id);
+  await enqueueNotificationJobs(admin, ids, now);
+  return ids.length;
+}
@@ -0,0 +1,105 @@
+import { assertEquals } from "std/assert";
+
+import {
+  detectRecurrenceFromText,
+  expandRecurrenceDates,
+  formatRecurrenceRule,
+  normalizeRecurrenceRule,
+  parseRecurrenceRule,
+} from "./recurrence.ts";
+
+Deno.test("parseRecurrenceRule canonicalizes supported rules", () => {
+  assertEquals(
+    normalizeRecurrenceRule("RRULE:freq=weekly;byday=TH,TU;interval=1"),
+    "FREQ=WEEKLY;BYDAY=TU,TH",
+  );
+  assertEquals(
+    normalizeRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231"),
+    "FREQ=MONTHLY;BYMONTHDAY=15;UNTIL=20261231",
+  );
+});
+
+Deno.test("parseRecurrenceRule rejects unsupported rules", () => {
+  assertEquals(parseRecurrenceRule("FREQ=YEARLY"), null);
+  assertEquals(parseRecurrenceRule("FREQ=WEEKLY;BYDAY=XX"), null);
+  assertEquals(parseRecurrenceRule("FREQ=DAILY;INTERVAL=0"), null);
+  assertEquals(parseRecurrenceRule(42), null);
+});
+
+Deno.test("expandRecurrenceDates walks weekly rules from the anchor", () => {
+  const rule = parseRecurrenceRule("FREQ=WEEKLY;BYDAY=TU,TH")!;
+  const dates = expandRecurrenceDates({
+    rule,
+    anchorDate: "2026-03-02",
+    fromDate: "2026-03-04",
+    limit: 4,
+    exceptions: ["2026-03-10"],
+  });
+
+  assertEquals(dates, ["2026-03-05", "2026-03-12", "2026-03-17", "2026-03-19"]);
+});
+
+Deno.test("expandRecurrenceDates honours interval and count", () => {
+  const rule = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2;COUNT=3")!;
+  const dates = expandRecurrenceDates({
+    rule,
+    anchorDate: "2026-03-03",
+    fromDate: "2026-03-03",
+    limit: 10,
+  });
+
+  assertEquals(dates, ["2026-03-03", "2026-03-17", "2026-03-31"]);
+});
+
+Deno.test("expandRecurrenceDates clamps monthly days to the month end", () => {
+  const rule = parseRecurrenceRule("FREQ=MONTHLY;BYMONTHDAY=31")!;
+  const dates = expandRecurrenceDates({
+    rule,
+    anchorDate: "2026-01-31",
+    fromDate: "2026-01-01",
+    limit: 3,
+  });
+
+  assertEquals(dates, ["2026-01-31", "2026-02-28", "2026-03-31"]);
+});
+
+Deno.test("expandRecurrenceDates keeps long-running series in step", () => {
+  const everyOtherWeek = parseRecurrenceRule("FREQ=WEEKLY;INTERVAL=2")!;
+  assertEquals(
+    expandRecurrenceDates({
+      rule: everyOtherWeek,
+      anchorDate: "2022-01-04",
+      fromDate: "2026-03-02",
+      limit: 2,
+    }),
+    ["2026-03-10", "2026-03-24"],
+  );
+
+  const everyThirdDay = parseRecurrenceRule("FREQ=DAILY;INTERVAL=3;COUNT=600")!;
+  assertEquals(
+    expandRecurrenceDates({
+      rule: everyThirdDay,
+      anchorDate: "2022-01-01",
+      fromDate: "2026-03-01",
+      limit: 2,
+    }),
+    ["2026-03-02", "2026-03-05"],
+  );
+});
+
+Deno.test("detectRecurrenceFromText reads common phrasing", () => {
+  const cases: [string, string | null][] = [
+    ["gym every Tuesday and Thursday", "FREQ=WEEKLY;BYDAY=TU,TH"],
+    ["water plants daily", "FREQ=DAILY"],
+    ["stand-up every weekday", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR"],
+    ["run every day except Sunday", "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR,SA"],
+    ["1:1 every other Monday", "FREQ=WEEKLY;INTERVAL=2;BYDAY=MO"],
+    ["pay rent monthly on the 1st", "FREQ=MONTHLY;BYMONTHDAY=1"],
+    ["call the bank on Friday", null],
+  ];
+
+  for (const [text, expected] of cases) {
+    const rule = detectRecurrenceFromText(text);
+    assertEquals(rule ? formatRecurrenceRule(rule) : null, expected, text);
+  }
+});
@@ -0,0 +1,399 @@
+// RRULE-style recurrence helpers shared by parse-task and schedule-capture.
+// Only the subset DiaGuru needs is supported: DAILY / WEEKLY / MONTHLY with
+// INTERVAL, BYDAY (plain weekday codes), BYMONTHDAY, UNTIL and COUNT.
+// Dates are handled as local calendar days in "YYYY-MM-DD" form.
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY";
+
+export type RecurrenceWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+export type RecurrenceRule = {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byWeekday: RecurrenceWeekday[];
+  byMonthDay: number[];
+  until: string | null;
+  count: number | null;
+};
+
+// Indexed by Date#getUTCDay().
+const WEEKDAY_CODES: readonly RecurrenceWeekday[] = [
+  "SU",
+  "MO",
+  "TU",
+  "WE",
+  "TH",
+  "FR",
+  "SA",
+];
+
+const WEEKDAY_ORDER: readonly RecurrenceWeekday[] = [
+  "MO",
+  "TU",
+  "WE",
+  "TH",
+  "FR",
+  "SA",
+  "SU",
+];
+
+const WEEKDAY_PATTERNS: { code: RecurrenceWeekday; pattern: string }[] = [
+  { code: "MO", pattern: "mon(?:day)?s?" },
+  { code: "TU", pattern: "tue(?:s(?:day)?)?s?" },
+  { code: "WE", pattern: "wed(?:nesday)?s?" },
+  { code: "TH", pattern: "thu(?:r(?:s(?:day)?)?)?s?" },
+  { code: "FR", pattern: "fri(?:day)?s?" },
+  { code: "SA", pattern: "sat(?:urday)?s?" },
+  { code: "SU", pattern: "sun(?:day)?s?" },
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const MAX_SCAN_DAYS = 2 * 366;
+
+export function parseRecurrenceRule(value: unknown): RecurrenceRule | null {
+  if (typeof value !== "string") return null;
+  const trimmed = value.trim().replace(/^RRULE:/i, "");
+  if (!trimmed) return null;
+
+  const fields = new Map<string, string>();
+  for (const part of trimmed.split(";")) {
+    const [rawKey, rawValue] = part.split("=");
+    if (!rawKey || rawValue === undefined) continue;
+    fields.set(rawKey.trim().toUpperCase(), rawValue.trim().toUpperCase());
+  }
+
+  const freq = fields.get("FREQ");
+  if (freq !== "DAILY" && freq !== "WEEKLY" && freq !== "MONTHLY") {
+    return null;
+  }
+
+  const interval = fields.has("INTERVAL")
+    ? Number(fields.get("INTERVAL"))
+    : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+
+  const byWeekday: RecurrenceWeekday[] = [];
+  const rawByDay = fields.get("BYDAY");
+  if (rawByDay) {
+    for (const code of rawByDay.split(",")) {
+      const normalized = code.trim() as RecurrenceWeekday;
+      if (!WEEKDAY_CODES.includes(normalized)) return null;
+      if (!byWeekday.includes(normalized)) byWeekday.push(normalized);
+    }
+  }
+
+  const byMonthDay: number[] = [];
+  const rawByMonthDay = fields.get("BYMONTHDAY");
+  if (rawByMonthDay) {
+    for (const entry of rawByMonthDay.split(",")) {
+      const day = Number(entry);
+      if (!Number.isInteger(day) || day === 0 || day < -1 || day > 31) {
+        return null;
+      }
+      if (!byMonthDay.includes(day)) byMonthDay.push(day);
+    }
+  }
+
+  const until = fields.has("UNTIL")
+    ? normalizeRuleDate(fields.get("UNTIL")!)
+    : null;
+  if (fields.has("UNTIL") && !until) return null;
+
+  const count = fields.has("COUNT") ? Number(fields.get("COUNT")) : null;
+  if (count !== null && (!Number.isInteger(count) || count < 1)) return null;
+
+  return {
+    freq,
+    interval,
+    byWeekday: sortWeekdays(byWeekday),
+    byMonthDay: byMonthDay.sort((a, b) => a - b),
+    until,
+    count,
+  };
+}
+
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byWeekday.length > 0) {
+    parts.push(`BYDAY=${sortWeekdays(rule.byWeekday).join(",")}`);
+  }
+  if (rule.byMonthDay.length > 0) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(";");
+}
+
+export function normalizeRecurrenceRule(value: unknown): string | null {
+  const rule = parseRecurrenceRule(value);
+  return rule ? formatRecurrenceRule(rule) : null;
+}
+
+/**
+ * Expands a rule into concrete local dates, starting from `anchorDate`
+ * (the first day of the series) and returning at most `limit` dates on or
+ * after `fromDate`. Exception dates are skipped but still consume COUNT,
+ * matching RRULE/EXDATE semantics.
+ */
+export function expandRecurrenceDates(args: {
+  rule: RecurrenceRule;
+  anchorDate: string;
+  fromDate: string;
+  limit: number;
+  exceptions?: string[] | null;
+  throughDate?: string | null;
+}): string[] {
+  const { rule, limit } = args;
+  const anchor = parseDay(args.anchorDate);
+  const from = parseDay(args.fromDate);
+  if (!anchor || !from || limit <= 0) return [];
+
+  const until = rule.until ? parseDay(rule.until) : null;
+  const through = args.throughDate ? parseDay(args.throughDate) : null;
+  const exceptions = new Set(args.exceptions ?? []);
+  const anchorWeekStart = startOfIsoWeek(anchor);
+  const results: string[] = [];
+  let generated = 0;
+
+  // Matching is measured from the anchor, so a long-running series can start
+  // scanning at `fromDate` and stay in step with its interval. COUNT still
+  // needs every earlier occurrence, so it scans from the anchor.
+  const daysToFrom = Math.max(
+    0,
+    Math.round((from.getTime() - anchor.getTime()) / MS_PER_DAY),
+  );
+  const firstOffset = rule.count === null ? daysToFrom : 0;
+
+  for (
+    let offset = firstOffset;
+    offset <= daysToFrom + MAX_SCAN_DAYS;
+    offset++
+  ) {
+    const day = new Date(anchor.getTime() + offset * MS_PER_DAY);
+    if (until && day.getTime() > until.getTime()) break;
+    if (through && day.getTime() > through.getTime()) break;
+    if (rule.count !== null && generated >= rule.count) break;
+    if (!matchesRule(rule, day, anchor, anchorWeekStart, offset)) continue;
+
+    generated += 1;
+    if (day.getTime() < from.getTime()) continue;
+    const key = formatDay(day);
+    if (exceptions.has(key)) continue;
+    results.push(key);
+    if (results.length >= limit) break;
+  }
+
+  return results;
+}
+
+/**
+ * Best-effort detection of recurrence phrases ("every Tuesday and Thursday",
+ * "daily", "every other week", "monthly on the 15th"). Returns null when the
+ * text does not describe a repeating task.
+ */
+export function detectRecurrenceFromText(
+  text: string,
+): RecurrenceRule | null {
+  const lower = ` ${text.toLowerCase().replace(/\s+/g, " ")} `;
+  const other = /\b(?:every|each) other\b/.test(lower);
+  const exceptions = readExceptedWeekdays(lower);
+
+  let rule: RecurrenceRule | null = null;
+
+  const weekdays = readRecurringWeekdays(lower);
+  if (/\b(?:every|each) ?weekdays?\b|\bon weekdays\b/.test(lower)) {
+    rule = makeRule("WEEKLY", { byWeekday: ["MO", "TU", "WE", "TH", "FR"] });
+  } else if (/\b(?:every|each) ?weekends?\b|\bon weekends\b/.test(lower)) {
+    rule = makeRule("WEEKLY", { byWeekday: ["SA", "SU"] });
+  } else if (weekdays.length > 0) {
+    rule = makeRule("WEEKLY", {
+      byWeekday: weekdays,
+      interval: other ? 2 : 1,
+    });
+  } else if (
+    /\b(?:every|each) (?:other )?day\b|\bdaily\b|\bevery morning\b|\bevery evening\b|\bevery night\b/
+      .test(lower)
+  ) {
+    rule = makeRule("DAILY", { interval: other ? 2 : 1 });
+  } else if (/\bevery (\d+) days\b/.test(lower)) {
+    const match = /\bevery (\d+) days\b/.exec(lower)!;
+    rule = makeRule("DAILY", { interval: Number(match[1]) });
+  } else if (
+    /\b(?:every|each) (?:other )?week\b|\bweekly\b|\bonce a week\b/.test(lower)
+  ) {
+    rule = makeRule("WEEKLY", { interval: other ? 2 : 1 });
+  } else if (/\bevery (\d+) weeks\b/.test(lower)) {
+    const match = /\bevery (\d+) weeks\b/.exec(lower)!;
+    rule = makeRule("WEEKLY", { interval: Number(match[1]) });
+  } else if (
+    /\b(?:every|each) (?:other )?month\b|\bmonthly\b|\bonce a month\b/.test(
+      lower,
+    )
+  ) {
+    const dayMatch = /\bon the (\d{1,2})(?:st|nd|rd|th)\b/.exec(lower);
+    const lastDay = /\bon the last day\b/.test(lower);
+    const monthDay = lastDay ? -1 : dayMatch ? Number(dayMatch[1]) : null;
+    rule = makeRule("MONTHLY", {
+      interval: other ? 2 : 1,
+      byMonthDay: monthDay !== null && monthDay <= 31 ? [monthDay] : [],
+    });
+  }
+
+  if (!rule) return null;
+
+  if (exceptions.length > 0) {
+    const base = rule.byWeekday.length > 0
+      ? rule.byWeekday
+      : rule.freq === "DAILY" && rule.interval === 1
+      ? [...WEEKDAY_ORDER]
+      : [];
+    const filtered = base.filter((code) => !exceptions.includes(code));
+    if (filtered.length > 0 && filtered.length !== base.length) {
+      rule = { ...rule, freq: "WEEKLY", byWeekday: filtered };
+    }
+  }
+
+  const countMatch = /\bfor (\d+) (?:times|sessions|occurrences)\b/.exec(
+    lower,
+  );
+  if (countMatch) {
+    rule = { ...rule, count: Number(countMatch[1]) };
+  }
+
+  return rule;
+}
+
+export function weekdayForDate(day: string): RecurrenceWeekday | null {
+  const parsed = parseDay(day);
+  return parsed ? WEEKDAY_CODES[parsed.getUTCDay()] : null;
+}
+
+function makeRule(
+  freq: RecurrenceFrequency,
+  overrides: Partial<RecurrenceRule> = {},
+): RecurrenceRule {
+  return {
+    freq,
+    interval: 1,
+    byWeekday: [],
+    byMonthDay: [],
+    until: null,
+    count: null,
+    ...overrides,
+  };
+}
+
+function readRecurringWeekdays(lower: string): RecurrenceWeekday[] {
+  // Only look at the part before an "except" clause so exclusions are not
+  // mistaken for recurring days.
+  const head = lower.split(/\bexcept\b|\bbut not\b/)[0];
+  const found: RecurrenceWeekday[] = [];
+  for (const { code, pattern } of WEEKDAY_PATTERNS) {
+    const everyPattern = new RegExp(
+      `\\b(?:every|each|on) (?:other )?(?:[a-z]+(?:,| and| &|/| or)? )*?${pattern}\\b`,
+    );
+    const pluralPattern = new RegExp(
+      `\\b${pattern.replace(/s\?$/, "")}s\\b`,
+    );
+    if (everyPattern.test(head) || pluralPattern.test(head)) {
+      found.push(code);
+    }
+  }
+  if (found.length === 0) return [];
+  // "every tuesday" without other weekday words should still be recurring,
+  // while a bare "on friday" (no every/each, singular) is a one-off date.
+  const hasEvery = /\b(?:every|each)\b/.test(head);
+  const hasPlural = WEEKDAY_PATTERNS.some(({ pattern }) =>
+    new RegExp(`\\b${pattern.replace(/s\?$/, "")}s\\b`).test(head)
+  );
+  return hasEvery || hasPlural ? sortWeekdays(found) : [];
+}
+
+function readExceptedWeekdays(lower: string): RecurrenceWeekday[] {
+  const match = /\b(?:except|but not)\b(.*)$/.exec(lower);
+  if (!match) return [];
+  const tail = match[1];
+  const found: RecurrenceWeekday[] = [];
+  for (const { code, pattern } of WEEKDAY_PATTERNS) {
+    if (new RegExp(`\\b${pattern}\\b`).test(tail)) found.push(code);
+  }
+  return found;
+}
+
+function matchesRule(
+  rule: RecurrenceRule,
+  day: Date,
+  anchor: Date,
+  anchorWeekStart: Date,
+  dayOffset: number,
+) {
+  const weekday = WEEKDAY_CODES[day.getUTCDay()];
+
+  if (rule.freq === "DAILY") {
+    if (dayOffset % rule.interval !== 0) return false;
+    return rule.byWeekday.length === 0 || rule.byWeekday.includes(weekday);
+  }
+
+  if (rule.freq === "WEEKLY") {
+    const weeks = Math.floor(
+      (startOfIsoWeek(day).getTime() - anchorWeekStart.getTime()) /
+        (7 * MS_PER_DAY),
+    );
+    if (weeks % rule.interval !== 0) return false;
+    const days = rule.byWeekday.length > 0
+      ? rule.byWeekday
+      : [WEEKDAY_CODES[anchor.getUTCDay()]];
+    return days.includes(weekday);
+  }
+
+  const months = (day.getUTCFullYear() - anchor.getUTCFullYear()) * 12 +
+    (day.getUTCMonth() - anchor.getUTCMonth());
+  if (months % rule.interval !== 0) return false;
+  if (rule.byWeekday.length > 0 && !rule.byWeekday.includes(weekday)) {
+    return false;
+  }
+  const monthDays = rule.byMonthDay.length > 0
+    ? rule.byMonthDay
+    : rule.byWeekday.length > 0
+    ? []
+    : [anchor.getUTCDate()];
+  if (monthDays.length === 0) return true;
+  const lastDayOfMonth = new Date(
+    Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  return monthDays.some((target) =>
+    target === -1
+      ? day.getUTCDate() === lastDayOfMonth
+      : day.getUTCDate() === Math.min(target, lastDayOfMonth)
+  );
+}
+
+function sortWeekdays(days: RecurrenceWeekday[]) {
+  return [...days].sort(
+    (a, b) => WEEKDAY_ORDER.indexOf(a) - WEEKDAY_ORDER.indexOf(b),
+  );
+}
+
+function startOfIsoWeek(day: Date) {
+  const weekdayIndex = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - weekdayIndex * MS_PER_DAY);
+}
+
+function normalizeRuleDate(value: string) {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value);
+  if (!match) return null;
+  const iso = `${match[1]}-${match[2]}-${match[3]}`;
+  return parseDay(iso) ? iso : null;
+}
+
+function parseDay(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+  const parsed = new Date(`${value}T00:00:00Z`);
+  return Number.isNaN(parsed.getTime()) ? null : parsed;
+}
+
+function formatDay(day: Date) {
+  return day.toISOString().slice(0, 10);
+}
@@ -0,0 +1,145 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+import { persistCalendarToken } from "../_shared/calendar-client.ts";
+import {
+  assertPublicCalDavHost,
+  caldavCalendarProvider,
+  caldavCredential,
+  CalendarProviderError,
+  probeCalDavCalendar,
+} from "../_shared/calendar-provider.ts";
+import { json, maybeHandleCors } from "../_shared/cors.ts";
+import type { Database } from "../types.ts";
+
+export type CalDavLinkRequest = {
+  calendarUrl: string;
+  username: string;
+  password: string;
+};
+
+export type CalDavLinkResponse = {
+  provider: "caldav";
+  calendarUrl: string;
+  displayName: string | null;
+};
+
+function readLinkRequest(body: unknown): CalDavLinkRequest | null {
+  if (!body || typeof body !== "object") return null;
+  const record = body as Record<string, unknown>;
+  const calendarUrl =
+    typeof record.calendarUrl === "string" ? record.calendarUrl.trim() : "";
+  const username =
+    typeof record.username === "string" ? record.username.trim() : "";
+  const password = typeof record.password === "string" ? record.password : "";
+  if (!calendarUrl || !username || !password) return null;
+  return { calendarUrl, username, password };
+}
+
+/**
+ * Verifies the collection with the supplied app password, then stores the
+ * account and its credential. Linking again replaces the previous URL and
+ * password, which is also how a revoked password is reconnected.
+ */
+export async function linkCalDavAccount(args: {
+  admin: SupabaseClient<Database, "public">;
+  userId: string;
+  request: CalDavLinkRequest;
+}): Promise<CalDavLinkResponse> {
+  const { admin, userId, request } = args;
+  await assertPublicCalDavHost(request.calendarUrl);
+  const credential = caldavCredential(request.username, request.password);
+  const { displayName } = await probeCalDavCalendar(
+    request.calendarUrl,
+    credential,
+  );
+
+  const { data: account, error: accountError } = await admin
+    .from("calendar_accounts")
+    .upsert(
+      {
+        user_id: userId,
+        provider: caldavCalendarProvider.id,
+        calendar_url: request.calendarUrl,
+        needs_reconnect: false,
+      },
+      { onConflict: "user_id,provider" },
+    )
+    .select("id")
+    .maybeSingle();
+  if (accountError || !account) {
+    throw new Error(accountError?.message ?? "Account not created");
+  }
+
+  const grant = await caldavCalendarProvider.refreshAccessToken(credential);
+  await persistCalendarToken(admin, {
+    accountId: (account as { id: number }).id,
+    accessToken: credential,
+    refreshToken: credential,
+    expiresInSeconds: grant?.expiresInSeconds ?? 0,
+  });
+
+  return {
+    provider: "caldav",
+    calendarUrl: request.calendarUrl,
+    displayName,
+  };
+}
+
+export async function handler(req: Request) {
+  const corsResponse = maybeHandleCors(req);
+  if (corsResponse) return corsResponse;
+
+  try {
+    const auth = req.headers.get("Authorization");
+    if (!auth) {
+      return json({ error: "Missing Authorization header" }, 401);
+    }
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const anon = Deno.env.get("SUPABASE_ANON_KEY")!;
+    const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
+
+    const supaFromUser = createClient<Database>(supabaseUrl, anon, {
+      global: { headers: { Authorization: auth } },
+    });
+    const { data: userData, error: userError } =
+      await supaFromUser.auth.getUser();
+    if (userError || !userData?.user) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const request = readLinkRequest(await req.json().catch(() => null));
+    if (!request) {
+      return json(
+        { error: "calendarUrl, username and password are required" },
+        400,
+      );
+    }
+
+    const admin = createClient<Database, "public">(supabaseUrl, serviceRole);
+    const payload = await linkCalDavAccount({
+      admin,
+      userId: userData.user.id,
+      request,
+    });
+    return json(payload);
+  } catch (error) {
+    if (error instanceof CalendarProviderError) {
+      // A 401 from the CalDAV server means the app password was rejected,
+      // not that the DiaGuru session is invalid.
+      if (error.status === 401 || error.status === 403) {
+        return json(
+          { error: "The CalDAV server rejected the username or app password" },
+          400,
+        );
+      }
+      return json({ error: error.message }, error.status);
+    }
+    const details = error instanceof Error ? error.message : String(error);
+    return json({ error: "CalDAV link failed", details }, 500);
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve(handler);
+}
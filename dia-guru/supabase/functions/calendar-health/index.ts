@@ -1,13 +1,18 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
-import { resolveCalendarClient } from "../_shared/calendar-client.ts";
+import {
+  loadCalendarAccount,
+  resolveCalendarClient,
+} from "../_shared/calendar-client.ts";
+import type { CalendarProviderId } from "../_shared/calendar-provider.ts";
 import { json, maybeHandleCors } from "../_shared/cors.ts";
-import type { CalendarAccountRow, Database } from "../types.ts";
+import type { Database } from "../types.ts";
 
 type HealthStatus = "unlinked" | "healthy" | "needs_reconnect";
 
 export type HealthResponse = {
   status: HealthStatus;
+  provider: CalendarProviderId | null;
   linked: boolean;
   needsReconnect: boolean;
   hasRefreshToken: boolean;
@@ -20,26 +25,16 @@ export type HealthResponse = {
 export async function getCalendarHealth(args: {
   admin: SupabaseClient<Database, "public">;
   userId: string;
-  clientId: string;
-  clientSecret: string;
 }): Promise<HealthResponse> {
-  const { admin, userId, clientId, clientSecret } = args;
+  const { admin, userId } = args;
 
-  const { data: accountRow, error: accountError } = await admin
-    .from("calendar_accounts")
-    .select("id, needs_reconnect")
-    .eq("user_id", userId)
-    .eq("provider", "google")
-    .maybeSingle();
+  const account = await loadCalendarAccount(admin, userId);
 
-  if (accountError) {
-    throw new Error(accountError.message);
-  }
-
-  if (!accountRow) {
+  if (!account) {
     const now = new Date().toISOString();
     return {
       status: "unlinked",
+      provider: null,
       linked: false,
       needsReconnect: false,
       hasRefreshToken: false,
@@ -50,14 +45,7 @@ export async function getCalendarHealth(args: {
     };
   }
 
-  const account = accountRow as CalendarAccountRow;
-
-  const resolved = await resolveCalendarClient(
-    admin,
-    userId,
-    clientId,
-    clientSecret,
-  );
+  const resolved = await resolveCalendarClient(admin, userId);
 
   const { data: latestAccount, error: latestAccountError } = await admin
     .from("calendar_accounts")
@@ -86,8 +74,7 @@ export async function getCalendarHealth(args: {
       expiry?: string | null;
       refresh_token?: string | null;
     } | null) ?? null;
-  const needsReconnectFlag =
-    latest?.needs_reconnect ?? account.needs_reconnect ?? false;
+  const needsReconnectFlag = latest?.needs_reconnect ?? account.needsReconnect;
   const expiresAt = token?.expiry ?? null;
   const hasRefreshToken = Boolean(token?.refresh_token);
 
@@ -104,6 +91,7 @@ export async function getCalendarHealth(args: {
   const checkedAt = new Date().toISOString();
   return {
     status,
+    provider: account.provider.id,
     linked: true,
     needsReconnect,
     hasRefreshToken,
@@ -127,8 +115,6 @@ export async function handler(req: Request) {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const anon = Deno.env.get("SUPABASE_ANON_KEY")!;
     const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
-    const clientId = Deno.env.get("GOOGLE_CLIENT_ID")!;
-    const clientSecret = Deno.env.get("GOOGLE_CLIENT_SECRET")!;
 
     const supaFromUser = createClient<Database>(supabaseUrl, anon, {
       global: { headers: { Authorization: auth } },
@@ -143,8 +129,6 @@ export async function handler(req: Request) {
     const payload = await getCalendarHealth({
       admin,
       userId: userData.user.id,
-      clientId,
-      clientSecret,
     });
     return json(payload);
   } catch (error) {
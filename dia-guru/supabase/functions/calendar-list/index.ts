@@ -19,6 +19,18 @@ const ENCODED_GOOGLE_CALENDAR_ID = encodeURIComponent(GOOGLE_CALENDAR_ID);
 const GOOGLE_EVENTS =
   `https://www.googleapis.com/calendar/v3/calendars/${ENCODED_GOOGLE_CALENDAR_ID}/events`;
 const GOOGLE_TOKEN = "https://oauth2.googleapis.com/token";
+const GOOGLE_CALENDAR_LIST =
+  "https://www.googleapis.com/calendar/v3/users/me/calendarList";
+
+type CalendarSummary = {
+  id: string;
+  summary: string;
+  primary: boolean;
+  backgroundColor: string | null;
+  accessRole: string | null;
+  isTarget: boolean;
+  countsAsBusy: boolean;
+};
 
 /**
  * Why this shape?
@@ -26,6 +38,8 @@ const GOOGLE_TOKEN = "https://oauth2.googleapis.com/token";
  * - We read tokens from DB with the service role -> avoids RLS headaches for server-side jobs.
  * - If access_token is expired, we refresh (if refresh_token exists), save, and continue.
  * - We return a small, UI-friendly array.
+ * - `mode: "calendars"` lists the user's calendars with their busy flag, and
+ *   `mode: "set_busy_calendars"` stores which ones block scheduling.
  */
 Deno.serve(async (req) => {
   const corsResponse = maybeHandleCors(req);
@@ -52,7 +66,7 @@ Deno.serve(async (req) => {
     const admin = createClient(supabaseUrl, serviceRole);
     const { data: acct, error: aerr } = await admin
       .from("calendar_accounts")
-      .select("id")
+      .select("id, busy_calendar_ids")
       .eq("user_id", user.id)
       .eq("provider", "google")
       .single();
@@ -103,8 +117,42 @@ Deno.serve(async (req) => {
       });
     }
 
+    const body = await safeJson(req);
+    const busyCalendarIds = (acct.busy_calendar_ids ?? []) as string[];
+
+    if (body.mode === "calendars" || body.mode === "set_busy_calendars") {
+      const listed = await fetchCalendars(accessToken, busyCalendarIds);
+      if (!listed.ok) {
+        return json(
+          { error: "Google API error", details: listed.details },
+          502,
+        );
+      }
+      if (body.mode === "calendars") {
+        return json({ calendars: listed.calendars, busyCalendarIds });
+      }
+
+      if (!Array.isArray(body.calendarIds)) {
+        return json({ error: "calendarIds must be an array" }, 400);
+      }
+      // Only keep calendars the user can see, and never the target calendar:
+      // its events are already listed in full.
+      const requested = new Set(body.calendarIds as unknown[]);
+      const ids = listed.calendars
+        .filter((calendar) => !calendar.isTarget && requested.has(calendar.id))
+        .map((calendar) => calendar.id);
+      const { error: uperr } = await admin
+        .from("calendar_accounts")
+        .update({ busy_calendar_ids: ids })
+        .eq("id", acct.id);
+      if (uperr) {
+        return json({ error: "Failed to save calendars", details: uperr }, 500);
+      }
+      return json({ busyCalendarIds: ids });
+    }
+
     // 3) Time window (default next 7 days)
-    const { rangeDays = 7 } = await safeJson(req);
+    const { rangeDays = 7 } = body;
     const timeMin = new Date().toISOString();
     const timeMax = new Date(Date.now() + rangeDays * 86400000).toISOString();
 
@@ -142,6 +190,41 @@ Deno.serve(async (req) => {
   }
 });
 
+async function fetchCalendars(
+  accessToken: string,
+  busyCalendarIds: string[],
+): Promise<
+  { ok: true; calendars: CalendarSummary[] } | { ok: false; details: unknown }
+> {
+  const lr = await fetch(GOOGLE_CALENDAR_LIST, {
+    headers: { Authorization: `Bearer ${accessToken}` },
+  });
+  const lj = await lr.json();
+  if (!lr.ok) return { ok: false, details: lj };
+  const rawCalendars = Array.isArray(lj.items) ? (lj.items as unknown[]) : [];
+  const calendars = rawCalendars.map((entry) => {
+    const record = entry as Record<string, unknown>;
+    const id = String(record.id ?? "");
+    const primary = record.primary === true;
+    const isTarget = id === GOOGLE_CALENDAR_ID ||
+      (primary && GOOGLE_CALENDAR_ID === "primary");
+    return {
+      id,
+      summary: String(record.summaryOverride ?? record.summary ?? id),
+      primary,
+      backgroundColor: typeof record.backgroundColor === "string"
+        ? record.backgroundColor
+        : null,
+      accessRole: typeof record.accessRole === "string"
+        ? record.accessRole
+        : null,
+      isTarget,
+      countsAsBusy: isTarget || busyCalendarIds.includes(id),
+    };
+  });
+  return { ok: true, calendars };
+}
+
 async function safeJson(req: Request) {
   try {
     return await req.json();
@@ -0,0 +1,130 @@
+import { assertEquals } from "std/assert";
+
+import type { CalendarClientCredentials } from "../_shared/calendar-client.ts";
+import type { CalendarProvider } from "../_shared/calendar-provider.ts";
+import type { CalendarWatchChannelRow } from "../types.ts";
+import { ensureWatchChannel, needsRenewal } from "./index.ts";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+type Row = Record<string, unknown>;
+
+// Just enough of the Supabase query builder for the channel table.
+function createFakeAdmin(rows: Row[]) {
+  const admin = {
+    from: () => ({
+      select: () => ({
+        eq: (column: string, value: unknown) =>
+          Promise.resolve({
+            data: rows.filter((row) => row[column] === value),
+            error: null,
+          }),
+      }),
+      insert: (row: Row) => {
+        rows.push(row);
+        return Promise.resolve({ error: null });
+      },
+      delete: () => ({
+        eq: (column: string, value: unknown) => {
+          const index = rows.findIndex((row) => row[column] === value);
+          if (index >= 0) rows.splice(index, 1);
+          return Promise.resolve({ error: null });
+        },
+      }),
+    }),
+  };
+  return admin as unknown as Parameters<typeof ensureWatchChannel>[0];
+}
+
+function channelRow(
+  id: string,
+  expiresAt: string,
+): CalendarWatchChannelRow {
+  return {
+    id,
+    account_id: 7,
+    user_id: "user-1",
+    calendar_id: "primary",
+    resource_id: `resource-${id}`,
+    token: `token-${id}`,
+    expires_at: expiresAt,
+  };
+}
+
+function createCredentials(calls: string[]): CalendarClientCredentials {
+  const provider = {
+    id: "google",
+    label: "Google Calendar",
+    watchEvents: (_token, calendarId, channel) => {
+      calls.push(`watch:${calendarId}`);
+      assertEquals(channel.ttlSeconds, 7 * 24 * 60 * 60);
+      return Promise.resolve({
+        resourceId: "resource-new",
+        expiresAt: "2026-10-26T12:00:00.000Z",
+      });
+    },
+    stopWatch: (_token, channel) => {
+      calls.push(`stop:${channel.id}`);
+      return Promise.resolve();
+    },
+  } as Partial<CalendarProvider> as CalendarProvider;
+  return {
+    accountId: 7,
+    provider,
+    accessToken: "access",
+    refreshToken: "refresh",
+    refreshed: false,
+    busyCalendarIds: [],
+    calendarUrl: null,
+  };
+}
+
+Deno.test("needsRenewal renews within a day of expiry", () => {
+  assertEquals(
+    needsRenewal({ expires_at: "2026-10-22T12:00:00Z" }, NOW),
+    false,
+  );
+  assertEquals(
+    needsRenewal({ expires_at: "2026-10-20T06:00:00Z" }, NOW),
+    true,
+  );
+  assertEquals(needsRenewal({ expires_at: "not a date" }, NOW), true);
+});
+
+Deno.test("ensureWatchChannel keeps a channel that is not due", async () => {
+  const calls: string[] = [];
+  const rows: Row[] = [channelRow("fresh", "2026-10-24T12:00:00Z")];
+
+  const result = await ensureWatchChannel(
+    createFakeAdmin(rows),
+    "user-1",
+    createCredentials(calls),
+    NOW,
+  );
+
+  assertEquals(result, {
+    channelId: "fresh",
+    expiresAt: "2026-10-24T12:00:00Z",
+    renewed: false,
+  });
+  assertEquals(calls, []);
+});
+
+Deno.test("ensureWatchChannel replaces and stops an expiring channel", async () => {
+  const calls: string[] = [];
+  const rows: Row[] = [channelRow("old", "2026-10-20T00:00:00Z")];
+
+  const result = await ensureWatchChannel(
+    createFakeAdmin(rows),
+    "user-1",
+    createCredentials(calls),
+    NOW,
+  );
+
+  assertEquals(result?.renewed, true);
+  assertEquals(result?.expiresAt, "2026-10-26T12:00:00.000Z");
+  assertEquals(calls, ["watch:primary", "stop:old"]);
+  assertEquals(rows.length, 1);
+  assertEquals(rows[0].id, result?.channelId);
+  assertEquals(rows[0].resource_id, "resource-new");
+});
@@ -0,0 +1,301 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+import {
+  type CalendarClientCredentials,
+  resolveCalendarClient,
+  withCalendarAuth,
+} from "../_shared/calendar-client.ts";
+import { providerCalendarId } from "../_shared/calendar-provider.ts";
+import { json, maybeHandleCors } from "../_shared/cors.ts";
+import { reconcileCaptureEvents } from "../sync-captures/index.ts";
+import type { CalendarWatchChannelRow, Database } from "../types.ts";
+
+const GOOGLE_CALENDAR_ID =
+  (Deno.env.get("GOOGLE_CALENDAR_ID") ?? "primary").trim() || "primary";
+// Google caps event channels at about a week; ask for that and renew a day
+// before it runs out.
+const WATCH_TTL_SECONDS = 7 * 24 * 60 * 60;
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+const CHANNEL_COLUMNS =
+  "id, account_id, user_id, calendar_id, resource_id, token, expires_at";
+
+type AdminClient = SupabaseClient<Database, "public">;
+
+export type WatchChannelResult = {
+  channelId: string;
+  expiresAt: string;
+  renewed: boolean;
+};
+
+function watchAddress() {
+  const configured = (Deno.env.get("CALENDAR_WATCH_URL") ?? "").trim();
+  if (configured) return configured;
+  return `${Deno.env.get("SUPABASE_URL")}/functions/v1/calendar-watch`;
+}
+
+export function needsRenewal(
+  channel: Pick<CalendarWatchChannelRow, "expires_at">,
+  now: Date,
+) {
+  const expiresAt = Date.parse(channel.expires_at);
+  return !Number.isFinite(expiresAt) ||
+    expiresAt - now.getTime() <= RENEW_BEFORE_MS;
+}
+
+async function listAccountChannels(admin: AdminClient, accountId: number) {
+  const { data, error } = await admin
+    .from("calendar_watch_channels")
+    .select(CHANNEL_COLUMNS)
+    .eq("account_id", accountId);
+  if (error) throw new Error(error.message);
+  return (data ?? []) as CalendarWatchChannelRow[];
+}
+
+/**
+ * Makes sure the account has a channel for the calendar DiaGuru writes to
+ * that is not about to expire. A new channel replaces every older one, which
+ * is stopped so Google does not keep posting duplicates.
+ */
+export async function ensureWatchChannel(
+  admin: AdminClient,
+  userId: string,
+  credentials: CalendarClientCredentials,
+  now = new Date(),
+): Promise<WatchChannelResult | null> {
+  const provider = credentials.provider;
+  const watchEvents = provider.watchEvents;
+  if (!watchEvents) return null;
+
+  const calendarId = providerCalendarId(
+    provider,
+    GOOGLE_CALENDAR_ID,
+    credentials.calendarUrl,
+  );
+  const existing = await listAccountChannels(admin, credentials.accountId);
+  const current = existing.find((channel) =>
+    channel.calendar_id === calendarId && !needsRenewal(channel, now)
+  );
+  if (current) {
+    return {
+      channelId: current.id,
+      expiresAt: current.expires_at,
+      renewed: false,
+    };
+  }
+
+  const channel = {
+    id: crypto.randomUUID(),
+    address: watchAddress(),
+    token: crypto.randomUUID(),
+    ttlSeconds: WATCH_TTL_SECONDS,
+  };
+  const registration = await withCalendarAuth(
+    admin,
+    credentials,
+    (token) => watchEvents(token, calendarId, channel),
+  );
+
+  const { error } = await admin.from("calendar_watch_channels").insert({
+    id: channel.id,
+    account_id: credentials.accountId,
+    user_id: userId,
+    calendar_id: calendarId,
+    resource_id: registration.resourceId,
+    token: channel.token,
+    expires_at: registration.expiresAt,
+  });
+  if (error) throw new Error(error.message);
+
+  await retireChannels(admin, credentials, existing);
+
+  return {
+    channelId: channel.id,
+    expiresAt: registration.expiresAt,
+    renewed: true,
+  };
+}
+
+async function retireChannels(
+  admin: AdminClient,
+  credentials: CalendarClientCredentials,
+  channels: CalendarWatchChannelRow[],
+) {
+  const stopWatch = credentials.provider.stopWatch;
+  for (const channel of channels) {
+    if (stopWatch) {
+      try {
+        await withCalendarAuth(
+          admin,
+          credentials,
+          (token) =>
+            stopWatch(token, {
+              id: channel.id,
+              resourceId: channel.resource_id,
+            }),
+        );
+      } catch (error) {
+        // An unstopped channel only produces notifications until it expires.
+        console.log("calendar-watch stop failed", channel.id, error);
+      }
+    }
+    await admin.from("calendar_watch_channels").delete().eq("id", channel.id);
+  }
+}
+
+/**
+ * Handles a Google push notification. The first message on a channel is a
+ * "sync" handshake; every later one means something in the calendar changed,
+ * so the owner's captures are reconciled and the channel renewed if due.
+ * Always answers 2xx for known channels: Google retries failures with
+ * backoff, and the next change or app sync catches up anyway.
+ */
+async function handleNotification(admin: AdminClient, req: Request) {
+  const channelId = req.headers.get("X-Goog-Channel-ID") ?? "";
+  const state = req.headers.get("X-Goog-Resource-State");
+
+  const { data, error } = await admin
+    .from("calendar_watch_channels")
+    .select(CHANNEL_COLUMNS)
+    .eq("id", channelId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  const channel = data as CalendarWatchChannelRow | null;
+  if (!channel) {
+    // Usually a channel replaced moments ago; nothing to do.
+    return json({ ignored: true });
+  }
+  if (req.headers.get("X-Goog-Channel-Token") !== channel.token) {
+    return json({ error: "Invalid channel token" }, 403);
+  }
+  if (state === "sync") return json({ ok: true });
+
+  await admin
+    .from("calendar_watch_channels")
+    .update({ last_notified_at: new Date().toISOString() })
+    .eq("id", channel.id);
+
+  try {
+    const summary = await reconcileCaptureEvents(admin, channel.user_id);
+    if (needsRenewal(channel, new Date())) {
+      const credentials = await resolveCalendarClient(admin, channel.user_id);
+      if (credentials) {
+        await ensureWatchChannel(admin, channel.user_id, credentials);
+      }
+    }
+    return json({ ok: true, updates: summary.updates });
+  } catch (error) {
+    console.log("calendar-watch sync failed", channel.user_id, error);
+    return json({ ok: false });
+  }
+}
+
+/**
+ * Renews every channel that expires within a day, including ones that have
+ * already lapsed. Meant for a scheduled job so users who never open the app
+ * keep receiving updates. Channels of users without a usable calendar link
+ * are dropped.
+ */
+export async function renewExpiringChannels(admin: AdminClient, now: Date) {
+  const { data, error } = await admin
+    .from("calendar_watch_channels")
+    .select("user_id")
+    .lt("expires_at", new Date(now.getTime() + RENEW_BEFORE_MS).toISOString());
+  if (error) throw new Error(error.message);
+
+  const userIds = [
+    ...new Set(
+      ((data ?? []) as Pick<CalendarWatchChannelRow, "user_id">[]).map(
+        (row) => row.user_id,
+      ),
+    ),
+  ];
+  let renewed = 0;
+  let failed = 0;
+  for (const userId of userIds) {
+    try {
+      const credentials = await resolveCalendarClient(admin, userId);
+      if (!credentials) {
+        await admin
+          .from("calendar_watch_channels")
+          .delete()
+          .eq("user_id", userId);
+        continue;
+      }
+      const result = await ensureWatchChannel(admin, userId, credentials, now);
+      if (result?.renewed) renewed++;
+    } catch (error) {
+      failed++;
+      console.log("calendar-watch renew failed", userId, error);
+    }
+  }
+  return { checked: userIds.length, renewed, failed };
+}
+
+async function readAction(req: Request) {
+  const body = await req.json().catch(() => null) as
+    | { action?: unknown }
+    | null;
+  return typeof body?.action === "string" ? body.action : "register";
+}
+
+export async function handler(req: Request) {
+  const corsResponse = maybeHandleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const anon = Deno.env.get("SUPABASE_ANON_KEY")!;
+  const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
+  const admin = createClient<Database, "public">(supabaseUrl, serviceRole);
+
+  try {
+    if (req.headers.has("X-Goog-Channel-ID")) {
+      return await handleNotification(admin, req);
+    }
+
+    const auth = req.headers.get("Authorization");
+    if (!auth) {
+      return json({ error: "Missing Authorization header" }, 401);
+    }
+    const action = await readAction(req);
+
+    if (action === "renew") {
+      if (auth !== `Bearer ${serviceRole}`) {
+        return json({ error: "Forbidden" }, 403);
+      }
+      return json(await renewExpiringChannels(admin, new Date()));
+    }
+
+    if (action !== "register") {
+      return json({ error: `Unknown action: ${action}` }, 400);
+    }
+
+    const supaFromUser = createClient<Database>(supabaseUrl, anon, {
+      global: { headers: { Authorization: auth } },
+    });
+    const { data: userData, error: userError } = await supaFromUser.auth
+      .getUser();
+    if (userError || !userData?.user) {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const userId = userData.user.id;
+    const credentials = await resolveCalendarClient(admin, userId);
+    if (!credentials) {
+      return json({ error: "Calendar not linked" }, 400);
+    }
+    const result = await ensureWatchChannel(admin, userId, credentials);
+    // Providers without push support fall back to app-triggered syncs.
+    return json({
+      provider: credentials.provider.id,
+      supported: result !== null,
+      channel: result,
+    });
+  } catch (error) {
+    const details = error instanceof Error ? error.message : String(error);
+    return json({ error: "Calendar watch failed", details }, 500);
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve(handler);
+}
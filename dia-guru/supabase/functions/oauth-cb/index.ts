@@ -1,13 +1,21 @@
 import { createClient } from "@supabase/supabase-js";
+import { type CalendarProvider, calendarProviderFor } from "../_shared/calendar-provider.ts";
 
-const TOKEN_URL = "https://oauth2.googleapis.com/token";
-const VERSION = "cb-v1";
+const VERSION = "cb-v2";
+
+// Google redirects to /oauth-cb; other providers register /oauth-cb/<provider>.
+function providerForPath(pathname: string): CalendarProvider | null {
+  const segment = pathname.replace(/\/+$/, "").split("/").pop() ?? "";
+  return segment === "oauth-cb" ? calendarProviderFor("google") : calendarProviderFor(segment);
+}
 
 Deno.serve(async (req) => {
   try {
     const url = new URL(req.url);
     const code = url.searchParams.get("code");
     const state = url.searchParams.get("state"); // Supabase access token from the app
+    const provider = providerForPath(url.pathname);
+    if (!provider) return new Response("Unknown calendar provider", { status: 404 });
 
     // When opened with no params, show HTML (NO auth header required)
     if (!code || !state) {
@@ -23,9 +31,6 @@ Deno.serve(async (req) => {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const _anon = Deno.env.get("SUPABASE_ANON_KEY")!;
     const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
-    const clientId = Deno.env.get("GOOGLE_CLIENT_ID")!;
-    const clientSecret = Deno.env.get("GOOGLE_CLIENT_SECRET")!;
-    const redirectUri = Deno.env.get("GOOGLE_REDIRECT_URI")!;
 
     // 0. Decode JWT from state to get user ID (no verification since it's disabled)
     let userId: string;
@@ -40,26 +45,19 @@ Deno.serve(async (req) => {
     }
 
     // Exchange code for tokens
-    const form = new URLSearchParams({
-      code,
-      client_id: clientId,
-      client_secret: clientSecret,
-      redirect_uri: redirectUri,
-      grant_type: "authorization_code",
-    });
-    const r = await fetch(TOKEN_URL, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body: form,
-    });
-    const tok = await r.json();
-    if (!r.ok) return new Response("Google token exchange failed", { status: 502 });
+    let tok;
+    try {
+      tok = await provider.exchangeCode(code);
+    } catch (e) {
+      console.error(`${provider.label} token exchange failed:`, e);
+      return new Response(`${provider.label} token exchange failed`, { status: 502 });
+    }
 
     // Store tokens (server-side only)
     const admin = createClient(supabaseUrl, serviceRole);
     const { data: acct, error: acctError } = await admin
       .from("calendar_accounts")
-      .upsert({ user_id: userId, provider: "google", needs_reconnect: false }, { onConflict: "user_id,provider" })
+      .upsert({ user_id: userId, provider: provider.id, needs_reconnect: false }, { onConflict: "user_id,provider" })
       .select("id")
       .maybeSingle();
 
@@ -68,18 +66,18 @@ Deno.serve(async (req) => {
       return new Response(`Database error: ${acctError?.message || "Account not created"}`, { status: 500 });
     }
 
-    const expiry = new Date(Date.now() + (tok.expires_in ?? 0) * 1000).toISOString();
+    const expiry = new Date(Date.now() + tok.expiresInSeconds * 1000).toISOString();
     await admin.from("calendar_tokens").upsert({
       account_id: acct.id,
-      access_token: tok.access_token,
-      refresh_token: tok.refresh_token ?? null,
+      access_token: tok.accessToken,
+      refresh_token: tok.refreshToken,
       expiry,
     });
 
     const ok = `<!doctype html>
       <meta charset="utf-8">
       <title>Connected</title>
-      <h1>Google Calendar connected!</h1>
+      <h1>${provider.label} connected!</h1>
       <p>Version: ${VERSION}</p>`;
     return new Response(ok, { status: 200, headers: { "Content-Type": "text/html" } });
   } catch (error) {
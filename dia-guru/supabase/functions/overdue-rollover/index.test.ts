@@ -0,0 +1,183 @@
+import { assertEquals } from "std/assert";
+
+import type {
+  CaptureEntryRow,
+  PlanActionRow,
+  UserSchedulerPreferencesRow,
+} from "../types.ts";
+import { rollOverUser, splitOverdue } from "./index.ts";
+
+const NOW = new Date("2026-10-19T12:00:00Z");
+
+type Row = Record<string, unknown>;
+
+function makeCapture(overrides: Partial<CaptureEntryRow> = {}) {
+  return {
+    id: "cap-1",
+    user_id: "user-1",
+    content: "Water the plants",
+    estimated_minutes: 30,
+    importance: 1,
+    status: "scheduled",
+    planned_start: "2026-10-19T09:00:00Z",
+    planned_end: "2026-10-19T09:30:00Z",
+    calendar_event_id: "evt-1",
+    calendar_event_etag: "etag-1",
+    freeze_until: null,
+    plan_id: "plan-0",
+    scheduling_notes: null,
+    ...overrides,
+  } as CaptureEntryRow;
+}
+
+function makePreferences(
+  overrides: Partial<UserSchedulerPreferencesRow> = {},
+): UserSchedulerPreferencesRow {
+  return {
+    user_id: "user-1",
+    working_hours: null,
+    time_of_day_bands: null,
+    buffer_minutes: null,
+    max_moves_per_run: null,
+    auto_reschedule_overdue: true,
+    timezone: "Europe/Berlin",
+    ...overrides,
+  };
+}
+
+// Records writes per table; capture updates only match rows still scheduled.
+function createFakeAdmin(captures: CaptureEntryRow[]) {
+  const writes: { table: string; op: string; value: unknown }[] = [];
+  const admin = {
+    from: (table: string) => ({
+      insert: (value: unknown) => {
+        writes.push({ table, op: "insert", value });
+        const result = Promise.resolve({ error: null });
+        return Object.assign(result, {
+          select: () => ({ single: () => result }),
+        });
+      },
+      update: (value: Row) => ({
+        eq: (_column: string, id: string) => {
+          writes.push({ table, op: "update", value });
+          const result = Promise.resolve({ error: null });
+          return Object.assign(result, {
+            eq: () => ({
+              select: () => ({
+                maybeSingle: () => {
+                  const row = captures.find((capture) =>
+                    capture.id === id && capture.status === "scheduled"
+                  );
+                  return Promise.resolve({
+                    data: row ? { ...row, ...value } : null,
+                    error: null,
+                  });
+                },
+              }),
+            }),
+          });
+        },
+      }),
+      // Notification jobs are rebuilt from the captures after the run.
+      select: () => ({
+        in: () => Promise.resolve({ data: [], error: null }),
+      }),
+      delete: () => ({
+        eq: (_column: string, value: unknown) => {
+          writes.push({ table, op: "delete", value });
+          return Promise.resolve({ error: null });
+        },
+        in: () => ({ eq: () => Promise.resolve({ error: null }) }),
+      }),
+    }),
+  } as unknown as Parameters<typeof rollOverUser>[0]["admin"];
+  return { admin, writes };
+}
+
+Deno.test("splitOverdue only moves low-importance captures for opted-in users", () => {
+  const low = makeCapture({ id: "low" });
+  const high = makeCapture({ id: "high", importance: 3 });
+  const occurrence = makeCapture({
+    id: "occurrence",
+    recurrence_parent_id: "template",
+    occurrence_date: "2026-10-19",
+  });
+  const captures = [low, high, occurrence];
+
+  const split = splitOverdue(captures, makePreferences());
+  assertEquals(split.reschedule.map((capture) => capture.id), ["low"]);
+  assertEquals(split.flag.map((capture) => capture.id), [
+    "high",
+    "occurrence",
+  ]);
+
+  // Without the opt-in or a timezone to place sessions in, everything waits.
+  for (
+    const preferences of [
+      null,
+      makePreferences({ auto_reschedule_overdue: false }),
+      makePreferences({ timezone: null }),
+    ]
+  ) {
+    assertEquals(splitOverdue(captures, preferences).reschedule, []);
+  }
+});
+
+Deno.test("rollOverUser flags overdue captures as one undoable plan run", async () => {
+  const captures = [
+    makeCapture(),
+    makeCapture({ id: "cap-2", importance: 2, calendar_event_id: "evt-2" }),
+  ];
+  const { admin, writes } = createFakeAdmin(captures);
+
+  const summary = await rollOverUser({
+    admin,
+    userId: "user-1",
+    captures,
+    preferences: null,
+    now: NOW,
+  });
+
+  assertEquals(summary.flagged, 2);
+  assertEquals(summary.rescheduled, 0);
+  // Each action is stored on its own as the run goes.
+  const actions = writes
+    .filter((write) => write.table === "plan_actions")
+    .map((write) => write.value as PlanActionRow);
+  assertEquals(actions.map((action) => action.plan_id), [
+    summary.planId!,
+    summary.planId!,
+  ]);
+  assertEquals(actions[0].action_type, "overdue");
+  assertEquals(actions[0].prev_status, "scheduled");
+  assertEquals(actions[0].next_status, "awaiting_confirmation");
+  // The event stays so the app can still ask how the session went.
+  assertEquals(actions[1].prev_calendar_event_id, "evt-2");
+  assertEquals(actions[1].next_calendar_event_id, "evt-2");
+  assertEquals(
+    writes.find((write) => write.table === "plan_runs" && write.op === "update")
+      ?.value,
+    { summary: "overdue:2 moved:0" },
+  );
+});
+
+Deno.test("rollOverUser drops the plan run when every capture was checked in", async () => {
+  const captures = [makeCapture({ status: "completed" })];
+  const { admin, writes } = createFakeAdmin(captures);
+
+  const summary = await rollOverUser({
+    admin,
+    userId: "user-1",
+    captures,
+    preferences: null,
+    now: NOW,
+  });
+
+  assertEquals(summary, { planId: null, flagged: 0, rescheduled: 0 });
+  assertEquals(
+    writes.filter((write) => write.table === "plan_runs").map((write) =>
+      write.op
+    ),
+    ["insert", "delete"],
+  );
+});
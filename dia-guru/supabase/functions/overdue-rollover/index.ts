@@ -0,0 +1,459 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { resolveCalendarClient } from "../_shared/calendar-client.ts";
+import { json, maybeHandleCors } from "../_shared/cors.ts";
+import { enqueueNotificationJobs } from "../_shared/notification-jobs.ts";
+import type {
+  CaptureEntryRow,
+  Database,
+  UserSchedulerPreferencesRow,
+} from "../types.ts";
+import {
+  convertPlanActionForInsert,
+  createCalendarActions,
+  createSessionEvents,
+  DEFAULT_CALENDAR_TARGET,
+  deleteSessionEvents,
+  mergeSchedulingNotes,
+  type PlanActionRecord,
+  ScheduleError,
+  snapshotFromRow,
+} from "../schedule-capture/index.ts";
+import { replaceCaptureChunks } from "../schedule-capture/chunks.ts";
+import { isRecurringOccurrence } from "../schedule-capture/occurrences.ts";
+import { planQueue } from "../schedule-capture/queue-planner.ts";
+import {
+  applySchedulerPreferences,
+  logSchedulerEvent,
+  runWithSchedulerScope,
+} from "../schedule-capture/scheduler-config.ts";
+import {
+  buildChunksForSlot,
+  getTimezoneOffsetMinutes,
+  SEARCH_DAYS,
+} from "../schedule-capture/scheduling-core.ts";
+
+type AdminClient = SupabaseClient<Database, "public">;
+
+// The check-in reminder fires at planned_end; give the user a moment to answer
+// it before the job steps in.
+const OVERDUE_GRACE_MS = 15 * 60 * 1000;
+// Importance runs from 1 to 3; only the lowest is moved without asking.
+const LOW_IMPORTANCE = 1;
+const OVERDUE_NOTE =
+  "Session ended without a check-in; waiting for confirmation.";
+const ROLLOVER_NOTE = "Session ended without a check-in; moved automatically.";
+
+export type RolloverSummary = {
+  planId: string | null;
+  flagged: number;
+  rescheduled: number;
+};
+
+/**
+ * Splits a user's overdue captures into the ones the job may move on its own
+ * and the ones that wait for the user. Moving needs the opt-in preference and
+ * a stored timezone, and never applies to recurring occurrences, which come
+ * around again anyway.
+ */
+export function splitOverdue(
+  captures: CaptureEntryRow[],
+  preferences: UserSchedulerPreferencesRow | null,
+) {
+  const canMove = Boolean(
+    preferences?.auto_reschedule_overdue && preferences.timezone,
+  );
+  const reschedule: CaptureEntryRow[] = [];
+  const flag: CaptureEntryRow[] = [];
+  for (const capture of captures) {
+    if (
+      canMove && capture.importance <= LOW_IMPORTANCE &&
+      !isRecurringOccurrence(capture)
+    ) {
+      reschedule.push(capture);
+    } else {
+      flag.push(capture);
+    }
+  }
+  return { reschedule, flag };
+}
+
+function offsetMinutesFor(timezone: string | null | undefined, now: Date) {
+  if (!timezone) return null;
+  try {
+    return getTimezoneOffsetMinutes(now, timezone);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stores one action of the run right after its change, so a run that fails
+ * partway can still be undone up to that point.
+ */
+async function recordAction(admin: AdminClient, action: PlanActionRecord) {
+  const { error } = await admin
+    .from("plan_actions")
+    .insert(convertPlanActionForInsert(action));
+  if (error) {
+    throw new ScheduleError(
+      "Failed to persist rollover audit trail.",
+      500,
+      error,
+    );
+  }
+  return action;
+}
+
+/**
+ * Moves the capture to awaiting_confirmation, keeping its calendar event so
+ * the app can still ask how the session went. Returns null when the user
+ * checked in (or the capture changed) since it was loaded.
+ */
+async function flagOverdue(
+  admin: AdminClient,
+  capture: CaptureEntryRow,
+  planId: string,
+): Promise<PlanActionRecord | null> {
+  const { data, error } = await admin
+    .from("capture_entries")
+    .update({
+      status: "awaiting_confirmation",
+      scheduling_notes: mergeSchedulingNotes(
+        capture.scheduling_notes,
+        OVERDUE_NOTE,
+      ),
+    })
+    .eq("id", capture.id)
+    .eq("status", "scheduled")
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    throw new ScheduleError("Failed to flag overdue capture.", 500, error);
+  }
+  if (!data) return null;
+  return await recordAction(admin, {
+    planId,
+    actionId: crypto.randomUUID(),
+    captureId: capture.id,
+    captureContent: capture.content,
+    actionType: "overdue",
+    prev: snapshotFromRow(capture),
+    next: snapshotFromRow(data as CaptureEntryRow),
+  });
+}
+
+/**
+ * Places the low-importance captures in the next free slots with the queue
+ * planner. Returns the actions for the moved captures and the captures that
+ * did not fit, which are flagged instead.
+ */
+async function rescheduleOverdue(args: {
+  admin: AdminClient;
+  userId: string;
+  captures: CaptureEntryRow[];
+  offsetMinutes: number;
+  timezone: string;
+  planId: string;
+  now: Date;
+}) {
+  const { admin, userId, captures, planId, now } = args;
+  const credentials = await resolveCalendarClient(admin, userId);
+  if (!credentials) return { actions: [], unplaced: captures };
+  const calendar = createCalendarActions({
+    credentials,
+    admin,
+    userId,
+    calendarTarget: DEFAULT_CALENDAR_TARGET,
+  });
+
+  const searchEnd = new Date(now.getTime() + SEARCH_DAYS * 86400000);
+  const events = await calendar.listEvents(
+    now.toISOString(),
+    searchEnd.toISOString(),
+  );
+  const queuePlan = planQueue({
+    captures,
+    events,
+    offsetMinutes: args.offsetMinutes,
+    referenceNow: now,
+    timezone: args.timezone,
+  });
+
+  const actions: PlanActionRecord[] = [];
+  const unplaced = queuePlan.unplaced.map((entry) => entry.capture);
+  for (const placement of queuePlan.placements) {
+    const { capture, slot } = placement;
+    const actionId = crypto.randomUUID();
+    const bookedSessions = placement.sessions
+      ? await createSessionEvents(calendar, {
+        capture,
+        sessions: placement.sessions,
+        planId,
+        actionId,
+        priorityScore: placement.priority.score,
+      })
+      : null;
+    const createdEvents = bookedSessions
+      ? bookedSessions.map((session) => ({
+        id: session.calendarEventId!,
+        etag: session.calendarEventEtag ?? null,
+      }))
+      : [
+        await calendar.createEvent({
+          capture,
+          slot,
+          planId,
+          actionId,
+          priorityScore: placement.priority.score,
+        }),
+      ];
+    const createdEvent = createdEvents[0];
+
+    const { data, error } = await admin
+      .from("capture_entries")
+      .update({
+        status: "scheduled",
+        planned_start: slot.start.toISOString(),
+        planned_end: slot.end.toISOString(),
+        scheduled_for: slot.start.toISOString(),
+        calendar_event_id: createdEvent.id,
+        calendar_event_etag: createdEvent.etag,
+        calendar_account_id: calendar.accountId,
+        plan_id: planId,
+        freeze_until: null,
+        scheduling_notes: mergeSchedulingNotes(
+          capture.scheduling_notes,
+          ROLLOVER_NOTE,
+        ),
+      })
+      .eq("id", capture.id)
+      .eq("status", "scheduled")
+      .select("*")
+      .maybeSingle();
+    if (error || !data) {
+      // The user checked in meanwhile, or the write failed; either way the
+      // new events must not linger.
+      for (const event of createdEvents) {
+        await calendar.deleteEvent({
+          eventId: event.id,
+          etag: event.etag,
+        }).catch((deleteError) =>
+          console.log(
+            "overdue-rollover cleanup failed",
+            capture.id,
+            deleteError,
+          )
+        );
+      }
+      if (error) {
+        throw new ScheduleError(
+          "Failed to persist overdue rollover.",
+          500,
+          error,
+        );
+      }
+      continue;
+    }
+
+    const updated = data as CaptureEntryRow;
+    actions.push(
+      await recordAction(admin, {
+        planId,
+        actionId,
+        captureId: capture.id,
+        captureContent: capture.content,
+        actionType: "rescheduled",
+        prev: snapshotFromRow(capture),
+        next: snapshotFromRow(updated),
+      }),
+    );
+
+    try {
+      if (capture.calendar_event_id) {
+        await calendar.deleteEvent({
+          eventId: capture.calendar_event_id,
+          etag: capture.calendar_event_etag,
+          accountId: capture.calendar_account_id,
+        });
+      }
+      await deleteSessionEvents(admin, calendar, capture);
+    } catch (deleteError) {
+      // A stale event in the past is harmless; undo recreates it anyway.
+      console.log("overdue-rollover delete failed", capture.id, deleteError);
+    }
+
+    await replaceCaptureChunks(
+      admin,
+      updated,
+      bookedSessions ?? buildChunksForSlot(updated, slot),
+    );
+  }
+  return { actions, unplaced };
+}
+
+/**
+ * Rolls over one user's overdue captures as a single plan run, so the whole
+ * run can be reverted with undo-plan. The plan run is removed again when the
+ * user checked in on everything before the job got to it.
+ */
+export async function rollOverUser(args: {
+  admin: AdminClient;
+  userId: string;
+  captures: CaptureEntryRow[];
+  preferences: UserSchedulerPreferencesRow | null;
+  now: Date;
+}): Promise<RolloverSummary> {
+  const { admin, userId, preferences, now } = args;
+  applySchedulerPreferences(preferences);
+
+  const planId = crypto.randomUUID();
+  const { error: planError } = await admin
+    .from("plan_runs")
+    .insert({ id: planId, user_id: userId })
+    .select("id")
+    .single();
+  if (planError) {
+    throw new ScheduleError(
+      "Failed to register rollover plan.",
+      500,
+      planError,
+    );
+  }
+
+  const { reschedule, flag } = splitOverdue(args.captures, preferences);
+  const actions: PlanActionRecord[] = [];
+  const offsetMinutes = offsetMinutesFor(preferences?.timezone, now);
+  if (reschedule.length > 0 && offsetMinutes !== null) {
+    const moved = await rescheduleOverdue({
+      admin,
+      userId,
+      captures: reschedule,
+      offsetMinutes,
+      timezone: preferences!.timezone!,
+      planId,
+      now,
+    });
+    actions.push(...moved.actions);
+    flag.push(...moved.unplaced);
+  } else {
+    flag.push(...reschedule);
+  }
+
+  for (const capture of flag) {
+    const action = await flagOverdue(admin, capture, planId);
+    if (action) actions.push(action);
+  }
+
+  if (actions.length === 0) {
+    await admin.from("plan_runs").delete().eq("id", planId);
+    return { planId: null, flagged: 0, rescheduled: 0 };
+  }
+
+  await enqueueNotificationJobs(
+    admin,
+    actions.map((action) => action.captureId),
+    now,
+  );
+  const flagged =
+    actions.filter((action) => action.actionType === "overdue").length;
+  const rescheduled = actions.length - flagged;
+  await admin
+    .from("plan_runs")
+    .update({ summary: `overdue:${flagged} moved:${rescheduled}` })
+    .eq("id", planId);
+
+  logSchedulerEvent("overdue.rollover", {
+    userId,
+    planId,
+    flagged,
+    rescheduled,
+  });
+  return { planId, flagged, rescheduled };
+}
+
+/**
+ * Finds every scheduled capture whose session ended more than the grace
+ * period ago and rolls them over per user. A failure for one user is logged
+ * and does not stop the others.
+ */
+export async function rollOverOverdue(admin: AdminClient, now: Date) {
+  const cutoff = new Date(now.getTime() - OVERDUE_GRACE_MS).toISOString();
+  const { data, error } = await admin
+    .from("capture_entries")
+    .select("*")
+    .eq("status", "scheduled")
+    .lt("planned_end", cutoff)
+    .order("planned_end", { ascending: true });
+  if (error) throw new Error(error.message);
+
+  const byUser = new Map<string, CaptureEntryRow[]>();
+  for (const capture of (data ?? []) as CaptureEntryRow[]) {
+    const list = byUser.get(capture.user_id) ?? [];
+    list.push(capture);
+    byUser.set(capture.user_id, list);
+  }
+  if (byUser.size === 0) {
+    return { users: 0, flagged: 0, rescheduled: 0, failed: 0 };
+  }
+
+  const { data: preferenceRows, error: preferencesError } = await admin
+    .from("user_scheduler_preferences")
+    .select("*")
+    .in("user_id", [...byUser.keys()]);
+  if (preferencesError) throw new Error(preferencesError.message);
+  const preferencesByUser = new Map(
+    ((preferenceRows ?? []) as UserSchedulerPreferencesRow[]).map((row) => [
+      row.user_id,
+      row,
+    ]),
+  );
+
+  let flagged = 0;
+  let rescheduled = 0;
+  let failed = 0;
+  for (const [userId, captures] of byUser) {
+    try {
+      const summary = await runWithSchedulerScope(() =>
+        rollOverUser({
+          admin,
+          userId,
+          captures,
+          preferences: preferencesByUser.get(userId) ?? null,
+          now,
+        })
+      );
+      flagged += summary.flagged;
+      rescheduled += summary.rescheduled;
+    } catch (error) {
+      failed++;
+      console.log("overdue-rollover failed", userId, error);
+    }
+  }
+  return { users: byUser.size, flagged, rescheduled, failed };
+}
+
+/**
+ * Meant for a scheduled job; callers authenticate with the service role key.
+ */
+export async function handler(req: Request) {
+  const corsResponse = maybeHandleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRole}`) {
+    return json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const admin = createClient<Database, "public">(supabaseUrl, serviceRole);
+    return json(await rollOverOverdue(admin, new Date()));
+  } catch (error) {
+    const details = error instanceof Error ? error.message : String(error);
+    return json({ error: "Overdue rollover failed", details }, 500);
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve(handler);
+}
@@ -0,0 +1,240 @@
+// Server-side state for multi-turn clarifications. A session keeps the
+// extraction read from the original capture; each answer is merged into it
+// for the field that was asked about, and no field is asked about twice.
+
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+import type { ClarificationSessionRow, Database } from "../types.ts";
+import type { DiaGuruTaskExtraction, ParseMode } from "./index.ts";
+import { extractWithRules, parseDurationPhrase } from "./rule-extraction.ts";
+
+type AdminClient = SupabaseClient<Database, "public">;
+
+export const MAX_QUESTIONS = 3;
+const SESSION_TTL_MS = 30 * 60 * 1000;
+const SESSION_COLUMNS =
+  "id, user_id, content, mode, timezone, extraction, turns, status, expires_at";
+
+export type ClarificationTurn = {
+  field: string;
+  question: string;
+  answer: string | null;
+};
+
+export type ClarificationSession = {
+  id: string;
+  content: string;
+  mode: ParseMode;
+  timezone: string;
+  extraction: DiaGuruTaskExtraction;
+  turns: ClarificationTurn[];
+  status: "open" | "complete";
+  expiresAt: string;
+};
+
+export type ClarificationStore = {
+  create(
+    session: Omit<ClarificationSession, "id" | "status" | "expiresAt">,
+    now: Date,
+  ): Promise<ClarificationSession>;
+  load(id: string): Promise<ClarificationSession | null>;
+  save(session: ClarificationSession): Promise<void>;
+};
+
+// Most useful first: the scheduler cannot place a task without a duration.
+const QUESTIONS: Record<string, (title: string) => string> = {
+  estimated_minutes: (title) => `About how long will "${title}" take?`,
+  deadline: (title) => `When does "${title}" need to be done?`,
+  scheduled_time: (title) => `What time do you want to start "${title}"?`,
+  execution_window: (title) => `When would you like to fit in "${title}"?`,
+  time_preferences: (title) =>
+    `Is there a time of day that suits "${title}" best?`,
+  title: () => "What should this task be called?",
+};
+const FIELD_PRIORITY = Object.keys(QUESTIONS);
+
+// The model sometimes names nested paths such as "deadline.datetime".
+function baseField(field: string) {
+  return field.split(".")[0];
+}
+
+/**
+ * Picks the next field worth asking about: one the session has not asked
+ * before, in priority order, while the question budget lasts.
+ */
+export function nextQuestionField(
+  missing: string[],
+  turns: ClarificationTurn[],
+): string | null {
+  if (turns.length >= MAX_QUESTIONS) return null;
+  const asked = new Set(turns.map((turn) => turn.field));
+  const candidates = new Set(missing.map(baseField));
+  return FIELD_PRIORITY.find((field) =>
+    candidates.has(field) && !asked.has(field)
+  ) ?? null;
+}
+
+export function questionFor(
+  field: string,
+  extraction: DiaGuruTaskExtraction,
+) {
+  const title = extraction.title?.trim() || "this task";
+  return (QUESTIONS[field] ?? QUESTIONS.title)(title);
+}
+
+/**
+ * Reads `answer` as a value for `field` with the local rules and merges it
+ * into a copy of the extraction. `understood` is false when the answer did
+ * not yield a value; the extraction is then returned unchanged.
+ */
+export function mergeAnswerWithRules(input: {
+  extraction: DiaGuruTaskExtraction;
+  field: string;
+  answer: string;
+  timezone: string;
+  referenceNow: Date;
+}): { extraction: DiaGuruTaskExtraction; understood: boolean } {
+  const { field, answer, timezone, referenceNow } = input;
+  const next: DiaGuruTaskExtraction = structuredClone(input.extraction);
+  const read = (content: string) =>
+    extractWithRules({ content, timezone, referenceNow });
+
+  let understood = false;
+  switch (field) {
+    case "estimated_minutes": {
+      const bare = /^\s*(\d+(?:\.\d+)?)\s*$/.exec(answer);
+      const minutes = parseDurationPhrase(answer)?.minutes ??
+        (bare ? Math.round(Number(bare[1])) : null);
+      if (minutes && minutes > 0) {
+        next.estimated_minutes = minutes;
+        understood = true;
+      }
+      break;
+    }
+    case "deadline": {
+      const { deadline } = read(`by ${answer}`);
+      if (deadline?.datetime) {
+        next.deadline = { ...deadline, source: "explicit" };
+        if (!next.execution_window) {
+          next.execution_window = {
+            relation: "before_deadline",
+            start: null,
+            end: deadline.datetime,
+            source: "inferred",
+          };
+        }
+        understood = true;
+      }
+      break;
+    }
+    case "scheduled_time": {
+      const reading = read(`at ${answer}`);
+      if (reading.scheduled_time?.datetime) {
+        next.scheduled_time = reading.scheduled_time;
+        next.execution_window = reading.execution_window;
+        understood = true;
+      }
+      break;
+    }
+    case "execution_window":
+    case "time_preferences": {
+      const reading = read(answer);
+      if (
+        reading.execution_window &&
+        reading.execution_window.relation !== "before_deadline"
+      ) {
+        next.execution_window = reading.execution_window;
+        next.scheduled_time = reading.scheduled_time ?? next.scheduled_time;
+        understood = true;
+      }
+      const preferences = reading.time_preferences;
+      if (
+        preferences && (preferences.time_of_day || preferences.day !== "any")
+      ) {
+        next.time_preferences = preferences;
+        understood = true;
+      }
+      break;
+    }
+    case "title": {
+      const title = answer.replace(/\s+/g, " ").trim();
+      if (title) {
+        next.title = title;
+        understood = true;
+      }
+      break;
+    }
+  }
+
+  if (!understood) return { extraction: input.extraction, understood };
+  next.missing = next.missing.filter((entry) => baseField(entry) !== field);
+  next.clarifying_question = null;
+  next.notes = [...next.notes, `Answer for ${field}: "${answer}".`];
+  return { extraction: next, understood };
+}
+
+function fromRow(row: ClarificationSessionRow): ClarificationSession {
+  return {
+    id: row.id,
+    content: row.content,
+    mode: row.mode === "local_rules" ? "local_rules" : "conversational_strict",
+    timezone: row.timezone,
+    extraction: row.extraction as unknown as DiaGuruTaskExtraction,
+    turns: Array.isArray(row.turns) ? row.turns : [],
+    status: row.status,
+    expiresAt: row.expires_at,
+  };
+}
+
+export function createClarificationStore(
+  admin: AdminClient,
+  userId: string,
+): ClarificationStore {
+  return {
+    async create(session, now) {
+      // Abandoned sessions are only useful until they expire.
+      await admin
+        .from("clarification_sessions")
+        .delete()
+        .eq("user_id", userId)
+        .lt("expires_at", now.toISOString());
+
+      const row: ClarificationSessionRow = {
+        id: crypto.randomUUID(),
+        user_id: userId,
+        content: session.content,
+        mode: session.mode,
+        timezone: session.timezone,
+        extraction: session.extraction as unknown as Record<string, unknown>,
+        turns: session.turns,
+        status: "open",
+        expires_at: new Date(now.getTime() + SESSION_TTL_MS).toISOString(),
+      };
+      const { error } = await admin.from("clarification_sessions").insert(row);
+      if (error) throw new Error(error.message);
+      return fromRow(row);
+    },
+    async load(id) {
+      const { data, error } = await admin
+        .from("clarification_sessions")
+        .select(SESSION_COLUMNS)
+        .eq("id", id)
+        .eq("user_id", userId)
+        .maybeSingle();
+      if (error) throw new Error(error.message);
+      return data ? fromRow(data as ClarificationSessionRow) : null;
+    },
+    async save(session) {
+      const { error } = await admin
+        .from("clarification_sessions")
+        .update({
+          extraction: session.extraction as unknown as Record<string, unknown>,
+          turns: session.turns,
+          status: session.status,
+        })
+        .eq("id", session.id)
+        .eq("user_id", userId);
+      if (error) throw new Error(error.message);
+    },
+  };
+}
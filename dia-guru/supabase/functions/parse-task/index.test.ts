@@ -5,12 +5,27 @@ import {
   assertStringIncludes,
 } from "std/assert";
 
-import { __test__ } from "./index.ts";
+import {
+  __test__,
+  handler,
+  mapExtractionToCapture,
+  normalizeExtraction,
+} from "./index.ts";
+import {
+  type ClarificationSession,
+  type ClarificationStore,
+  mergeAnswerWithRules,
+  nextQuestionField,
+} from "./clarification.ts";
+import { extractWithRules } from "./rule-extraction.ts";
+import { splitCaptureText } from "./split-capture.ts";
 
 const {
   buildExtractionPrompts,
   cleanupQuestion,
   buildDeepSeekUserPrompt,
+  detectDependencyReference,
+  detectLocation,
   pickDurationFromDuckling,
   pickDurationFromRegex,
   pickTemporalFromDuckling,
@@ -158,3 +173,595 @@ Deno.test("pickTemporalFromDuckling supports value and partial interval", () =>
   assertEquals(intervalTemporal?.from, "2026-01-10T08:00:00Z");
   assertEquals(intervalTemporal?.to, undefined);
 });
+
+Deno.test("normalizeExtraction canonicalizes recurrence rules", () => {
+  const extraction = normalizeExtraction({
+    title: "Gym",
+    recurrence: { rule: "RRULE:FREQ=WEEKLY;BYDAY=TH,TU" },
+  });
+  assertEquals(extraction?.recurrence, {
+    rule: "FREQ=WEEKLY;BYDAY=TU,TH",
+    source: "explicit",
+  });
+
+  const invalid = normalizeExtraction({
+    title: "Gym",
+    recurrence: { rule: "FREQ=HOURLY" },
+  });
+  assertEquals(invalid?.recurrence, null);
+});
+
+Deno.test("mapExtractionToCapture carries the recurrence rule", () => {
+  const extraction = normalizeExtraction({
+    title: "Water plants",
+    estimated_minutes: 10,
+    recurrence: { rule: "FREQ=DAILY", source: "inferred" },
+  })!;
+  const mapping = mapExtractionToCapture(extraction);
+  assertEquals(mapping.recurrence_rule, "FREQ=DAILY");
+  assertEquals(mapping.constraint_type, "flexible");
+});
+
+Deno.test("detectDependencyReference finds the task a capture waits on", () => {
+  const cases: [string, string | null][] = [
+    ["Review slides after I finish the draft", "draft"],
+    ["once I'm done with the budget report, email Sam", "budget report"],
+    ["send invoice after finishing my timesheet tomorrow", "timesheet"],
+    ["call mom after lunch", null],
+  ];
+  for (const [text, expected] of cases) {
+    assertEquals(detectDependencyReference(text), expected, text);
+  }
+});
+
+Deno.test("detectLocation finds places and street addresses", () => {
+  const cases: [string, string | null][] = [
+    ["Cleaning at the dentist tomorrow at 3pm", "dentist"],
+    ["drop the parcel off at the Post Office", "post office"],
+    ["Pick up keys at 12 Main St. before noon", "12 Main St"],
+    ["call mom at 5pm", null],
+    ["finish the report at home", null],
+  ];
+  for (const [text, expected] of cases) {
+    assertEquals(detectLocation(text), expected, text);
+  }
+});
+
+Deno.test("mapExtractionToCapture carries the location", () => {
+  const extraction = normalizeExtraction({
+    title: "Dentist",
+    kind: "appointment",
+    location: "  Smile Dental ",
+  })!;
+  assertEquals(extraction.location, "Smile Dental");
+  assertEquals(mapExtractionToCapture(extraction).location, "Smile Dental");
+});
+
+Deno.test("mapExtractionToCapture carries the dependency reference", () => {
+  const extraction = normalizeExtraction({
+    title: "Review slides",
+    depends_on: { reference: "  draft ", source: "inferred" },
+  })!;
+  assertEquals(extraction.depends_on, {
+    reference: "draft",
+    source: "inferred",
+  });
+  assertEquals(
+    mapExtractionToCapture(extraction).depends_on_reference,
+    "draft",
+  );
+});
+
+Deno.test("handler reports LLM metrics from the configured provider", async () => {
+  const names = ["LLM_PROVIDER", "LLM_FAKE_RESPONSE", "LLM_MODEL"];
+  const saved = new Map(names.map((name) => [name, Deno.env.get(name)]));
+  Deno.env.set("LLM_PROVIDER", "fake");
+  Deno.env.delete("LLM_MODEL");
+  Deno.env.set(
+    "LLM_FAKE_RESPONSE",
+    JSON.stringify({
+      title: "Call the bank",
+      estimated_minutes: 20,
+      missing: [],
+      clarifying_question: null,
+    }),
+  );
+  try {
+    const res = await handler(
+      new Request("http://localhost/parse-task", {
+        method: "POST",
+        body: JSON.stringify({
+          text: "call the bank for 20 minutes",
+          now: "2026-10-19T12:00:00Z",
+        }),
+      }),
+    );
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(body.structured.estimated_minutes, 20);
+    assertEquals(body.metadata.llm.provider, "fake");
+    assertEquals(body.metadata.llm.attempts, 1);
+    assertEquals(body.metadata.deepseek.attempted, true);
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+});
+
+// Monday 08:00 in New York.
+const RULES_NOW = new Date("2026-10-19T12:00:00Z");
+const RULES_TZ = "America/New_York";
+
+Deno.test("extractWithRules reads deadlines, durations and importance cues", () => {
+  const extraction = extractWithRules({
+    content:
+      "Submit the tax form by Friday 5pm, takes about 45 minutes. Important!",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+
+  assertEquals(extraction.title, "Submit the tax form. Important");
+  assertEquals(extraction.estimated_minutes, 45);
+  assertEquals(extraction.deadline, {
+    datetime: "2026-10-23T21:00:00.000Z",
+    kind: "soft",
+    source: "explicit",
+  });
+  assertEquals(extraction.execution_window, {
+    relation: "before_deadline",
+    start: null,
+    end: "2026-10-23T21:00:00.000Z",
+    source: "inferred",
+  });
+  assertEquals(extraction.kind, "task");
+  assertEquals(extraction.importance?.impact, 4);
+  assertEquals(extraction.importance?.urgency, 2);
+  assertEquals(extraction.flexibility?.start_flexibility, "anytime");
+  assertEquals(extraction.missing, []);
+});
+
+Deno.test("extractWithRules schedules a call at a guessed afternoon hour", () => {
+  const extraction = extractWithRules({
+    content: "Call mom tomorrow at 3",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+
+  assertEquals(extraction.title, "Call mom");
+  assertEquals(extraction.kind, "call");
+  assertEquals(extraction.estimated_minutes, 15);
+  assertEquals(extraction.scheduled_time, {
+    datetime: "2026-10-20T19:00:00.000Z",
+    precision: "exact",
+    source: "explicit",
+  });
+  assertEquals(extraction.execution_window?.relation, "around_scheduled");
+  assertEquals(extraction.time_preferences?.day, "tomorrow");
+  assertEquals(extraction.flexibility?.start_flexibility, "hard");
+  assertEquals(extraction.notes.includes('Read "3" as 15:00.'), true);
+});
+
+Deno.test("extractWithRules builds windows and asks for a missing duration", () => {
+  const extraction = extractWithRules({
+    content: "I need to write the report between 2 and 4 tomorrow",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+
+  assertEquals(extraction.title, "Write the report");
+  assertEquals(extraction.execution_window, {
+    relation: "between",
+    start: "2026-10-20T18:00:00.000Z",
+    end: "2026-10-20T20:00:00.000Z",
+    source: "explicit",
+  });
+  assertEquals(extraction.estimated_minutes, null);
+  assertEquals(extraction.missing, ["estimated_minutes"]);
+  assertEquals(
+    extraction.clarifying_question,
+    'About how long will "Write the report" take?',
+  );
+});
+
+Deno.test("extractWithRules splits long study sessions into chunks", () => {
+  const extraction = extractWithRules({
+    content:
+      "Revise chapter 5 for 4 hours in 60 minute sessions this afternoon",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+
+  assertEquals(extraction.title, "Revise chapter 5");
+  assertEquals(extraction.kind, "study");
+  assertEquals(extraction.estimated_minutes, 240);
+  assertEquals(extraction.time_preferences, {
+    time_of_day: "afternoon",
+    day: "today",
+  });
+  assertEquals(extraction.execution_window, {
+    relation: "on_day",
+    start: "2026-10-19T16:00:00.000Z",
+    end: "2026-10-19T21:00:00.000Z",
+    source: "explicit",
+  });
+  assertEquals(extraction.flexibility, {
+    cannot_overlap: true,
+    start_flexibility: "soft",
+    duration_flexibility: "split_allowed",
+    min_chunk_minutes: 60,
+    max_splits: 4,
+  });
+});
+
+Deno.test("handler extracts locally without any LLM configured", async () => {
+  const names = ["LLM_PROVIDER", "LLM_API_KEY", "DEEPSEEK_API_KEY"];
+  const saved = new Map(names.map((name) => [name, Deno.env.get(name)]));
+  for (const name of names) Deno.env.delete(name);
+  try {
+    const res = await handler(
+      new Request("http://localhost/parse-task", {
+        method: "POST",
+        body: JSON.stringify({
+          text: "Pick up groceries after work",
+          mode: "local_rules",
+          timezone: RULES_TZ,
+          now: RULES_NOW.toISOString(),
+        }),
+      }),
+    );
+    const body = await res.json();
+
+    assertEquals(res.status, 200);
+    assertEquals(body.mode, "local_rules");
+    assertEquals(body.structured.extraction.kind, "errand");
+    assertEquals(body.structured.estimated_minutes, 30);
+    assertEquals(body.metadata.deepseek.attempted, false);
+    assertEquals(body.metadata.heuristics.includes("local_rules"), true);
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+});
+
+Deno.test("splitCaptureText splits lists and conjunctions of tasks", () => {
+  assertEquals(
+    splitCaptureText("email Sam, buy milk, and finish slides by 5pm"),
+    ["email Sam", "buy milk", "finish slides by 5pm"],
+  );
+  assertEquals(
+    splitCaptureText("I need to call the bank and then pay rent tomorrow"),
+    ["I need to call the bank", "pay rent tomorrow"],
+  );
+  assertEquals(
+    splitCaptureText(
+      "- water plants\n- book dentist appointment\n2) read ch 4",
+    ),
+    ["water plants", "book dentist appointment", "read ch 4"],
+  );
+});
+
+Deno.test("splitCaptureText keeps single tasks whole", () => {
+  for (
+    const text of [
+      "Write the report between 2 and 4 tomorrow",
+      "Call Sam and Alex about the launch",
+      "Buy milk, eggs, and bread",
+      "Review and submit the expense report",
+      "Meet Jo on Friday, around 3pm",
+    ]
+  ) {
+    assertEquals(splitCaptureText(text), [text]);
+  }
+});
+
+Deno.test("handler returns one item per listed task", async () => {
+  const request = (split?: boolean) =>
+    new Request("http://localhost/parse-task", {
+      method: "POST",
+      body: JSON.stringify({
+        text: "Call mom tomorrow at 3, buy groceries and study for 2 hours",
+        mode: "local_rules",
+        timezone: RULES_TZ,
+        now: RULES_NOW.toISOString(),
+        split,
+      }),
+    });
+
+  const res = await handler(request());
+  const body = await res.json();
+
+  assertEquals(res.status, 200);
+  assertEquals(
+    body.items.map((item: { content: string }) => item.content),
+    ["Call mom tomorrow at 3", "buy groceries", "study for 2 hours"],
+  );
+  assertEquals(
+    body.items.map((item: { structured: { estimated_minutes: number } }) =>
+      item.structured.estimated_minutes
+    ),
+    [15, 30, 120],
+  );
+  assertEquals(
+    body.items[0].structured.capture.start_target_at,
+    "2026-10-20T19:00:00.000Z",
+  );
+  assertEquals(body.structured.extraction.title, "Call mom");
+  assertEquals(body.metadata.heuristics.includes("bulk_split"), true);
+
+  const whole = await (await handler(request(false))).json();
+  assertEquals(whole.items, undefined);
+});
+
+function createMemorySessionStore() {
+  const sessions = new Map<string, ClarificationSession>();
+  const store: ClarificationStore = {
+    create: (session, now) => {
+      const created: ClarificationSession = {
+        ...structuredClone(session),
+        id: `session-${sessions.size + 1}`,
+        status: "open",
+        expiresAt: new Date(now.getTime() + 60_000).toISOString(),
+      };
+      sessions.set(created.id, created);
+      return Promise.resolve(structuredClone(created));
+    },
+    load: (id) => {
+      const session = sessions.get(id);
+      return Promise.resolve(session ? structuredClone(session) : null);
+    },
+    save: (session) => {
+      sessions.set(session.id, structuredClone(session));
+      return Promise.resolve();
+    },
+  };
+  return { store, sessions };
+}
+
+function parseRequest(body: Record<string, unknown>) {
+  return new Request("http://localhost/parse-task", {
+    method: "POST",
+    body: JSON.stringify({
+      timezone: RULES_TZ,
+      now: RULES_NOW.toISOString(),
+      ...body,
+    }),
+  });
+}
+
+Deno.test("nextQuestionField skips asked fields and respects the budget", () => {
+  assertEquals(
+    nextQuestionField(["deadline.datetime", "estimated_minutes"], []),
+    "estimated_minutes",
+  );
+  assertEquals(
+    nextQuestionField(["deadline", "estimated_minutes"], [
+      { field: "estimated_minutes", question: "How long?", answer: "?" },
+    ]),
+    "deadline",
+  );
+  assertEquals(
+    nextQuestionField(["deadline"], [
+      { field: "title", question: "a", answer: "a" },
+      { field: "scheduled_time", question: "b", answer: "b" },
+      { field: "execution_window", question: "c", answer: "c" },
+    ]),
+    null,
+  );
+});
+
+Deno.test("mergeAnswerWithRules fills only the asked field", () => {
+  const extraction = extractWithRules({
+    content: "Write the report",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+
+  const minutes = mergeAnswerWithRules({
+    extraction,
+    field: "estimated_minutes",
+    answer: "about an hour and a half",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+  assertEquals(minutes.understood, true);
+  assertEquals(minutes.extraction.estimated_minutes, 90);
+  assertEquals(minutes.extraction.missing, []);
+  assertEquals(minutes.extraction.deadline, null);
+  assertEquals(extraction.estimated_minutes, null);
+
+  const deadline = mergeAnswerWithRules({
+    extraction,
+    field: "deadline",
+    answer: "Thursday noon",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+  assertEquals(
+    deadline.extraction.deadline?.datetime,
+    "2026-10-22T16:00:00.000Z",
+  );
+  assertEquals(
+    deadline.extraction.execution_window?.relation,
+    "before_deadline",
+  );
+  assertEquals(deadline.extraction.estimated_minutes, null);
+
+  const unclear = mergeAnswerWithRules({
+    extraction,
+    field: "estimated_minutes",
+    answer: "not sure",
+    timezone: RULES_TZ,
+    referenceNow: RULES_NOW,
+  });
+  assertEquals(unclear.understood, false);
+  assertEquals(unclear.extraction, extraction);
+});
+
+Deno.test("handler walks a clarification session through several fields", async () => {
+  const names = ["LLM_PROVIDER", "LLM_FAKE_RESPONSE"];
+  const saved = new Map(names.map((name) => [name, Deno.env.get(name)]));
+  Deno.env.set("LLM_PROVIDER", "fake");
+  Deno.env.set(
+    "LLM_FAKE_RESPONSE",
+    JSON.stringify({
+      title: "Plan the offsite",
+      estimated_minutes: null,
+      deadline: null,
+      scheduled_time: null,
+      execution_window: null,
+      time_preferences: null,
+      kind: "task",
+      missing: ["estimated_minutes", "deadline"],
+      clarifying_question: "How long do you need to plan the offsite?",
+      notes: [],
+    }),
+  );
+  const { store, sessions } = createMemorySessionStore();
+  try {
+    const first = await (await handler(
+      parseRequest({ text: "plan the offsite", mode: "conversational_strict" }),
+      store,
+    )).json();
+    assertEquals(first.follow_up, {
+      type: "clarify",
+      prompt: "How long do you need to plan the offsite?",
+      missing: ["deadline", "estimated_minutes"],
+      session_id: "session-1",
+      field: "estimated_minutes",
+    });
+
+    const second = await (await handler(
+      parseRequest({ session_id: "session-1", answer: "2 hours" }),
+      store,
+    )).json();
+    assertEquals(second.structured.estimated_minutes, 120);
+    assertEquals(second.follow_up.field, "deadline");
+    assertEquals(
+      second.follow_up.prompt,
+      'When does "Plan the offsite" need to be done?',
+    );
+    assertEquals(second.metadata.deepseek.attempted, false);
+
+    const third = await (await handler(
+      parseRequest({ session_id: "session-1", answer: "Friday 3pm" }),
+      store,
+    )).json();
+    assertEquals(third.follow_up, null);
+    assertEquals(third.structured.estimated_minutes, 120);
+    assertEquals(
+      third.structured.capture.deadline_at,
+      "2026-10-23T19:00:00.000Z",
+    );
+    assertEquals(third.needed, []);
+    assertEquals(sessions.get("session-1")?.status, "complete");
+    assertEquals(
+      sessions.get("session-1")?.turns.map((turn) => turn.answer),
+      ["2 hours", "Friday 3pm"],
+    );
+
+    const closed = await handler(
+      parseRequest({ session_id: "session-1", answer: "again" }),
+      store,
+    );
+    assertEquals(closed.status, 404);
+    await closed.body?.cancel();
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+});
+
+Deno.test("handler does not re-ask a field the user already answered", async () => {
+  const { store, sessions } = createMemorySessionStore();
+
+  const first = await (await handler(
+    parseRequest({ text: "Write the report", mode: "local_rules" }),
+    store,
+  )).json();
+  assertEquals(first.follow_up.field, "estimated_minutes");
+
+  const second = await (await handler(
+    parseRequest({ session_id: first.follow_up.session_id, answer: "no idea" }),
+    store,
+  )).json();
+  assertEquals(second.needed, ["estimated_minutes"]);
+  assertEquals(second.follow_up, null);
+  assertEquals(
+    second.notes.includes('Could not read "no idea" as estimated_minutes.'),
+    true,
+  );
+  assertEquals(sessions.get(first.follow_up.session_id)?.status, "complete");
+});
+
+Deno.test("handler corrects an inferred estimate from completion history", async () => {
+  const names = ["LLM_PROVIDER", "LLM_FAKE_RESPONSE"];
+  const saved = new Map(names.map((name) => [name, Deno.env.get(name)]));
+  Deno.env.set("LLM_PROVIDER", "fake");
+  Deno.env.set(
+    "LLM_FAKE_RESPONSE",
+    JSON.stringify({
+      title: "Write the weekly report",
+      estimated_minutes: 30,
+      deadline: null,
+      scheduled_time: null,
+      execution_window: null,
+      time_preferences: null,
+      kind: "task",
+      missing: [],
+      clarifying_question: null,
+      notes: [],
+    }),
+  );
+  const history = () =>
+    Promise.resolve([
+      { task_type_hint: "task", estimated_minutes: 30, actual_minutes: 45 },
+      { task_type_hint: "task", estimated_minutes: 30, actual_minutes: 50 },
+      { task_type_hint: "task", estimated_minutes: 60, actual_minutes: 80 },
+    ]);
+  try {
+    const inferred = await (await handler(
+      parseRequest({
+        text: "write the weekly report",
+        mode: "conversational_strict",
+      }),
+      null,
+      history,
+    )).json();
+    assertEquals(inferred.structured.estimated_minutes, 45);
+    assertEquals(inferred.structured.capture.estimated_minutes, 45);
+    assertEquals(inferred.structured.extraction.estimated_minutes, 30);
+    assertEquals(inferred.structured.duration_adjustment, {
+      from: 30,
+      to: 45,
+      samples: 3,
+      note: 'Adjusted from 30 → 45 min based on history of 3 "task" tasks.',
+    });
+    assertEquals(
+      inferred.metadata.heuristics.includes("learned_duration"),
+      true,
+    );
+
+    const stated = await (await handler(
+      parseRequest({
+        text: "write the weekly report for 30 minutes",
+        mode: "conversational_strict",
+      }),
+      null,
+      history,
+    )).json();
+    assertEquals(stated.structured.estimated_minutes, 30);
+    assertEquals(stated.structured.duration_adjustment, undefined);
+  } finally {
+    for (const [name, value] of saved) {
+      if (value === undefined) Deno.env.delete(name);
+      else Deno.env.set(name, value);
+    }
+  }
+});
@@ -1,12 +1,69 @@
-import { json, maybeHandleCors } from "../_shared/cors.ts";
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 
-type ParseMode = "conversational_strict";
+import { json, maybeHandleCors } from "../_shared/cors.ts";
+import {
+  type DurationAdjustment,
+  type DurationSample,
+  learnedDuration,
+  loadDurationSamples,
+} from "../_shared/duration-learning.ts";
+import {
+  completeJson,
+  completeText,
+  type JsonSchema,
+  type LlmCallMetrics,
+  type LlmCallOptions,
+  type LlmProvider,
+  LlmProviderError,
+  type LlmSettings,
+  resolveLlmProvider,
+} from "../_shared/llm-provider.ts";
+import {
+  detectRecurrenceFromText,
+  formatRecurrenceRule,
+  normalizeRecurrenceRule,
+} from "../_shared/recurrence.ts";
+import type { Database } from "../types.ts";
+import {
+  type ClarificationSession,
+  type ClarificationStore,
+  type ClarificationTurn,
+  createClarificationStore,
+  mergeAnswerWithRules,
+  nextQuestionField,
+  questionFor,
+} from "./clarification.ts";
+import { buildZonedDateTime, getTimezoneOffsetMinutes } from "./local-time.ts";
+import { extractWithRules, parseDurationPhrase } from "./rule-extraction.ts";
+import { splitCaptureText } from "./split-capture.ts";
+
+// local_rules extracts with grammar rules only and never calls a model.
+export type ParseMode = "conversational_strict" | "local_rules";
 
 type ParseRequest = {
   text?: string;
   mode?: ParseMode;
   timezone?: string;
   now?: string;
+  // Set to false to read the text as one task even when it lists several.
+  split?: boolean;
+  // Answers the open question of a clarification session; text, mode and
+  // timezone then come from the session.
+  session_id?: string;
+  answer?: string;
+};
+
+// One task read out of a capture that listed several.
+type ParsedItem = {
+  content: string;
+  structured: {
+    estimated_minutes?: number;
+    duration_adjustment?: DurationAdjustment;
+    extraction: DiaGuruTaskExtraction;
+    capture: Partial<CaptureMapping> & { reason?: string };
+  };
+  needed: string[];
+  follow_up: ParseResponse["follow_up"];
 };
 
 type ParseResponse = {
@@ -14,6 +71,9 @@ type ParseResponse = {
   structured: {
     // Back-compat simple fields
     estimated_minutes?: number;
+    // Set when estimated_minutes was corrected from completion history; the
+    // extraction keeps the estimate as read.
+    duration_adjustment?: DurationAdjustment;
     datetime?: string;
     window?: { start?: string; end?: string };
 
@@ -26,6 +86,9 @@ type ParseResponse = {
   notes: string[];
   needed: string[];
   mode: ParseMode;
+  // Present when the text listed several tasks; the top-level fields then
+  // describe the first one.
+  items?: ParsedItem[];
   debug?: {
     deepseek_raw?: string;
     deepseek_payload_excerpt?: string;
@@ -34,6 +97,9 @@ type ParseResponse = {
     type: "clarify";
     prompt: string;
     missing: string[];
+    // Set when the server keeps the clarification; answer with session_id.
+    session_id?: string;
+    field?: string;
   } | null;
   metadata: {
     duckling: {
@@ -49,11 +115,13 @@ type ParseResponse = {
       errored?: boolean;
       used_fallback?: boolean;
     };
+    // Provider, attempts, latency and token counts of the extraction call.
+    llm?: LlmCallMetrics | null;
   };
 };
 
 // Rich extraction types
-type DiaGuruTaskExtraction = {
+export type DiaGuruTaskExtraction = {
   title: string | null;
   estimated_minutes: number | null;
   deadline: {
@@ -111,6 +179,15 @@ type DiaGuruTaskExtraction = {
   missing: string[];
   clarifying_question: string | null;
   notes: string[];
+  recurrence?: {
+    rule: string;
+    source: "explicit" | "inferred";
+  } | null;
+  depends_on?: {
+    reference: string;
+    source: "explicit" | "inferred";
+  } | null;
+  location?: string | null;
   policy?: {
     applied: boolean;
     kind: "before_sleep";
@@ -138,6 +215,9 @@ type CaptureMapping = {
   start_target_at: string | null;
   is_soft_start: boolean;
   task_type_hint: string | null;
+  recurrence_rule: string | null;
+  depends_on_reference: string | null;
+  location: string | null;
 
   scheduled_source?: "explicit" | "inferred" | null;
   scheduled_precision?: "exact" | "approximate" | null;
@@ -174,15 +254,139 @@ type CaptureMapping = {
 };
 
 const DEFAULT_TIMEZONE = "UTC";
+const EXTRACTION_CALL: LlmCallOptions = { timeoutMs: 20_000, retries: 1 };
+const CLARIFICATION_CALL: LlmCallOptions = { timeoutMs: 8_000, retries: 1 };
+
+// Only the shape the prompt insists on; normalizeExtraction drops anything
+// else that is off.
+const NULLABLE_OBJECT: JsonSchema = { type: ["object", "null"] };
+const EXTRACTION_SCHEMA: JsonSchema = {
+  type: "object",
+  properties: {
+    title: { type: ["string", "null"] },
+    estimated_minutes: { type: ["number", "string", "null"] },
+    deadline: NULLABLE_OBJECT,
+    scheduled_time: NULLABLE_OBJECT,
+    execution_window: NULLABLE_OBJECT,
+    time_preferences: NULLABLE_OBJECT,
+    importance: NULLABLE_OBJECT,
+    flexibility: NULLABLE_OBJECT,
+    missing: { type: "array", items: { type: "string" } },
+    clarifying_question: { type: ["string", "null"] },
+    notes: { type: "array" },
+  },
+};
+
+// parse-task read DEEPSEEK_* variables before the shared LLM_* ones existed;
+// they still apply wherever the LLM_* variables are unset.
+function legacyLlmSettings(): Partial<LlmSettings> {
+  const rawEndpoint = (Deno.env.get("DEEPSEEK_API_URL") ?? "").replace(
+    /\s+/g,
+    "",
+  );
+  const trimmed = rawEndpoint.replace(/\/+$/g, "");
+  return {
+    apiKey: Deno.env.get("DEEPSEEK_API_KEY") || null,
+    baseUrl: !trimmed
+      ? null
+      : /\/chat\/completions$/i.test(trimmed)
+      ? trimmed
+      : `${trimmed}/v1`,
+    model: Deno.env.get("DEEPSEEK_MODEL") || undefined,
+  };
+}
+
+type Caller = {
+  admin: SupabaseClient<Database, "public">;
+  userId: string;
+};
+
+// Reads the caller's completion history for learned duration estimates.
+type DurationHistory = () => Promise<DurationSample[]>;
+
+/**
+ * Resolves the calling user, or null when the deployment has no database
+ * configured or the request carries no valid user token. Parsing still works
+ * then, without clarification sessions or learned durations.
+ */
+async function resolveCaller(
+  authorization: string | null,
+): Promise<Caller | null> {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const anon = Deno.env.get("SUPABASE_ANON_KEY");
+  const serviceRole = Deno.env.get("SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !anon || !serviceRole || !authorization) return null;
+
+  const supaFromUser = createClient<Database>(supabaseUrl, anon, {
+    global: { headers: { Authorization: authorization } },
+  });
+  const { data, error } = await supaFromUser.auth.getUser();
+  if (error || !data?.user) return null;
+
+  const admin = createClient<Database, "public">(supabaseUrl, serviceRole);
+  return { admin, userId: data.user.id };
+}
 
-export async function handler(req: Request) {
+/**
+ * `sessionStore` and `durationHistory` are resolved from the caller's token
+ * when omitted; pass null to parse without them.
+ */
+export async function handler(
+  req: Request,
+  sessionStore?: ClarificationStore | null,
+  durationHistory?: DurationHistory | null,
+) {
   const corsResponse = maybeHandleCors(req);
   if (corsResponse) return corsResponse;
 
   try {
     const body = (await safeParseBody(req)) as ParseRequest;
-    const mode: ParseMode = "conversational_strict";
-    const content = (body.text ?? "").trim();
+    let caller: Promise<Caller | null> | undefined;
+    const loadCaller = () =>
+      caller ??= resolveCaller(req.headers.get("Authorization"));
+    let sessions: ClarificationStore | null | undefined = sessionStore;
+    const loadSessions = async () => {
+      if (sessions === undefined) {
+        const resolved = await loadCaller();
+        sessions = resolved
+          ? createClarificationStore(resolved.admin, resolved.userId)
+          : null;
+      }
+      return sessions;
+    };
+    let history: DurationHistory | null | undefined = durationHistory;
+    const loadHistory = async () => {
+      if (history === undefined) {
+        const resolved = await loadCaller();
+        history = resolved
+          ? () => loadDurationSamples(resolved.admin, resolved.userId)
+          : null;
+      }
+      return history;
+    };
+
+    let session: ClarificationSession | null = null;
+    const answer = (body.answer ?? "").trim();
+    if (body.session_id) {
+      const store = await loadSessions();
+      if (!store) {
+        return json({ error: "Clarification sessions are not available" }, 400);
+      }
+      session = await store.load(body.session_id);
+      if (!session || session.status !== "open") {
+        return json({ error: "Clarification session not found" }, 404);
+      }
+      if (Date.parse(session.expiresAt) <= Date.now()) {
+        return json({ error: "Clarification session expired" }, 410);
+      }
+      if (!answer) {
+        return json({ error: "answer is required" }, 400);
+      }
+    }
+
+    const mode: ParseMode = session?.mode ??
+      (body.mode === "local_rules" ? "local_rules" : "conversational_strict");
+    const content = session?.content ?? (body.text ?? "").trim();
     if (!content) {
       return json(
         {
@@ -192,22 +396,24 @@ export async function handler(req: Request) {
       );
     }
 
-    const timezone = (body.timezone ?? DEFAULT_TIMEZONE).trim() ||
-      DEFAULT_TIMEZONE;
+    const timezone = session?.timezone ??
+      ((body.timezone ?? DEFAULT_TIMEZONE).trim() || DEFAULT_TIMEZONE);
     const referenceNow = parseReferenceNow(body.now) ?? new Date();
-    const deepseekApiKey = Deno.env.get("DEEPSEEK_API_KEY") ?? "";
-    const deepseekEnabled = deepseekApiKey.length > 0;
+    const llm = mode === "local_rules"
+      ? null
+      : resolveLlmProvider(legacyLlmSettings());
+    const deepseekEnabled = llm !== null;
 
     const notes: string[] = [];
     const heuristics: string[] = [];
 
-    if (!deepseekEnabled) {
+    if (mode === "conversational_strict" && !llm) {
       const detail =
-        "DeepSeek is required in conversational_strict mode (DEEPSEEK_API_KEY missing).";
+        "An LLM provider is required in conversational_strict mode (LLM_API_KEY or DEEPSEEK_API_KEY missing).";
       notes.push(detail);
       return json(
         {
-          error: "DeepSeek not configured",
+          error: "LLM not configured",
           details: detail,
           notes,
         },
@@ -215,163 +421,148 @@ export async function handler(req: Request) {
       );
     }
 
-    const needed: string[] = [];
-
     let deepseekAttempted = false;
     let deepseekLatency: number | undefined;
     let deepseekErrored = false;
-    let followUp: ParseResponse["follow_up"];
+    let llmMetrics: LlmCallMetrics | null = null;
 
-    let extraction: DiaGuruTaskExtraction | null = null;
-    let captureProposal: CaptureMapping | null = null;
     let lastRawMessage: string | null = null;
     let lastPayload: unknown = null;
 
-    try {
+    const extractWithLlm = async (
+      prompts: { systemPrompt: string; userPrompt: string },
+    ): Promise<DiaGuruTaskExtraction> => {
+      if (!llm) throw new Error("LLM not configured");
       deepseekAttempted = true;
-      const started = performance.now();
-      const { systemPrompt, userPrompt } = buildExtractionPrompts({
-        content,
-        timezone,
-        referenceNow,
-      });
+      const { systemPrompt, userPrompt } = prompts;
 
-      const rawEndpoint = Deno.env.get("DEEPSEEK_API_URL");
-      const endpoint = !rawEndpoint || rawEndpoint.trim() === ""
-        ? "https://api.deepseek.com/v1/chat/completions"
-        : /\/chat\/completions\/?$/i.test(rawEndpoint.trim())
-        ? rawEndpoint.trim()
-        : `${rawEndpoint.trim().replace(/\/+$/g, "")}/v1/chat/completions`;
-
-      const res = await fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Accept: "application/json",
-          Authorization: `Bearer ${deepseekApiKey}`,
-        },
-        body: JSON.stringify({
-          model: Deno.env.get("DEEPSEEK_MODEL") ?? "deepseek-chat",
-          messages: [
-            { role: "system", content: systemPrompt },
-            { role: "user", content: userPrompt },
-          ],
-          max_tokens: 600,
-          temperature: 0.0,
-          stream: false,
-          response_format: { type: "json_object" },
-        }),
-      });
-
-      const payload = await safeReadJson(res);
-      lastPayload = payload;
+      let reply: Awaited<ReturnType<typeof completeJson<unknown>>>;
       try {
-        console.log("parse-task deepseek response", {
-          status: res.status,
-          ok: res.ok,
-          payload,
-        });
-      } catch {
-        /* ignore logging errors */
-      }
-      deepseekLatency = Math.round(performance.now() - started);
-      if (!res.ok) {
-        const snippet = typeof payload === "string"
-          ? payload.slice(0, 200)
-          : JSON.stringify(payload).slice(0, 200);
-        throw new Error(`DeepSeek responded ${res.status}: ${snippet}`);
+        reply = await completeJson<unknown>(
+          llm,
+          {
+            system: systemPrompt,
+            user: userPrompt,
+            maxTokens: 600,
+            temperature: 0,
+          },
+          EXTRACTION_SCHEMA,
+          EXTRACTION_CALL,
+        );
+      } catch (error) {
+        if (error instanceof LlmProviderError) {
+          if (error.metrics) {
+            llmMetrics = addLlmMetrics(llmMetrics, error.metrics);
+          }
+          deepseekLatency = llmMetrics?.latency_ms;
+          if (typeof error.details === "string") {
+            lastRawMessage = error.details;
+          } else if (error.details !== undefined) {
+            lastPayload = error.details;
+          }
+        }
+        throw error;
       }
-      const message = extractDeepSeekMessage(payload);
-      if (!message) throw new Error("DeepSeek returned no message content");
-
-      const raw = String(message);
-      lastRawMessage = raw;
+      llmMetrics = addLlmMetrics(llmMetrics, reply.metrics);
+      deepseekLatency = llmMetrics.latency_ms;
+      lastPayload = reply.payload;
+      lastRawMessage = reply.text;
       try {
-        console.log("parse-task deepseek message", raw);
+        console.log("parse-task llm reply", {
+          metrics: reply.metrics,
+          message: reply.text,
+        });
       } catch {
         /* ignore logging errors */
       }
-      let parsed: unknown;
-      try {
-        parsed = JSON.parse(raw);
-      } catch (_error) {
-        let recovered = extractFirstJsonObject(raw);
-        if (!recovered) {
-          // Retry once with stricter instructions
-          const strictSystem =
-            `${systemPrompt}\nSTRICT OUTPUT: Return exactly one minified JSON object on a single line with no spaces or newlines. No markdown, no code fences, no commentary.`;
-          const strictRes = await fetch(endpoint, {
-            method: "POST",
-            headers: {
-              "Content-Type": "application/json",
-              Accept: "application/json",
-              Authorization: `Bearer ${deepseekApiKey}`,
-            },
-            body: JSON.stringify({
-              model: Deno.env.get("DEEPSEEK_MODEL") ?? "deepseek-chat",
-              messages: [
-                { role: "system", content: strictSystem },
-                { role: "user", content: userPrompt },
-              ],
-              max_tokens: 1200,
-              temperature: 0.0,
-              top_p: 0,
-              stream: false,
-              response_format: { type: "json_object" },
-            }),
-          });
-          const strictPayload = await safeReadJson(strictRes);
-          if (strictRes.ok) {
-            const strictMsg = extractDeepSeekMessage(strictPayload);
-            if (typeof strictMsg === "string") {
-              recovered = extractFirstJsonObject(strictMsg) ?? strictMsg;
-            }
-          }
+      const normalized = normalizeExtraction(reply.value);
+      if (!normalized) throw new Error("LLM JSON missing required fields");
+      return normalized;
+    };
+
+    const segments = session || body.split === false
+      ? [content]
+      : splitCaptureText(content);
+    const items: ParsedItem[] = [];
+    try {
+      if (session) {
+        const turn = session.turns[session.turns.length - 1];
+        turn.answer = answer;
+        let extraction = session.extraction;
+        const merged = mergeAnswerWithRules({
+          extraction,
+          field: turn.field,
+          answer,
+          timezone,
+          referenceNow,
+        });
+        if (merged.understood) {
+          extraction = merged.extraction;
+          heuristics.push("clarification_rules");
+        } else if (llm) {
+          extraction = await extractWithLlm(
+            buildMergePrompts({ extraction, turn, timezone, referenceNow }),
+          );
+          heuristics.push("clarification_llm");
+        } else {
+          notes.push(`Could not read "${answer}" as ${turn.field}.`);
         }
-        if (!recovered) throw new Error("DeepSeek did not return valid JSON");
-        try {
-          parsed = JSON.parse(recovered);
-        } catch (_error2) {
-          throw new Error("DeepSeek did not return valid JSON");
+        items.push(
+          finishExtraction({
+            extraction,
+            content,
+            timezone,
+            referenceNow,
+            heuristics,
+          }),
+        );
+      } else {
+        // One call at a time keeps a long list from tripping provider rate
+        // limits.
+        for (const segment of segments) {
+          const extraction = mode === "local_rules"
+            ? extractWithRules({ content: segment, timezone, referenceNow })
+            : await extractWithLlm(
+              buildExtractionPrompts({
+                content: segment,
+                timezone,
+                referenceNow,
+              }),
+            );
+          items.push(
+            finishExtraction({
+              extraction,
+              content: segment,
+              timezone,
+              referenceNow,
+              heuristics,
+            }),
+          );
         }
       }
-      extraction = normalizeExtraction(parsed);
-      if (!extraction) throw new Error("DeepSeek JSON missing required fields");
-
-      applyRoutineNormalization({
-        extraction,
-        content,
-        timezone,
-        referenceNow,
-      });
-
-      const mapping = mapExtractionToCapture(extraction);
-      captureProposal = mapping;
-
-      // needed list
-      const missing = Array.isArray(extraction.missing)
-        ? extraction.missing.slice()
-        : [];
-      if (extraction.estimated_minutes == null) {
-        missing.push("estimated_minutes");
-      }
-      missing.sort();
-      for (const m of missing) if (!needed.includes(m)) needed.push(m);
-
-      if (missing.length > 0 && extraction.clarifying_question) {
-        followUp = {
-          type: "clarify",
-          prompt: cleanupQuestion(extraction.clarifying_question)!,
-          missing,
-        };
+      if (mode === "local_rules") heuristics.push("local_rules");
+      if (items.length > 1) heuristics.push("bulk_split");
+      notes.push(
+        session
+          ? "Merged the answer into the clarification session."
+          : mode === "local_rules"
+          ? "Local rules extracted structured task data."
+          : "LLM extracted structured task data.",
+      );
+      if (items.length > 1) {
+        notes.push(`Split the capture into ${items.length} tasks.`);
       }
-      notes.push("DeepSeek extracted structured task data.");
     } catch (error) {
-      deepseekErrored = true;
-      const detail = describeError("DeepSeek extraction failed", error);
+      deepseekErrored = deepseekAttempted;
+      const detail = describeError(
+        mode === "local_rules"
+          ? "Local extraction failed"
+          : "LLM extraction failed",
+        error,
+      );
       notes.push(detail);
       try {
-        console.log("parse-task deepseek extraction failed", {
+        console.log("parse-task llm extraction failed", {
           error: String(error),
           lastRawMessage,
           lastPayload,
@@ -381,9 +572,10 @@ export async function handler(req: Request) {
       }
       return json(
         {
-          error: "DeepSeek extraction failed in conversational_strict mode.",
+          error: `Extraction failed in ${mode} mode.`,
           details: detail,
           notes,
+          metadata: { llm: llmMetrics },
           debug: {
             deepseek_raw: lastRawMessage ?? undefined,
             deepseek_payload_excerpt: typeof lastPayload === "string"
@@ -395,24 +587,75 @@ export async function handler(req: Request) {
       );
     }
 
+    // A duration the user stated is kept; one the model inferred is corrected
+    // by how long this kind of task has really taken the user.
+    const answeredDuration = session?.turns.some((turn) =>
+      turn.field === "estimated_minutes" && turn.answer
+    ) ?? false;
+    const adjustable = answeredDuration
+      ? []
+      : items.filter((item) =>
+        item.structured.estimated_minutes != null &&
+        !parseDurationPhrase(item.content)
+      );
+    if (adjustable.length > 0) {
+      try {
+        const loadSamples = await loadHistory();
+        const samples = loadSamples ? await loadSamples() : [];
+        for (const item of adjustable) {
+          const adjustment = applyLearnedDuration(item, samples);
+          if (!adjustment) {
+            continue;
+          }
+          notes.push(adjustment.note);
+          if (!heuristics.includes("learned_duration")) {
+            heuristics.push("learned_duration");
+          }
+        }
+      } catch (error) {
+        // The inferred estimate still works without the history.
+        console.log("parse-task duration history failed", error);
+      }
+    }
+
+    const [first] = items;
+    const extraction = first.structured.extraction;
+    let followUp = first.follow_up;
+    if (items.length === 1 && (session || first.needed.length > 0)) {
+      try {
+        const store = await loadSessions();
+        if (store) {
+          followUp = await advanceClarification({
+            store,
+            session,
+            content,
+            mode,
+            timezone,
+            item: first,
+          });
+        }
+      } catch (error) {
+        // Without a session the client still gets the one-off question.
+        console.log("parse-task clarification session failed", error);
+      }
+    }
     const response: ParseResponse = {
       content,
       structured: {
-        estimated_minutes: extraction?.estimated_minutes ?? undefined,
-        datetime: extraction?.scheduled_time?.datetime ??
-          extraction?.deadline?.datetime ??
+        estimated_minutes: first.structured.estimated_minutes,
+        duration_adjustment: first.structured.duration_adjustment,
+        datetime: extraction.scheduled_time?.datetime ??
+          extraction.deadline?.datetime ??
           undefined,
-        window: extraction?.execution_window?.start ||
-            extraction?.execution_window?.end
-          ? {
-            start: extraction.execution_window?.start ?? undefined,
-            end: extraction.execution_window?.end ?? undefined,
-          }
-          : undefined,
-        extraction: extraction ?? undefined,
-        capture: captureProposal
-          ? { ...captureProposal, reason: captureProposalReason(extraction!) }
-          : undefined,
+        window:
+          extraction.execution_window?.start || extraction.execution_window?.end
+            ? {
+              start: extraction.execution_window?.start ?? undefined,
+              end: extraction.execution_window?.end ?? undefined,
+            }
+            : undefined,
+        extraction,
+        capture: first.structured.capture,
       },
       debug: {
         deepseek_raw: lastRawMessage ?? undefined,
@@ -421,9 +664,10 @@ export async function handler(req: Request) {
           : JSON.stringify(lastPayload ?? null).slice(0, 4000),
       },
       notes,
-      needed,
+      needed: first.needed,
       mode,
-      follow_up: followUp ?? null,
+      items: items.length > 1 ? items : undefined,
+      follow_up: followUp,
       metadata: {
         duckling: {
           enabled: false,
@@ -438,6 +682,7 @@ export async function handler(req: Request) {
           errored: deepseekErrored ? true : undefined,
           used_fallback: undefined,
         },
+        llm: llmMetrics,
       },
     };
 
@@ -462,6 +707,10 @@ export async function handler(req: Request) {
         time_pref_time_of_day: extraction?.time_preferences?.time_of_day ??
           null,
         kind: extraction?.kind ?? null,
+        recurrence: extraction?.recurrence?.rule ?? null,
+        dependsOn: extraction?.depends_on?.reference ?? null,
+        location: extraction?.location ?? null,
+        tasks: items.length,
       });
     } catch {
       /* ignore logging errors */
@@ -475,7 +724,151 @@ export async function handler(req: Request) {
 }
 
 if (import.meta.main) {
-  Deno.serve(handler);
+  Deno.serve((req) => handler(req));
+}
+
+/**
+ * Records the next question, or closes the session once nothing worth asking
+ * is left. Starts a session for a fresh capture that still misses fields.
+ */
+async function advanceClarification(input: {
+  store: ClarificationStore;
+  session: ClarificationSession | null;
+  content: string;
+  mode: ParseMode;
+  timezone: string;
+  item: ParsedItem;
+}): Promise<ParseResponse["follow_up"]> {
+  const { store, item } = input;
+  const extraction = item.structured.extraction;
+  const turns: ClarificationTurn[] = input.session?.turns ?? [];
+  const field = nextQuestionField(item.needed, turns);
+  const question = field
+    ? (!input.session && item.follow_up?.prompt) ||
+      questionFor(field, extraction)
+    : null;
+  const nextTurns = field && question
+    ? [...turns, { field, question, answer: null }]
+    : turns;
+
+  let session = input.session;
+  if (session) {
+    session.extraction = extraction;
+    session.turns = nextTurns;
+    session.status = field ? "open" : "complete";
+    await store.save(session);
+  } else if (field) {
+    session = await store.create({
+      content: input.content,
+      mode: input.mode,
+      timezone: input.timezone,
+      extraction,
+      turns: nextTurns,
+    }, new Date());
+  }
+
+  if (!field || !question || !session) return null;
+  return {
+    type: "clarify",
+    prompt: question,
+    missing: item.needed,
+    session_id: session.id,
+    field,
+  };
+}
+
+// Post-processing shared by both modes: routine fixes, recurrence and
+// dependency cues from the text, the capture mapping and what is still missing.
+function finishExtraction(input: {
+  extraction: DiaGuruTaskExtraction;
+  content: string;
+  timezone: string;
+  referenceNow: Date;
+  heuristics: string[];
+}): ParsedItem {
+  const { extraction, content, heuristics } = input;
+  const addHeuristic = (name: string) => {
+    if (!heuristics.includes(name)) heuristics.push(name);
+  };
+
+  applyRoutineNormalization({
+    extraction,
+    content,
+    timezone: input.timezone,
+    referenceNow: input.referenceNow,
+  });
+
+  if (!extraction.recurrence) {
+    const detected = detectRecurrenceFromText(content);
+    if (detected) {
+      extraction.recurrence = {
+        rule: formatRecurrenceRule(detected),
+        source: "inferred",
+      };
+      addHeuristic("recurrence_text");
+    }
+  }
+
+  if (!extraction.depends_on) {
+    const reference = detectDependencyReference(content);
+    if (reference) {
+      extraction.depends_on = { reference, source: "inferred" };
+      addHeuristic("dependency_text");
+    }
+  }
+
+  if (!extraction.location) {
+    const location = detectLocation(content);
+    if (location) {
+      extraction.location = location;
+      addHeuristic("location_text");
+    }
+  }
+
+  const missing = Array.isArray(extraction.missing)
+    ? extraction.missing.slice()
+    : [];
+  if (extraction.estimated_minutes == null) {
+    missing.push("estimated_minutes");
+  }
+  missing.sort();
+  const needed = [...new Set(missing)];
+
+  return {
+    content,
+    structured: {
+      estimated_minutes: extraction.estimated_minutes ?? undefined,
+      extraction,
+      capture: {
+        ...mapExtractionToCapture(extraction),
+        reason: captureProposalReason(extraction),
+      },
+    },
+    needed,
+    follow_up: missing.length > 0 && extraction.clarifying_question
+      ? {
+        type: "clarify",
+        prompt: cleanupQuestion(extraction.clarifying_question)!,
+        missing,
+      }
+      : null,
+  };
+}
+
+function applyLearnedDuration(
+  item: ParsedItem,
+  samples: DurationSample[],
+): DurationAdjustment | null {
+  const adjustment = learnedDuration({
+    estimate: item.structured.estimated_minutes ?? null,
+    taskType: item.structured.capture.task_type_hint ?? null,
+    samples,
+  });
+  if (!adjustment) return null;
+  item.structured.estimated_minutes = adjustment.to;
+  item.structured.capture.estimated_minutes = adjustment.to;
+  item.structured.duration_adjustment = adjustment;
+  return adjustment;
 }
 
 async function safeParseBody(req: Request) {
@@ -632,6 +1025,32 @@ function pickDurationFromRegex(text: string): DurationCandidate | null {
   return null;
 }
 
+const DEPENDENCY_PATTERN =
+  /\b(?:after|once|when)\s+(?:i\s+|i'm\s+|i am\s+|i've\s+|i have\s+|we\s+|we're\s+|we've\s+)?(?:finish(?:ed|ing)?|done with|complete(?:d|ing)?|wrap(?:ped|ping)? up)\s+(.+?)(?=[,.;!?]|\s+(?:then|and then|today|tonight|tomorrow|this|next|on|by|at|before)\b|$)/i;
+
+// Finds the task a capture waits on, e.g. "after I finish the draft".
+function detectDependencyReference(text: string): string | null {
+  const match = DEPENDENCY_PATTERN.exec(text);
+  if (!match) return null;
+  const reference = match[1]
+    .replace(/^(?:with\s+)?(?:the|my|our|a|an)\s+/i, "")
+    .trim();
+  return reference.length > 0 ? reference : null;
+}
+
+const PLACE_PATTERN =
+  /\b(?:at|to|from)\s+(?:the\s+)?(dentist|doctor|gym|bank|post office|pharmacy|library|airport|hospital|clinic|vet|salon|barber|supermarket|grocery store|dry cleaners?)(?:'s)?\b/i;
+const STREET_ADDRESS_PATTERN =
+  /\b\d+\s+(?:[A-Z][\w.'-]*\s+)+(?:St|Street|Ave|Avenue|Rd|Road|Blvd|Boulevard|Ln|Lane|Dr|Drive|Way|Pl|Place)\b\.?/;
+
+// Finds where a capture happens, e.g. "at the dentist" or "12 Main St".
+function detectLocation(text: string): string | null {
+  const address = STREET_ADDRESS_PATTERN.exec(text);
+  if (address) return address[0].replace(/\.$/, "").trim();
+  const place = PLACE_PATTERN.exec(text);
+  return place ? place[1].toLowerCase() : null;
+}
+
 function convertToMinutes(value: number, unit: string) {
   const normalized = unit.toLowerCase();
   if (normalized.startsWith("second")) {
@@ -673,28 +1092,15 @@ function readNestedString(obj: Record<string, unknown>, path: string[]) {
   return typeof current === "string" ? current : null;
 }
 
-async function requestDeepSeekClarification(input: {
-  apiKey: string;
+async function requestClarification(input: {
+  provider: LlmProvider | null;
   content: string;
   needed: string[];
   structured: ParseResponse["structured"];
   timezone: string;
   context?: { ambiguousTime?: string };
 }) {
-  if (!input.apiKey) return null;
-  const rawEndpoint = Deno.env.get("DEEPSEEK_API_URL");
-  let endpoint: string;
-  if (rawEndpoint && rawEndpoint.trim().length > 0) {
-    const trimmed = rawEndpoint.trim().replace(/\s+/g, "");
-    if (/\/chat\/completions\/?$/i.test(trimmed)) {
-      endpoint = trimmed;
-    } else {
-      const base = trimmed.replace(/\/+$/g, "");
-      endpoint = `${base}/v1/chat/completions`;
-    }
-  } else {
-    endpoint = "https://api.deepseek.com/v1/chat/completions";
-  }
+  if (!input.provider) return null;
   const systemPrompt =
     "You help DiaGuru collect missing task details. Ask exactly one concise follow-up question to obtain the missing information. Never answer the question yourself.";
   const userPrompt = buildDeepSeekUserPrompt({
@@ -705,35 +1111,17 @@ async function requestDeepSeekClarification(input: {
     context: input.context,
   });
 
-  const res = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${input.apiKey}`,
-    },
-    body: JSON.stringify({
-      model: Deno.env.get("DEEPSEEK_MODEL") ?? "deepseek-chat",
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userPrompt },
-      ],
-      max_tokens: 120,
+  const { text } = await completeText(
+    input.provider,
+    {
+      system: systemPrompt,
+      user: userPrompt,
+      maxTokens: 120,
       temperature: 0.2,
-      stream: false,
-    }),
-  });
-
-  const payload = await safeReadJson(res);
-  if (!res.ok) {
-    const snippet = typeof payload === "string"
-      ? payload.slice(0, 200)
-      : JSON.stringify(payload).slice(0, 200);
-    throw new Error(`DeepSeek responded ${res.status}: ${snippet}`);
-  }
-
-  const message = extractDeepSeekMessage(payload);
-  if (!message) return null;
-  return cleanupQuestion(message);
+    },
+    CLARIFICATION_CALL,
+  );
+  return cleanupQuestion(text);
 }
 
 function buildDeepSeekUserPrompt(input: {
@@ -776,44 +1164,6 @@ function buildDeepSeekUserPrompt(input: {
   return parts.join("\n");
 }
 
-async function safeReadJson(res: Response) {
-  const text = await res.text();
-  if (!text) return null;
-  try {
-    return JSON.parse(text);
-  } catch {
-    return text;
-  }
-}
-
-function extractDeepSeekMessage(payload: unknown) {
-  if (!payload || typeof payload !== "object") return null;
-  const normalized = payload as Record<string, unknown>;
-  const choices = normalized.choices;
-  if (!Array.isArray(choices) || choices.length === 0) return null;
-  const first = choices[0];
-  if (!first || typeof first !== "object") return null;
-  const message = (first as Record<string, unknown>).message;
-  if (!message || typeof message !== "object") return null;
-  const content = (message as Record<string, unknown>).content;
-  if (typeof content === "string") return content;
-  if (content && typeof content === "object") {
-    try {
-      return JSON.stringify(content);
-    } catch {
-      return null;
-    }
-  }
-  if (Array.isArray(content)) {
-    try {
-      return JSON.stringify(content);
-    } catch {
-      return null;
-    }
-  }
-  return null;
-}
-
 function cleanupQuestion(question: string) {
   const trimmed = question.trim();
   if (!trimmed) return null;
@@ -828,7 +1178,9 @@ export const __test__ = {
   pickDurationFromDuckling,
   pickTemporalFromDuckling,
   pickDurationFromRegex,
-  requestDeepSeekClarification,
+  detectDependencyReference,
+  detectLocation,
+  requestClarification,
 };
 
 type DucklingItem = {
@@ -856,6 +1208,25 @@ type TemporalCandidate =
     source: string;
   };
 
+// Sums the calls made for one capture that listed several tasks.
+function addLlmMetrics(
+  total: LlmCallMetrics | null,
+  next: LlmCallMetrics,
+): LlmCallMetrics {
+  if (!total) return { ...next };
+  const sum = (a: number | null, b: number | null) =>
+    a === null || b === null ? null : a + b;
+  return {
+    provider: next.provider,
+    model: next.model,
+    attempts: total.attempts + next.attempts,
+    latency_ms: total.latency_ms + next.latency_ms,
+    input_tokens: sum(total.input_tokens, next.input_tokens),
+    output_tokens: sum(total.output_tokens, next.output_tokens),
+    errored: total.errored || next.errored ? true : undefined,
+  };
+}
+
 function describeError(prefix: string, error: unknown) {
   if (error instanceof Error) {
     return `${prefix}: ${error.message}`;
@@ -864,16 +1235,6 @@ function describeError(prefix: string, error: unknown) {
 }
 
 // ----- Extraction helpers (schema + prompts) -----
-function extractFirstJsonObject(text: string): string | null {
-  if (!text) return null;
-  const fence = /```(?:json)?\s*([\s\S]*?)\s*```/i.exec(text);
-  if (fence && fence[1]) return fence[1].trim();
-  const first = text.indexOf("{");
-  const last = text.lastIndexOf("}");
-  if (first >= 0 && last > first) return text.slice(first, last + 1).trim();
-  return null;
-}
-
 function formatOffsetMinutes(offsetMinutes: number) {
   const sign = offsetMinutes >= 0 ? "+" : "-";
   const abs = Math.abs(Math.round(offsetMinutes));
@@ -907,6 +1268,29 @@ function formatLocalIsoWithOffset(date: Date, timeZone: string) {
   return `${year}-${month}-${day}T${hour}:${minute}:${second}${offset}`;
 }
 
+function buildMergePrompts(input: {
+  extraction: DiaGuruTaskExtraction;
+  turn: ClarificationTurn;
+  timezone: string;
+  referenceNow: Date;
+}) {
+  const systemPrompt = [
+    "You update a DiaGuru task extraction with the user's answer to a clarifying question.",
+    "Change only the fields the answer addresses and keep every other field as it is.",
+    'Remove answered fields from "missing" and set "clarifying_question" to null.',
+    "All datetime outputs MUST be ISO 8601 with explicit timezone.",
+    "Respond ONLY with the full extraction as minified JSON.",
+  ].join("\n");
+  const userPrompt = [
+    `Timezone: ${input.timezone}`,
+    `Now: ${formatLocalIsoWithOffset(input.referenceNow, input.timezone)}`,
+    `Extraction: ${JSON.stringify(input.extraction)}`,
+    `Question (${input.turn.field}): ${input.turn.question}`,
+    `Answer: ${input.turn.answer ?? ""}`,
+  ].join("\n");
+  return { systemPrompt, userPrompt };
+}
+
 function buildExtractionPrompts(input: {
   content: string;
   timezone: string;
@@ -950,6 +1334,15 @@ function buildExtractionPrompts(input: {
     "max_splits": number | null
   } | null,
   "kind": "task" | "appointment" | "call" | "meeting" | "study" | "errand" | "other" | null,
+  "recurrence": {
+    "rule": string,
+    "source": "explicit" | "inferred"
+  } | null,
+  "depends_on": {
+    "reference": string,
+    "source": "explicit" | "inferred"
+  } | null,
+  "location": string | null,
   "missing": string[],
   "clarifying_question": string | null,
   "notes": string[]
@@ -971,6 +1364,9 @@ Rules:
   - For phrases like "before sleep tonight" / "before bed tonight", treat them as "before end of working hours" (22:00 local) unless the user explicitly gives a later bedtime.
   - Do not infer deadlines after WorkingHours end unless the user explicitly requests.
   - time_preferences captures soft hints (morning/evening/tomorrow).
+  - For repeating tasks ("every Tuesday and Thursday", "daily", "monthly on the 15th"), set recurrence.rule to an RRULE using only FREQ (DAILY|WEEKLY|MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, UNTIL (YYYYMMDD) and COUNT, e.g. "FREQ=WEEKLY;BYDAY=TU,TH". Describe the first occurrence in scheduled_time/execution_window. Otherwise recurrence is null.
+  - If the task can only start once another task is done ("after I finish the draft", "once the report is done"), set depends_on.reference to a short name for that other task (e.g. "draft"). Otherwise depends_on is null.
+  - If the task happens at a specific physical place ("at the dentist", "pick up parcel at 12 Main St"), set location to that place as written. Calls, online meetings and work that can happen anywhere have location null.
   - If anything is missing, include one concise clarifying_question.
   - for the title, generate an appropriate title`;
   const systemPrompt =
@@ -1170,10 +1566,39 @@ export function normalizeExtraction(
       ? null
       : String(record.clarifying_question),
     notes: Array.isArray(record.notes) ? record.notes.map(String) : [],
+    recurrence: normalizeRecurrence(record.recurrence),
+    depends_on: normalizeDependsOn(record.depends_on),
+    location: typeof record.location === "string" && record.location.trim()
+      ? record.location.trim()
+      : null,
     policy: normalizePolicy(record.policy),
   };
 }
 
+function normalizeRecurrence(
+  value: unknown,
+): DiaGuruTaskExtraction["recurrence"] {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const rule = normalizeRecurrenceRule(record.rule);
+  if (!rule) return null;
+  const source = record.source === "inferred" ? "inferred" : "explicit";
+  return { rule, source };
+}
+
+function normalizeDependsOn(
+  value: unknown,
+): DiaGuruTaskExtraction["depends_on"] {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const reference = typeof record.reference === "string"
+    ? record.reference.trim()
+    : "";
+  if (!reference) return null;
+  const source = record.source === "inferred" ? "inferred" : "explicit";
+  return { reference, source };
+}
+
 function normalizePolicy(value: unknown): DiaGuruTaskExtraction["policy"] {
   if (!value || typeof value !== "object") return null;
   const record = value as Record<string, unknown>;
@@ -1300,6 +1725,9 @@ export function mapExtractionToCapture(
     start_target_at,
     is_soft_start,
     task_type_hint,
+    recurrence_rule: ex.recurrence?.rule ?? null,
+    depends_on_reference: ex.depends_on?.reference ?? null,
+    location: ex.location ?? null,
 
     // metadata / explanation inputs
     scheduled_source: scheduledSource,
@@ -1329,6 +1757,9 @@ function captureProposalReason(ex: DiaGuruTaskExtraction): string {
   if (ex.time_preferences?.time_of_day) {
     bits.push(`pref=${ex.time_preferences.time_of_day}`);
   }
+  if (ex.recurrence?.rule) bits.push(`repeat=${ex.recurrence.rule}`);
+  if (ex.depends_on?.reference) bits.push(`after=${ex.depends_on.reference}`);
+  if (ex.location) bits.push(`at=${ex.location}`);
   return `Mapped from extraction (${bits.join(", ")})`;
 }
 
@@ -1563,78 +1994,3 @@ function inferMealWindow(text: string) {
   }
   return { startHour: 12, startMinute: 0, endHour: 13, endMinute: 0 };
 }
-
-function buildZonedDateTime(args: {
-  timezone: string;
-  reference: Date;
-  hour: number;
-  minute: number;
-  dayOffset?: number;
-}) {
-  const { timezone, reference, hour, minute } = args;
-  const dayOffset = args.dayOffset ??
-    computeDayOffset(reference, timezone, hour, minute);
-  const dateParts = getLocalDateParts(reference, timezone);
-  const utcGuess = new Date(
-    Date.UTC(
-      dateParts.year,
-      dateParts.month - 1,
-      dateParts.day + dayOffset,
-      hour,
-      minute,
-      0,
-      0,
-    ),
-  );
-  const offsetMinutes = getTimezoneOffsetMinutes(utcGuess, timezone);
-  return new Date(utcGuess.getTime() - offsetMinutes * 60000).toISOString();
-}
-
-function computeDayOffset(
-  reference: Date,
-  timezone: string,
-  targetHour: number,
-  targetMinute: number,
-) {
-  const { hour, minute } = getLocalTimeParts(reference, timezone);
-  if (hour > targetHour) return 1;
-  if (hour === targetHour && minute >= targetMinute) return 1;
-  return 0;
-}
-
-function getLocalDateParts(reference: Date, timezone: string) {
-  const formatter = new Intl.DateTimeFormat("en-US", {
-    timeZone: timezone,
-    year: "numeric",
-    month: "2-digit",
-    day: "2-digit",
-  });
-  const parts = formatter.formatToParts(reference);
-  const lookup = (type: "year" | "month" | "day") =>
-    parseInt(parts.find((p) => p.type === type)?.value ?? "0", 10);
-  return {
-    year: lookup("year"),
-    month: lookup("month"),
-    day: lookup("day"),
-  };
-}
-
-function getLocalTimeParts(reference: Date, timezone: string) {
-  const formatter = new Intl.DateTimeFormat("en-US", {
-    timeZone: timezone,
-    hour: "2-digit",
-    minute: "2-digit",
-    hour12: false,
-  });
-  const [hourStr, minuteStr] = formatter.format(reference).split(":");
-  return {
-    hour: parseInt(hourStr, 10),
-    minute: parseInt(minuteStr, 10),
-  };
-}
-
-function getTimezoneOffsetMinutes(date: Date, timeZone: string) {
-  const localDate = new Date(date.toLocaleString("en-US", { timeZone }));
-  const utcDate = new Date(date.toLocaleString("en-US", { timeZone: "UTC" }));
-  return (localDate.getTime() - utcDate.getTime()) / 60000;
-}
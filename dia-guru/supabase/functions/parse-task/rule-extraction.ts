@@ -0,0 +1,895 @@
+// Deterministic extraction for the local_rules parse mode. Grammar rules and
+// keyword lexicons fill the same DiaGuruTaskExtraction the LLM produces, so
+// task text never has to leave the deployment.
+
+import type { DiaGuruTaskExtraction } from "./index.ts";
+import {
+  buildZonedDateTime,
+  getLocalDateParts,
+  getLocalTimeParts,
+} from "./local-time.ts";
+
+type Kind = NonNullable<DiaGuruTaskExtraction["kind"]>;
+type TimeOfDay = "morning" | "afternoon" | "evening" | "night";
+type Span = { start: number; end: number };
+
+type DayMention = Span & {
+  dayOffset: number;
+  // "tonight" and "end of day" carry a time of their own.
+  timeOfDay?: TimeOfDay;
+  impliedTime?: { hour: number; minute: number };
+};
+
+type TimeMention = Span & {
+  hour: number;
+  minute: number;
+  // A bare "at 3" had its am/pm guessed from working hours.
+  guessed: boolean;
+  approximate: boolean;
+};
+
+type PartOfDayMention = Span & { timeOfDay: TimeOfDay };
+
+type When = Span & { day: DayMention | null; time: TimeMention | null };
+
+const WORK_START_HOUR = 8;
+const WORK_END_HOUR = 22;
+const DEFAULT_DEADLINE_HOUR = 17;
+const DEFAULT_CHUNK_MINUTES = 30;
+const MAX_SPLITS = 6;
+// Long open-ended work is worth splitting even when the text does not say so.
+const SPLIT_THRESHOLD_MINUTES = 180;
+
+const PART_OF_DAY_HOURS: Record<TimeOfDay, { start: number; end: number }> = {
+  morning: { start: 8, end: 12 },
+  afternoon: { start: 12, end: 17 },
+  evening: { start: 17, end: 21 },
+  night: { start: 19, end: WORK_END_HOUR },
+};
+
+// Earliest match wins, so "call the dentist" is a call and "dentist
+// appointment" an appointment.
+const KIND_LEXICON: [Exclude<Kind, `routine.${string}`>, RegExp][] = [
+  [
+    "appointment",
+    /\b(appointment|appt|dentist|doctor|physio|therapist|therapy|haircut|check-?up|vet|interview)\b/i,
+  ],
+  [
+    "meeting",
+    /\b(meeting|meet (?:with|up)|sync|stand-?up|1:1|one-on-one|catch up with|workshop|presentation)\b/i,
+  ],
+  ["call", /\b(call|phone|ring|dial|facetime)\b/i],
+  [
+    "study",
+    /\b(study|studying|revise|revision|homework|assignment|exam|quiz|lecture|flashcards|practice problems|learn)\b/i,
+  ],
+  [
+    "errand",
+    /\b(buy|pick up|drop off|groceries|grocery|shopping|post office|pharmacy|laundry|car wash|return the)\b/i,
+  ],
+];
+
+// Typical lengths for kinds that rarely state one.
+const KIND_MINUTES: Partial<Record<Kind, number>> = {
+  call: 15,
+  meeting: 60,
+  appointment: 60,
+  errand: 30,
+};
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1,
+  an: 1,
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+  eight: 8,
+  nine: 9,
+  ten: 10,
+  twelve: 12,
+  fifteen: 15,
+  twenty: 20,
+  thirty: 30,
+  "forty-five": 45,
+  "forty five": 45,
+  forty: 40,
+  sixty: 60,
+  ninety: 90,
+  couple: 2,
+  "a couple of": 2,
+  few: 3,
+  "a few": 3,
+};
+const NUMBER = `(\\d+(?:\\.\\d+)?|${
+  Object.keys(NUMBER_WORDS)
+    .sort((a, b) => b.length - a.length)
+    .join("|")
+})`;
+
+const WEEKDAYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+const MONTHS = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+const WEEKDAY =
+  "(mon|tue|tues|wed|weds|wednes|thu|thur|thurs|fri|sat|satur|sun)(?:day)?";
+const MONTH =
+  "(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\\.?";
+
+const URGENT_CUES =
+  /\b(asap|urgent(?:ly)?|immediately|right away|right now)\b/i;
+const RELAXED_CUES =
+  /\b(no rush|whenever|someday|eventually|low priority|if i have time|optional)\b/i;
+const HIGH_IMPACT_CUES = /\b(critical|crucial|high priority|top priority)\b/i;
+const IMPACT_CUES =
+  /\b(important|must|client|boss|exam|interview|deadline|final)\b/i;
+const BLOCKING_CUES =
+  /\b(blocking|blocks|blocker|unblock|waiting on me|waiting for me)\b/i;
+const OVERLAP_CUES =
+  /\b(while|in the background|alongside|during|on the side)\b/i;
+const SPLIT_CUES =
+  /\b(in (?:chunks|sessions|blocks)|split|spread (?:it )?(?:out|over)|across (?:a few|several|multiple) (?:days|sessions)|bit by bit)\b/i;
+const HARD_DEADLINE_CUES = /\b(due|deadline|no later than|hard deadline)\b/i;
+const FILLER_PREFIX =
+  /^(?:(?:please|pls|ok|okay)[,\s]+)?(?:remind me to|i need to|i have to|i've got to|i must|i should|i want to|i'd like to|need to|have to|gotta|got to|remember to|don'?t forget to|make sure (?:to|i)|to-?do:?)\s+/i;
+
+function parseNumber(raw: string) {
+  const key = raw.toLowerCase();
+  if (key in NUMBER_WORDS) return NUMBER_WORDS[key];
+  const value = Number(key);
+  return Number.isFinite(value) ? value : null;
+}
+
+export function parseDurationPhrase(
+  text: string,
+): (Span & { minutes: number }) | null {
+  const patterns: [RegExp, (match: RegExpExecArray) => number | null][] = [
+    [/\b(?:half an hour|half-hour|half hour)\b/i, () => 30],
+    [/\b(?:a )?quarter (?:of an )?hour\b/i, () => 15],
+    [
+      new RegExp(`\\b${NUMBER} (?:hours?|hrs?) and a half\\b`, "i"),
+      (match) => {
+        const hours = parseNumber(match[1]);
+        return hours === null ? null : hours * 60 + 30;
+      },
+    ],
+    [
+      /\b(\d+)\s*h(?:rs?|ours?)?\s*(?:and\s*)?(\d+)\s*m(?:ins?|inutes?)?\b/i,
+      (match) => Number(match[1]) * 60 + Number(match[2]),
+    ],
+    [
+      new RegExp(`\\b${NUMBER}[\\s-]*(?:hours?|hrs?|h)\\b`, "i"),
+      (match) => {
+        const hours = parseNumber(match[1]);
+        return hours === null ? null : Math.round(hours * 60);
+      },
+    ],
+    [
+      new RegExp(`\\b${NUMBER}[\\s-]*(?:minutes?|mins?|m)\\b`, "i"),
+      (match) => {
+        const minutes = parseNumber(match[1]);
+        return minutes === null ? null : Math.round(minutes);
+      },
+    ],
+  ];
+  for (const [pattern, read] of patterns) {
+    const match = pattern.exec(text);
+    if (!match) continue;
+    const minutes = read(match);
+    if (minutes === null || minutes <= 0) continue;
+    // "for 45 minutes" and "takes about 45 minutes" go with the duration.
+    const lead = /(?:\b(?:for|takes?|lasting|about|around|roughly|~)\s*)+$/i
+      .exec(text.slice(0, match.index));
+    return {
+      start: lead ? lead.index : match.index,
+      end: match.index + match[0].length,
+      minutes,
+    };
+  }
+  return null;
+}
+
+function to24Hour(hour: number, meridiem: string | undefined) {
+  const marker = meridiem?.replace(/\./g, "").toLowerCase();
+  if (marker === "pm") return hour % 12 + 12;
+  if (marker === "am") return hour % 12;
+  return hour;
+}
+
+// Bare hours are read inside working hours: "at 3" is 3pm, "at 9" 9am.
+function guessHour(hour: number) {
+  if (hour >= 1 && hour < WORK_START_HOUR) return hour + 12;
+  return hour;
+}
+
+function findTimeMentions(text: string): TimeMention[] {
+  const mentions: TimeMention[] = [];
+  const taken = (index: number) =>
+    mentions.some((mention) => index >= mention.start && index < mention.end);
+  const push = (mention: TimeMention) => {
+    if (!taken(mention.start)) mentions.push(mention);
+  };
+
+  const withMeridiem =
+    /\b(\d{1,2})(?::(\d{2}))?\s*(am|pm|a\.m\.|p\.m\.)(ish)?(?![a-z])/gi;
+  for (const match of text.matchAll(withMeridiem)) {
+    const hour = Number(match[1]);
+    if (hour < 1 || hour > 12) continue;
+    push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      hour: to24Hour(hour, match[3]),
+      minute: Number(match[2] ?? 0),
+      guessed: false,
+      approximate: Boolean(match[4]),
+    });
+  }
+  for (const match of text.matchAll(/\b([01]?\d|2[0-3]):([0-5]\d)(ish)?\b/g)) {
+    push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      hour: Number(match[1]),
+      minute: Number(match[2]),
+      guessed: false,
+      approximate: Boolean(match[3]),
+    });
+  }
+  for (const match of text.matchAll(/\b(noon|midday|midnight)\b/gi)) {
+    push({
+      start: match.index!,
+      end: match.index! + match[0].length,
+      hour: match[1].toLowerCase() === "midnight" ? 0 : 12,
+      minute: 0,
+      guessed: false,
+      approximate: false,
+    });
+  }
+  // A bare number only counts as a time right after "at", "around" or "by".
+  const bare =
+    /\b(?:at|around|about|by|before|until|till|from|between|and|to)\s+(\d{1,2})(ish)?\b(?!\s*(?:min|minute|hour|hr|h\b|day|week|%|:|\.\d|am|pm|a\.m|p\.m))/gi;
+  for (const match of text.matchAll(bare)) {
+    const hour = Number(match[1]);
+    if (hour < 1 || hour > 12) continue;
+    const start = match.index! + match[0].length - match[1].length -
+      (match[2]?.length ?? 0);
+    push({
+      start,
+      end: match.index! + match[0].length,
+      hour: guessHour(hour),
+      minute: 0,
+      guessed: true,
+      approximate: Boolean(match[2]),
+    });
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function localWeekday(reference: Date, timezone: string) {
+  const { year, month, day } = getLocalDateParts(reference, timezone);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+function daysUntilDate(
+  reference: Date,
+  timezone: string,
+  month: number,
+  day: number,
+) {
+  const today = getLocalDateParts(reference, timezone);
+  const todayUtc = Date.UTC(today.year, today.month - 1, today.day);
+  let target = Date.UTC(today.year, month - 1, day);
+  // Dates already behind us this year mean next year.
+  if (target < todayUtc) target = Date.UTC(today.year + 1, month - 1, day);
+  return Math.round((target - todayUtc) / 86_400_000);
+}
+
+function findDayMentions(
+  text: string,
+  reference: Date,
+  timezone: string,
+): DayMention[] {
+  const mentions: DayMention[] = [];
+  const add = (
+    match: RegExpMatchArray,
+    mention: Omit<DayMention, "start" | "end">,
+  ) => {
+    const start = match.index!;
+    const end = start + match[0].length;
+    if (mentions.some((other) => start < other.end && end > other.start)) {
+      return;
+    }
+    mentions.push({ start, end, ...mention });
+  };
+  const weekday = localWeekday(reference, timezone);
+
+  for (const match of text.matchAll(/\b(?:the )?day after tomorrow\b/gi)) {
+    add(match, { dayOffset: 2 });
+  }
+  for (
+    const match of text.matchAll(/\b(today|tonight|tomorrow|tmrw|tmr)\b/gi)
+  ) {
+    const word = match[1].toLowerCase();
+    if (word === "tonight") {
+      add(match, { dayOffset: 0, timeOfDay: "night" });
+    } else {
+      add(match, { dayOffset: word === "today" ? 0 : 1 });
+    }
+  }
+  for (
+    const match of text.matchAll(
+      /\b(?:eod|cob|end of (?:the )?(?:day|business))\b/gi,
+    )
+  ) {
+    add(match, {
+      dayOffset: 0,
+      impliedTime: { hour: DEFAULT_DEADLINE_HOUR, minute: 0 },
+    });
+  }
+  for (const match of text.matchAll(/\b(?:eow|end of (?:the )?week)\b/gi)) {
+    add(match, {
+      dayOffset: (5 - weekday + 7) % 7,
+      impliedTime: { hour: DEFAULT_DEADLINE_HOUR, minute: 0 },
+    });
+  }
+  for (
+    const match of text.matchAll(
+      new RegExp(`\\bin ${NUMBER} (days?|weeks?)\\b`, "gi"),
+    )
+  ) {
+    const count = parseNumber(match[1]);
+    if (count === null) continue;
+    add(match, {
+      dayOffset: Math.round(count * (/^week/i.test(match[2]) ? 7 : 1)),
+    });
+  }
+  for (const match of text.matchAll(/\bnext week\b/gi)) {
+    // Monday of the following week.
+    add(match, { dayOffset: ((1 - weekday + 7) % 7) || 7 });
+  }
+  for (
+    const match of text.matchAll(
+      new RegExp(`\\b(?:(this|next|on)\\s+)?${WEEKDAY}\\b`, "gi"),
+    )
+  ) {
+    const target = WEEKDAYS.indexOf(match[2].slice(0, 3).toLowerCase());
+    if (target < 0) continue;
+    let offset = (target - weekday + 7) % 7;
+    if (match[1]?.toLowerCase() === "next" && offset === 0) offset = 7;
+    add(match, { dayOffset: offset });
+  }
+  for (
+    const match of text.matchAll(
+      new RegExp(
+        `\\b(?:on\\s+)?${MONTH}\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`,
+        "gi",
+      ),
+    )
+  ) {
+    const month = MONTHS.indexOf(match[1].slice(0, 3).toLowerCase()) + 1;
+    add(match, {
+      dayOffset: daysUntilDate(reference, timezone, month, Number(match[2])),
+    });
+  }
+  for (
+    const match of text.matchAll(
+      new RegExp(
+        `\\b(?:on\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH}`,
+        "gi",
+      ),
+    )
+  ) {
+    const month = MONTHS.indexOf(match[2].slice(0, 3).toLowerCase()) + 1;
+    add(match, {
+      dayOffset: daysUntilDate(reference, timezone, month, Number(match[1])),
+    });
+  }
+  for (const match of text.matchAll(/\b(?:on\s+)?(\d{1,2})\/(\d{1,2})\b/g)) {
+    const month = Number(match[1]);
+    const day = Number(match[2]);
+    if (month < 1 || month > 12 || day < 1 || day > 31) continue;
+    add(match, { dayOffset: daysUntilDate(reference, timezone, month, day) });
+  }
+  return mentions.sort((a, b) => a.start - b.start);
+}
+
+function findPartOfDay(text: string): PartOfDayMention | null {
+  const match =
+    /\b(?:(?:this|in the|tomorrow|on the)\s+)?(morning|afternoon|evening|night)\b/i
+      .exec(text);
+  if (!match) return null;
+  return {
+    start: match.index,
+    end: match.index + match[0].length,
+    timeOfDay: match[1].toLowerCase() as TimeOfDay,
+  };
+}
+
+// Reads "Friday 5pm", "5pm on Friday", "tomorrow at 3" starting at `index`,
+// skipping the connectors that may sit between the parts.
+function readWhenAt(
+  text: string,
+  index: number,
+  days: DayMention[],
+  times: TimeMention[],
+): When | null {
+  const connector = /^(?:\s|,|on\b|at\b|the\b)*/i;
+  let cursor = index;
+  let day: DayMention | null = null;
+  let time: TimeMention | null = null;
+  for (let part = 0; part < 2; part++) {
+    const skip = connector.exec(text.slice(cursor))?.[0].length ?? 0;
+    const at = cursor + skip;
+    const nextDay: DayMention | undefined = day
+      ? undefined
+      : days.find((mention) =>
+        mention.start === at ||
+        (mention.start < at && mention.end > at)
+      );
+    const nextTime: TimeMention | undefined = time
+      ? undefined
+      : times.find((mention) => mention.start === at);
+    if (nextDay) {
+      day = nextDay;
+      cursor = nextDay.end;
+    } else if (nextTime) {
+      time = nextTime;
+      cursor = nextTime.end;
+    } else {
+      break;
+    }
+  }
+  if (!day && !time) return null;
+  return { start: index, end: cursor, day, time };
+}
+
+function zoned(
+  timezone: string,
+  reference: Date,
+  hour: number,
+  minute: number,
+  dayOffset?: number,
+) {
+  // Midnight closes the day rather than opening it.
+  if (hour === 0 && minute === 0 && dayOffset !== undefined) {
+    return buildZonedDateTime({
+      timezone,
+      reference,
+      hour: 23,
+      minute: 59,
+      dayOffset,
+    });
+  }
+  return buildZonedDateTime({ timezone, reference, hour, minute, dayOffset });
+}
+
+function titleFrom(content: string, spans: Span[]) {
+  const merged: Span[] = [];
+  for (const span of [...spans].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && span.start <= last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ start: span.start, end: span.end });
+    }
+  }
+  let text = content;
+  for (const span of merged.reverse()) {
+    text = `${text.slice(0, span.start)} ${text.slice(span.end)}`;
+  }
+  const cleaned = text
+    .replace(FILLER_PREFIX, "")
+    .replace(/\b(?:asap|urgently|right away)\b/gi, "")
+    .replace(/\s+([,.;!?])/g, "$1")
+    .replace(/[,;:]+([.!?])/g, "$1")
+    .replace(/\s{2,}/g, " ")
+    .replace(/(?:[\s,;:-]|\b(?:for|at|on|by|in|and|to|the)\b)+$/i, "")
+    .replace(/^[\s,;:-]+/, "")
+    .replace(/[.!?]+$/, "")
+    .trim();
+  const title = cleaned || content.trim();
+  return title.charAt(0).toUpperCase() + title.slice(1);
+}
+
+function detectKind(text: string): Kind {
+  let best: { kind: Kind; index: number } | null = null;
+  for (const [kind, pattern] of KIND_LEXICON) {
+    const match = pattern.exec(text);
+    if (match && (!best || match.index < best.index)) {
+      best = { kind, index: match.index };
+    }
+  }
+  return best?.kind ?? "task";
+}
+
+function hoursUntil(iso: string | null, reference: Date) {
+  if (!iso) return null;
+  return (Date.parse(iso) - reference.getTime()) / 3_600_000;
+}
+
+/**
+ * Builds a complete extraction from the capture text alone. Anything the
+ * rules cannot settle is left null and listed in `missing`, the same way
+ * the LLM reports gaps.
+ */
+export function extractWithRules(input: {
+  content: string;
+  timezone: string;
+  referenceNow: Date;
+}): DiaGuruTaskExtraction {
+  const { content, timezone, referenceNow } = input;
+  const text = content;
+  const notes: string[] = ["Extracted with local rules."];
+  const consumed: Span[] = [];
+
+  const duration = parseDurationPhrase(text);
+  if (duration) consumed.push(duration);
+
+  const days = findDayMentions(text, referenceNow, timezone);
+  const times = findTimeMentions(text).filter((time) =>
+    !duration || time.end <= duration.start || time.start >= duration.end
+  );
+  const partOfDay = findPartOfDay(text);
+  const usedDays = new Set<DayMention>();
+  const usedTimes = new Set<TimeMention>();
+  const claimWhen = (when: When) => {
+    if (when.day) usedDays.add(when.day);
+    if (when.time) usedTimes.add(when.time);
+  };
+
+  // Deadline: "by Friday 5pm", "due tomorrow", "before 3".
+  let deadline: DiaGuruTaskExtraction["deadline"] = null;
+  const deadlineAnchor =
+    /\b(no later than|due(?:\s+(?:by|on|at|before))?|deadline(?:\s+(?:is|of))?|by|before|until|till)\s+/gi;
+  for (const match of text.matchAll(deadlineAnchor)) {
+    const when = readWhenAt(
+      text,
+      match.index! + match[0].length,
+      days,
+      times,
+    );
+    if (!when) continue;
+    claimWhen(when);
+    consumed.push({ start: match.index!, end: when.end });
+    const time = when.time ?? when.day?.impliedTime ?? null;
+    let datetime: string;
+    if (time) {
+      datetime = zoned(
+        timezone,
+        referenceNow,
+        time.hour,
+        time.minute,
+        when.day?.dayOffset,
+      );
+    } else {
+      const dayOffset = when.day?.dayOffset ?? 0;
+      // "by tonight" means the end of the evening, not the working day.
+      const hour = when.day?.timeOfDay
+        ? PART_OF_DAY_HOURS[when.day.timeOfDay].end
+        : DEFAULT_DEADLINE_HOUR;
+      datetime = zoned(timezone, referenceNow, hour, 0, dayOffset);
+      if (Date.parse(datetime) <= referenceNow.getTime()) {
+        datetime = zoned(timezone, referenceNow, WORK_END_HOUR, 0, dayOffset);
+      }
+    }
+    if (when.time?.guessed) {
+      notes.push(
+        `Read "${text.slice(when.time.start, when.time.end)}" as ${
+          String(when.time.hour).padStart(2, "0")
+        }:00.`,
+      );
+    }
+    deadline = {
+      datetime,
+      kind: HARD_DEADLINE_CUES.test(match[1]) ? "hard" : "soft",
+      source: "explicit",
+    };
+    break;
+  }
+
+  // Explicit range: "between 2 and 4", "from 9am to 11am".
+  let executionWindow: DiaGuruTaskExtraction["execution_window"] = null;
+  const range = /\b(?:between|from)\s+(?:[\s\S]*?)\s*(?:and|to|-|–)\s*/i.exec(
+    text,
+  );
+  if (range) {
+    const startTime = times.find((time) =>
+      !usedTimes.has(time) && time.start >= range.index &&
+      time.start <= range.index + range[0].length
+    );
+    const endTime = startTime
+      ? times.find((time) => !usedTimes.has(time) && time.start > startTime.end)
+      : undefined;
+    if (startTime && endTime && endTime.start - startTime.end <= 6) {
+      usedTimes.add(startTime);
+      usedTimes.add(endTime);
+      consumed.push({ start: range.index, end: endTime.end });
+      const day = days.find((mention) => !usedDays.has(mention));
+      if (day) {
+        usedDays.add(day);
+        consumed.push(day);
+      }
+      let endHour = endTime.hour;
+      // "between 11 and 1" crosses noon.
+      if (endTime.guessed && endHour <= startTime.hour) endHour += 12;
+      const start = zoned(
+        timezone,
+        referenceNow,
+        startTime.hour,
+        startTime.minute,
+        day?.dayOffset,
+      );
+      executionWindow = {
+        relation: "between",
+        start,
+        end: zoned(
+          timezone,
+          referenceNow,
+          Math.min(endHour, 23),
+          endTime.minute,
+          dayOffsetOf(start, referenceNow, timezone),
+        ),
+        source: "explicit",
+      };
+    }
+  }
+
+  // Scheduled time: "at 3pm", "around 10", "tomorrow at 9:30".
+  let scheduledTime: DiaGuruTaskExtraction["scheduled_time"] = null;
+  if (!executionWindow) {
+    const scheduleAnchor =
+      /(?<!\w)(at\b|around\b|about\b|starting(?: at)?\b|@|~)\s*/gi;
+    let found: { when: When; approximate: boolean; anchor: Span } | null = null;
+    for (const match of text.matchAll(scheduleAnchor)) {
+      const when = readWhenAt(
+        text,
+        match.index! + match[0].length,
+        days,
+        times.filter((time) => !usedTimes.has(time)),
+      );
+      if (!when?.time) continue;
+      found = {
+        when,
+        approximate: !/^(?:at|@)$/i.test(match[1].trim()) ||
+          when.time.approximate,
+        anchor: { start: match.index!, end: when.end },
+      };
+      break;
+    }
+    if (!found) {
+      const loose = times.find((time) => !usedTimes.has(time) && !time.guessed);
+      if (loose) {
+        found = {
+          when: { start: loose.start, end: loose.end, day: null, time: loose },
+          approximate: loose.approximate,
+          anchor: loose,
+        };
+      }
+    }
+    if (found) {
+      const time = found.when.time!;
+      claimWhen(found.when);
+      consumed.push(found.anchor);
+      const day = found.when.day ??
+        days.find((mention) => !usedDays.has(mention)) ?? null;
+      if (day) {
+        usedDays.add(day);
+        consumed.push(day);
+      }
+      if (time.guessed) {
+        notes.push(
+          `Read "${text.slice(time.start, time.end)}" as ${
+            String(time.hour).padStart(2, "0")
+          }:${String(time.minute).padStart(2, "0")}.`,
+        );
+      }
+      scheduledTime = {
+        datetime: zoned(
+          timezone,
+          referenceNow,
+          time.hour,
+          time.minute,
+          day?.dayOffset,
+        ),
+        precision: found.approximate ? "approximate" : "exact",
+        source: "explicit",
+      };
+      executionWindow = {
+        relation: "around_scheduled",
+        start: scheduledTime.datetime,
+        end: null,
+        source: "inferred",
+      };
+    }
+  }
+
+  // Remaining day and part-of-day words narrow the work to one day.
+  const looseDay = days.find((mention) => !usedDays.has(mention)) ?? null;
+  const timeOfDay = partOfDay?.timeOfDay ?? looseDay?.timeOfDay ?? null;
+  if (looseDay) consumed.push(looseDay);
+  if (partOfDay) consumed.push(partOfDay);
+  if (!executionWindow && (looseDay || timeOfDay)) {
+    const hours = timeOfDay
+      ? PART_OF_DAY_HOURS[timeOfDay]
+      : { start: WORK_START_HOUR, end: WORK_END_HOUR };
+    const dayOffset = looseDay?.dayOffset ??
+      (getLocalTimeParts(referenceNow, timezone).hour >= hours.end ? 1 : 0);
+    const start = zoned(timezone, referenceNow, hours.start, 0, dayOffset);
+    const end = zoned(timezone, referenceNow, hours.end, 0, dayOffset);
+    if (Date.parse(end) > referenceNow.getTime()) {
+      executionWindow = {
+        relation: "on_day",
+        start: Date.parse(start) < referenceNow.getTime()
+          ? referenceNow.toISOString()
+          : start,
+        end,
+        source: "explicit",
+      };
+    }
+  }
+  if (!executionWindow && deadline?.datetime) {
+    executionWindow = {
+      relation: "before_deadline",
+      start: null,
+      end: deadline.datetime,
+      source: "inferred",
+    };
+  }
+
+  const anchorDayOffset = scheduledTime
+    ? dayOffsetOf(scheduledTime.datetime!, referenceNow, timezone)
+    : executionWindow?.relation === "on_day"
+    ? looseDay?.dayOffset ?? 0
+    : null;
+  const timePreferences: DiaGuruTaskExtraction["time_preferences"] = {
+    time_of_day: timeOfDay ?? null,
+    day: anchorDayOffset === null
+      ? "any"
+      : anchorDayOffset === 0
+      ? "today"
+      : anchorDayOffset === 1
+      ? "tomorrow"
+      : "specific_date",
+  };
+
+  const kind = detectKind(text);
+  let estimatedMinutes = duration?.minutes ?? null;
+  if (estimatedMinutes === null && KIND_MINUTES[kind]) {
+    estimatedMinutes = KIND_MINUTES[kind]!;
+    notes.push(`Assumed ${estimatedMinutes} minutes for a ${kind}.`);
+  }
+
+  // Importance from cue words and how close the time pressure is.
+  const rationale: string[] = [];
+  const relaxed = RELAXED_CUES.test(text);
+  const pressureHours = hoursUntil(
+    deadline?.datetime ?? scheduledTime?.datetime ?? null,
+    referenceNow,
+  );
+  let urgency: 1 | 2 | 3 | 4 | 5 = 2;
+  if (URGENT_CUES.test(text)) {
+    urgency = 5;
+    rationale.push("marked urgent");
+  } else if (pressureHours !== null && pressureHours <= 24) {
+    urgency = 4;
+    rationale.push("due within a day");
+  } else if (pressureHours !== null && pressureHours <= 72) {
+    urgency = 3;
+    rationale.push("due within three days");
+  } else if (relaxed) {
+    urgency = 1;
+    rationale.push("no rush");
+  }
+  let impact: 1 | 2 | 3 | 4 | 5 = 2;
+  if (HIGH_IMPACT_CUES.test(text)) {
+    impact = 5;
+    rationale.push("marked critical");
+  } else if (IMPACT_CUES.test(text)) {
+    impact = 4;
+    rationale.push("high-stakes wording");
+  } else if (relaxed) {
+    impact = 1;
+  } else if (kind === "appointment" || kind === "meeting") {
+    impact = 3;
+    rationale.push(`${kind} with others`);
+  }
+  const blocking = BLOCKING_CUES.test(text);
+  if (blocking) rationale.push("others are waiting");
+  const reschedulePenalty: 0 | 1 | 2 | 3 = relaxed
+    ? 0
+    : kind === "appointment"
+    ? 3
+    : kind === "meeting" || scheduledTime?.precision === "exact" ||
+        deadline?.kind === "hard"
+    ? 2
+    : 1;
+
+  // Flexibility: fixed times start hard, long open work may be split.
+  const startFlexibility = scheduledTime?.precision === "exact"
+    ? "hard"
+    : scheduledTime ||
+        (executionWindow && executionWindow.relation !== "before_deadline")
+    ? "soft"
+    : "anytime";
+  const chunkMatch =
+    /(?:\b(?:in|into|as)\s+)?\b(\d+)[\s-]*min(?:ute)?s?\s+(?:chunks|sessions|blocks)\b/i
+      .exec(text);
+  if (chunkMatch) {
+    consumed.push({
+      start: chunkMatch.index,
+      end: chunkMatch.index + chunkMatch[0].length,
+    });
+  }
+  const splitRequested = SPLIT_CUES.test(text) || chunkMatch !== null;
+  const splitAllowed = splitRequested ||
+    (estimatedMinutes !== null &&
+      estimatedMinutes >= SPLIT_THRESHOLD_MINUTES &&
+      startFlexibility === "anytime" &&
+      (kind === "task" || kind === "study"));
+  const minChunk = splitAllowed
+    ? Number(chunkMatch?.[1] ?? DEFAULT_CHUNK_MINUTES)
+    : null;
+  const maxSplits = splitAllowed && estimatedMinutes !== null && minChunk
+    ? Math.min(MAX_SPLITS, Math.max(2, Math.ceil(estimatedMinutes / minChunk)))
+    : null;
+
+  const title = titleFrom(text, consumed);
+  const missing: string[] = [];
+  if (estimatedMinutes === null) missing.push("estimated_minutes");
+
+  return {
+    title,
+    estimated_minutes: estimatedMinutes,
+    deadline,
+    scheduled_time: scheduledTime,
+    execution_window: executionWindow,
+    time_preferences: timePreferences,
+    importance: {
+      urgency,
+      impact,
+      reschedule_penalty: reschedulePenalty,
+      blocking,
+      rationale: rationale.length > 0
+        ? `Local rules: ${rationale.join(", ")}.`
+        : "Local rules: no priority cues.",
+    },
+    flexibility: {
+      cannot_overlap: !OVERLAP_CUES.test(text),
+      start_flexibility: startFlexibility,
+      duration_flexibility: splitAllowed ? "split_allowed" : "fixed",
+      min_chunk_minutes: minChunk,
+      max_splits: maxSplits,
+    },
+    kind,
+    missing,
+    clarifying_question: estimatedMinutes === null
+      ? `About how long will "${title}" take?`
+      : null,
+    notes,
+    recurrence: null,
+    depends_on: null,
+    policy: null,
+  };
+}
+
+function dayOffsetOf(iso: string, reference: Date, timezone: string) {
+  const target = getLocalDateParts(new Date(iso), timezone);
+  const today = getLocalDateParts(reference, timezone);
+  return Math.round(
+    (Date.UTC(target.year, target.month - 1, target.day) -
+      Date.UTC(today.year, today.month - 1, today.day)) / 86_400_000,
+  );
+}
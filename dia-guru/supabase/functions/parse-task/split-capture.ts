@@ -0,0 +1,145 @@
+// Splits a capture that lists several tasks ("email Sam, buy milk, and finish
+// slides by 5pm") into one piece of text per task. Line breaks, bullets and
+// semicolons always separate tasks; commas and conjunctions only do when the
+// next piece starts with an action verb, so "between 2 and 4" or "call Sam and
+// Alex" stay whole.
+
+const MAX_ITEMS = 8;
+
+const ACTION_VERBS = new Set([
+  "apply",
+  "ask",
+  "book",
+  "buy",
+  "call",
+  "cancel",
+  "charge",
+  "check",
+  "clean",
+  "collect",
+  "confirm",
+  "cook",
+  "deliver",
+  "draft",
+  "drop",
+  "edit",
+  "email",
+  "feed",
+  "file",
+  "finish",
+  "fix",
+  "fold",
+  "grab",
+  "invite",
+  "iron",
+  "journal",
+  "learn",
+  "mail",
+  "meditate",
+  "meet",
+  "message",
+  "mop",
+  "order",
+  "organise",
+  "organize",
+  "pack",
+  "pay",
+  "phone",
+  "pick",
+  "plan",
+  "post",
+  "practice",
+  "practise",
+  "prep",
+  "prepare",
+  "print",
+  "read",
+  "register",
+  "renew",
+  "reply",
+  "research",
+  "reserve",
+  "respond",
+  "return",
+  "review",
+  "revise",
+  "ring",
+  "schedule",
+  "send",
+  "ship",
+  "shop",
+  "sign",
+  "start",
+  "stretch",
+  "study",
+  "submit",
+  "text",
+  "tidy",
+  "unpack",
+  "update",
+  "upload",
+  "vacuum",
+  "visit",
+  "walk",
+  "wash",
+  "water",
+  "write",
+]);
+
+const LIST_MARKER = /^\s*(?:[-*•]|\d+[.)])\s+/;
+const CONNECTOR = /^(?:and then|and also|and|then|also|plus|&)\s+/i;
+const LEAD_IN =
+  /^(?:please\s+)?(?:remind me to|i need to|i have to|i must|i should|need to|have to|remember to|don'?t forget to)\s+/i;
+// A comma, or a conjunction between words; the piece after it decides.
+const BOUNDARY = /\s*,\s*|\s+(?=(?:and|then|plus|&)\s)/gi;
+
+function wordCount(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+function stripConnector(text: string) {
+  return text.trim().replace(CONNECTOR, "").trim();
+}
+
+function startsWithAction(text: string) {
+  const first = stripConnector(text).replace(LEAD_IN, "").split(/\s+/)[0];
+  return ACTION_VERBS.has(first?.toLowerCase().replace(/[^a-z]/g, "") ?? "");
+}
+
+function splitClauses(line: string): string[] {
+  const pieces: string[] = [];
+  let start = 0;
+  for (const match of line.matchAll(BOUNDARY)) {
+    const cut = match.index!;
+    const before = line.slice(start, cut);
+    const after = line.slice(cut + match[0].length);
+    // A lone word before the cut is more likely "review and submit" than a
+    // task of its own.
+    if (
+      wordCount(stripConnector(before)) >= 2 && startsWithAction(after) &&
+      wordCount(stripConnector(after)) >= 2
+    ) {
+      pieces.push(before);
+      start = cut + match[0].length;
+    }
+  }
+  pieces.push(line.slice(start));
+  return pieces
+    .map((piece) => stripConnector(piece).replace(/[,.;\s]+$/, ""))
+    .filter(Boolean);
+}
+
+/**
+ * Returns the tasks listed in `text`, or the whole text as the only entry
+ * when it reads as a single task or lists implausibly many.
+ */
+export function splitCaptureText(text: string): string[] {
+  const whole = text.trim();
+  const pieces = whole
+    .split(/\r?\n|;/)
+    .map((line) => line.replace(LIST_MARKER, "").trim())
+    .filter(Boolean)
+    .flatMap(splitClauses);
+  if (pieces.length < 2 || pieces.length > MAX_ITEMS) return [whole];
+  return pieces;
+}
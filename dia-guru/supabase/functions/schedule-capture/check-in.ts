@@ -0,0 +1,86 @@
+// Partial-progress check-ins: the user reports how much of a session got done
+// (a percentage or the minutes still needed), and only the remainder is
+// scheduled again.
+
+import type { CaptureEntryRow } from "../types.ts";
+import type { ChunkRecord } from "./chunks.ts";
+
+const MIN_REMAINING_MINUTES = 5;
+const MAX_REMAINING_MINUTES = 480;
+const DEFAULT_ESTIMATE_MINUTES = 30;
+
+export type CheckInProgress = {
+  percentDone: number | null;
+  remainingMinutes: number;
+};
+
+function finiteNumber(value: unknown) {
+  return typeof value === "number" && Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Minutes left after a check-in. Reported minutes win over a percentage, which
+ * is applied to the capture's estimate. Returns null when the check-in says
+ * nothing is left (or nothing usable at all); the capture should then be
+ * completed instead.
+ */
+export function resolveCheckInProgress(input: {
+  estimatedMinutes: number | null;
+  percentDone?: unknown;
+  remainingMinutes?: unknown;
+}): CheckInProgress | null {
+  const percent = finiteNumber(input.percentDone);
+  const percentDone = percent !== null && percent >= 0 && percent < 100
+    ? Math.round(percent)
+    : null;
+  const reported = finiteNumber(input.remainingMinutes);
+
+  let remaining: number | null = null;
+  if (reported !== null && reported > 0) {
+    remaining = reported;
+  } else if (percentDone !== null) {
+    const estimate = input.estimatedMinutes ?? DEFAULT_ESTIMATE_MINUTES;
+    remaining = Math.round((estimate * (100 - percentDone)) / 100 / 5) * 5;
+  }
+  if (remaining === null) return null;
+
+  return {
+    percentDone,
+    remainingMinutes: Math.min(
+      MAX_REMAINING_MINUTES,
+      Math.max(MIN_REMAINING_MINUTES, Math.round(remaining)),
+    ),
+  };
+}
+
+/**
+ * The part of the capture's planned session that lies before `now`, kept as
+ * finished work when the remainder is split off. Null when the session had
+ * not started.
+ */
+export function workedChunk(
+  capture: Pick<CaptureEntryRow, "planned_start" | "planned_end">,
+  now: Date,
+): ChunkRecord | null {
+  const start = capture.planned_start ? new Date(capture.planned_start) : null;
+  const end = capture.planned_end ? new Date(capture.planned_end) : null;
+  if (!start || !end || Number.isNaN(start.getTime())) return null;
+  if (Number.isNaN(end.getTime()) || start.getTime() >= now.getTime()) {
+    return null;
+  }
+  const finished = new Date(Math.min(end.getTime(), now.getTime()));
+  return { start, end: finished, completedAt: finished };
+}
+
+export function describeCheckIn(
+  progress: CheckInProgress,
+  split: boolean,
+) {
+  const done = progress.percentDone !== null
+    ? `${progress.percentDone}% done`
+    : "Not finished";
+  const rest = split
+    ? `the remaining ${progress.remainingMinutes} min split into a new session`
+    : `${progress.remainingMinutes} min left to schedule`;
+  return `Checked in: ${done}, ${rest}.`;
+}
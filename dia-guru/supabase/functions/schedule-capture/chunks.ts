@@ -7,6 +7,11 @@ export type ChunkRecord = {
   late?: boolean;
   overlapped?: boolean;
   prime?: boolean;
+  // Set on work a check-in reported as done; such chunks are never replaced.
+  completedAt?: Date;
+  // Set on a spaced study session, which has a calendar event of its own.
+  calendarEventId?: string;
+  calendarEventEtag?: string | null;
 };
 
 export async function replaceCaptureChunks(
@@ -14,7 +19,30 @@ export async function replaceCaptureChunks(
   capture: CaptureEntryRow,
   chunks: ChunkRecord[],
 ) {
-  await admin.from("capture_chunks").delete().eq("capture_id", capture.id);
+  await admin
+    .from("capture_chunks")
+    .delete()
+    .eq("capture_id", capture.id)
+    .is("completed_at", null);
+  await insertCaptureChunks(admin, capture, chunks);
+}
+
+// Keeps the part of a session that was worked before a check-in.
+export async function recordCompletedChunk(
+  admin: SupabaseClient<Database, "public">,
+  capture: CaptureEntryRow,
+  chunk: ChunkRecord,
+) {
+  await insertCaptureChunks(admin, capture, [
+    { ...chunk, completedAt: chunk.completedAt ?? chunk.end },
+  ]);
+}
+
+async function insertCaptureChunks(
+  admin: SupabaseClient<Database, "public">,
+  capture: CaptureEntryRow,
+  chunks: ChunkRecord[],
+) {
   if (chunks.length === 0) return;
 
   const rows = chunks.map((chunk) => ({
@@ -24,10 +52,16 @@ export async function replaceCaptureChunks(
     late: chunk.late ?? false,
     overlapped: chunk.overlapped ?? false,
     prime: chunk.prime ?? true,
+    completed_at: chunk.completedAt?.toISOString() ?? null,
+    calendar_event_id: chunk.calendarEventId ?? null,
+    calendar_event_etag: chunk.calendarEventEtag ?? null,
   }));
 
   const { error } = await admin.from("capture_chunks").insert(rows);
   if (error) {
-    console.error("replaceCaptureChunks insert error", { captureId: capture.id, error });
+    console.error("insertCaptureChunks insert error", {
+      captureId: capture.id,
+      error,
+    });
   }
 }
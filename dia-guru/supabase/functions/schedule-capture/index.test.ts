@@ -1,19 +1,55 @@
-import { assert, assertEquals } from "std/assert";
+import { assert, assertEquals, assertRejects } from "std/assert";
 
+import { chronotypeCurve } from "../_shared/energy-curve.ts";
 import type { CaptureEntryRow } from "../types.ts";
 import { mapExtractionToCapture } from "../parse-task/index.ts";
-import { __test__ as scheduleCaptureTestUtils } from "./index.ts";
 import {
+  describeCheckIn,
+  resolveCheckInProgress,
+  workedChunk,
+} from "./check-in.ts";
+import {
+  __test__ as scheduleCaptureTestUtils,
+  createSessionEvents,
+} from "./index.ts";
+import {
+  isCommitDue,
+  isLongRangeCapture,
+  longRangeWindow,
+  planLongRange,
+} from "./long-range.ts";
+import {
+  buildOccurrenceInsert,
+  isSlotOnOccurrenceDay,
+  upcomingOccurrenceDates,
+} from "./occurrences.ts";
+import { planQueue } from "./queue-planner.ts";
+import { planSpacedSessions } from "./spaced-sessions.ts";
+import {
+  buildFreeBusyEvents,
+  buildOccupancyGrid,
   type CalendarEvent,
   collectConflictingEvents,
+  collectGridWindowCandidates,
+  computeBusyIntervals,
   computeSchedulingPlan,
+  findNextAvailableSlot,
+  isSlotWithinWorkingWindow,
+  placeChunksWithinRange,
   priorityForCapture,
   resolveDeadlineFromCapture,
+  resolveDependencyGate,
 } from "./scheduling-core.ts";
 import {
+  activeSchedulerConfig,
+  applySchedulerPreferences,
   computePrioritySnapshot,
   evaluatePreemptionNetGain,
+  mergeSchedulerPreferences,
+  runWithSchedulerScope,
+  schedulerConfig,
 } from "./scheduler-config.ts";
+import { createStaticTravelEstimator } from "./travel-time.ts";
 
 type Extraction = Parameters<typeof mapExtractionToCapture>[0];
 
@@ -682,8 +718,8 @@ Deno.test(
 Deno.test(
   "resolveSuggestedSlotWithinConstraints returns the next legal slot before the window closes",
   () => {
-    const result =
-      scheduleCaptureTestUtils.resolveSuggestedSlotWithinConstraints({
+    const result = scheduleCaptureTestUtils
+      .resolveSuggestedSlotWithinConstraints({
         busyIntervals: [
           {
             start: new Date("2026-04-09T15:00:00Z"),
@@ -716,8 +752,8 @@ Deno.test(
 Deno.test(
   "resolveSuggestedSlotWithinConstraints explains when the next free slot misses the deadline",
   () => {
-    const result =
-      scheduleCaptureTestUtils.resolveSuggestedSlotWithinConstraints({
+    const result = scheduleCaptureTestUtils
+      .resolveSuggestedSlotWithinConstraints({
         busyIntervals: [
           {
             start: new Date("2026-04-09T15:00:00Z"),
@@ -782,3 +818,1052 @@ Deno.test(
     );
   },
 );
+
+Deno.test("planQueue places higher priority captures first without overlaps", () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+  const urgent = makeCapture({ id: "urgent", urgency: 5, impact: 5 });
+  const casual = makeCapture({ id: "casual", urgency: 1, impact: 1 });
+
+  const result = planQueue({
+    captures: [casual, urgent],
+    events: [
+      makeEvent("meeting", "2026-03-02T08:00:00Z", "2026-03-02T09:00:00Z"),
+    ],
+    offsetMinutes: 0,
+    referenceNow,
+  });
+
+  assertEquals(
+    result.placements.map((placement) => placement.capture.id),
+    ["urgent", "casual"],
+  );
+  const [first, second] = result.placements;
+  assertEquals(first.slot.start.toISOString(), "2026-03-02T09:15:00.000Z");
+  assert(second.slot.start.getTime() >= first.slot.end.getTime());
+  assertEquals(result.unplaced, []);
+});
+
+Deno.test("planQueue reports captures whose deadline has already passed", () => {
+  const result = planQueue({
+    captures: [
+      makeCapture({
+        id: "late",
+        constraint_type: "deadline_time",
+        constraint_time: "2026-03-02T07:30:00Z",
+        deadline_at: "2026-03-02T07:30:00Z",
+      }),
+    ],
+    events: [],
+    offsetMinutes: 0,
+    referenceNow: new Date("2026-03-02T07:00:00Z"),
+  });
+
+  assertEquals(result.placements, []);
+  assertEquals(result.unplaced.map((entry) => entry.reason), [
+    "slot_exceeds_deadline",
+  ]);
+});
+
+Deno.test("planQueue places dependents after their predecessors", () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+  const draft = makeCapture({ id: "draft", urgency: 1, impact: 1 });
+  const review = makeCapture({ id: "review", urgency: 5, impact: 5 });
+  const submit = makeCapture({ id: "submit" });
+
+  const result = planQueue({
+    captures: [review, draft, submit],
+    events: [],
+    offsetMinutes: 0,
+    referenceNow,
+    dependencies: [
+      { capture_id: "review", predecessor_id: "draft" },
+      { capture_id: "submit", predecessor_id: "outline" },
+    ],
+    predecessors: [
+      {
+        id: "outline",
+        content: "Outline",
+        status: "pending",
+        planned_end: null,
+      },
+    ],
+  });
+
+  assertEquals(
+    result.placements.map((placement) => placement.capture.id),
+    ["draft", "review"],
+  );
+  const [first, second] = result.placements;
+  assert(second.slot.start.getTime() >= first.slot.end.getTime());
+  assertEquals(
+    result.unplaced.map((entry) => [entry.capture.id, entry.reason]),
+    [["submit", "predecessor_unscheduled"]],
+  );
+});
+
+Deno.test("planQueue leaves captures on a dependency cycle unplaced", () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+
+  const result = planQueue({
+    captures: [
+      makeCapture({ id: "draft", urgency: 5, impact: 5 }),
+      makeCapture({ id: "review" }),
+      makeCapture({ id: "submit" }),
+      makeCapture({ id: "email" }),
+    ],
+    events: [],
+    offsetMinutes: 0,
+    referenceNow,
+    dependencies: [
+      { capture_id: "draft", predecessor_id: "review" },
+      { capture_id: "review", predecessor_id: "draft" },
+      { capture_id: "submit", predecessor_id: "review" },
+    ],
+  });
+
+  assertEquals(
+    result.placements.map((placement) => placement.capture.id),
+    ["email"],
+  );
+  assertEquals(
+    result.unplaced.map((entry) => [entry.capture.id, entry.reason]),
+    [
+      ["draft", "dependency_cycle"],
+      ["review", "dependency_cycle"],
+      ["submit", "predecessor_unplaced"],
+    ],
+  );
+});
+
+Deno.test("createStaticTravelEstimator looks trips up in either direction", () => {
+  const estimate = createStaticTravelEstimator({
+    home: { dentist: 25 },
+    dentist: { "Main St Pharmacy": 10 },
+  });
+
+  assertEquals(estimate(null, "Dentist"), 25);
+  assertEquals(estimate("dentist", null), 25);
+  assertEquals(estimate("main st  pharmacy", "dentist"), 10);
+  assertEquals(estimate("Dentist", "dentist"), 0);
+  assertEquals(estimate("gym", "dentist"), 20);
+  assertEquals(estimate(null, null), 0);
+  // Meeting links are not somewhere to travel to.
+  assertEquals(estimate("https://zoom.us/j/123", null), 0);
+});
+
+Deno.test("computeBusyIntervals pads location-bound events with travel time", () => {
+  const estimator = createStaticTravelEstimator({ home: { dentist: 25 } });
+  const events = [
+    makeEvent("dentist", "2026-03-02T10:00:00Z", "2026-03-02T11:00:00Z", {
+      location: "Dentist",
+    }),
+    makeEvent("standup", "2026-03-02T13:00:00Z", "2026-03-02T14:00:00Z"),
+  ];
+  const describe = (intervals: { start: Date; end: Date }[]) =>
+    intervals.map(({ start, end }) =>
+      `${start.toISOString().slice(11, 16)}-${end.toISOString().slice(11, 16)}`
+    );
+
+  assertEquals(describe(computeBusyIntervals(events, 10, { estimator })), [
+    "09:35-11:25",
+    "12:50-14:10",
+  ]);
+  // Placing something at the dentist: no trip there, but one back home.
+  assertEquals(
+    describe(
+      computeBusyIntervals(events, 10, { location: "dentist", estimator }),
+    ),
+    ["09:50-11:10", "12:35-14:25"],
+  );
+});
+
+Deno.test("planQueue leaves room to travel to a location-bound capture", () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+  const meeting = makeEvent(
+    "meeting",
+    "2026-03-02T08:00:00Z",
+    "2026-03-02T09:00:00Z",
+  );
+  const travelEstimator = createStaticTravelEstimator({
+    home: { dentist: 45 },
+  });
+
+  const result = planQueue({
+    captures: [makeCapture({ id: "dentist", location: "Dentist" })],
+    events: [meeting],
+    offsetMinutes: 0,
+    referenceNow,
+    travelEstimator,
+  });
+  // 45 minutes back from the meeting's place to the dentist.
+  assertEquals(
+    result.placements[0].slot.start.toISOString(),
+    "2026-03-02T09:45:00.000Z",
+  );
+
+  const plain = planQueue({
+    captures: [makeCapture({ id: "plain" })],
+    events: [meeting],
+    offsetMinutes: 0,
+    referenceNow,
+    travelEstimator,
+  });
+  assertEquals(
+    plain.placements[0].slot.start.toISOString(),
+    "2026-03-02T09:15:00.000Z",
+  );
+});
+
+Deno.test("resolveDependencyGate waits for the latest unfinished predecessor", () => {
+  const gate = resolveDependencyGate([
+    {
+      id: "a",
+      content: "A",
+      status: "scheduled",
+      planned_end: "2026-03-02T10:00:00Z",
+    },
+    {
+      id: "b",
+      content: "B",
+      status: "scheduled",
+      planned_end: "2026-03-02T12:00:00Z",
+    },
+    {
+      id: "c",
+      content: "C",
+      status: "completed",
+      planned_end: "2026-03-03T12:00:00Z",
+    },
+  ]);
+
+  assertEquals(gate.earliestStart?.toISOString(), "2026-03-02T12:00:00.000Z");
+  assertEquals(gate.blocking, []);
+});
+
+Deno.test("buildFreeBusyEvents merges secondary calendars as external busy time", () => {
+  const busyEvents = buildFreeBusyEvents(
+    {
+      "team@group.calendar.google.com": {
+        busy: [{ start: "2026-03-02T10:00:00Z", end: "2026-03-02T11:00:00Z" }],
+      },
+      "family@group.calendar.google.com": {
+        busy: [{ start: "2026-03-02T12:00:00Z", end: "bad" }],
+        errors: [{ reason: "notFound" }],
+      },
+      "primary": {
+        busy: [{ start: "2026-03-02T09:00:00Z", end: "2026-03-02T09:30:00Z" }],
+      },
+    },
+    ["primary"],
+  );
+  assertEquals(busyEvents.length, 1);
+
+  const grid = buildOccupancyGrid({
+    events: [
+      makeEvent("dg", "2026-03-02T08:00:00Z", "2026-03-02T08:30:00Z", {
+        extendedProperties: { private: { diaGuru: "true" } },
+      }),
+      ...busyEvents,
+    ],
+    offsetMinutes: 0,
+    referenceNow: new Date("2026-03-02T07:00:00Z"),
+    days: 1,
+  });
+  assertEquals(grid.stats.diaguru, 2);
+  assertEquals(grid.stats.external, 4);
+});
+
+Deno.test("mergeSchedulerPreferences keeps only valid user overrides", () => {
+  const merged = mergeSchedulerPreferences(schedulerConfig, {
+    user_id: "user_1",
+    working_hours: {
+      mon: { start_hour: 18, end_hour: 24 },
+      tue: { start_hour: 22, end_hour: 6 },
+      wed: { start_hour: 10, end_hour: 10 },
+      thu: { start_hour: 9, end_hour: 25 },
+    },
+    time_of_day_bands: {
+      deep_work: [{ start: 20, end: 23 }],
+      admin: [{ start: 30, end: 10 }],
+    },
+    buffer_minutes: 5,
+    max_moves_per_run: 99,
+  });
+
+  assertEquals(merged.workingWindowByWeekday, {
+    1: { startHour: 18, endHour: 24 },
+    2: { startHour: 22, endHour: 30 },
+  });
+  assertEquals(merged.timeOfDayDefaults.deep_work, [{ start: 20, end: 23 }]);
+  assertEquals(
+    merged.timeOfDayDefaults.admin,
+    schedulerConfig.timeOfDayDefaults.admin,
+  );
+  assertEquals(merged.buffers.minutes, 5);
+  assertEquals(
+    merged.limits.maxMovedTasksPerRun,
+    schedulerConfig.limits.maxMovedTasksPerRun,
+  );
+});
+
+Deno.test("scheduler preferences apply per weekday inside a request scope", async () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z"); // Monday
+  await runWithSchedulerScope(() => {
+    applySchedulerPreferences({
+      user_id: "user_1",
+      working_hours: { mon: { start_hour: 18, end_hour: 24 } },
+      time_of_day_bands: null,
+      buffer_minutes: null,
+      max_moves_per_run: null,
+    });
+
+    const grid = buildOccupancyGrid({
+      events: [],
+      offsetMinutes: 0,
+      referenceNow,
+      days: 2,
+    });
+    assertEquals(grid.start.toISOString(), "2026-03-02T18:00:00.000Z");
+    assertEquals(grid.days[0].stats.free, 24);
+    assertEquals(grid.days[1].stats.free, 56);
+
+    const result = planQueue({
+      captures: [makeCapture({ id: "night" })],
+      events: [],
+      offsetMinutes: 0,
+      referenceNow,
+    });
+    assertEquals(
+      result.placements[0].slot.start.toISOString(),
+      "2026-03-02T18:00:00.000Z",
+    );
+    return Promise.resolve();
+  });
+
+  assertEquals(activeSchedulerConfig(), schedulerConfig);
+});
+
+Deno.test("overnight working hours run into the next morning", async () => {
+  const referenceNow = new Date("2026-03-03T02:00:00Z"); // Tuesday
+  await runWithSchedulerScope(() => {
+    applySchedulerPreferences({
+      user_id: "user_1",
+      working_hours: {
+        mon: { start_hour: 22, end_hour: 6 },
+        tue: { start_hour: 22, end_hour: 6 },
+      },
+      time_of_day_bands: null,
+      buffer_minutes: null,
+      max_moves_per_run: null,
+    });
+
+    // Monday's shift is still running at 02:00 on Tuesday.
+    const tail = findNextAvailableSlot([], 60, 0, { referenceNow });
+    assertEquals(tail?.start.toISOString(), "2026-03-03T02:05:00.000Z");
+
+    // Five hours no longer fit before 06:00, so Tuesday night's shift wins.
+    const next = findNextAvailableSlot([], 300, 0, { referenceNow });
+    assertEquals(next?.start.toISOString(), "2026-03-03T22:00:00.000Z");
+    assertEquals(
+      isSlotWithinWorkingWindow(
+        {
+          start: new Date("2026-03-03T05:00:00Z"),
+          end: new Date("2026-03-03T07:00:00Z"),
+        },
+        0,
+      ),
+      false,
+    );
+
+    const grid = buildOccupancyGrid({
+      events: [],
+      offsetMinutes: 0,
+      referenceNow,
+      days: 1,
+    });
+    assertEquals(grid.start.toISOString(), "2026-03-02T22:00:00.000Z");
+    assertEquals(grid.days[0].stats.free, 32);
+    return Promise.resolve();
+  });
+});
+
+Deno.test("a declared chronotype sends deep work to the peak and admin to the dips", async () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+  await runWithSchedulerScope(() => {
+    const config = applySchedulerPreferences({
+      user_id: "user_1",
+      working_hours: null,
+      time_of_day_bands: { admin: [{ start: 13, end: 15 }] },
+      buffer_minutes: null,
+      max_moves_per_run: null,
+      chronotype: "late",
+    });
+    assertEquals(config.energy.source, "declared");
+    assertEquals(config.timeOfDayDefaults.deep_work, [{ start: 16, end: 22 }]);
+    assertEquals(config.timeOfDayDefaults.errand, [
+      { start: 8, end: 11 },
+      { start: 13, end: 15 },
+    ]);
+    // Bands the user set by hand beat the curve.
+    assertEquals(config.timeOfDayDefaults.admin, [{ start: 13, end: 15 }]);
+
+    const result = planQueue({
+      captures: [
+        makeCapture({ id: "focus", task_type_hint: "deep_work" }),
+        makeCapture({ id: "shop", task_type_hint: "errand" }),
+      ],
+      events: [],
+      offsetMinutes: 0,
+      referenceNow,
+    });
+    const starts = Object.fromEntries(
+      result.placements.map((placement) => [
+        placement.capture.id,
+        placement.slot.start.toISOString(),
+      ]),
+    );
+    assertEquals(starts, {
+      focus: "2026-03-02T16:00:00.000Z",
+      shop: "2026-03-02T08:00:00.000Z",
+    });
+    return Promise.resolve();
+  });
+});
+
+Deno.test("energy bands follow the per-weekday working hours", async () => {
+  const referenceNow = new Date("2026-03-07T05:00:00Z"); // Saturday
+  await runWithSchedulerScope(() => {
+    const config = applySchedulerPreferences({
+      user_id: "user_1",
+      working_hours: { sat: { start_hour: 6, end_hour: 14 } },
+      time_of_day_bands: null,
+      buffer_minutes: null,
+      max_moves_per_run: null,
+      chronotype: "early",
+    });
+    // The 07:00 peak is outside the default 08:00 start but inside Saturday's.
+    assertEquals(config.timeOfDayDefaults.deep_work, [{ start: 7, end: 13 }]);
+
+    const result = planQueue({
+      captures: [makeCapture({ id: "focus", task_type_hint: "deep_work" })],
+      events: [],
+      offsetMinutes: 0,
+      referenceNow,
+    });
+    assertEquals(
+      result.placements[0].slot.start.toISOString(),
+      "2026-03-07T07:00:00.000Z",
+    );
+    return Promise.resolve();
+  });
+});
+
+Deno.test("collectGridWindowCandidates ranks windows by energy fit", () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+  const grid = buildOccupancyGrid({
+    events: [],
+    offsetMinutes: 0,
+    referenceNow,
+    days: 1,
+  });
+  const curve = chronotypeCurve("early")!;
+
+  const byTime = collectGridWindowCandidates({
+    grid,
+    durationMinutes: 60,
+    referenceNow,
+    limit: 2,
+  });
+  assertEquals(byTime[0].slot.start.toISOString(), "2026-03-02T08:00:00.000Z");
+  assertEquals(byTime[0].energyFit, undefined);
+
+  const focused = collectGridWindowCandidates({
+    grid,
+    durationMinutes: 60,
+    referenceNow,
+    limit: 2,
+    energy: { curve, demand: "high", offsetMinutes: 0 },
+  });
+  assertEquals(focused.length, 2);
+  assertEquals(focused[0].slot.start.toISOString(), "2026-03-02T09:00:00.000Z");
+  assertEquals(focused[0].energyFit, 1);
+
+  const admin = collectGridWindowCandidates({
+    grid,
+    durationMinutes: 60,
+    referenceNow,
+    limit: 1,
+    energy: { curve, demand: "low", offsetMinutes: 0 },
+  });
+  assertEquals(admin[0].slot.start.toISOString(), "2026-03-02T21:00:00.000Z");
+});
+
+Deno.test("buildScheduleExplanation says when a slot matches the energy curve", async () => {
+  await runWithSchedulerScope(() => {
+    applySchedulerPreferences({
+      user_id: "user_1",
+      working_hours: null,
+      time_of_day_bands: null,
+      buffer_minutes: null,
+      max_moves_per_run: null,
+      chronotype: "early",
+    });
+    const slot = makeSlot("2026-04-09T09:00:00Z", "2026-04-09T10:00:00Z");
+    const explanation = scheduleCaptureTestUtils.buildScheduleExplanation({
+      plan: {
+        mode: "flexible",
+        preferredSlot: null,
+        deadline: null,
+        window: null,
+      },
+      slot,
+      capturePriority: 12,
+      durationMinutes: 60,
+      enforceWorkingWindow: true,
+      resolvedDeadline: null,
+      preferredSlot: null,
+      decisionPath: ["plan_candidate"],
+      energy: {
+        curve: chronotypeCurve("early")!,
+        demand: "high",
+        offsetMinutes: 0,
+      },
+    });
+    assert(
+      explanation.reasons.includes(
+        "Placed in your peak-energy hours, based on your chronotype.",
+      ),
+    );
+    return Promise.resolve();
+  });
+});
+
+Deno.test("planQueue spills deep work to the next day once the daily cap is full", () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z"); // Monday
+  const result = planQueue({
+    captures: [makeCapture({ id: "focus", task_type_hint: "deep_work" })],
+    events: [],
+    offsetMinutes: 0,
+    referenceNow,
+    workload: [{
+      start: new Date("2026-03-02T13:00:00Z"),
+      end: new Date("2026-03-02T17:00:00Z"),
+      taskType: "deep_work",
+    }],
+  });
+
+  const [placement] = result.placements;
+  assertEquals(placement.slot.start.toISOString(), "2026-03-03T08:00:00.000Z");
+  assertEquals(placement.capHits, [{
+    scope: "daily",
+    taskType: "deep_work",
+    limitMinutes: 240,
+    bookedMinutes: 240,
+    period: "2026-03-02",
+  }]);
+
+  const explanation = scheduleCaptureTestUtils.buildScheduleExplanation({
+    plan: placement.plan,
+    slot: placement.slot,
+    capturePriority: placement.priority.score,
+    durationMinutes: placement.durationMinutes,
+    enforceWorkingWindow: true,
+    resolvedDeadline: null,
+    preferredSlot: null,
+    decisionPath: ["plan_queue", "plan_candidate"],
+    capHits: placement.capHits,
+  });
+  assert(
+    explanation.reasons.includes(
+      "Moved past 2026-03-02: your 4h daily cap on deep work was reached.",
+    ),
+  );
+});
+
+Deno.test("workload caps come from preferences and can be lifted", async () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z"); // Monday
+  await runWithSchedulerScope(() => {
+    const config = applySchedulerPreferences({
+      user_id: "user_1",
+      working_hours: null,
+      time_of_day_bands: null,
+      buffer_minutes: null,
+      max_moves_per_run: null,
+      daily_cap_minutes: { deep_work: 0, errand: 60 },
+      weekly_cap_minutes: 120,
+    });
+    assertEquals(config.workloadCaps, {
+      dailyMinutes: { admin: 120, errand: 60 },
+      weeklyMinutes: 120,
+    });
+
+    const result = planQueue({
+      captures: [makeCapture({ id: "focus", task_type_hint: "deep_work" })],
+      events: [],
+      offsetMinutes: 0,
+      referenceNow,
+      workload: [{
+        start: new Date("2026-03-03T09:00:00Z"),
+        end: new Date("2026-03-03T10:30:00Z"),
+        taskType: "admin",
+      }],
+    });
+    assertEquals(result.placements, []);
+    assertEquals(result.unplaced[0].reason, "workload_cap");
+    assertEquals(result.unplaced[0].capHits?.[0].scope, "weekly");
+    return Promise.resolve();
+  });
+});
+
+Deno.test("placeChunksWithinRange counts its own chunks against the daily cap", () => {
+  const placement = placeChunksWithinRange({
+    chunkDurations: [90, 90],
+    busyIntervals: [],
+    offsetMinutes: 0,
+    rangeStart: new Date("2026-03-02T08:00:00Z"),
+    rangeEnd: new Date("2026-03-04T22:00:00Z"),
+    workload: {
+      caps: { dailyMinutes: { admin: 120 }, weeklyMinutes: null },
+      taskType: "admin",
+      entries: [],
+      offsetMinutes: 0,
+      hits: [],
+    },
+  });
+
+  assertEquals(
+    placement?.records.map((record) => record.start.toISOString()),
+    ["2026-03-02T08:00:00.000Z", "2026-03-03T08:00:00.000Z"],
+  );
+});
+
+Deno.test("planLongRange spreads far-deadline captures across the weeks before the deadline", () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z"); // Monday
+  const farCapture = (id: string, created_at: string) =>
+    makeCapture({
+      id,
+      created_at,
+      estimated_minutes: 120,
+      constraint_type: "deadline_time",
+      deadline_at: "2026-03-23T00:00:00Z",
+    });
+  const result = planLongRange({
+    captures: [
+      farCapture("a", "2026-03-01T00:00:00Z"),
+      farCapture("b", "2026-03-01T01:00:00Z"),
+      farCapture("c", "2026-03-01T02:00:00Z"),
+    ],
+    busyIntervals: computeBusyIntervals([
+      makeEvent("offsite", "2026-03-16T08:00:00Z", "2026-03-16T20:00:00Z"),
+    ]),
+    offsetMinutes: 0,
+    referenceNow,
+  });
+
+  assertEquals(result.unplaced, []);
+  assertEquals(
+    result.placements.map((placement) => [
+      placement.capture.id,
+      placement.slot.start.toISOString(),
+    ]),
+    [
+      ["a", "2026-03-09T08:00:00.000Z"],
+      ["b", "2026-03-17T08:00:00.000Z"],
+      ["c", "2026-03-09T10:15:00.000Z"],
+    ],
+  );
+  // Weeks past the deadline are left alone.
+  assertEquals(result.weeks[2].loadMinutes, 0);
+});
+
+Deno.test("the commitment window decides which deadlines are pencilled in", async () => {
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+  const dueFriday = makeCapture({
+    constraint_type: "deadline_time",
+    deadline_at: "2026-03-06T17:00:00Z",
+  });
+  assertEquals(isLongRangeCapture(dueFriday, 0, referenceNow), false);
+  assertEquals(
+    isLongRangeCapture(
+      makeCapture({
+        constraint_type: "window",
+        constraint_time: "2026-03-20T09:00:00Z",
+        constraint_end: "2026-03-20T17:00:00Z",
+      }),
+      0,
+      referenceNow,
+    ),
+    false,
+  );
+
+  await runWithSchedulerScope(() => {
+    applySchedulerPreferences({
+      user_id: "user_1",
+      working_hours: null,
+      time_of_day_bands: null,
+      buffer_minutes: null,
+      max_moves_per_run: null,
+      commitment_window_days: 3,
+    });
+    const window = longRangeWindow(referenceNow);
+    assertEquals(window.commitEnd.toISOString(), "2026-03-05T07:00:00.000Z");
+    assertEquals(isLongRangeCapture(dueFriday, 0, referenceNow), true);
+
+    const pencilled = (planned_start: string, planned_end: string) =>
+      makeCapture({ status: "pencilled", planned_start, planned_end });
+    assertEquals(
+      isCommitDue(
+        pencilled("2026-03-04T15:00:00Z", "2026-03-04T16:00:00Z"),
+        window,
+      ),
+      true,
+    );
+    assertEquals(
+      isCommitDue(
+        pencilled("2026-03-05T15:00:00Z", "2026-03-05T16:00:00Z"),
+        window,
+      ),
+      false,
+    );
+    return Promise.resolve();
+  });
+});
+
+Deno.test("planQueue commits a due pencilled capture at its pencilled slot", () => {
+  const result = planQueue({
+    captures: [
+      makeCapture({
+        id: "report",
+        status: "pencilled",
+        planned_start: "2026-03-04T15:00:00Z",
+        planned_end: "2026-03-04T16:00:00Z",
+      }),
+    ],
+    events: [],
+    offsetMinutes: 0,
+    referenceNow: new Date("2026-03-02T07:00:00Z"),
+  });
+
+  assertEquals(
+    result.placements[0].slot.start.toISOString(),
+    "2026-03-04T15:00:00.000Z",
+  );
+});
+
+Deno.test("planQueue spreads a study capture over the days before its deadline", () => {
+  const result = planQueue({
+    captures: [
+      makeCapture({
+        id: "exam",
+        estimated_minutes: 180,
+        extraction_kind: "study",
+        constraint_type: "deadline_time",
+        deadline_at: "2026-03-05T22:00:00Z",
+      }),
+      makeCapture({ id: "recap", estimated_minutes: 30 }),
+    ],
+    events: [],
+    offsetMinutes: 0,
+    referenceNow: new Date("2026-03-02T07:00:00Z"),
+    dependencies: [{ capture_id: "recap", predecessor_id: "exam" }],
+  });
+
+  const [placement, recap] = result.placements;
+  assertEquals(
+    placement.sessions?.map((session) => session.start.toISOString()),
+    [
+      "2026-03-02T08:00:00.000Z",
+      "2026-03-03T12:00:00.000Z",
+      "2026-03-04T17:00:00.000Z",
+    ],
+  );
+  // The capture is planned as its first session; dependents wait for the
+  // last one.
+  assertEquals(placement.slot.end.toISOString(), "2026-03-02T09:00:00.000Z");
+  assertEquals(recap.capture.id, "recap");
+  assert(
+    recap.slot.start.getTime() >= placement.sessions!.at(-1)!.end.getTime(),
+  );
+
+  const explanation = scheduleCaptureTestUtils.buildScheduleExplanation({
+    plan: placement.plan,
+    slot: placement.slot,
+    capturePriority: placement.priority.score,
+    durationMinutes: placement.durationMinutes,
+    enforceWorkingWindow: true,
+    resolvedDeadline: placement.plan.deadline ?? null,
+    preferredSlot: null,
+    decisionPath: ["plan_queue", "plan_candidate"],
+    sessions: placement.sessions,
+  });
+  assert(
+    explanation.reasons.includes(
+      "Split into 3 study sessions at least 20h apart before the deadline.",
+    ),
+  );
+});
+
+Deno.test("planSpacedSessions honours max_splits and skips single sessions", () => {
+  const rangeStart = new Date("2026-03-02T07:00:00Z");
+  const plan = {
+    mode: "deadline" as const,
+    preferredSlot: null,
+    deadline: new Date("2026-03-05T22:00:00Z"),
+  };
+  const study = (overrides: Partial<CaptureEntryRow>) =>
+    makeCapture({ task_type_hint: "study", ...overrides });
+  const place = (capture: CaptureEntryRow, durationMinutes: number) =>
+    planSpacedSessions({
+      capture,
+      plan,
+      durationMinutes,
+      busyIntervals: [],
+      offsetMinutes: 0,
+      rangeStart,
+    });
+
+  assertEquals(
+    place(study({ max_splits: 2 }), 180)?.map((session) => [
+      session.start.toISOString(),
+      session.end.toISOString(),
+    ]),
+    [
+      ["2026-03-02T08:00:00.000Z", "2026-03-02T09:30:00.000Z"],
+      ["2026-03-04T08:00:00.000Z", "2026-03-04T09:30:00.000Z"],
+    ],
+  );
+  assertEquals(place(study({}), 45), null);
+  assertEquals(place(makeCapture({ task_type_hint: "admin" }), 180), null);
+});
+
+Deno.test("planSpacedSessions spreads up to a far deadline within the horizon", () => {
+  const rangeStart = new Date("2026-03-02T07:00:00Z");
+  const place = (deadline: string) =>
+    planSpacedSessions({
+      capture: makeCapture({ task_type_hint: "study", max_splits: 3 }),
+      plan: {
+        mode: "deadline" as const,
+        preferredSlot: null,
+        deadline: new Date(deadline),
+      },
+      durationMinutes: 180,
+      busyIntervals: [],
+      offsetMinutes: 0,
+      rangeStart,
+    })?.map((session) => session.start.toISOString());
+
+  // Past the week a slot search covers.
+  assertEquals(place("2026-03-30T22:00:00Z"), [
+    "2026-03-02T08:00:00.000Z",
+    "2026-03-11T20:00:00.000Z",
+    "2026-03-21T09:00:00.000Z",
+  ]);
+  // Cut at the end of the long-range horizon, 2026-04-27.
+  assertEquals(place("2026-09-30T22:00:00Z"), [
+    "2026-03-02T08:00:00.000Z",
+    "2026-03-21T08:00:00.000Z",
+    "2026-04-08T15:00:00.000Z",
+  ]);
+});
+
+Deno.test("createSessionEvents books one tagged event per session", async () => {
+  const created: { id: string; chunkIndex?: number }[] = [];
+  const deleted: string[] = [];
+  const calendar = {
+    accountId: 1,
+    listEvents: () => Promise.resolve([]),
+    getEvent: () => Promise.resolve(null),
+    createEvent: ({ chunkIndex }: { chunkIndex?: number }) => {
+      if (chunkIndex === 2) throw new Error("quota");
+      const id = `evt-${chunkIndex}`;
+      created.push({ id, chunkIndex });
+      return Promise.resolve({ id, etag: `"${chunkIndex}"` });
+    },
+    deleteEvent: ({ eventId }: { eventId: string }) => {
+      deleted.push(eventId);
+      return Promise.resolve();
+    },
+  };
+  const session = (start: string, end: string) => ({
+    start: new Date(start),
+    end: new Date(end),
+  });
+  const sessions = [
+    session("2026-03-02T08:00:00Z", "2026-03-02T09:00:00Z"),
+    session("2026-03-03T12:00:00Z", "2026-03-03T13:00:00Z"),
+  ];
+  const options = {
+    capture: makeCapture({ id: "exam" }),
+    planId: "plan_1",
+    actionId: "action_1",
+    priorityScore: 1,
+  };
+
+  const booked = await createSessionEvents(calendar, { ...options, sessions });
+  assertEquals(
+    booked.map((chunk) => [chunk.calendarEventId, chunk.calendarEventEtag]),
+    [["evt-0", '"0"'], ["evt-1", '"1"']],
+  );
+  assertEquals(deleted, []);
+
+  // A failed session takes the events booked before it along.
+  await assertRejects(() =>
+    createSessionEvents(calendar, {
+      ...options,
+      sessions: [
+        ...sessions,
+        session("2026-03-04T17:00:00Z", "2026-03-04T18:00:00Z"),
+      ],
+    })
+  );
+  assertEquals(deleted, ["evt-0", "evt-1"]);
+});
+
+Deno.test("resolveCheckInProgress shrinks the estimate to what is left", () => {
+  assertEquals(
+    resolveCheckInProgress({ estimatedMinutes: 90, percentDone: 40 }),
+    { percentDone: 40, remainingMinutes: 55 },
+  );
+  // Reported minutes win over the percentage.
+  assertEquals(
+    resolveCheckInProgress({
+      estimatedMinutes: 90,
+      percentDone: 40,
+      remainingMinutes: 20,
+    }),
+    { percentDone: 40, remainingMinutes: 20 },
+  );
+  assertEquals(
+    resolveCheckInProgress({ estimatedMinutes: null, percentDone: 90 }),
+    { percentDone: 90, remainingMinutes: 5 },
+  );
+  // Nothing left, or nothing usable: complete the capture instead.
+  assertEquals(
+    resolveCheckInProgress({ estimatedMinutes: 60, percentDone: 100 }),
+    null,
+  );
+  assertEquals(
+    resolveCheckInProgress({ estimatedMinutes: 60, remainingMinutes: "soon" }),
+    null,
+  );
+});
+
+Deno.test("workedChunk keeps the part of the session before the check-in", () => {
+  const capture = {
+    planned_start: "2026-03-02T09:00:00Z",
+    planned_end: "2026-03-02T10:00:00Z",
+  };
+
+  const midway = workedChunk(capture, new Date("2026-03-02T09:40:00Z"));
+  assertEquals(midway?.start.toISOString(), "2026-03-02T09:00:00.000Z");
+  assertEquals(midway?.end.toISOString(), "2026-03-02T09:40:00.000Z");
+  assertEquals(midway?.completedAt, midway?.end);
+
+  const after = workedChunk(capture, new Date("2026-03-02T11:15:00Z"));
+  assertEquals(after?.end.toISOString(), "2026-03-02T10:00:00.000Z");
+
+  assertEquals(workedChunk(capture, new Date("2026-03-02T08:30:00Z")), null);
+  assertEquals(
+    workedChunk({ planned_start: null, planned_end: null }, new Date()),
+    null,
+  );
+});
+
+Deno.test("describeCheckIn says what was kept and what gets scheduled", () => {
+  assertEquals(
+    describeCheckIn({ percentDone: 40, remainingMinutes: 55 }, false),
+    "Checked in: 40% done, 55 min left to schedule.",
+  );
+  assertEquals(
+    describeCheckIn({ percentDone: null, remainingMinutes: 20 }, true),
+    "Checked in: Not finished, the remaining 20 min split into a new session.",
+  );
+});
+
+Deno.test("upcomingOccurrenceDates lists the next dates of a long-running series", () => {
+  const template = makeCapture({
+    id: "series",
+    recurrence_rule: "FREQ=WEEKLY;BYDAY=TU,TH",
+    recurrence_exceptions: ["2026-03-10"],
+    constraint_type: "start_time",
+    constraint_time: "2023-01-03T07:30:00Z",
+    start_target_at: "2023-01-03T07:30:00Z",
+  });
+  const referenceNow = new Date("2026-03-02T07:00:00Z");
+
+  assertEquals(upcomingOccurrenceDates(template, 0, referenceNow), [
+    "2026-03-03",
+    "2026-03-05",
+    "2026-03-12",
+  ]);
+  assertEquals(
+    upcomingOccurrenceDates(
+      makeCapture({ recurrence_rule: "FREQ=YEARLY" }),
+      0,
+      referenceNow,
+    ),
+    [],
+  );
+});
+
+Deno.test("buildOccurrenceInsert carries the start time or spans the working day", () => {
+  const anchored = buildOccurrenceInsert(
+    makeCapture({
+      id: "series",
+      recurrence_rule: "FREQ=DAILY",
+      constraint_type: "start_time",
+      constraint_time: "2026-03-02T06:15:00Z",
+      start_target_at: "2026-03-02T06:15:00Z",
+    }),
+    "2026-03-10",
+    0,
+  );
+  assertEquals(anchored.constraint_type, "start_time");
+  assertEquals(anchored.start_target_at, "2026-03-10T06:15:00.000Z");
+  assertEquals(anchored.window_start, "2026-03-10T00:00:00.000Z");
+  assertEquals(anchored.window_end, "2026-03-11T00:00:00.000Z");
+  assertEquals(anchored.recurrence_parent_id, "series");
+  assertEquals(anchored.occurrence_date, "2026-03-10");
+  assertEquals(anchored.recurrence_rule, null);
+  assertEquals(anchored.status, "pending");
+
+  // Local working hours 08:00-22:00 at UTC+1.
+  const flexible = buildOccurrenceInsert(
+    makeCapture({ id: "series", recurrence_rule: "FREQ=DAILY" }),
+    "2026-03-10",
+    60,
+  );
+  assertEquals(flexible.constraint_type, "window");
+  assertEquals(flexible.window_start, "2026-03-10T07:00:00.000Z");
+  assertEquals(flexible.window_end, "2026-03-10T21:00:00.000Z");
+});
+
+Deno.test("isSlotOnOccurrenceDay keeps occurrences inside their day window", () => {
+  const occurrence = makeCapture({
+    ...buildOccurrenceInsert(
+      makeCapture({ id: "series", recurrence_rule: "FREQ=DAILY" }),
+      "2026-03-10",
+      0,
+    ),
+    id: "occurrence",
+  });
+
+  assert(
+    isSlotOnOccurrenceDay(
+      occurrence,
+      makeSlot("2026-03-10T08:00:00Z", "2026-03-10T09:00:00Z"),
+    ),
+  );
+  assert(
+    !isSlotOnOccurrenceDay(
+      occurrence,
+      makeSlot("2026-03-10T21:30:00Z", "2026-03-10T22:30:00Z"),
+    ),
+  );
+  assert(
+    isSlotOnOccurrenceDay(
+      makeCapture(),
+      makeSlot("2026-03-10T21:30:00Z", "2026-03-10T22:30:00Z"),
+    ),
+  );
+});
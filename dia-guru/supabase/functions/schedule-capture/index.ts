@@ -1,19 +1,107 @@
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import {
+  type CalendarClientCredentials,
+  refreshCalendarAccess,
+  resolveCalendarClient,
+  setCalendarReconnectFlag,
+} from "../_shared/calendar-client.ts";
+import {
+  CalendarProviderError,
+  type NewProviderEvent,
+  providerCalendarId,
+} from "../_shared/calendar-provider.ts";
 import { json, maybeHandleCors } from "../_shared/cors.ts";
-import type { CalendarTokenRow, CaptureEntryRow, Database } from "../types.ts";
-import { replaceCaptureChunks } from "./chunks.ts";
 import {
+  type DurationSample,
+  learnedDuration,
+  loadDurationSamples,
+  normalizeTaskType,
+  recordDurationSample,
+  withDurationAdjustment,
+} from "../_shared/duration-learning.ts";
+import {
+  chronotypeCurve,
+  learnEnergyCurve,
+  loadEnergySamples,
+  PEAK_LEVEL,
+  slotEnergy,
+  TROUGH_LEVEL,
+} from "../_shared/energy-curve.ts";
+import {
+  completeJson,
+  type JsonSchema,
+  type LlmCallMetrics,
+  type LlmCallOptions,
+  type LlmProvider,
+  LlmProviderError,
+  resolveLlmProvider,
+} from "../_shared/llm-provider.ts";
+import {
+  enqueueNotificationJobs,
+  enqueueUserNotificationJobs,
+} from "../_shared/notification-jobs.ts";
+import type {
+  CaptureChunkRow,
+  CaptureDependencyRow,
+  CaptureEntryRow,
+  Database,
+  UserSchedulerPreferencesRow,
+} from "../types.ts";
+import {
+  describeCheckIn,
+  resolveCheckInProgress,
+  workedChunk,
+} from "./check-in.ts";
+import {
+  type ChunkRecord,
+  recordCompletedChunk,
+  replaceCaptureChunks,
+} from "./chunks.ts";
+import {
+  buildOccurrenceInsert,
+  isRecurringOccurrence,
+  isRecurringTemplate,
+  isSlotOnOccurrenceDay,
+  localDateKey,
+  upcomingOccurrenceDates,
+} from "./occurrences.ts";
+import {
+  isCommitDue,
+  isLongRangeCapture,
+  type LongRangePlacement,
+  longRangeWindow,
+  pencilledSlot,
+  planLongRange,
+} from "./long-range.ts";
+import { planQueue } from "./queue-planner.ts";
+import {
+  describeSpacedSessions,
+  isSpacedStudyCapture,
+  planSpacedSessions,
+} from "./spaced-sessions.ts";
+import {
+  describeWorkloadCapHit,
+  type WorkloadCapHit,
+  type WorkloadEntry,
+} from "./workload-caps.ts";
+import {
+  activeSchedulerConfig,
+  applySchedulerPreferences,
   computeRigidityScore,
   evaluatePreemptionNetGain,
   logSchedulerEvent,
+  runWithSchedulerScope,
   schedulerConfig,
 } from "./scheduler-config.ts";
 
 import {
+  addDays,
   addMinutes,
-  BUFFER_MINUTES,
+  activeBufferMinutes,
   buildChunksForSlot,
   buildDeadlineFailurePayload,
+  buildDependencyGateEvent,
+  buildFreeBusyEvents,
   buildOccupancyGrid,
   buildPreemptionDisplacements,
   type CalendarEvent,
@@ -25,25 +113,32 @@ import {
   type ConflictDecision,
   type ConflictSummary,
   DEFAULT_MIN_CHUNK_MINUTES,
+  type DependencyGate,
+  deriveEnergyScoring,
   derivePreferredTimeOfDayBands,
   detectRoutineKind,
+  type EnergyScoring,
   findLatePlacementSlot,
   findNextAvailableSlot,
   generateChunkDurations,
   type GridPreemptionChoice,
   type GridWindowCandidate,
   hasActiveFreeze,
+  isSlotAfterPredecessors,
   isSlotFree,
   isSlotWithinConstraints,
   isSlotWithinWorkingWindow,
   normalizeRoutineCapture,
+  parseIsoDate,
   parsePreferredSlot,
   placeChunksWithinRange,
+  type PredecessorSnapshot,
   type PreferredSlot,
   priorityForCapture,
   readCannotOverlapFromNotes,
   registerInterval,
   resolveDeadlineFromCapture,
+  resolveDependencyGate,
   sanitizedEstimatedMinutes,
   type ScheduleDecision,
   ScheduleError,
@@ -57,6 +152,7 @@ import {
   SLOT_INCREMENT_MINUTES,
   summarizeWindowCapacity,
   withinStabilityWindow,
+  workloadBudgetFor,
 } from "./scheduling-core.ts";
 
 const GOOGLE_CALENDAR_ID =
@@ -67,26 +163,23 @@ const BENCHMARK_GOOGLE_CALENDAR_ID = (
 const BENCHMARK_SHARED_SECRET = (
   Deno.env.get("BENCHMARK_SHARED_SECRET") ?? ""
 ).trim();
-const GOOGLE_TOKEN = "https://oauth2.googleapis.com/token";
-
-type GoogleCalendarTarget = {
+type CalendarTarget = {
   calendarId: string;
   scope: "default" | "benchmark";
-  eventsUrl: string;
 };
 
-type CalendarClientCredentials = {
+type CalendarActions = {
+  /** The linked account new events are created on. */
   accountId: number;
-  accessToken: string;
-  refreshToken: string | null;
-  refreshed: boolean;
-};
-
-type GoogleCalendarActions = {
   listEvents: (timeMin: string, timeMax: string) => Promise<CalendarEvent[]>;
+  /**
+   * Deletes an event; `accountId` names the account it was created on when
+   * that may not be the one this client schedules into.
+   */
   deleteEvent: (options: {
     eventId: string;
     etag?: string | null;
+    accountId?: number | null;
   }) => Promise<void>;
   createEvent: (options: {
     capture: CaptureEntryRow;
@@ -95,16 +188,12 @@ type GoogleCalendarActions = {
     actionId: string;
     priorityScore: number;
     description?: string;
+    // Set on the events of spaced study sessions, in session order.
+    chunkIndex?: number;
   }) => Promise<{ id: string; etag: string | null }>;
   getEvent: (eventId: string) => Promise<CalendarEvent | null>;
 };
 
-type LlmConfig = {
-  baseUrl: string;
-  apiKey: string;
-  model: string;
-};
-
 type AdvisorResult = {
   advisor: {
     action: "suggest_slot" | "ask_overlap" | "defer";
@@ -115,6 +204,7 @@ type AdvisorResult = {
     llmAttempted: boolean;
     llmModel?: string | null;
     llmError?: string | null;
+    llmMetrics?: LlmCallMetrics | null;
   };
 };
 
@@ -139,6 +229,7 @@ type CaptureSnapshot = {
   calendar_event_etag: string | null;
   freeze_until: string | null;
   plan_id: string | null;
+  estimated_minutes: number | null;
 };
 
 type PlanActionRecord = {
@@ -146,7 +237,7 @@ type PlanActionRecord = {
   actionId: string;
   captureId: string;
   captureContent: string;
-  actionType: "unscheduled" | "scheduled" | "rescheduled";
+  actionType: "unscheduled" | "scheduled" | "rescheduled" | "overdue";
   prev: CaptureSnapshot;
   next: CaptureSnapshot;
 };
@@ -334,31 +425,23 @@ function buildPreferredSlotConstraintFailurePayload(args: {
   };
 }
 
-function buildGoogleCalendarTarget(
+function buildCalendarTarget(
   calendarId: string,
-  scope: GoogleCalendarTarget["scope"],
-): GoogleCalendarTarget {
-  const normalizedCalendarId = calendarId.trim() || "primary";
-  const encodedCalendarId = encodeURIComponent(normalizedCalendarId);
-  return {
-    calendarId: normalizedCalendarId,
-    scope,
-    eventsUrl: `https://www.googleapis.com/calendar/v3/calendars/${encodedCalendarId}/events`,
-  };
+  scope: CalendarTarget["scope"],
+): CalendarTarget {
+  return { calendarId: calendarId.trim() || "primary", scope };
 }
 
-export const DEFAULT_GOOGLE_CALENDAR_TARGET = buildGoogleCalendarTarget(
+export const DEFAULT_CALENDAR_TARGET = buildCalendarTarget(
   GOOGLE_CALENDAR_ID,
   "default",
 );
 
-function resolveGoogleCalendarTarget(
-  body: Record<string, unknown>,
-): GoogleCalendarTarget {
+function resolveCalendarTarget(body: Record<string, unknown>): CalendarTarget {
   const benchmarkSecret =
     typeof body.benchmarkSecret === "string" ? body.benchmarkSecret.trim() : "";
   if (!benchmarkSecret) {
-    return DEFAULT_GOOGLE_CALENDAR_TARGET;
+    return DEFAULT_CALENDAR_TARGET;
   }
 
   if (!BENCHMARK_SHARED_SECRET || !BENCHMARK_GOOGLE_CALENDAR_ID) {
@@ -368,10 +451,14 @@ function resolveGoogleCalendarTarget(
     throw new ScheduleError("Invalid benchmark secret.", 403);
   }
 
-  return buildGoogleCalendarTarget(BENCHMARK_GOOGLE_CALENDAR_ID, "benchmark");
+  return buildCalendarTarget(BENCHMARK_GOOGLE_CALENDAR_ID, "benchmark");
+}
+
+export function handler(req: Request) {
+  return runWithSchedulerScope(() => handleScheduleRequest(req));
 }
 
-export async function handler(req: Request) {
+async function handleScheduleRequest(req: Request) {
   const corsResponse = maybeHandleCors(req);
   if (corsResponse) return corsResponse;
 
@@ -386,7 +473,14 @@ export async function handler(req: Request) {
     const now = new Date();
     const captureId = body.captureId as string | undefined;
     const action =
-      (body.action as "schedule" | "reschedule" | "complete") ?? "schedule";
+      (body.action as
+        | "schedule"
+        | "reschedule"
+        | "complete"
+        | "skip"
+        | "progress"
+        | "plan_queue"
+        | "refresh_reminders") ?? "schedule";
     const timezoneOffsetMinutes =
       typeof body.timezoneOffsetMinutes === "number" &&
       Number.isFinite(body.timezoneOffsetMinutes)
@@ -394,14 +488,18 @@ export async function handler(req: Request) {
         : null;
     const timezone = typeof body.timezone === "string" ? body.timezone : null;
 
-    if (!captureId) return json({ error: "captureId required" }, 400);
+    if (
+      !captureId &&
+      action !== "plan_queue" &&
+      action !== "refresh_reminders"
+    ) {
+      return json({ error: "captureId required" }, 400);
+    }
 
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const anon = Deno.env.get("SUPABASE_ANON_KEY")!;
     const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
-    const clientId = Deno.env.get("GOOGLE_CLIENT_ID")!;
-    const clientSecret = Deno.env.get("GOOGLE_CLIENT_SECRET")!;
-    const calendarTarget = resolveGoogleCalendarTarget(body);
+    const calendarTarget = resolveCalendarTarget(body);
 
     const supaFromUser = createClient<Database, "public">(supabaseUrl, anon, {
       global: { headers: { Authorization: auth } },
@@ -415,6 +513,26 @@ export async function handler(req: Request) {
 
     const userId = userData.user.id;
     const admin = createClient<Database, "public">(supabaseUrl, serviceRole);
+    if (action === "refresh_reminders") {
+      const refreshed = await enqueueUserNotificationJobs(admin, userId, now);
+      return json({ message: "Reminders refreshed.", refreshed });
+    }
+    const preferences = await loadSchedulerPreferences(admin, userId);
+    const learnedEnergyCurve = chronotypeCurve(preferences?.chronotype)
+      ? null
+      : await loadLearnedEnergyCurve(admin, userId, timezoneOffsetMinutes ?? 0);
+    applySchedulerPreferences(preferences, learnedEnergyCurve);
+
+    if (action === "plan_queue" || !captureId) {
+      return await planPendingQueue({
+        admin,
+        userId,
+        calendarTarget,
+        offsetMinutes: timezoneOffsetMinutes ?? 0,
+        timezone,
+        referenceNow: now,
+      });
+    }
 
     const { data: captureData, error: captureError } = await admin
       .from("capture_entries")
@@ -511,36 +629,40 @@ export async function handler(req: Request) {
       });
     }
 
-    const calendarClient = await resolveCalendarClient(
-      admin,
-      userId,
-      clientId,
-      clientSecret,
-    );
+    const calendarClient = await resolveCalendarClient(admin, userId);
     if (!calendarClient) {
-      return json(
-        {
-          error: "Google Calendar not linked",
-          message: calendarClient,
-        },
-        400,
-      );
+      return json({ error: "Calendar not linked" }, 400);
     }
-    const google = createGoogleCalendarActions({
-      credentials: calendarClient,
-      admin,
-      clientId,
-      clientSecret,
-      calendarTarget,
-    });
+    const dependencyGate =
+      action === "complete" || action === "skip"
+        ? null
+        : await loadDependencyGate(admin, userId, capture.id);
+    const calendar = gateCalendarActions(
+      createCalendarActions({
+        credentials: calendarClient,
+        admin,
+        userId,
+        calendarTarget,
+      }),
+      { captureId: capture.id, gate: dependencyGate, referenceNow: now },
+    );
 
     if (action === "complete") {
-      if (capture.calendar_event_id) {
-        await google.deleteEvent({
-          eventId: capture.calendar_event_id,
-          etag: capture.calendar_event_etag ?? undefined,
+      try {
+        await recordDurationSample(admin, {
+          capture,
+          completedAt: now,
+          reportedMinutes:
+            typeof body.actualMinutes === "number" ? body.actualMinutes : null,
+        });
+      } catch (error) {
+        // Completing matters more than learning from it.
+        logSchedulerEvent("durations.record_failed", {
+          captureId: capture.id,
+          error: error instanceof Error ? error.message : String(error),
         });
       }
+      await deleteCaptureEvents(admin, calendar, capture);
       const { error: updateError } = await admin
         .from("capture_entries")
         .update({
@@ -552,6 +674,7 @@ export async function handler(req: Request) {
           ),
           calendar_event_id: null,
           calendar_event_etag: null,
+          calendar_account_id: null,
           planned_start: null,
           planned_end: null,
           scheduled_for: null,
@@ -559,19 +682,65 @@ export async function handler(req: Request) {
         })
         .eq("id", capture.id);
       if (updateError) return json({ error: updateError.message }, 500);
+      await enqueueNotificationJobs(admin, [capture.id], now);
       return json({ message: "Capture marked completed.", capture: null });
     }
 
+    if (action === "skip") {
+      if (!isRecurringOccurrence(capture)) {
+        return json(
+          { error: "Only occurrences of a recurring capture can be skipped." },
+          400,
+        );
+      }
+      await deleteCaptureEvents(admin, calendar, capture);
+      const { error: updateError } = await admin
+        .from("capture_entries")
+        .update({
+          status: "skipped",
+          scheduling_notes: mergeSchedulingNotes(
+            capture.scheduling_notes,
+            `Occurrence on ${capture.occurrence_date} skipped by user.`,
+          ),
+          calendar_event_id: null,
+          calendar_event_etag: null,
+          calendar_account_id: null,
+          planned_start: null,
+          planned_end: null,
+          scheduled_for: null,
+          freeze_until: null,
+        })
+        .eq("id", capture.id);
+      if (updateError) return json({ error: updateError.message }, 500);
+      await replaceCaptureChunks(admin, capture, []);
+      await enqueueNotificationJobs(admin, [capture.id], now);
+
+      const { data: parentData } = await admin
+        .from("capture_entries")
+        .select("id, recurrence_exceptions")
+        .eq("id", capture.recurrence_parent_id!)
+        .single();
+      if (parentData) {
+        const exceptions = new Set(
+          (parentData as CaptureEntryRow).recurrence_exceptions ?? [],
+        );
+        exceptions.add(capture.occurrence_date!);
+        await admin
+          .from("capture_entries")
+          .update({ recurrence_exceptions: [...exceptions].sort() })
+          .eq("id", capture.recurrence_parent_id!);
+      }
+      return json({ message: "Occurrence skipped.", capture: null });
+    }
+
     if (action === "reschedule" && capture.calendar_event_id) {
-      await google.deleteEvent({
-        eventId: capture.calendar_event_id,
-        etag: capture.calendar_event_etag ?? undefined,
-      });
+      await deleteCaptureEvents(admin, calendar, capture);
       await admin
         .from("capture_entries")
         .update({
           calendar_event_id: null,
           calendar_event_etag: null,
+          calendar_account_id: null,
           planned_start: null,
           planned_end: null,
           scheduling_notes: mergeSchedulingNotes(
@@ -589,6 +758,21 @@ export async function handler(req: Request) {
       return json({ error: "Capture already completed." }, 400);
     }
 
+    if (dependencyGate && dependencyGate.blocking.length > 0) {
+      logSchedulerEvent("dependencies.blocked", {
+        captureId: capture.id,
+        predecessors: dependencyGate.blocking.map((row) => row.id),
+      });
+      return json(
+        {
+          error: "Schedule the captures this one depends on first.",
+          reason: "predecessor_unscheduled",
+          predecessors: dependencyGate.blocking,
+        },
+        409,
+      );
+    }
+
     const allowOverlap = Boolean(body.allowOverlap);
     const allowRebalance = Boolean(
       body.allowRebalance ?? body.allowPreemption ?? false,
@@ -603,6 +787,83 @@ export async function handler(req: Request) {
 
     const offsetMinutes = timezoneOffsetMinutes ?? 0;
 
+    // A check-in that left work over: drop the session, shrink the estimate
+    // to what is left and schedule only that below.
+    let checkInAction: Omit<PlanActionRecord, "planId"> | null = null;
+    if (action === "progress") {
+      if (isRecurringTemplate(capture)) {
+        return json(
+          { error: "Check in on an occurrence, not the recurring series." },
+          400,
+        );
+      }
+      const progress = resolveCheckInProgress({
+        estimatedMinutes: capture.estimated_minutes,
+        percentDone: body.percentDone,
+        remainingMinutes: body.remainingMinutes,
+      });
+      if (!progress) {
+        return json(
+          {
+            error:
+              "Report remainingMinutes or a percentDone below 100; mark the capture complete when nothing is left.",
+          },
+          400,
+        );
+      }
+      const splitRemainder = Boolean(body.splitRemainder);
+      const worked = splitRemainder ? workedChunk(capture, now) : null;
+      const prevSnapshot = snapshotFromRow(capture);
+      await deleteCaptureEvents(admin, calendar, capture);
+      const { data: checkedIn, error: checkInError } = await admin
+        .from("capture_entries")
+        .update({
+          estimated_minutes: progress.remainingMinutes,
+          last_check_in: now.toISOString(),
+          status: "pending",
+          calendar_event_id: null,
+          calendar_event_etag: null,
+          calendar_account_id: null,
+          planned_start: null,
+          planned_end: null,
+          scheduled_for: null,
+          freeze_until: null,
+          scheduling_notes: mergeSchedulingNotes(
+            capture.scheduling_notes,
+            describeCheckIn(progress, worked !== null),
+          ),
+        })
+        .eq("id", capture.id)
+        .select("*")
+        .single();
+      if (checkInError || !checkedIn) {
+        return json(
+          { error: checkInError?.message ?? "Check-in failed." },
+          500,
+        );
+      }
+      await replaceCaptureChunks(admin, capture, []);
+      if (worked) await recordCompletedChunk(admin, capture, worked);
+      Object.assign(capture, checkedIn as CaptureEntryRow);
+      if (prevSnapshot.status === "scheduled") {
+        checkInAction = {
+          actionId: crypto.randomUUID(),
+          captureId: capture.id,
+          captureContent: capture.content,
+          actionType: "unscheduled",
+          prev: prevSnapshot,
+          next: snapshotFromRow(capture),
+        };
+      }
+      logSchedulerEvent("check_in.progress", {
+        captureId: capture.id,
+        percentDone: progress.percentDone,
+        remainingMinutes: progress.remainingMinutes,
+        split: worked !== null,
+      });
+    }
+
+    await applyLearnedDurations(admin, userId, [capture]);
     const durationMinutes = Math.max(
       5,
       Math.min(capture.estimated_minutes ?? 30, 480),
@@ -648,8 +909,19 @@ export async function handler(req: Request) {
       await ensurePlanRun();
       planActions.push({ ...action, planId });
     };
+    if (checkInAction) await recordPlanAction(checkInAction);
 
     const finalizePlan = async () => {
+      await cascadeDependents({
+        admin,
+        userId,
+        calendar,
+        offsetMinutes,
+        referenceNow: now,
+        planId,
+        planActions,
+        recordPlanAction,
+      });
       if (!planRunCreated || planActions.length === 0) return null;
       const rows = planActions.map((action) =>
         convertPlanActionForInsert(action),
@@ -667,15 +939,47 @@ export async function handler(req: Request) {
         .from("plan_runs")
         .update({ summary: summaryText })
         .eq("id", planId);
+      await enqueueNotificationJobs(
+        admin,
+        planActions.map((action) => action.captureId),
+        now,
+      );
       return buildPlanSummary(planId, planActions);
     };
+
+    if (isRecurringTemplate(capture)) {
+      return await scheduleRecurringSeries({
+        template: capture,
+        admin,
+        calendar,
+        planId,
+        offsetMinutes,
+        referenceNow: now,
+        durationMinutes,
+        capturePriority,
+        recordPlanAction,
+        finalizePlan,
+      });
+    }
+
     const timeMin = now.toISOString();
-    const timeMax = new Date(
-      now.getTime() + SEARCH_DAYS * 86400000,
+    // Spaced sessions may be spread up to the long-range horizon.
+    const timeMax = (
+      isSpacedStudyCapture(capture as CaptureEntryRow)
+        ? longRangeWindow(now).horizonEnd
+        : new Date(now.getTime() + SEARCH_DAYS * 86400000)
     ).toISOString();
-    let events = await google.listEvents(timeMin, timeMax);
+    // The dependency gate only holds back this capture's own search, not the
+    // listings made for dependents further down.
+    const gateEvent = buildDependencyGateEvent(dependencyGate, now);
+    let events = [
+      ...(gateEvent ? [gateEvent] : []),
+      ...(await calendar.listEvents(timeMin, timeMax)),
+    ];
     let eventsById = new Map(events.map((event) => [event.id, event]));
-    let busyIntervals = computeBusyIntervals(events);
+    let busyIntervals = computeBusyIntervals(events, undefined, {
+      location: capture.location,
+    });
     const occupancyGrid = buildOccupancyGrid({
       events,
       offsetMinutes,
@@ -758,7 +1062,7 @@ export async function handler(req: Request) {
           capture: capture as CaptureEntryRow,
           slot: initialLateCandidate,
           admin,
-          google,
+          calendar,
           planId,
           capturePriority,
           durationMinutes,
@@ -819,7 +1123,7 @@ export async function handler(req: Request) {
           slot: preferredSlot,
           conflicts,
           admin,
-          google,
+          calendar,
           planId,
           capturePriority,
           durationMinutes,
@@ -878,7 +1182,7 @@ export async function handler(req: Request) {
             slot: preferredSlot,
             conflicts: diaGuruConflicts,
             admin,
-            google,
+            calendar,
             planId,
             capturePriority,
             durationMinutes,
@@ -914,7 +1218,7 @@ export async function handler(req: Request) {
             enforceWorkingWindow,
             resolvedDeadline,
           });
-          const llmConfig = resolveLlmConfig();
+          const llmProvider = resolveLlmProvider();
           const { decision, note } = await buildConflictDecision({
             capture,
             preferredSlot,
@@ -923,7 +1227,7 @@ export async function handler(req: Request) {
             timezone,
             offsetMinutes,
             outsideWindow: !slotWithinWindow,
-            llmConfig,
+            llmProvider,
             busyIntervals,
             admin,
             conflictMetadata: {
@@ -1119,7 +1423,7 @@ export async function handler(req: Request) {
           try {
             rescheduleQueue = await reclaimDiaGuruConflicts(
               selectedConflicts,
-              google,
+              calendar,
               admin,
               {
                 captureMap,
@@ -1135,14 +1439,16 @@ export async function handler(req: Request) {
               );
               events = events.filter((event) => !removedIds.has(event.id));
               eventsById = new Map(events.map((event) => [event.id, event]));
-              busyIntervals = computeBusyIntervals(events);
+              busyIntervals = computeBusyIntervals(events, undefined, {
+                location: capture.location,
+              });
             } else {
               return await respondWithConflictDecision();
             }
           } catch (error) {
             await rollbackPreemptionAttempt({
               admin,
-              google,
+              calendar,
               targetCapture: capture as CaptureEntryRow,
               reclaimedEntries,
               referenceNow: now,
@@ -1189,14 +1495,14 @@ export async function handler(req: Request) {
       try {
         const actionId = crypto.randomUUID();
         const prevSnapshot = snapshotFromRow(capture);
-        createdEvent = await google.createEvent({
+        createdEvent = await calendar.createEvent({
           capture,
           slot: preferredSlot,
           planId,
           actionId,
           priorityScore: capturePriority,
         });
-        registerInterval(busyIntervals, preferredSlot);
+        registerInterval(busyIntervals, preferredSlot, capture.location);
 
         if (rescheduleQueue.length > 0) {
           await rescheduleCaptures({
@@ -1205,7 +1511,7 @@ export async function handler(req: Request) {
             busyIntervals,
             offsetMinutes,
             referenceNow: now,
-            google,
+            calendar,
             planId,
             recordPlanAction,
           });
@@ -1272,6 +1578,7 @@ export async function handler(req: Request) {
             planned_end: preferredSlot.end.toISOString(),
             scheduled_for: preferredSlot.start.toISOString(),
             calendar_event_id: createdEvent.id,
+            calendar_account_id: calendar.accountId,
             calendar_event_etag: createdEvent.etag,
             plan_id: planId,
             freeze_until: null,
@@ -1333,7 +1640,7 @@ export async function handler(req: Request) {
         if (reclaimedEntries.length > 0 && respondWithConflictDecision) {
           await rollbackPreemptionAttempt({
             admin,
-            google,
+            calendar,
             targetCapture: capture as CaptureEntryRow,
             targetCreatedEvent: createdEvent,
             reclaimedEntries,
@@ -1355,6 +1662,113 @@ export async function handler(req: Request) {
     const preferredTimeOfDay = derivePreferredTimeOfDayBands(
       capture as CaptureEntryRow,
     );
+    const energy = deriveEnergyScoring(
+      capture as CaptureEntryRow,
+      offsetMinutes,
+    );
+    const workload = workloadBudgetFor(
+      capture as CaptureEntryRow,
+      await loadWorkloadEntries(admin, userId, now, capture.id),
+      offsetMinutes,
+    );
+
+    const sessions = planSpacedSessions({
+      capture: capture as CaptureEntryRow,
+      plan,
+      durationMinutes,
+      busyIntervals,
+      offsetMinutes,
+      rangeStart: scheduleWindowStart,
+      enforceWorkingWindow,
+      workload,
+    });
+    if (sessions) {
+      // Every session gets its own event; the capture is planned as the
+      // first one and the rest are kept as chunks with their events.
+      const firstSession: PreferredSlot = {
+        start: sessions[0].start,
+        end: sessions[0].end,
+      };
+      logSchedulerEvent("study.spacedSessions", {
+        captureId: capture.id,
+        sessions: serializeChunks(sessions),
+      });
+      const actionId = crypto.randomUUID();
+      const prevSnapshot = snapshotFromRow(capture);
+      const bookedSessions = await createSessionEvents(calendar, {
+        capture,
+        sessions,
+        planId,
+        actionId,
+        priorityScore: capturePriority,
+      });
+      const explanation = buildScheduleExplanation({
+        plan,
+        slot: firstSession,
+        capturePriority,
+        durationMinutes,
+        enforceWorkingWindow,
+        resolvedDeadline,
+        preferredSlot: plan.preferredSlot ?? null,
+        decisionPath: ["spaced_sessions"],
+        energy,
+        capHits: workload?.hits,
+        sessions,
+      });
+
+      const { data: scheduledCapture, error: scheduleUpdateError } = await admin
+        .from("capture_entries")
+        .update({
+          status: "scheduled",
+          planned_start: firstSession.start.toISOString(),
+          planned_end: firstSession.end.toISOString(),
+          scheduled_for: firstSession.start.toISOString(),
+          calendar_event_id: bookedSessions[0].calendarEventId,
+          calendar_account_id: calendar.accountId,
+          calendar_event_etag: bookedSessions[0].calendarEventEtag,
+          plan_id: planId,
+          freeze_until: null,
+          scheduling_notes: mergeSchedulingNotes(
+            capture.scheduling_notes,
+            "Scheduled as spaced study sessions.",
+            explanation,
+          ),
+        })
+        .eq("id", capture.id)
+        .select("*")
+        .single();
+      if (scheduleUpdateError) {
+        throw new ScheduleError(
+          "Failed to persist spaced study sessions.",
+          500,
+          scheduleUpdateError,
+        );
+      }
+
+      await replaceCaptureChunks(
+        admin,
+        scheduledCapture as CaptureEntryRow,
+        bookedSessions,
+      );
+      await recordPlanAction({
+        actionId,
+        captureId: capture.id,
+        captureContent: capture.content,
+        actionType:
+          prevSnapshot.status === "scheduled" ? "rescheduled" : "scheduled",
+        prev: prevSnapshot,
+        next: snapshotFromRow(scheduledCapture as CaptureEntryRow),
+      });
+
+      const planSummary = await finalizePlan();
+      return json({
+        message: `Capture split into ${sessions.length} spaced study sessions.`,
+        capture: scheduledCapture,
+        planSummary,
+        chunks: serializeChunks(sessions),
+        explanation,
+      });
+    }
 
     const candidate = scheduleWithPlan({
       plan,
@@ -1365,7 +1779,14 @@ export async function handler(req: Request) {
       isSoftStart: capture.is_soft_start,
       enforceWorkingWindow,
       preferredTimeOfDay,
+      workload,
     });
+    if (workload && workload.hits.length > 0) {
+      logSchedulerEvent("workload.capHit", {
+        captureId: capture.id,
+        hits: workload.hits,
+      });
+    }
     const candidateWithinWindow =
       candidate &&
       candidate.start.getTime() >= scheduleWindowStart.getTime() &&
@@ -1395,6 +1816,7 @@ export async function handler(req: Request) {
             windowEnd: searchWindowEnd,
             referenceNow: now,
             limit: 6,
+            energy,
           })
         : [];
       logSchedulerEvent("grid.windowScan", {
@@ -1408,6 +1830,7 @@ export async function handler(req: Request) {
           end: entry.slot.end.toISOString(),
           stats: entry.stats,
           hasExternal: entry.hasExternal,
+          energyFit: entry.energyFit,
         })),
       });
 
@@ -1427,6 +1850,7 @@ export async function handler(req: Request) {
           rangeStart: searchWindowStart,
           rangeEnd: searchWindowEnd,
           enforceWorkingWindow,
+          workload,
         });
         if (placement && placement.records.length > 0) {
           directSlot = {
@@ -1446,14 +1870,14 @@ export async function handler(req: Request) {
         });
         const actionId = crypto.randomUUID();
         const prevSnapshot = snapshotFromRow(capture);
-        const createdEvent = await google.createEvent({
+        const createdEvent = await calendar.createEvent({
           capture,
           slot: directSlot,
           planId,
           actionId,
           priorityScore: capturePriority,
         });
-        registerInterval(busyIntervals, directSlot);
+        registerInterval(busyIntervals, directSlot, capture.location);
 
         const usedPreferred = slotMatchesTarget(
           directSlot,
@@ -1472,6 +1896,8 @@ export async function handler(req: Request) {
           preferredSlot: plan.preferredSlot ?? null,
           decisionPath: ["deadline_direct"],
           flags: { usedPreferred, usedStartTolerance },
+          energy,
+          capHits: workload?.hits,
         });
 
         const { data: scheduledCapture, error: scheduleUpdateError } =
@@ -1483,6 +1909,7 @@ export async function handler(req: Request) {
               planned_end: directSlot.end.toISOString(),
               scheduled_for: directSlot.start.toISOString(),
               calendar_event_id: createdEvent.id,
+              calendar_account_id: calendar.accountId,
               calendar_event_etag: createdEvent.etag,
               plan_id: planId,
               freeze_until: null,
@@ -1555,7 +1982,7 @@ export async function handler(req: Request) {
         try {
           rescheduleQueue = await reclaimDiaGuruConflicts(
             gridChoice.conflicts,
-            google,
+            calendar,
             admin,
             {
               captureMap: gridChoice.captureMap,
@@ -1568,7 +1995,7 @@ export async function handler(req: Request) {
         } catch (error) {
           await rollbackPreemptionAttempt({
             admin,
-            google,
+            calendar,
             targetCapture: capture as CaptureEntryRow,
             reclaimedEntries,
             referenceNow: now,
@@ -1592,20 +2019,22 @@ export async function handler(req: Request) {
           );
           events = events.filter((event) => !removedIds.has(event.id));
           eventsById = new Map(events.map((event) => [event.id, event]));
-          busyIntervals = computeBusyIntervals(events);
+          busyIntervals = computeBusyIntervals(events, undefined, {
+            location: capture.location,
+          });
 
           let createdEvent: { id: string; etag: string | null } | null = null;
           try {
             const actionId = crypto.randomUUID();
             const prevSnapshot = snapshotFromRow(capture);
-            createdEvent = await google.createEvent({
+            createdEvent = await calendar.createEvent({
               capture,
               slot: gridChoice.slot,
               planId,
               actionId,
               priorityScore: capturePriority,
             });
-            registerInterval(busyIntervals, gridChoice.slot);
+            registerInterval(busyIntervals, gridChoice.slot, capture.location);
 
             await rescheduleCaptures({
               captures: rescheduleQueue,
@@ -1613,7 +2042,7 @@ export async function handler(req: Request) {
               busyIntervals,
               offsetMinutes,
               referenceNow: now,
-              google,
+              calendar,
               planId,
               recordPlanAction,
             });
@@ -1628,6 +2057,7 @@ export async function handler(req: Request) {
               preferredSlot: plan.preferredSlot ?? null,
               decisionPath: ["grid_preemption"],
               flags: { preempted: true },
+              energy,
             });
 
             const { data: scheduledCapture, error: scheduleUpdateError } =
@@ -1639,6 +2069,7 @@ export async function handler(req: Request) {
                   planned_end: gridChoice.slot.end.toISOString(),
                   scheduled_for: gridChoice.slot.start.toISOString(),
                   calendar_event_id: createdEvent.id,
+                  calendar_account_id: calendar.accountId,
                   calendar_event_etag: createdEvent.etag,
                   plan_id: planId,
                   freeze_until: null,
@@ -1704,7 +2135,7 @@ export async function handler(req: Request) {
           } catch (error) {
             await rollbackPreemptionAttempt({
               admin,
-              google,
+              calendar,
               targetCapture: capture as CaptureEntryRow,
               targetCreatedEvent: createdEvent,
               reclaimedEntries,
@@ -1754,7 +2185,7 @@ export async function handler(req: Request) {
               capture: capture as CaptureEntryRow,
               slot: lateSlot,
               admin,
-              google,
+              calendar,
               planId,
               capturePriority,
               durationMinutes,
@@ -1791,7 +2222,7 @@ export async function handler(req: Request) {
             capture: capture as CaptureEntryRow,
             slot: fallbackLateCandidate,
             admin,
-            google,
+            calendar,
             planId,
             capturePriority,
             durationMinutes,
@@ -1859,7 +2290,7 @@ export async function handler(req: Request) {
         409,
       );
     }
-    const createdEvent = await google.createEvent({
+    const createdEvent = await calendar.createEvent({
       capture,
       slot: validCandidate,
       planId,
@@ -1884,6 +2315,8 @@ export async function handler(req: Request) {
       preferredSlot: plan.preferredSlot ?? null,
       decisionPath: ["plan_candidate"],
       flags: { usedPreferred, usedStartTolerance },
+      energy,
+      capHits: workload?.hits,
     });
 
     const { data: updated, error: updateError } = await admin
@@ -1894,12 +2327,13 @@ export async function handler(req: Request) {
         planned_end: validCandidate.end.toISOString(),
         scheduled_for: validCandidate.start.toISOString(),
         calendar_event_id: createdEvent.id,
+        calendar_account_id: calendar.accountId,
         calendar_event_etag: createdEvent.etag,
         plan_id: planId,
         freeze_until: null,
         scheduling_notes: mergeSchedulingNotes(
           capture.scheduling_notes,
-          `Scheduled automatically with ${BUFFER_MINUTES} minute buffer.`,
+          `Scheduled automatically with ${activeBufferMinutes()} minute buffer.`,
           explanation,
         ),
       })
@@ -1961,96 +2395,185 @@ if (import.meta.main) {
   Deno.serve(handler);
 }
 
-export async function resolveCalendarClient(
+async function loadSchedulerPreferences(
   admin: SupabaseClient<Database, "public">,
   userId: string,
-  clientId: string,
-  clientSecret: string,
 ) {
-  const { data: accountData, error: accountError } = await admin
-    .from("calendar_accounts")
-    .select("id, needs_reconnect")
+  const { data, error } = await admin
+    .from("user_scheduler_preferences")
+    .select("*")
     .eq("user_id", userId)
-    .eq("provider", "google")
-    .single();
-  if (accountError || !accountData) return null;
-  const account = accountData as { id: number; needs_reconnect?: boolean };
-
-  const { data: tokenRow, error: tokenError } = await admin
-    .from("calendar_tokens")
-    .select("access_token, refresh_token, expiry")
-    .eq("account_id", account.id)
-    .single();
-  if (tokenError || !tokenRow) {
-    await setCalendarReconnectFlag(admin, account.id, true);
+    .maybeSingle();
+  if (error) {
+    // Scheduling with the defaults beats failing the request outright.
+    logSchedulerEvent("preferences.load_failed", {
+      userId,
+      error: error.message,
+    });
     return null;
   }
+  return (data as UserSchedulerPreferencesRow | null) ?? null;
+}
 
-  const typedToken = tokenRow as CalendarTokenRow;
+// Without a declared chronotype the energy curve comes from the hours deep
+// work was finished on time; too little history leaves the static bands.
+async function loadLearnedEnergyCurve(
+  admin: SupabaseClient<Database, "public">,
+  userId: string,
+  offsetMinutes: number,
+) {
+  try {
+    return learnEnergyCurve(
+      await loadEnergySamples(admin, userId),
+      offsetMinutes,
+    );
+  } catch (error) {
+    logSchedulerEvent("energy.load_failed", {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
 
-  const credentials: CalendarClientCredentials = {
-    accountId: account.id,
-    accessToken: typedToken.access_token,
-    refreshToken: typedToken.refresh_token,
-    refreshed: false,
-  };
+// Sessions already scheduled around the search horizon, counted against the
+// workload caps. The capture being placed is left out so its current slot
+// does not count against its new one.
+async function loadWorkloadEntries(
+  admin: SupabaseClient<Database, "public">,
+  userId: string,
+  referenceNow: Date,
+  excludeCaptureId?: string,
+): Promise<WorkloadEntry[]> {
+  const { data, error } = await admin
+    .from("capture_entries")
+    .select("id, planned_start, planned_end, task_type_hint")
+    .eq("user_id", userId)
+    .eq("status", "scheduled")
+    .gte("planned_end", addDays(referenceNow, -7).toISOString())
+    .lte(
+      "planned_start",
+      addDays(longRangeWindow(referenceNow).horizonEnd, 7).toISOString(),
+    );
+  if (error) {
+    logSchedulerEvent("workload.load_failed", { userId, error: error.message });
+    return [];
+  }
+  const rows = ((data ?? []) as CaptureEntryRow[]).filter(
+    (row) => row.id !== excludeCaptureId,
+  );
 
-  const expiryMillis = typedToken.expiry ? Date.parse(typedToken.expiry) : 0;
-  const expiryIsValid = Number.isFinite(expiryMillis) && expiryMillis > 0;
-  const alreadyExpired = expiryIsValid ? expiryMillis <= Date.now() : true;
-  const expiresSoon = expiryIsValid
-    ? expiryMillis <= Date.now() + 30_000
-    : true;
-  const needsRefresh =
-    !credentials.accessToken ||
-    alreadyExpired ||
-    expiresSoon ||
-    account.needs_reconnect;
-
-  if (needsRefresh) {
-    const refreshed = await refreshCalendarAccess({
-      credentials,
-      admin,
-      clientId,
-      clientSecret,
-    });
-    if (!refreshed) {
-      await setCalendarReconnectFlag(admin, credentials.accountId, true);
-      return null;
+  // Chunked and multi-day captures count chunk by chunk; their planned window
+  // would charge all of the work to the day it starts.
+  const chunksByCapture = new Map<string, { start: Date; end: Date }[]>();
+  if (rows.length > 0) {
+    const { data: chunkData, error: chunkError } = await admin
+      .from("capture_chunks")
+      .select("capture_id, start, end")
+      .in("capture_id", rows.map((row) => row.id));
+    if (chunkError) {
+      logSchedulerEvent("workload.load_failed", {
+        userId,
+        error: chunkError.message,
+      });
+    }
+    for (
+      const chunk of (chunkData ?? []) as Pick<
+        CaptureChunkRow,
+        "capture_id" | "start" | "end"
+      >[]
+    ) {
+      const start = parseIsoDate(chunk.start);
+      const end = parseIsoDate(chunk.end);
+      if (!start || !end) continue;
+      const list = chunksByCapture.get(chunk.capture_id) ?? [];
+      list.push({ start, end });
+      chunksByCapture.set(chunk.capture_id, list);
     }
   }
 
-  await setCalendarReconnectFlag(admin, credentials.accountId, false);
-  return credentials;
+  const entries: WorkloadEntry[] = [];
+  for (const row of rows) {
+    const taskType = normalizeTaskType(row.task_type_hint);
+    const chunks = chunksByCapture.get(row.id);
+    if (chunks) {
+      for (const chunk of chunks) entries.push({ ...chunk, taskType });
+      continue;
+    }
+    const start = parseIsoDate(row.planned_start);
+    const end = parseIsoDate(row.planned_end);
+    if (!start || !end) continue;
+    entries.push({ start, end, taskType });
+  }
+  return entries;
 }
 
-async function refreshGoogleToken(
-  refreshToken: string,
-  clientId: string,
-  clientSecret: string,
+// Captures saved without an estimate would fall back to the default length;
+// fill it from the user's completion history of that task type instead, and
+// keep the adjustment in scheduling_notes so the app can show it.
+async function applyLearnedDurations(
+  admin: SupabaseClient<Database, "public">,
+  userId: string,
+  captures: CaptureEntryRow[],
 ) {
-  const body = new URLSearchParams({
-    client_id: clientId,
-    client_secret: clientSecret,
-    refresh_token: refreshToken,
-    grant_type: "refresh_token",
-  });
+  const unestimated = captures.filter(
+    (capture) => capture.estimated_minutes == null,
+  );
+  if (unestimated.length === 0) return;
 
-  const res = await fetch(GOOGLE_TOKEN, {
-    method: "POST",
-    headers: { "Content-Type": "application/x-www-form-urlencoded" },
-    body,
-  });
-  if (!res.ok) return null;
-  return await res.json();
-}
+  let samples: DurationSample[];
+  try {
+    samples = await loadDurationSamples(admin, userId);
+  } catch (error) {
+    logSchedulerEvent("durations.load_failed", {
+      userId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
 
-// function scheduleLatePlacementResponse is KEPT as it is impure.
-async function scheduleLatePlacementResponse(args: {
-  capture: CaptureEntryRow;
-  slot: PreferredSlot;
-  admin: SupabaseClient<Database, "public">;
-  google: GoogleCalendarActions;
+  for (const capture of unestimated) {
+    const adjustment = learnedDuration({
+      estimate: null,
+      taskType: capture.task_type_hint,
+      samples,
+    });
+    if (!adjustment) continue;
+    const schedulingNotes = withDurationAdjustment(
+      capture.scheduling_notes,
+      adjustment,
+    );
+    const { error } = await admin
+      .from("capture_entries")
+      .update({
+        estimated_minutes: adjustment.to,
+        scheduling_notes: schedulingNotes,
+      })
+      .eq("id", capture.id);
+    if (error) {
+      logSchedulerEvent("durations.persist_failed", {
+        captureId: capture.id,
+        error: error.message,
+      });
+      continue;
+    }
+    capture.estimated_minutes = adjustment.to;
+    capture.scheduling_notes = schedulingNotes;
+    logSchedulerEvent("durations.adjusted", {
+      captureId: capture.id,
+      from: adjustment.from,
+      to: adjustment.to,
+      samples: adjustment.samples,
+    });
+  }
+}
+
+// function scheduleLatePlacementResponse is KEPT as it is impure.
+async function scheduleLatePlacementResponse(args: {
+  capture: CaptureEntryRow;
+  slot: PreferredSlot;
+  admin: SupabaseClient<Database, "public">;
+  calendar: CalendarActions;
   planId: string;
   capturePriority: number;
   durationMinutes: number;
@@ -2067,14 +2590,14 @@ async function scheduleLatePlacementResponse(args: {
 }) {
   const actionId = crypto.randomUUID();
   const prevSnapshot = snapshotFromRow(args.capture);
-  const createdEvent = await args.google.createEvent({
+  const createdEvent = await args.calendar.createEvent({
     capture: args.capture,
     slot: args.slot,
     planId: args.planId,
     actionId,
     priorityScore: args.capturePriority,
   });
-  registerInterval(args.busyIntervals, args.slot);
+  registerInterval(args.busyIntervals, args.slot, args.capture.location);
 
   const explanation = buildScheduleExplanation({
     plan: args.plan,
@@ -2096,6 +2619,7 @@ async function scheduleLatePlacementResponse(args: {
       planned_end: args.slot.end.toISOString(),
       scheduled_for: args.slot.start.toISOString(),
       calendar_event_id: createdEvent.id,
+      calendar_account_id: args.calendar.accountId,
       calendar_event_etag: createdEvent.etag,
       plan_id: args.planId,
       freeze_until: null,
@@ -2139,12 +2663,741 @@ async function scheduleLatePlacementResponse(args: {
   });
 }
 
+// Schedules every pending capture for the user in one pass: one calendar read,
+// one occupancy grid, one plan run. Captures that do not fit are reported back
+// and left pending; the per-capture flow still handles preemption and overlap.
+async function planPendingQueue(args: {
+  admin: SupabaseClient<Database, "public">;
+  userId: string;
+  calendarTarget: CalendarTarget;
+  offsetMinutes: number;
+  timezone: string | null;
+  referenceNow: Date;
+}) {
+  const { admin, userId, offsetMinutes, referenceNow } = args;
+
+  const calendarClient = await resolveCalendarClient(admin, userId);
+  if (!calendarClient) {
+    return json({ error: "Calendar not linked" }, 400);
+  }
+  const calendar = createCalendarActions({
+    credentials: calendarClient,
+    admin,
+    userId,
+    calendarTarget: args.calendarTarget,
+  });
+
+  const { data: pendingData, error: pendingError } = await admin
+    .from("capture_entries")
+    .select("*")
+    .eq("user_id", userId)
+    .in("status", ["pending", "pencilled", "recurring"])
+    .order("created_at", { ascending: true });
+  if (pendingError) {
+    throw new ScheduleError(
+      "Failed to load pending captures.",
+      500,
+      pendingError,
+    );
+  }
+  const rows = (pendingData ?? []) as CaptureEntryRow[];
+  const pending = rows.filter((capture) => capture.status === "pending");
+  // Series already set up keep materializing as their next dates come into
+  // range, so every run tops them up.
+  const templates = rows.filter(
+    (capture) => capture.status !== "pencilled" && isRecurringTemplate(capture),
+  );
+  const longRange = longRangeWindow(referenceNow);
+  // Pencilled captures inside the commitment window join the queue; the
+  // rest keep their tentative slots.
+  const duePencils = rows.filter((capture) => isCommitDue(capture, longRange));
+  const heldPencils = rows.filter((capture) =>
+    capture.status === "pencilled" && !isCommitDue(capture, longRange)
+  );
+
+  const timeMin = referenceNow.toISOString();
+  const searchEnd = new Date(referenceNow.getTime() + SEARCH_DAYS * 86400000);
+  const queue = pending.filter((capture) => !isRecurringTemplate(capture));
+  const queuedIds = new Set(queue.map((capture) => capture.id));
+  for (const template of templates) {
+    const { pending: occurrences } = await materializeOccurrences({
+      template,
+      admin,
+      offsetMinutes,
+      referenceNow,
+    });
+    for (const occurrence of occurrences) {
+      if (!queuedIds.has(occurrence.id)) {
+        queue.push(occurrence);
+        queuedIds.add(occurrence.id);
+      }
+    }
+    if (template.status === "pending") {
+      await admin
+        .from("capture_entries")
+        .update({ status: "recurring" })
+        .eq("id", template.id);
+    }
+  }
+  // Occurrences past the calendar read window wait for a later run.
+  const schedulable = [
+    ...queue.filter((capture) => {
+      if (!isRecurringOccurrence(capture)) return true;
+      const windowStart = parseIsoDate(capture.window_start);
+      return !windowStart || windowStart.getTime() < searchEnd.getTime();
+    }),
+    ...duePencils,
+  ];
+
+  if (schedulable.length === 0) {
+    return json({
+      message: "No pending captures to schedule.",
+      planSummary: null,
+      scheduled: [],
+      pencilled: [],
+      unplaced: [],
+    });
+  }
+
+  await applyLearnedDurations(admin, userId, schedulable);
+  const { dependencies, predecessors } = await loadQueueDependencies(
+    admin,
+    userId,
+    schedulable.map((capture) => capture.id),
+  );
+  // Far-deadline captures are pencilled in after the queue is placed;
+  // dependency chains stay together in the queue.
+  const linkedIds = new Set(
+    dependencies.flatMap((link) => [link.capture_id, link.predecessor_id]),
+  );
+  const farCaptures = schedulable.filter((capture) =>
+    capture.status === "pending" && !linkedIds.has(capture.id) &&
+    isLongRangeCapture(capture, offsetMinutes, referenceNow, longRange)
+  );
+  const farIds = new Set(farCaptures.map((capture) => capture.id));
+  const queued = schedulable.filter((capture) => !farIds.has(capture.id));
+
+  const readsHorizon =
+    farCaptures.length > 0 || queued.some(isSpacedStudyCapture);
+  const events = await calendar.listEvents(
+    timeMin,
+    (readsHorizon ? longRange.horizonEnd : searchEnd).toISOString(),
+  );
+  const workload = await loadWorkloadEntries(admin, userId, referenceNow);
+  const queuePlan = planQueue({
+    captures: queued,
+    events,
+    offsetMinutes,
+    referenceNow,
+    timezone: args.timezone,
+    dependencies,
+    predecessors,
+    workload,
+  });
+  logSchedulerEvent("queue.plan", {
+    userId,
+    queued: queued.length,
+    placed: queuePlan.placements.length,
+    unplaced: queuePlan.unplaced.map((entry) => ({
+      captureId: entry.capture.id,
+      reason: entry.reason,
+    })),
+  });
+
+  let longRangePlan: ReturnType<typeof planLongRange> | null = null;
+  if (farCaptures.length > 0) {
+    const busyIntervals = computeBusyIntervals(events);
+    const booked = [
+      ...queuePlan.placements.flatMap(({ capture, slot, sessions }) =>
+        (sessions ?? [slot]).map((session) => ({ capture, slot: session })),
+      ),
+      ...heldPencils.map((capture) => ({
+        capture,
+        slot: pencilledSlot(capture)!,
+      })),
+    ];
+    for (const { capture, slot } of booked) {
+      registerInterval(busyIntervals, slot, capture.location);
+      workload.push({
+        start: slot.start,
+        end: slot.end,
+        taskType: normalizeTaskType(capture.task_type_hint),
+      });
+    }
+    longRangePlan = planLongRange({
+      captures: farCaptures,
+      busyIntervals,
+      offsetMinutes,
+      referenceNow,
+      window: longRange,
+      workload,
+    });
+    logSchedulerEvent("queue.longRange", {
+      userId,
+      queued: farCaptures.length,
+      pencilled: longRangePlan.placements.map((placement) => ({
+        captureId: placement.capture.id,
+        start: placement.slot.start.toISOString(),
+      })),
+      weeks: longRangePlan.weeks.map((week) => ({
+        start: week.start.toISOString(),
+        capacityMinutes: week.capacityMinutes,
+        loadMinutes: week.loadMinutes,
+      })),
+    });
+  }
+
+  const planId = crypto.randomUUID();
+  const planActions: PlanActionRecord[] = [];
+  let planRunCreated = false;
+  // Each action is stored as soon as its change is made, so a run that fails
+  // partway can still be undone up to that point.
+  const recordPlanAction = async (
+    action: Omit<PlanActionRecord, "planId">,
+  ) => {
+    if (!planRunCreated) {
+      const { error } = await admin
+        .from("plan_runs")
+        .insert({ id: planId, user_id: userId })
+        .select("id")
+        .single();
+      if (error) {
+        throw new ScheduleError(
+          "Failed to register scheduling plan.",
+          500,
+          error,
+        );
+      }
+      planRunCreated = true;
+    }
+    const record = { ...action, planId };
+    const { error } = await admin
+      .from("plan_actions")
+      .insert(convertPlanActionForInsert(record));
+    if (error) {
+      throw new ScheduleError("Failed to persist plan audit trail.", 500, error);
+    }
+    planActions.push(record);
+  };
+  const scheduled: {
+    capture: CaptureEntryRow;
+    chunks: SerializedChunk[];
+    explanation: ScheduleExplanation;
+  }[] = [];
+
+  for (const placement of queuePlan.placements) {
+    const { capture, slot, plan } = placement;
+    const actionId = crypto.randomUUID();
+    const prevSnapshot = snapshotFromRow(capture);
+    const bookedSessions = placement.sessions
+      ? await createSessionEvents(calendar, {
+        capture,
+        sessions: placement.sessions,
+        planId,
+        actionId,
+        priorityScore: placement.priority.score,
+      })
+      : null;
+    const createdEvent = bookedSessions
+      ? {
+        id: bookedSessions[0].calendarEventId!,
+        etag: bookedSessions[0].calendarEventEtag ?? null,
+      }
+      : await calendar.createEvent({
+        capture,
+        slot,
+        planId,
+        actionId,
+        priorityScore: placement.priority.score,
+      });
+
+    const explanation = buildScheduleExplanation({
+      plan,
+      slot,
+      capturePriority: placement.priority.score,
+      durationMinutes: placement.durationMinutes,
+      enforceWorkingWindow: placement.enforceWorkingWindow,
+      resolvedDeadline: plan.deadline ?? null,
+      preferredSlot: plan.preferredSlot ?? null,
+      decisionPath: ["plan_queue", "plan_candidate"],
+      flags: {
+        usedPreferred: slotMatchesTarget(slot, plan.preferredSlot ?? null),
+      },
+      energy: deriveEnergyScoring(capture, offsetMinutes),
+      capHits: placement.capHits,
+      sessions: placement.sessions,
+    });
+
+    const { data, error } = await admin
+      .from("capture_entries")
+      .update({
+        status: "scheduled",
+        planned_start: slot.start.toISOString(),
+        planned_end: slot.end.toISOString(),
+        scheduled_for: slot.start.toISOString(),
+        calendar_event_id: createdEvent.id,
+        calendar_account_id: calendar.accountId,
+        calendar_event_etag: createdEvent.etag,
+        plan_id: planId,
+        freeze_until: null,
+        constraint_type: capture.constraint_type,
+        constraint_time: capture.constraint_time,
+        constraint_end: capture.constraint_end,
+        window_start: capture.window_start,
+        window_end: capture.window_end,
+        deadline_at: capture.deadline_at,
+        scheduling_notes: mergeSchedulingNotes(
+          capture.scheduling_notes,
+          "Scheduled as part of a full-queue plan.",
+          explanation,
+        ),
+      })
+      .eq("id", capture.id)
+      .select("*")
+      .single();
+    if (error || !data) {
+      // Nothing points at the new events yet; drop them so the run leaves
+      // no untracked change behind.
+      const createdEvents = bookedSessions
+        ? bookedSessions.map((session) => ({
+          id: session.calendarEventId!,
+          etag: session.calendarEventEtag ?? null,
+        }))
+        : [createdEvent];
+      for (const event of createdEvents) {
+        await calendar
+          .deleteEvent({ eventId: event.id, etag: event.etag })
+          .catch(() => undefined);
+      }
+      throw new ScheduleError("Failed to persist queue placement.", 500, error);
+    }
+
+    await recordPlanAction({
+      actionId,
+      captureId: capture.id,
+      captureContent: capture.content,
+      actionType: "scheduled",
+      prev: prevSnapshot,
+      next: snapshotFromRow(data as CaptureEntryRow),
+    });
+
+    const chunkRecords: ChunkRecord[] = bookedSessions ??
+      buildChunksForSlot(data as CaptureEntryRow, slot);
+    await replaceCaptureChunks(admin, data as CaptureEntryRow, chunkRecords);
+    scheduled.push({
+      capture: data as CaptureEntryRow,
+      chunks: serializeChunks(chunkRecords),
+      explanation,
+    });
+  }
+
+  // Dependents scheduled by earlier runs may now start before a capture
+  // placed here ends.
+  await cascadeDependents({
+    admin,
+    userId,
+    calendar,
+    offsetMinutes,
+    referenceNow,
+    planId,
+    planActions,
+    recordPlanAction,
+  });
+
+  const pencilled: CaptureEntryRow[] = [];
+  for (const placement of longRangePlan?.placements ?? []) {
+    const row = await persistPencil(admin, placement, offsetMinutes, planId);
+    if (!row) continue;
+    await recordPlanAction({
+      actionId: crypto.randomUUID(),
+      captureId: row.id,
+      captureContent: row.content,
+      actionType: "scheduled",
+      prev: snapshotFromRow(placement.capture),
+      next: snapshotFromRow(row),
+    });
+    pencilled.push(row);
+  }
+  // A due pencil that found no slot goes back to waiting like any capture.
+  for (const entry of queuePlan.unplaced) {
+    if (entry.capture.status !== "pencilled") continue;
+    await admin
+      .from("capture_entries")
+      .update({ status: "pending", planned_start: null, planned_end: null })
+      .eq("id", entry.capture.id)
+      .eq("status", "pencilled");
+  }
+
+  let planSummary: ReturnType<typeof buildPlanSummary> | null = null;
+  if (planActions.length > 0) {
+    await admin
+      .from("plan_runs")
+      .update({ summary: buildPlanSummaryText(planActions) })
+      .eq("id", planId);
+    await enqueueNotificationJobs(
+      admin,
+      planActions.map((action) => action.captureId),
+      referenceNow,
+    );
+    planSummary = buildPlanSummary(planId, planActions);
+  }
+
+  const unplaced = [...queuePlan.unplaced, ...(longRangePlan?.unplaced ?? [])]
+    .map((entry) => ({
+      captureId: entry.capture.id,
+      content: entry.capture.content,
+      reason: entry.reason,
+      ...(entry.capHits?.length
+        ? { note: describeWorkloadCapHit(entry.capHits[0]) }
+        : {}),
+    }));
+  const placedText = pencilled.length > 0
+    ? `Scheduled ${scheduled.length} and pencilled in ${pencilled.length}`
+    : `Scheduled ${scheduled.length}`;
+  const message =
+    unplaced.length > 0
+      ? `${placedText} of ${schedulable.length} captures; ${unplaced.length} did not fit.`
+      : `${placedText} captures.`;
+  return json({ message, planSummary, scheduled, pencilled, unplaced });
+}
+
+/**
+ * Stores a long-range placement as a pencilled capture: the slot is kept on
+ * the row but no calendar event is created until the commitment window
+ * reaches it. Returns null when the capture changed in the meantime.
+ */
+async function persistPencil(
+  admin: SupabaseClient<Database, "public">,
+  placement: LongRangePlacement,
+  offsetMinutes: number,
+  planId: string,
+) {
+  const { capture, slot } = placement;
+  const { commitmentDays } = activeSchedulerConfig().longRange;
+  const { data, error } = await admin
+    .from("capture_entries")
+    .update({
+      status: "pencilled",
+      planned_start: slot.start.toISOString(),
+      planned_end: slot.end.toISOString(),
+      plan_id: planId,
+      scheduling_notes: mergeSchedulingNotes(
+        capture.scheduling_notes,
+        `Pencilled in for ${
+          localDateKey(slot.start, offsetMinutes)
+        }; it goes on your calendar once it is within ${commitmentDays} days.`,
+      ),
+    })
+    .eq("id", capture.id)
+    .eq("status", "pending")
+    .select("*")
+    .maybeSingle();
+  if (error) {
+    throw new ScheduleError("Failed to persist pencilled capture.", 500, error);
+  }
+  return (data as CaptureEntryRow | null) ?? null;
+}
+
+/**
+ * Loads the dependency links of the queued captures together with the
+ * predecessors that are not queued themselves (already scheduled, completed,
+ * and so on).
+ */
+async function loadQueueDependencies(
+  admin: SupabaseClient<Database, "public">,
+  userId: string,
+  captureIds: string[],
+) {
+  const { data: links, error } = await admin
+    .from("capture_dependencies")
+    .select("capture_id, predecessor_id")
+    .eq("user_id", userId)
+    .in("capture_id", captureIds);
+  if (error) {
+    throw new ScheduleError("Failed to load capture dependencies.", 500, error);
+  }
+  const dependencies = (links ?? []) as Pick<
+    CaptureDependencyRow,
+    "capture_id" | "predecessor_id"
+  >[];
+  const queued = new Set(captureIds);
+  const externalIds = Array.from(
+    new Set(
+      dependencies
+        .map((link) => link.predecessor_id)
+        .filter((id) => !queued.has(id)),
+    ),
+  );
+  if (externalIds.length === 0) {
+    return { dependencies, predecessors: [] as PredecessorSnapshot[] };
+  }
+  const { data: rows, error: predecessorError } = await admin
+    .from("capture_entries")
+    .select("id, content, status, planned_end")
+    .eq("user_id", userId)
+    .in("id", externalIds);
+  if (predecessorError) {
+    throw new ScheduleError(
+      "Failed to load predecessor captures.",
+      500,
+      predecessorError,
+    );
+  }
+  return {
+    dependencies,
+    predecessors: await extendToLastSession(
+      admin,
+      (rows ?? []) as PredecessorSnapshot[],
+    ),
+  };
+}
+
+// Inserts any missing upcoming occurrences for a template and returns the
+// ones still waiting for a slot, earliest first.
+async function materializeOccurrences(args: {
+  template: CaptureEntryRow;
+  admin: SupabaseClient<Database, "public">;
+  offsetMinutes: number;
+  referenceNow: Date;
+}) {
+  const { template, admin, offsetMinutes, referenceNow } = args;
+  const { data: existingData, error: existingError } = await admin
+    .from("capture_entries")
+    .select("*")
+    .eq("recurrence_parent_id", template.id);
+  if (existingError) {
+    throw new ScheduleError(
+      "Failed to load recurring occurrences.",
+      500,
+      existingError,
+    );
+  }
+  const existing = (existingData ?? []) as CaptureEntryRow[];
+  const knownDates = new Set(existing.map((row) => row.occurrence_date));
+  const upcomingDates = upcomingOccurrenceDates(
+    template,
+    offsetMinutes,
+    referenceNow,
+  );
+
+  const inserts = upcomingDates
+    .filter((date) => !knownDates.has(date))
+    .map((date) => buildOccurrenceInsert(template, date, offsetMinutes));
+  let created: CaptureEntryRow[] = [];
+  if (inserts.length > 0) {
+    const { data, error } = await admin
+      .from("capture_entries")
+      .insert(inserts)
+      .select("*");
+    if (error) {
+      throw new ScheduleError(
+        "Failed to create recurring occurrences.",
+        500,
+        error,
+      );
+    }
+    created = (data ?? []) as CaptureEntryRow[];
+  }
+
+  const upcoming = new Set(upcomingDates);
+  const pending = [...existing, ...created]
+    .filter(
+      (row) =>
+        row.status === "pending" &&
+        row.occurrence_date !== null &&
+        row.occurrence_date !== undefined &&
+        upcoming.has(row.occurrence_date),
+    )
+    .sort((a, b) => a.occurrence_date!.localeCompare(b.occurrence_date!));
+
+  return { created, pending };
+}
+
+// Materializes upcoming occurrences of a recurring template and places each
+// one on its own day. Occurrences that do not fit their day stay pending.
+async function scheduleRecurringSeries(args: {
+  template: CaptureEntryRow;
+  admin: SupabaseClient<Database, "public">;
+  calendar: CalendarActions;
+  planId: string;
+  offsetMinutes: number;
+  referenceNow: Date;
+  durationMinutes: number;
+  capturePriority: number;
+  recordPlanAction: (action: Omit<PlanActionRecord, "planId">) => Promise<void>;
+  finalizePlan: () => Promise<ReturnType<typeof buildPlanSummary> | null>;
+}) {
+  const { template, admin, offsetMinutes, referenceNow, durationMinutes } =
+    args;
+
+  const { created, pending } = await materializeOccurrences({
+    template,
+    admin,
+    offsetMinutes,
+    referenceNow,
+  });
+
+  const horizonEnd = addMinutes(
+    referenceNow,
+    (schedulerConfig.recurrence.horizonDays + 1) * 24 * 60,
+  );
+  const events =
+    pending.length > 0
+      ? await args.calendar.listEvents(
+          referenceNow.toISOString(),
+          horizonEnd.toISOString(),
+        )
+      : [];
+  const busyIntervals = computeBusyIntervals(events, undefined, {
+    location: template.location,
+  });
+  const enforceWorkingWindow = shouldEnforceWorkingWindow(template);
+
+  const scheduled: CaptureEntryRow[] = [];
+  const unplacedDates: string[] = [];
+  const serializedChunks: SerializedChunk[] = [];
+
+  for (const occurrence of pending) {
+    const plan = computeSchedulingPlan(
+      occurrence,
+      durationMinutes,
+      offsetMinutes,
+      referenceNow,
+    );
+    const slot = scheduleWithPlan({
+      plan,
+      durationMinutes,
+      busyIntervals,
+      offsetMinutes,
+      referenceNow,
+      isSoftStart: occurrence.is_soft_start,
+      enforceWorkingWindow,
+      preferredTimeOfDay: derivePreferredTimeOfDayBands(occurrence),
+    });
+    if (!slot || !isSlotOnOccurrenceDay(occurrence, slot)) {
+      unplacedDates.push(occurrence.occurrence_date!);
+      continue;
+    }
+
+    const actionId = crypto.randomUUID();
+    const prevSnapshot = snapshotFromRow(occurrence);
+    const createdEvent = await args.calendar.createEvent({
+      capture: occurrence,
+      slot,
+      planId: args.planId,
+      actionId,
+      priorityScore: args.capturePriority,
+    });
+    registerInterval(busyIntervals, slot, occurrence.location);
+
+    const explanation = buildScheduleExplanation({
+      plan,
+      slot,
+      capturePriority: args.capturePriority,
+      durationMinutes,
+      enforceWorkingWindow,
+      resolvedDeadline: null,
+      preferredSlot: plan.preferredSlot ?? null,
+      decisionPath: ["recurrence", "plan_candidate"],
+      flags: {
+        usedPreferred: slotMatchesTarget(slot, plan.preferredSlot ?? null),
+      },
+      energy: deriveEnergyScoring(occurrence, offsetMinutes),
+    });
+
+    const { data, error } = await admin
+      .from("capture_entries")
+      .update({
+        status: "scheduled",
+        planned_start: slot.start.toISOString(),
+        planned_end: slot.end.toISOString(),
+        scheduled_for: slot.start.toISOString(),
+        calendar_event_id: createdEvent.id,
+        calendar_account_id: args.calendar.accountId,
+        calendar_event_etag: createdEvent.etag,
+        plan_id: args.planId,
+        freeze_until: null,
+        scheduling_notes: mergeSchedulingNotes(
+          occurrence.scheduling_notes,
+          `Scheduled occurrence for ${occurrence.occurrence_date}.`,
+          explanation,
+        ),
+      })
+      .eq("id", occurrence.id)
+      .select("*")
+      .single();
+    if (error || !data) {
+      throw new ScheduleError(
+        "Failed to persist recurring occurrence.",
+        500,
+        error,
+      );
+    }
+
+    const chunkRecords = buildChunksForSlot(data as CaptureEntryRow, slot);
+    await replaceCaptureChunks(admin, data as CaptureEntryRow, chunkRecords);
+    serializedChunks.push(...serializeChunks(chunkRecords));
+
+    await args.recordPlanAction({
+      actionId,
+      captureId: occurrence.id,
+      captureContent: occurrence.content,
+      actionType: "scheduled",
+      prev: prevSnapshot,
+      next: snapshotFromRow(data as CaptureEntryRow),
+    });
+    scheduled.push(data as CaptureEntryRow);
+  }
+
+  const seriesNote =
+    unplacedDates.length > 0
+      ? `Recurring series: scheduled ${scheduled.length} occurrence(s); no room on ${unplacedDates.join(", ")}.`
+      : `Recurring series: scheduled ${scheduled.length} occurrence(s).`;
+  const { data: updatedTemplate, error: templateError } = await admin
+    .from("capture_entries")
+    .update({
+      status: "recurring",
+      scheduling_notes: mergeSchedulingNotes(
+        template.scheduling_notes,
+        seriesNote,
+      ),
+    })
+    .eq("id", template.id)
+    .select("*")
+    .single();
+  if (templateError) {
+    throw new ScheduleError(
+      "Failed to update recurring capture.",
+      500,
+      templateError,
+    );
+  }
+
+  logSchedulerEvent("recurrence.materialized", {
+    captureId: template.id,
+    rule: template.recurrence_rule,
+    created: created.length,
+    scheduled: scheduled.length,
+    unplaced: unplacedDates,
+  });
+
+  const planSummary = await args.finalizePlan();
+  return json({
+    message: seriesNote,
+    capture: updatedTemplate,
+    occurrences: scheduled,
+    unplacedDates,
+    planSummary,
+    chunks: serializedChunks,
+  });
+}
+
 async function tryScheduleWithOverlap(args: {
   capture: CaptureEntryRow;
   slot: PreferredSlot;
   conflicts: ConflictSummary[];
   admin: SupabaseClient<Database, "public">;
-  google: GoogleCalendarActions;
+  calendar: CalendarActions;
   planId: string;
   capturePriority: number;
   durationMinutes: number;
@@ -2235,14 +3488,14 @@ async function tryScheduleWithOverlap(args: {
 
   const actionId = crypto.randomUUID();
   const prevSnapshot = snapshotFromRow(args.capture);
-  const createdEvent = await args.google.createEvent({
+  const createdEvent = await args.calendar.createEvent({
     capture: args.capture,
     slot: args.slot,
     planId: args.planId,
     actionId,
     priorityScore: args.capturePriority,
   });
-  registerInterval(args.busyIntervals, args.slot);
+  registerInterval(args.busyIntervals, args.slot, args.capture.location);
 
   const { data, error } = await args.admin
     .from("capture_entries")
@@ -2252,6 +3505,7 @@ async function tryScheduleWithOverlap(args: {
       planned_end: args.slot.end.toISOString(),
       scheduled_for: args.slot.start.toISOString(),
       calendar_event_id: createdEvent.id,
+      calendar_account_id: args.calendar.accountId,
       calendar_event_etag: createdEvent.etag,
       plan_id: args.planId,
       freeze_until: null,
@@ -2350,7 +3604,7 @@ async function scheduleWithUserApprovedExternalOverlap(args: {
   slot: PreferredSlot;
   conflicts: ConflictSummary[];
   admin: SupabaseClient<Database, "public">;
-  google: GoogleCalendarActions;
+  calendar: CalendarActions;
   planId: string;
   capturePriority: number;
   durationMinutes: number;
@@ -2387,14 +3641,14 @@ async function scheduleWithUserApprovedExternalOverlap(args: {
 
   const actionId = crypto.randomUUID();
   const prevSnapshot = snapshotFromRow(args.capture);
-  const createdEvent = await args.google.createEvent({
+  const createdEvent = await args.calendar.createEvent({
     capture: args.capture,
     slot: args.slot,
     planId: args.planId,
     actionId,
     priorityScore: args.capturePriority,
   });
-  registerInterval(args.busyIntervals, args.slot);
+  registerInterval(args.busyIntervals, args.slot, args.capture.location);
 
   const overlapNote =
     args.conflicts.length === 1
@@ -2409,6 +3663,7 @@ async function scheduleWithUserApprovedExternalOverlap(args: {
       planned_end: args.slot.end.toISOString(),
       scheduled_for: args.slot.start.toISOString(),
       calendar_event_id: createdEvent.id,
+      calendar_account_id: args.calendar.accountId,
       calendar_event_etag: createdEvent.etag,
       plan_id: args.planId,
       freeze_until: null,
@@ -2589,7 +3844,7 @@ async function pickGridPreemptionCandidate(args: {
 
 async function reclaimDiaGuruConflicts(
   conflicts: ConflictSummary[],
-  google: GoogleCalendarActions,
+  calendar: CalendarActions,
   admin: SupabaseClient<Database, "public">,
   options: {
     captureMap: Map<string, CaptureEntryRow>;
@@ -2604,6 +3859,8 @@ async function reclaimDiaGuruConflicts(
   const removed: CaptureEntryRow[] = [];
   for (const conflict of conflicts) {
     if (!conflict.captureId) continue;
+    // Another session of a capture already reclaimed went with it.
+    if (removed.some((row) => row.id === conflict.captureId)) continue;
     const blocker = options.captureMap.get(conflict.captureId);
     if (!blocker) {
       throw new ScheduleError(
@@ -2615,16 +3872,18 @@ async function reclaimDiaGuruConflicts(
     const prevSnapshot = blocker ? snapshotFromRow(blocker) : null;
     try {
       const event = options.eventsById.get(conflict.id);
-      await google.deleteEvent({
+      await calendar.deleteEvent({
         eventId: conflict.id,
-        etag: blocker?.calendar_event_etag ?? event?.etag,
+        etag: conflict.id === blocker.calendar_event_id
+          ? (blocker.calendar_event_etag ?? event?.etag)
+          : event?.etag,
       });
     } catch (error) {
       if (error instanceof ScheduleError && error.status === 412) {
-        const refreshed = await google.getEvent(conflict.id);
+        const refreshed = await calendar.getEvent(conflict.id);
         if (refreshed) {
           options.eventsById.set(conflict.id, refreshed);
-          await google.deleteEvent({
+          await calendar.deleteEvent({
             eventId: conflict.id,
             etag: refreshed.etag ?? undefined,
           });
@@ -2635,6 +3894,7 @@ async function reclaimDiaGuruConflicts(
         throw error;
       }
     }
+    await deleteSessionEvents(admin, calendar, blocker, conflict.id);
     options.reclaimedEntries.push({
       conflictEventId: conflict.id,
       original: blocker,
@@ -2647,6 +3907,7 @@ async function reclaimDiaGuruConflicts(
         status: "pending",
         calendar_event_id: null,
         calendar_event_etag: null,
+        calendar_account_id: null,
         planned_start: null,
         planned_end: null,
         scheduled_for: null,
@@ -2686,7 +3947,7 @@ async function reclaimDiaGuruConflicts(
 
 async function rollbackPreemptionAttempt(args: {
   admin: SupabaseClient<Database, "public">;
-  google: GoogleCalendarActions;
+  calendar: CalendarActions;
   targetCapture: CaptureEntryRow;
   targetCreatedEvent?: { id: string; etag: string | null } | null;
   reclaimedEntries: ReclaimedConflictEntry[];
@@ -2710,7 +3971,7 @@ async function rollbackPreemptionAttempt(args: {
 
   if (args.targetCreatedEvent?.id) {
     try {
-      await args.google.deleteEvent({
+      await args.calendar.deleteEvent({
         eventId: args.targetCreatedEvent.id,
         etag: args.targetCreatedEvent.etag ?? undefined,
       });
@@ -2721,7 +3982,7 @@ async function rollbackPreemptionAttempt(args: {
 
   await restoreCaptureRow({
     admin: args.admin,
-    google: args.google,
+    calendar: args.calendar,
     original: args.targetCapture,
     current: null,
     referenceNow: args.referenceNow,
@@ -2730,7 +3991,7 @@ async function rollbackPreemptionAttempt(args: {
   for (const entry of args.reclaimedEntries) {
     await restoreCaptureRow({
       admin: args.admin,
-      google: args.google,
+      calendar: args.calendar,
       original: entry.original,
       current: currentById.get(entry.original.id) ?? null,
       referenceNow: args.referenceNow,
@@ -2740,17 +4001,14 @@ async function rollbackPreemptionAttempt(args: {
 
 async function restoreCaptureRow(args: {
   admin: SupabaseClient<Database, "public">;
-  google: GoogleCalendarActions;
+  calendar: CalendarActions;
   original: CaptureEntryRow;
   current: CaptureEntryRow | null;
   referenceNow: Date;
 }) {
   if (args.current?.calendar_event_id) {
     try {
-      await args.google.deleteEvent({
-        eventId: args.current.calendar_event_id,
-        etag: args.current.calendar_event_etag ?? undefined,
-      });
+      await deleteCaptureEvents(args.admin, args.calendar, args.current);
     } catch (error) {
       console.log(
         "Failed to delete replacement event during rollback",
@@ -2770,7 +4028,7 @@ async function restoreCaptureRow(args: {
     Boolean(plannedEnd);
   if (expectedScheduledRestore && plannedStart && plannedEnd) {
     try {
-      const restoredEvent = await args.google.createEvent({
+      const restoredEvent = await args.calendar.createEvent({
         capture: args.original,
         slot: {
           start: new Date(plannedStart),
@@ -2814,6 +4072,7 @@ async function restoreCaptureRow(args: {
       planned_end: restoredPlannedEnd,
       calendar_event_id: restoredEventId,
       calendar_event_etag: restoredEventEtag,
+      calendar_account_id: restoredEventId ? args.calendar.accountId : null,
       freeze_until: restoredAsScheduled
         ? (args.original.freeze_until ?? null)
         : null,
@@ -2948,7 +4207,7 @@ async function loadConflictCaptures(
 
 async function rescheduleCaptures(args: {
   captures: CaptureEntryRow[];
-  google: GoogleCalendarActions;
+  calendar: CalendarActions;
   admin: SupabaseClient<Database, "public">;
   busyIntervals: { start: Date; end: Date }[];
   offsetMinutes: number;
@@ -2958,7 +4217,7 @@ async function rescheduleCaptures(args: {
 }) {
   const {
     captures,
-    google,
+    calendar,
     admin,
     busyIntervals,
     offsetMinutes,
@@ -3013,7 +4272,7 @@ async function rescheduleCaptures(args: {
     try {
       const actionId = crypto.randomUUID();
       const priorityScore = priorityForCapture(capture, referenceNow);
-      const createdEvent = await google.createEvent({
+      const createdEvent = await calendar.createEvent({
         capture,
         slot,
         planId,
@@ -3041,75 +4300,299 @@ async function rescheduleCaptures(args: {
       const { data, error } = await admin
         .from("capture_entries")
         .update({
-          status: "scheduled",
-          planned_start: slot.start.toISOString(),
-          planned_end: slot.end.toISOString(),
-          scheduled_for: slot.start.toISOString(),
-          calendar_event_id: createdEvent.id,
-          calendar_event_etag: createdEvent.etag,
+          status: "scheduled",
+          planned_start: slot.start.toISOString(),
+          planned_end: slot.end.toISOString(),
+          scheduled_for: slot.start.toISOString(),
+          calendar_event_id: createdEvent.id,
+          calendar_account_id: calendar.accountId,
+          calendar_event_etag: createdEvent.etag,
+          plan_id: planId,
+          freeze_until: null,
+          scheduling_notes: mergeSchedulingNotes(
+            capture.scheduling_notes,
+            "Rescheduled automatically after calendar reflow.",
+            explanation,
+          ),
+        })
+        .eq("id", capture.id)
+        .select("*")
+        .single();
+      if (error || !data) {
+        try {
+          await calendar.deleteEvent({
+            eventId: createdEvent.id,
+            etag: createdEvent.etag ?? undefined,
+          });
+        } catch (deleteError) {
+          console.log(
+            "Failed to delete replacement event after reschedule write failure",
+            capture.id,
+            deleteError,
+          );
+        }
+        throw new ScheduleError(
+          "Failed to persist displaced capture after calendar reflow.",
+          500,
+          error,
+        );
+      }
+      const chunkRecords = buildChunksForSlot(data as CaptureEntryRow, slot);
+      await replaceCaptureChunks(admin, data as CaptureEntryRow, chunkRecords);
+      registerInterval(busyIntervals, slot, capture.location);
+      await recordPlanAction({
+        actionId,
+        captureId: capture.id,
+        captureContent: capture.content,
+        actionType: "rescheduled",
+        prev: prevSnapshot,
+        next: snapshotFromRow(data as CaptureEntryRow),
+      });
+    } catch (error) {
+      console.log("Failed to reschedule displaced capture", capture.id, error);
+      throw error instanceof ScheduleError
+        ? error
+        : new ScheduleError(
+            "Reschedule attempt failed during calendar reflow.",
+            500,
+            { captureId: capture.id, error },
+          );
+    }
+  }
+}
+
+async function loadDependencyGate(
+  admin: SupabaseClient<Database, "public">,
+  userId: string,
+  captureId: string,
+): Promise<DependencyGate | null> {
+  const { data: links, error } = await admin
+    .from("capture_dependencies")
+    .select("predecessor_id")
+    .eq("user_id", userId)
+    .eq("capture_id", captureId);
+  if (error) {
+    throw new ScheduleError("Failed to load capture dependencies.", 500, error);
+  }
+  const ids = (links ?? []).map(
+    (link: { predecessor_id: string }) => link.predecessor_id,
+  );
+  if (ids.length === 0) return null;
+  const { data: predecessors, error: predecessorError } = await admin
+    .from("capture_entries")
+    .select("id, content, status, planned_end")
+    .eq("user_id", userId)
+    .in("id", ids);
+  if (predecessorError) {
+    throw new ScheduleError(
+      "Failed to load predecessor captures.",
+      500,
+      predecessorError,
+    );
+  }
+  return resolveDependencyGate(
+    await extendToLastSession(
+      admin,
+      (predecessors ?? []) as PredecessorSnapshot[],
+    ),
+  );
+}
+
+// A spaced capture is planned as its first session, but what depends on it
+// waits for the last one.
+async function extendToLastSession(
+  admin: SupabaseClient<Database, "public">,
+  predecessors: PredecessorSnapshot[],
+): Promise<PredecessorSnapshot[]> {
+  const ids = predecessors
+    .filter((row) => row.planned_end)
+    .map((row) => row.id);
+  if (ids.length === 0) return predecessors;
+  const { data, error } = await admin
+    .from("capture_chunks")
+    .select("capture_id, end")
+    .in("capture_id", ids)
+    .is("completed_at", null)
+    .not("calendar_event_id", "is", null);
+  if (error) {
+    throw new ScheduleError("Failed to load predecessor sessions.", 500, error);
+  }
+  const lastEnds = new Map<string, number>();
+  for (const chunk of (data ?? []) as Pick<
+    CaptureChunkRow,
+    "capture_id" | "end"
+  >[]) {
+    lastEnds.set(
+      chunk.capture_id,
+      Math.max(lastEnds.get(chunk.capture_id) ?? 0, Date.parse(chunk.end)),
+    );
+  }
+  return predecessors.map((row) => {
+    const lastEnd = lastEnds.get(row.id);
+    return lastEnd && row.planned_end && lastEnd > Date.parse(row.planned_end)
+      ? { ...row, planned_end: new Date(lastEnd).toISOString() }
+      : row;
+  });
+}
+
+/**
+ * After a plan moves captures, unschedules any dependents that now start
+ * before a predecessor ends and places them again behind it. Each level of
+ * dependents is handled in turn, up to the configured ripple depth.
+ */
+async function cascadeDependents(args: {
+  admin: SupabaseClient<Database, "public">;
+  userId: string;
+  calendar: CalendarActions;
+  offsetMinutes: number;
+  referenceNow: Date;
+  planId: string;
+  planActions: PlanActionRecord[];
+  recordPlanAction: (action: Omit<PlanActionRecord, "planId">) => Promise<void>;
+}) {
+  const { admin, userId, calendar, referenceNow, planId, recordPlanAction } =
+    args;
+  const visited = new Set<string>();
+  let frontier = Array.from(
+    new Set(
+      args.planActions
+        .filter((action) => action.actionType !== "unscheduled")
+        .map((action) => action.captureId),
+    ),
+  );
+
+  for (
+    let depth = 0;
+    depth < schedulerConfig.limits.maxRippleDepth && frontier.length > 0;
+    depth++
+  ) {
+    frontier.forEach((id) => visited.add(id));
+    const { data: links } = await admin
+      .from("capture_dependencies")
+      .select("capture_id")
+      .eq("user_id", userId)
+      .in("predecessor_id", frontier);
+    const dependentIds = Array.from(
+      new Set(
+        (links ?? [])
+          .map((link: { capture_id: string }) => link.capture_id)
+          .filter((id: string) => !visited.has(id)),
+      ),
+    );
+    if (dependentIds.length === 0) return;
+
+    const { data: dependentRows } = await admin
+      .from("capture_entries")
+      .select("*")
+      .eq("user_id", userId)
+      .in("id", dependentIds)
+      .eq("status", "scheduled");
+    const displaced: { capture: CaptureEntryRow; notBefore: Date }[] = [];
+    for (const dependent of (dependentRows ?? []) as CaptureEntryRow[]) {
+      const gate = await loadDependencyGate(admin, userId, dependent.id);
+      const plannedStart = parseIsoDate(dependent.planned_start);
+      const plannedEnd = parseIsoDate(dependent.planned_end);
+      if (!gate?.earliestStart || !plannedStart || !plannedEnd) continue;
+      if (
+        isSlotAfterPredecessors(gate, { start: plannedStart, end: plannedEnd })
+      ) {
+        continue;
+      }
+      displaced.push({ capture: dependent, notBefore: gate.earliestStart });
+    }
+    if (displaced.length === 0) return;
+
+    for (const { capture } of displaced) {
+      await deleteCaptureEvents(admin, calendar, capture);
+      const { data, error } = await admin
+        .from("capture_entries")
+        .update({
+          status: "pending",
+          calendar_event_id: null,
+          calendar_event_etag: null,
+          calendar_account_id: null,
+          planned_start: null,
+          planned_end: null,
+          scheduled_for: null,
+          reschedule_count: (capture.reschedule_count ?? 0) + 1,
           plan_id: planId,
           freeze_until: null,
           scheduling_notes: mergeSchedulingNotes(
             capture.scheduling_notes,
-            "Rescheduled automatically after calendar reflow.",
-            explanation,
+            "Moved to follow a rescheduled predecessor.",
           ),
         })
         .eq("id", capture.id)
         .select("*")
         .single();
       if (error || !data) {
-        try {
-          await google.deleteEvent({
-            eventId: createdEvent.id,
-            etag: createdEvent.etag ?? undefined,
-          });
-        } catch (deleteError) {
-          console.log(
-            "Failed to delete replacement event after reschedule write failure",
-            capture.id,
-            deleteError,
-          );
-        }
         throw new ScheduleError(
-          "Failed to persist displaced capture after calendar reflow.",
+          "Failed to unschedule dependent capture.",
           500,
           error,
         );
       }
-      const chunkRecords = buildChunksForSlot(data as CaptureEntryRow, slot);
-      await replaceCaptureChunks(admin, data as CaptureEntryRow, chunkRecords);
-      registerInterval(busyIntervals, slot);
       await recordPlanAction({
-        actionId,
+        actionId: crypto.randomUUID(),
         captureId: capture.id,
         captureContent: capture.content,
-        actionType: "rescheduled",
-        prev: prevSnapshot,
+        actionType: "unscheduled",
+        prev: snapshotFromRow(capture),
         next: snapshotFromRow(data as CaptureEntryRow),
       });
-    } catch (error) {
-      console.log("Failed to reschedule displaced capture", capture.id, error);
-      throw error instanceof ScheduleError
-        ? error
-        : new ScheduleError(
-            "Reschedule attempt failed during calendar reflow.",
-            500,
-            { captureId: capture.id, error },
-          );
+      Object.assign(capture, data as CaptureEntryRow);
+    }
+
+    const events = await calendar.listEvents(
+      referenceNow.toISOString(),
+      new Date(referenceNow.getTime() + SEARCH_DAYS * 86400000).toISOString(),
+    );
+    const busyIntervals = computeBusyIntervals(events);
+    const placed: string[] = [];
+    for (const { capture, notBefore } of displaced) {
+      try {
+        await rescheduleCaptures({
+          captures: [capture],
+          calendar,
+          admin,
+          busyIntervals,
+          offsetMinutes: args.offsetMinutes,
+          referenceNow:
+            notBefore.getTime() > referenceNow.getTime()
+              ? notBefore
+              : referenceNow,
+          planId,
+          recordPlanAction,
+        });
+        placed.push(capture.id);
+      } catch (error) {
+        // The dependent stays pending; the unscheduled action explains why.
+        logSchedulerEvent("dependencies.cascade_failed", {
+          captureId: capture.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
     }
+    logSchedulerEvent("dependencies.cascade", {
+      depth,
+      displaced: displaced.map(({ capture }) => capture.id),
+      placed,
+    });
+    frontier = placed;
   }
 }
 
-function resolveLlmConfig(): LlmConfig | null {
-  const baseUrlRaw = Deno.env.get("LLM_BASE_URL");
-  const apiKey = Deno.env.get("LLM_API_KEY");
-  const model = Deno.env.get("LLM_MODEL") ?? "deepseek-v3";
-  if (!baseUrlRaw || !apiKey) return null;
-  const baseUrl = baseUrlRaw.replace(/\s+/g, "").replace(/\/+$/, "");
-  if (!baseUrl) return null;
-  return { baseUrl, apiKey, model };
-}
+const ADVISOR_CALL: LlmCallOptions = { timeoutMs: 10_000, retries: 1 };
+
+const ADVISOR_SCHEMA: JsonSchema = {
+  type: "object",
+  required: ["action"],
+  properties: {
+    action: { enum: ["suggest_slot", "ask_overlap", "defer"] },
+    message: { type: ["string", "null"] },
+    slot: { type: ["object", "null"] },
+  },
+};
 
 async function buildConflictDecision(args: {
   capture: CaptureEntryRow;
@@ -3119,7 +4602,7 @@ async function buildConflictDecision(args: {
   timezone: string | null;
   offsetMinutes: number;
   outsideWindow: boolean;
-  llmConfig: LlmConfig | null;
+  llmProvider: LlmProvider | null;
   busyIntervals: { start: Date; end: Date }[];
   admin: SupabaseClient<Database, "public">;
   conflictMetadata?: ConflictDecisionMetadata;
@@ -3189,8 +4672,8 @@ async function buildConflictDecision(args: {
     };
   });
 
-  const advisorResult = await adviseWithDeepSeek({
-    config: args.llmConfig,
+  const advisorResult = await adviseWithLlm({
+    provider: args.llmProvider,
     capture,
     preferredSlot,
     conflicts: args.conflicts,
@@ -3245,8 +4728,8 @@ async function buildConflictDecision(args: {
   return { decision, note };
 }
 
-async function adviseWithDeepSeek(args: {
-  config: LlmConfig | null;
+async function adviseWithLlm(args: {
+  provider: LlmProvider | null;
   capture: CaptureEntryRow;
   preferredSlot: PreferredSlot;
   conflicts: ConflictSummary[];
@@ -3258,17 +4741,13 @@ async function adviseWithDeepSeek(args: {
   durationMinutes: number;
   busyIntervals: { start: Date; end: Date }[];
 }): Promise<AdvisorResult> {
-  if (!args.config) {
+  if (!args.provider) {
     return {
       advisor: null,
       metadata: { llmAttempted: false },
     };
   }
 
-  const endpoint = args.config.baseUrl.match(/\/chat\/completions$/)
-    ? args.config.baseUrl
-    : `${args.config.baseUrl}/chat/completions`;
-
   const context = {
     capture: {
       id: args.capture.id,
@@ -3290,88 +4769,34 @@ async function adviseWithDeepSeek(args: {
     generated_at: new Date().toISOString(),
   };
 
-  const payload = {
-    model: args.config.model,
-    messages: [
-      {
-        role: "system",
-        content:
-          "You are DiaGuru's scheduling assistant. Resolve conflicts succinctly and respond in JSON with keys: action ('suggest_slot' | 'ask_overlap' | 'defer'), message (string), optional slot { start, end } in ISO 8601.",
-      },
-      { role: "user", content: JSON.stringify(context) },
-    ],
-    temperature: 0.2,
-    max_tokens: 400,
-    response_format: { type: "json_object" },
-  };
-
   const metadata: AdvisorResult["metadata"] = {
     llmAttempted: true,
-    llmModel: args.config.model,
+    llmModel: args.provider.model,
   };
 
   try {
-    const res = await fetch(endpoint, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${args.config.apiKey}`,
-        "Content-Type": "application/json",
+    const { value: parsed, metrics } = await completeJson<{
+      action: "suggest_slot" | "ask_overlap" | "defer";
+      message?: string | null;
+      slot?: unknown;
+    }>(
+      args.provider,
+      {
+        system:
+          "You are DiaGuru's scheduling assistant. Resolve conflicts succinctly and respond in JSON with keys: action ('suggest_slot' | 'ask_overlap' | 'defer'), message (string), optional slot { start, end } in ISO 8601.",
+        user: JSON.stringify(context),
+        maxTokens: 400,
+        temperature: 0.2,
       },
-      body: JSON.stringify(payload),
-    });
-
-    const data = await safeParse(res);
-    if (!res.ok) {
-      const message =
-        extractGoogleError(data) ??
-        `LLM request failed with status ${res.status}`;
-      metadata.llmError = message;
-      return { advisor: null, metadata };
-    }
-
-    const choicesValue =
-      typeof data === "object" && data !== null
-        ? (data as Record<string, unknown>).choices
-        : undefined;
-    const firstChoice = Array.isArray(choicesValue) ? choicesValue[0] : null;
-    const messageValue =
-      firstChoice && typeof firstChoice === "object"
-        ? (firstChoice as Record<string, unknown>).message
-        : undefined;
-    const content =
-      messageValue && typeof messageValue === "object"
-        ? (messageValue as Record<string, unknown>).content
-        : undefined;
-
-    if (typeof content !== "string" || !content.trim()) {
-      metadata.llmError = "LLM returned empty content.";
-      return { advisor: null, metadata };
-    }
-
-    let parsed: Record<string, unknown>;
-    try {
-      parsed = JSON.parse(content);
-    } catch (error) {
-      metadata.llmError = `Unable to parse LLM JSON: ${
-        error instanceof Error ? error.message : "unknown error"
-      }`;
-      return { advisor: null, metadata };
-    }
-
-    const actionRaw = parsed.action;
-    const messageRaw = parsed.message;
-    const slotRaw = parsed.slot;
-
-    if (
-      actionRaw !== "suggest_slot" &&
-      actionRaw !== "ask_overlap" &&
-      actionRaw !== "defer"
-    ) {
-      metadata.llmError = "LLM returned an invalid action.";
-      return { advisor: null, metadata };
-    }
+      ADVISOR_SCHEMA,
+      ADVISOR_CALL,
+    );
+    metadata.llmMetrics = metrics;
 
-    const advisorSlotRaw = normalizeAdvisorSlot(slotRaw, args.durationMinutes);
+    const advisorSlotRaw = normalizeAdvisorSlot(
+      parsed.slot,
+      args.durationMinutes,
+    );
     let advisorSlot: { start: string; end: string } | null = null;
     if (advisorSlotRaw) {
       const slotIsValid = validateAdvisorSlot(
@@ -3390,19 +4815,22 @@ async function adviseWithDeepSeek(args: {
     }
 
     const messageText =
-      typeof messageRaw === "string" && messageRaw.trim().length > 0
-        ? messageRaw.trim()
+      typeof parsed.message === "string" && parsed.message.trim().length > 0
+        ? parsed.message.trim()
         : "DiaGuru could not honour that slot without a conflict.";
 
     return {
       advisor: {
-        action: actionRaw,
+        action: parsed.action,
         message: messageText,
         slot: advisorSlot,
       },
       metadata,
     };
   } catch (error) {
+    if (error instanceof LlmProviderError) {
+      metadata.llmMetrics = error.metrics ?? null;
+    }
     metadata.llmError = error instanceof Error ? error.message : String(error);
     return { advisor: null, metadata };
   }
@@ -3445,86 +4873,6 @@ function validateAdvisorSlot(
   return isSlotFree(slot.start, slot.end, busyIntervals);
 }
 
-async function listCalendarEvents(
-  accessToken: string,
-  eventsUrl: string,
-  timeMin: string,
-  timeMax: string,
-) {
-  const url = new URL(eventsUrl);
-  url.searchParams.set("singleEvents", "true");
-  url.searchParams.set("orderBy", "startTime");
-  url.searchParams.set("timeMin", timeMin);
-  url.searchParams.set("timeMax", timeMax);
-  url.searchParams.set("maxResults", "250");
-
-  const res = await fetch(url.toString(), {
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-  const payload = await safeParse(res);
-  if (!res.ok) {
-    const message =
-      extractGoogleError(payload) ??
-      `Google events fetch failed (status ${res.status})`;
-    throw new ScheduleError(message, res.status, payload);
-  }
-  const itemsValue =
-    payload && typeof payload === "object"
-      ? (payload as Record<string, unknown>).items
-      : null;
-  const rawItems = Array.isArray(itemsValue) ? (itemsValue as unknown[]) : [];
-  return rawItems as CalendarEvent[];
-}
-
-async function getCalendarEvent(
-  accessToken: string,
-  eventsUrl: string,
-  eventId: string,
-) {
-  const res = await fetch(`${eventsUrl}/${eventId}`, {
-    method: "GET",
-    headers: { Authorization: `Bearer ${accessToken}` },
-  });
-  if (res.status === 404) return null;
-  const payload = await safeParse(res);
-  if (!res.ok) {
-    const message =
-      extractGoogleError(payload) ??
-      `Failed to fetch calendar event (status ${res.status})`;
-    throw new ScheduleError(message, res.status, payload);
-  }
-  return payload as CalendarEvent;
-}
-
-async function deleteCalendarEvent(
-  accessToken: string,
-  eventsUrl: string,
-  options: { eventId: string; etag?: string | null },
-) {
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${accessToken}`,
-  };
-  if (options.etag) headers["If-Match"] = options.etag;
-  const res = await fetch(`${eventsUrl}/${options.eventId}`, {
-    method: "DELETE",
-    headers,
-  });
-  if (!res.ok) {
-    const payload = await safeParse(res);
-    const message =
-      extractGoogleError(payload) ??
-      `Failed to delete calendar event (status ${res.status})`;
-    if (res.status === 412) {
-      throw new ScheduleError(message, res.status, {
-        eventId: options.eventId,
-        payload,
-      });
-    }
-    if (res.status === 404) return;
-    throw new ScheduleError(message, res.status, payload);
-  }
-}
-
 function normalizeCalendarSummaryText(value: unknown): string | null {
   if (typeof value !== "string") return null;
   const flattened = value.replace(/\s+/g, " ").trim();
@@ -3548,71 +4896,38 @@ function resolveCaptureSummaryText(capture: CaptureEntryRow): string {
   );
 }
 
-async function createCalendarEvent(
-  accessToken: string,
-  eventsUrl: string,
-  params: {
-    capture: CaptureEntryRow;
-    slot: { start: Date; end: Date };
-    planId?: string | null;
-    actionId: string;
-    priorityScore: number;
-    description?: string;
-  },
-) {
+function buildCaptureEvent(params: {
+  capture: CaptureEntryRow;
+  slot: { start: Date; end: Date };
+  planId?: string | null;
+  actionId: string;
+  priorityScore: number;
+  description?: string;
+  chunkIndex?: number;
+}): NewProviderEvent {
   const { capture, slot, planId, actionId, priorityScore } = params;
-  const summary = `[DG] ${resolveCaptureSummaryText(capture)}`.slice(0, 200);
-  const privateProps: Record<string, string> = {
+  const privateProperties: Record<string, string> = {
     diaGuru: "true",
     capture_id: capture.id,
     action_id: actionId,
     priority_snapshot: priorityScore.toFixed(2),
   };
   if (planId) {
-    privateProps.plan_id = planId;
+    privateProperties.plan_id = planId;
   }
-  const body = {
-    summary,
+  if (params.chunkIndex !== undefined) {
+    privateProperties.chunk_index = String(params.chunkIndex);
+  }
+  return {
+    summary: `[DG] ${resolveCaptureSummaryText(capture)}`.slice(0, 200),
     description:
       params.description ??
       `DiaGuru scheduled task (importance ${capture.importance}).`,
-    start: { dateTime: slot.start.toISOString() },
-    end: { dateTime: slot.end.toISOString() },
-    reminders: { useDefault: true },
-    extendedProperties: {
-      private: {
-        ...privateProps,
-      },
-    },
+    location: capture.location ?? null,
+    start: slot.start,
+    end: slot.end,
+    privateProperties,
   };
-
-  const res = await fetch(eventsUrl, {
-    method: "POST",
-    headers: {
-      Authorization: `Bearer ${accessToken}`,
-      "Content-Type": "application/json",
-    },
-    body: JSON.stringify(body),
-  });
-  const payload = await safeParse(res);
-  if (!res.ok) {
-    const message =
-      extractGoogleError(payload) ??
-      `Failed to create calendar event (status ${res.status})`;
-    throw new ScheduleError(message, res.status, payload);
-  }
-  const identifier =
-    payload && typeof payload === "object"
-      ? (payload as Record<string, unknown>).id
-      : null;
-  const etag =
-    payload && typeof payload === "object"
-      ? (payload as Record<string, unknown>).etag
-      : null;
-  if (!identifier || typeof identifier !== "string") {
-    throw new ScheduleError("Google did not return an event id", 502, payload);
-  }
-  return { id: identifier, etag: typeof etag === "string" ? etag : null };
 }
 
 function snapshotFromRow(row: CaptureEntryRow): CaptureSnapshot {
@@ -3624,6 +4939,7 @@ function snapshotFromRow(row: CaptureEntryRow): CaptureSnapshot {
     calendar_event_etag: row.calendar_event_etag ?? null,
     freeze_until: row.freeze_until ?? null,
     plan_id: row.plan_id ?? null,
+    estimated_minutes: row.estimated_minutes ?? null,
   };
 }
 
@@ -3670,6 +4986,25 @@ function slotMatchesTarget(
   return delta <= toleranceMinutes * 60_000;
 }
 
+function describeEnergyPlacement(
+  slot: PreferredSlot,
+  energy: EnergyScoring | undefined,
+) {
+  if (!energy) return null;
+  const level = slotEnergy(energy.curve, slot, energy.offsetMinutes);
+  const basis =
+    activeSchedulerConfig().energy.source === "declared"
+      ? "your chronotype"
+      : "when you usually finish deep work on time";
+  if (energy.demand === "high" && level >= PEAK_LEVEL) {
+    return `Placed in your peak-energy hours, based on ${basis}.`;
+  }
+  if (energy.demand === "low" && level <= TROUGH_LEVEL) {
+    return `Placed in a lower-energy stretch to keep your peak hours free, based on ${basis}.`;
+  }
+  return null;
+}
+
 function buildScheduleExplanation(args: {
   plan: SchedulingPlan;
   slot: PreferredSlot;
@@ -3680,6 +5015,9 @@ function buildScheduleExplanation(args: {
   preferredSlot: PreferredSlot | null;
   decisionPath: string[];
   flags?: ExplanationFlags;
+  energy?: EnergyScoring;
+  capHits?: WorkloadCapHit[];
+  sessions?: ChunkRecord[];
 }): ScheduleExplanation {
   const reasons: string[] = [];
   const { plan, flags } = args;
@@ -3727,6 +5065,16 @@ function buildScheduleExplanation(args: {
     reasons.push("Scheduled in the next available slot.");
   }
 
+  if (args.sessions && args.sessions.length > 1) {
+    reasons.push(describeSpacedSessions(args.sessions));
+  }
+  for (const hit of args.capHits ?? []) {
+    reasons.push(describeWorkloadCapHit(hit));
+  }
+  const energyReason = describeEnergyPlacement(args.slot, args.energy);
+  if (energyReason) {
+    reasons.push(energyReason);
+  }
   if (args.enforceWorkingWindow) {
     reasons.push("Within working hours.");
   }
@@ -3744,7 +5092,7 @@ function buildScheduleExplanation(args: {
     reasons,
     constraints: {
       workingHours: args.enforceWorkingWindow,
-      bufferMinutes: BUFFER_MINUTES,
+      bufferMinutes: activeBufferMinutes(),
       windowStart,
       windowEnd,
       deadline,
@@ -3774,6 +5122,7 @@ function convertPlanActionForInsert(action: PlanActionRecord) {
     prev_calendar_event_etag: action.prev.calendar_event_etag,
     prev_freeze_until: action.prev.freeze_until,
     prev_plan_id: action.prev.plan_id,
+    prev_estimated_minutes: action.prev.estimated_minutes,
     next_status: action.next.status,
     next_planned_start: action.next.planned_start,
     next_planned_end: action.next.planned_end,
@@ -3781,6 +5130,7 @@ function convertPlanActionForInsert(action: PlanActionRecord) {
     next_calendar_event_etag: action.next.calendar_event_etag,
     next_freeze_until: action.next.freeze_until,
     next_plan_id: action.next.plan_id,
+    next_estimated_minutes: action.next.estimated_minutes,
   };
 }
 
@@ -3814,15 +5164,33 @@ function buildPlanSummaryText(actions: PlanActionRecord[]) {
   return `scheduled:${scheduled} moved:${moved} unscheduled:${unscheduled}`;
 }
 
-export function createGoogleCalendarActions(options: {
+export function createCalendarActions(options: {
   credentials: CalendarClientCredentials;
   admin: SupabaseClient<Database, "public">;
-  clientId: string;
-  clientSecret: string;
-  calendarTarget: GoogleCalendarTarget;
-}): GoogleCalendarActions {
-  const { credentials, admin, clientId, clientSecret, calendarTarget } =
-    options;
+  userId: string;
+  calendarTarget: CalendarTarget;
+}): CalendarActions {
+  const { credentials, admin, userId, calendarTarget } = options;
+  const provider = credentials.provider;
+
+  // Events created on another of the user's accounts are deleted there.
+  const otherAccounts = new Map<number, Promise<CalendarActions | null>>();
+  const actionsForAccount = (accountId: number) => {
+    let actions = otherAccounts.get(accountId);
+    if (!actions) {
+      actions = resolveCalendarClient(admin, userId, accountId).then(
+        (otherCredentials) =>
+          otherCredentials
+            ? createCalendarActions({
+                ...options,
+                credentials: otherCredentials,
+              })
+            : null,
+      );
+      otherAccounts.set(accountId, actions);
+    }
+    return actions;
+  };
 
   const run = async <T>(
     operation: (token: string) => Promise<T>,
@@ -3830,7 +5198,13 @@ export function createGoogleCalendarActions(options: {
     let refreshed = false;
     while (true) {
       try {
-        const result = await operation(credentials.accessToken);
+        const result = await operation(credentials.accessToken).catch(
+          (error) => {
+            throw error instanceof CalendarProviderError
+              ? new ScheduleError(error.message, error.status, error.details)
+              : error;
+          },
+        );
         await setCalendarReconnectFlag(admin, credentials.accountId, false);
         return result;
       } catch (error) {
@@ -3839,12 +5213,7 @@ export function createGoogleCalendarActions(options: {
           shouldAttemptTokenRefresh(error) &&
           credentials.refreshToken
         ) {
-          const didRefresh = await refreshCalendarAccess({
-            credentials,
-            admin,
-            clientId,
-            clientSecret,
-          });
+          const didRefresh = await refreshCalendarAccess(admin, credentials);
           if (didRefresh) {
             refreshed = true;
             continue;
@@ -3854,7 +5223,7 @@ export function createGoogleCalendarActions(options: {
         if (isAuthError(error)) {
           await setCalendarReconnectFlag(admin, credentials.accountId, true);
           throw new ScheduleError(
-            "Google Calendar not linked",
+            `${provider.label} not linked`,
             400,
             error instanceof ScheduleError ? error.details : null,
           );
@@ -3864,118 +5233,214 @@ export function createGoogleCalendarActions(options: {
     }
   };
 
+  const calendarId = providerCalendarId(
+    provider,
+    calendarTarget.calendarId,
+    credentials.calendarUrl,
+  );
+
+  // The benchmark calendar is isolated on purpose, so it never reads the
+  // user's other calendars.
+  const busyCalendarIds =
+    calendarTarget.scope === "benchmark" || !provider.queryFreeBusy
+      ? []
+      : credentials.busyCalendarIds.filter((id) => id !== calendarId);
+
   return {
-    listEvents: (timeMin, timeMax) =>
-      run((token) =>
-        listCalendarEvents(token, calendarTarget.eventsUrl, timeMin, timeMax),
-      ),
-    deleteEvent: (options) =>
-      run((token) =>
-        deleteCalendarEvent(token, calendarTarget.eventsUrl, options),
-      ),
-    createEvent: (options) =>
+    accountId: credentials.accountId,
+    listEvents: async (timeMin, timeMax) => {
+      const events = await run((token) =>
+        provider.listEvents(token, calendarId, timeMin, timeMax),
+      );
+      if (busyCalendarIds.length === 0 || !provider.queryFreeBusy) {
+        return events;
+      }
+      const queryFreeBusy = provider.queryFreeBusy;
+      const calendars = await run((token) =>
+        queryFreeBusy(token, busyCalendarIds, timeMin, timeMax),
+      );
+      for (const [busyCalendarId, entry] of Object.entries(calendars)) {
+        // A calendar we can no longer read should not block the others.
+        if (entry.errors?.length) {
+          logSchedulerEvent("freebusy.calendar_error", {
+            calendarId: busyCalendarId,
+            errors: entry.errors,
+          });
+        }
+      }
+      return [...events, ...buildFreeBusyEvents(calendars)];
+    },
+    deleteEvent: async ({ accountId, ...deleteOptions }) => {
+      if (accountId != null && accountId !== credentials.accountId) {
+        const actions = await actionsForAccount(accountId);
+        if (!actions) {
+          // The account is gone or needs a reconnect; its event stays put.
+          logSchedulerEvent("calendar.account_unavailable", {
+            accountId,
+            eventId: deleteOptions.eventId,
+          });
+          return;
+        }
+        return actions.deleteEvent(deleteOptions);
+      }
+      return run((token) =>
+        provider.deleteEvent(token, calendarId, deleteOptions),
+      );
+    },
+    createEvent: (createOptions) =>
       run((token) =>
-        createCalendarEvent(token, calendarTarget.eventsUrl, options),
+        provider.createEvent(
+          token,
+          calendarId,
+          buildCaptureEvent(createOptions),
+        ),
       ),
     getEvent: (eventId) =>
-      run((token) =>
-        getCalendarEvent(token, calendarTarget.eventsUrl, eventId),
-      ),
+      run((token) => provider.getEvent(token, calendarId, eventId)),
   };
 }
 
-async function refreshCalendarAccess(args: {
-  credentials: CalendarClientCredentials;
-  admin: SupabaseClient<Database, "public">;
-  clientId: string;
-  clientSecret: string;
-}): Promise<boolean> {
-  const { credentials, admin, clientId, clientSecret } = args;
-  const refreshToken = credentials.refreshToken;
-  if (!refreshToken) return false;
-
-  const refreshed = await refreshGoogleToken(
-    refreshToken,
-    clientId,
-    clientSecret,
-  );
-  if (!refreshed || typeof refreshed.access_token !== "string") {
-    return false;
+/**
+ * Creates one calendar event per spaced study session, tagged with the
+ * session's chunk index, and returns the sessions with their events. If one
+ * fails, the events already created are deleted again.
+ */
+export async function createSessionEvents(
+  calendar: CalendarActions,
+  options: {
+    capture: CaptureEntryRow;
+    sessions: ChunkRecord[];
+    planId?: string | null;
+    actionId: string;
+    priorityScore: number;
+  },
+): Promise<ChunkRecord[]> {
+  const booked: ChunkRecord[] = [];
+  try {
+    for (const [chunkIndex, session] of options.sessions.entries()) {
+      const event = await calendar.createEvent({
+        capture: options.capture,
+        slot: session,
+        planId: options.planId,
+        actionId: options.actionId,
+        priorityScore: options.priorityScore,
+        chunkIndex,
+      });
+      booked.push({
+        ...session,
+        calendarEventId: event.id,
+        calendarEventEtag: event.etag,
+      });
+    }
+  } catch (error) {
+    for (const session of booked) {
+      await calendar
+        .deleteEvent({
+          eventId: session.calendarEventId!,
+          etag: session.calendarEventEtag,
+        })
+        .catch(() => undefined);
+    }
+    throw error;
   }
-
-  const nextRefreshToken =
-    typeof refreshed.refresh_token === "string" &&
-    refreshed.refresh_token.trim().length > 0
-      ? refreshed.refresh_token
-      : refreshToken;
-
-  credentials.accessToken = refreshed.access_token;
-  credentials.refreshToken = nextRefreshToken;
-  credentials.refreshed = true;
-
-  const expiresIn =
-    typeof refreshed.expires_in === "number" &&
-    Number.isFinite(refreshed.expires_in) &&
-    refreshed.expires_in > 0
-      ? refreshed.expires_in
-      : 3600;
-
-  await persistCalendarToken(admin, {
-    accountId: credentials.accountId,
-    accessToken: credentials.accessToken,
-    refreshToken: nextRefreshToken,
-    expiresInSeconds: expiresIn,
-  });
-
-  return true;
+  return booked;
 }
 
-async function persistCalendarToken(
+/**
+ * Deletes the events of a capture's spaced study sessions and clears them
+ * from its chunks. `handledEventId` (the capture's own event by default) is
+ * left to the caller.
+ */
+export async function deleteSessionEvents(
   admin: SupabaseClient<Database, "public">,
-  params: {
-    accountId: number;
-    accessToken: string;
-    refreshToken: string | null;
-    expiresInSeconds: number;
-  },
+  calendar: CalendarActions,
+  capture: Pick<
+    CaptureEntryRow,
+    "id" | "calendar_event_id" | "calendar_account_id"
+  >,
+  handledEventId: string | null = capture.calendar_event_id,
 ) {
-  const expiryIso = new Date(
-    Date.now() + Math.max(0, params.expiresInSeconds) * 1000,
-  ).toISOString();
-  const calendarTokens = admin.from("calendar_tokens") as unknown as {
-    upsert: (values: {
-      account_id: number;
-      access_token: string;
-      refresh_token: string | null;
-      expiry: string;
-    }) => Promise<unknown>;
-  };
-
-  await calendarTokens.upsert({
-    account_id: params.accountId,
-    access_token: params.accessToken,
-    refresh_token: params.refreshToken,
-    expiry: expiryIso,
-  });
-
-  return expiryIso;
+  const { data, error } = await admin
+    .from("capture_chunks")
+    .select("id, calendar_event_id, calendar_event_etag")
+    .eq("capture_id", capture.id)
+    .is("completed_at", null)
+    .not("calendar_event_id", "is", null);
+  if (error) {
+    throw new ScheduleError("Failed to load session events.", 500, error);
+  }
+  const sessions = (data ?? []) as Pick<
+    CaptureChunkRow,
+    "id" | "calendar_event_id" | "calendar_event_etag"
+  >[];
+  if (sessions.length === 0) return;
+  for (const session of sessions) {
+    if (session.calendar_event_id === handledEventId) continue;
+    await calendar.deleteEvent({
+      eventId: session.calendar_event_id!,
+      etag: session.calendar_event_etag ?? undefined,
+      accountId: capture.calendar_account_id,
+    });
+  }
+  await admin
+    .from("capture_chunks")
+    .update({ calendar_event_id: null, calendar_event_etag: null })
+    .in(
+      "id",
+      sessions.map((session) => session.id),
+    );
 }
 
-async function setCalendarReconnectFlag(
+/** Deletes a capture's calendar event and those of its spaced sessions. */
+async function deleteCaptureEvents(
   admin: SupabaseClient<Database, "public">,
-  accountId: number,
-  needsReconnect: boolean,
+  calendar: CalendarActions,
+  capture: CaptureEntryRow,
 ) {
-  try {
-    await admin
-      .from("calendar_accounts")
-      .update({
-        needs_reconnect: needsReconnect,
-      })
-      .eq("id", accountId);
-  } catch (error) {
-    console.log("Failed to update reconnect flag", error);
+  if (capture.calendar_event_id) {
+    await calendar.deleteEvent({
+      eventId: capture.calendar_event_id,
+      etag: capture.calendar_event_etag ?? undefined,
+      accountId: capture.calendar_account_id,
+    });
+  }
+  await deleteSessionEvents(admin, calendar, capture);
+}
+
+/**
+ * Applies a capture's dependency gate to a calendar client: creating an event
+ * for the capture before the last predecessor's end is refused outright.
+ */
+function gateCalendarActions(
+  calendar: CalendarActions,
+  options: {
+    captureId: string;
+    gate: DependencyGate | null;
+    referenceNow: Date;
+  },
+): CalendarActions {
+  if (!buildDependencyGateEvent(options.gate, options.referenceNow)) {
+    return calendar;
   }
+  return {
+    ...calendar,
+    createEvent: (eventOptions) => {
+      if (
+        eventOptions.capture.id === options.captureId &&
+        !isSlotAfterPredecessors(options.gate, eventOptions.slot)
+      ) {
+        throw new ScheduleError(
+          "Slot starts before a predecessor capture ends.",
+          409,
+          {
+            reason: "predecessor_not_finished",
+            earliestStart: options.gate?.earliestStart?.toISOString() ?? null,
+          },
+        );
+      }
+      return calendar.createEvent(eventOptions);
+    },
+  };
 }
 
 function shouldAttemptTokenRefresh(error: unknown) {
@@ -3989,57 +5454,21 @@ function isAuthError(error: unknown) {
   );
 }
 
-async function safeParse(res: Response) {
-  const text = await res.text();
-  if (!text) return null;
-  try {
-    return JSON.parse(text);
-  } catch {
-    return text;
-  }
-}
-
-function extractGoogleError(payload: unknown) {
-  if (!payload) return null;
-  if (typeof payload === "string") return payload;
-  if (typeof payload !== "object") return null;
-
-  const top = payload as Record<string, unknown>;
-  if (typeof top.error === "string" && top.error.trim()) return top.error;
-  if (top.error && typeof top.error === "object") {
-    const nested = top.error as Record<string, unknown>;
-    if (typeof nested.message === "string" && nested.message.trim()) {
-      return nested.message;
-    }
-    if (Array.isArray(nested.errors) && nested.errors.length > 0) {
-      const first = nested.errors[0] as Record<string, unknown>;
-      if (typeof first.message === "string" && first.message.trim()) {
-        return first.message;
-      }
-      if (typeof first.reason === "string" && first.reason.trim()) {
-        return first.reason;
-      }
-    }
-  }
-  if (typeof top.message === "string" && top.message.trim()) return top.message;
-  if (Array.isArray(top.errors) && top.errors.length > 0) {
-    const first = top.errors[0] as Record<string, unknown>;
-    if (typeof first.message === "string" && first.message.trim()) {
-      return first.message;
-    }
-  }
-
-  return null;
-}
-
 // Timezone helper functions
 
 export const __test__ = {
   buildOverlapBudgetDayKey,
   buildScheduleExplanation,
-  createGoogleCalendarActions,
+  createCalendarActions,
   resolveSuggestedSlotWithinConstraints,
   selectReclaimablePreemptionConflicts,
 };
 
-export { priorityForCapture, ScheduleError };
+export {
+  convertPlanActionForInsert,
+  mergeSchedulingNotes,
+  priorityForCapture,
+  ScheduleError,
+  snapshotFromRow,
+};
+export type { PlanActionRecord };
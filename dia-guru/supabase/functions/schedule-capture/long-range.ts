@@ -0,0 +1,299 @@
+// Long-range planning for captures due after the commitment window. Instead
+// of being squeezed into the coming week they are pencilled in across the
+// weeks before their deadline, spread by how much free time each week has,
+// and only put on the calendar once the commitment window reaches them.
+
+import { normalizeTaskType } from "../_shared/duration-learning.ts";
+import type { CaptureEntryRow } from "../types.ts";
+import { activeSchedulerConfig, workingWindowFor } from "./scheduler-config.ts";
+import {
+  computeSchedulingPlan,
+  derivePreferredTimeOfDayBands,
+  detectRoutineKind,
+  findNextAvailableSlot,
+  parseIsoDate,
+  type PreferredSlot,
+  registerInterval,
+  sanitizedEstimatedMinutes,
+  workloadBudgetFor,
+} from "./scheduling-core.ts";
+import { isRecurringOccurrence } from "./occurrences.ts";
+import type { WorkloadCapHit, WorkloadEntry } from "./workload-caps.ts";
+
+export type LongRangeWindow = {
+  // Captures due before this are scheduled for real.
+  commitEnd: Date;
+  // Nothing is pencilled in past this.
+  horizonEnd: Date;
+};
+
+// A 7-day block of the horizon, starting at the commitment window's end.
+export type LongRangeWeek = {
+  start: Date;
+  end: Date;
+  // Free working minutes left after calendar events and earlier pencils.
+  capacityMinutes: number;
+  // Minutes pencilled into the week during this pass.
+  loadMinutes: number;
+};
+
+export type LongRangePlacement = {
+  capture: CaptureEntryRow;
+  slot: PreferredSlot;
+  durationMinutes: number;
+  week: LongRangeWeek;
+};
+
+export type LongRangeUnplaced = {
+  capture: CaptureEntryRow;
+  reason: "no_slot" | "workload_cap";
+  capHits?: WorkloadCapHit[];
+};
+
+export type LongRangePlan = {
+  weeks: LongRangeWeek[];
+  placements: LongRangePlacement[];
+  unplaced: LongRangeUnplaced[];
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+const WEEK_DAYS = 7;
+
+export function longRangeWindow(referenceNow: Date): LongRangeWindow {
+  const { commitmentDays, horizonDays } = activeSchedulerConfig().longRange;
+  return {
+    commitEnd: new Date(referenceNow.getTime() + commitmentDays * MS_PER_DAY),
+    horizonEnd: new Date(referenceNow.getTime() + horizonDays * MS_PER_DAY),
+  };
+}
+
+/**
+ * Whether `capture` is only bound by a deadline past the commitment window.
+ * Windows, fixed starts, routines and recurring occurrences keep going
+ * through the regular queue.
+ */
+export function isLongRangeCapture(
+  capture: CaptureEntryRow,
+  offsetMinutes: number,
+  referenceNow: Date,
+  window: LongRangeWindow = longRangeWindow(referenceNow),
+) {
+  if (detectRoutineKind(capture) || isRecurringOccurrence(capture)) {
+    return false;
+  }
+  const plan = computeSchedulingPlan(
+    capture,
+    sanitizedEstimatedMinutes(capture),
+    offsetMinutes,
+    referenceNow,
+  );
+  return plan.mode === "deadline" && Boolean(plan.deadline) &&
+    plan.deadline!.getTime() > window.commitEnd.getTime();
+}
+
+/** The tentative slot of a pencilled capture, or null for any other. */
+export function pencilledSlot(capture: CaptureEntryRow): PreferredSlot | null {
+  if (capture.status !== "pencilled") return null;
+  const start = parseIsoDate(capture.planned_start);
+  const end = parseIsoDate(capture.planned_end);
+  if (!start || !end || end.getTime() <= start.getTime()) return null;
+  return { start, end };
+}
+
+/**
+ * Whether a pencilled capture has entered the commitment window and should
+ * be put on the calendar. One whose slot was lost is always due.
+ */
+export function isCommitDue(capture: CaptureEntryRow, window: LongRangeWindow) {
+  if (capture.status !== "pencilled") return false;
+  const slot = pencilledSlot(capture);
+  return !slot || slot.start.getTime() < window.commitEnd.getTime();
+}
+
+function mergeIntervals(intervals: { start: Date; end: Date }[]) {
+  const sorted = [...intervals].sort((a, b) =>
+    a.start.getTime() - b.start.getTime()
+  );
+  const merged: { start: number; end: number }[] = [];
+  for (const interval of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && interval.start.getTime() <= last.end) {
+      last.end = Math.max(last.end, interval.end.getTime());
+    } else {
+      merged.push({
+        start: interval.start.getTime(),
+        end: interval.end.getTime(),
+      });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Minutes inside the working window of each local day between `start` and
+ * `end` that no busy interval covers.
+ */
+export function freeWorkingMinutes(
+  busyIntervals: { start: Date; end: Date }[],
+  start: Date,
+  end: Date,
+  offsetMinutes: number,
+) {
+  const busy = mergeIntervals(busyIntervals);
+  const offsetMs = offsetMinutes * MS_PER_MINUTE;
+  let total = 0;
+  // Begin a day early: an overnight window may still be running at `start`.
+  for (
+    let day = Math.floor((start.getTime() + offsetMs) / MS_PER_DAY) *
+        MS_PER_DAY - offsetMs - MS_PER_DAY;
+    day < end.getTime();
+    day += MS_PER_DAY
+  ) {
+    const window = workingWindowFor(new Date(day), offsetMinutes);
+    const from = Math.max(
+      day + window.startHour * 60 * MS_PER_MINUTE,
+      start.getTime(),
+    );
+    const to = Math.min(
+      day + window.endHour * 60 * MS_PER_MINUTE,
+      end.getTime(),
+    );
+    if (to <= from) continue;
+    let free = to - from;
+    for (const interval of busy) {
+      const overlap = Math.min(to, interval.end) -
+        Math.max(from, interval.start);
+      if (overlap > 0) free -= overlap;
+    }
+    total += free / MS_PER_MINUTE;
+  }
+  return Math.max(0, total);
+}
+
+/**
+ * Pencils far-deadline captures in, earliest deadline first. Each goes to
+ * the week before its deadline that would be least full relative to its
+ * free time, so the work spreads in proportion to capacity; when that week
+ * has no fitting slot the next least full one is tried. Every pencil is
+ * written back to `busyIntervals` and `workload` so later captures see it.
+ */
+export function planLongRange(args: {
+  captures: CaptureEntryRow[];
+  busyIntervals: { start: Date; end: Date }[];
+  offsetMinutes: number;
+  referenceNow: Date;
+  window?: LongRangeWindow;
+  workload?: WorkloadEntry[];
+}): LongRangePlan {
+  const { busyIntervals, offsetMinutes, referenceNow } = args;
+  const window = args.window ?? longRangeWindow(referenceNow);
+  const workloadEntries = args.workload ?? [];
+
+  const weeks: LongRangeWeek[] = [];
+  for (
+    let start = window.commitEnd.getTime();
+    start < window.horizonEnd.getTime();
+    start += WEEK_DAYS * MS_PER_DAY
+  ) {
+    const week = {
+      start: new Date(start),
+      end: new Date(
+        Math.min(start + WEEK_DAYS * MS_PER_DAY, window.horizonEnd.getTime()),
+      ),
+    };
+    weeks.push({
+      ...week,
+      capacityMinutes: freeWorkingMinutes(
+        busyIntervals,
+        week.start,
+        week.end,
+        offsetMinutes,
+      ),
+      loadMinutes: 0,
+    });
+  }
+
+  const byDeadline = args.captures
+    .map((capture) => {
+      const durationMinutes = sanitizedEstimatedMinutes(capture);
+      const plan = computeSchedulingPlan(
+        capture,
+        durationMinutes,
+        offsetMinutes,
+        referenceNow,
+      );
+      return { capture, durationMinutes, deadline: plan.deadline ?? null };
+    })
+    .sort((a, b) => {
+      const delta = (a.deadline?.getTime() ?? Infinity) -
+        (b.deadline?.getTime() ?? Infinity);
+      if (delta !== 0) return delta;
+      return (a.capture.created_at ?? "").localeCompare(
+        b.capture.created_at ?? "",
+      );
+    });
+
+  const placements: LongRangePlacement[] = [];
+  const unplaced: LongRangeUnplaced[] = [];
+
+  for (const { capture, durationMinutes, deadline } of byDeadline) {
+    const latestEnd = deadline?.getTime() ?? window.horizonEnd.getTime();
+    const candidates = weeks
+      .filter((week) =>
+        week.start.getTime() < latestEnd && week.capacityMinutes > 0
+      )
+      .map((week) => ({
+        week,
+        fill: (week.loadMinutes + durationMinutes) / week.capacityMinutes,
+      }))
+      .sort((a, b) =>
+        a.fill - b.fill || a.week.start.getTime() - b.week.start.getTime()
+      );
+    const workload = workloadBudgetFor(
+      capture,
+      workloadEntries,
+      offsetMinutes,
+    );
+
+    let placed: LongRangePlacement | null = null;
+    for (const { week } of candidates) {
+      const slot = findNextAvailableSlot(
+        busyIntervals,
+        durationMinutes,
+        offsetMinutes,
+        {
+          startFrom: week.start,
+          referenceNow: week.start,
+          preferredTimeOfDay: derivePreferredTimeOfDayBands(capture),
+          workload,
+        },
+      );
+      if (!slot) continue;
+      const limit = Math.min(week.end.getTime(), latestEnd);
+      if (slot.end.getTime() > limit) continue;
+      placed = { capture, slot, durationMinutes, week };
+      break;
+    }
+
+    if (!placed) {
+      unplaced.push(
+        workload && workload.hits.length > 0
+          ? { capture, reason: "workload_cap", capHits: workload.hits }
+          : { capture, reason: "no_slot" },
+      );
+      continue;
+    }
+
+    registerInterval(busyIntervals, placed.slot, capture.location);
+    workloadEntries.push({
+      start: placed.slot.start,
+      end: placed.slot.end,
+      taskType: normalizeTaskType(capture.task_type_hint),
+    });
+    placed.week.loadMinutes += durationMinutes;
+    placements.push(placed);
+  }
+
+  return { weeks, placements, unplaced };
+}
@@ -0,0 +1,224 @@
+import type { CaptureEntryRow } from "../types.ts";
+import {
+  expandRecurrenceDates,
+  parseRecurrenceRule,
+} from "../_shared/recurrence.ts";
+import { schedulerConfig, workingWindowFor } from "./scheduler-config.ts";
+import {
+  addMinutes,
+  parseIsoDate,
+  toLocalDate,
+  toUtcDate,
+} from "./scheduling-core.ts";
+
+export type OccurrenceInsert = Partial<CaptureEntryRow> & {
+  user_id: string;
+  content: string;
+  recurrence_parent_id: string;
+  occurrence_date: string;
+};
+
+// Facets copied verbatim from a series template onto each occurrence.
+const COPIED_FIELDS = [
+  "user_id",
+  "content",
+  "estimated_minutes",
+  "importance",
+  "urgency",
+  "impact",
+  "reschedule_penalty",
+  "blocking",
+  "extraction_json",
+  "cannot_overlap",
+  "start_flexibility",
+  "duration_flexibility",
+  "min_chunk_minutes",
+  "max_splits",
+  "extraction_kind",
+  "location",
+  "time_pref_time_of_day",
+  "importance_rationale",
+  "externality_score",
+  "task_type_hint",
+] as const;
+
+export function isRecurringTemplate(capture: CaptureEntryRow) {
+  return Boolean(capture.recurrence_rule) && !capture.recurrence_parent_id;
+}
+
+export function isRecurringOccurrence(capture: CaptureEntryRow) {
+  return Boolean(capture.recurrence_parent_id && capture.occurrence_date);
+}
+
+export function localDateKey(date: Date, offsetMinutes: number) {
+  return toLocalDate(date, offsetMinutes).toISOString().slice(0, 10);
+}
+
+/**
+ * Returns the UTC instant for `minutes` past local midnight on `day`.
+ */
+export function localDayInstant(
+  day: string,
+  minutes: number,
+  offsetMinutes: number,
+) {
+  const midnight = new Date(`${day}T00:00:00Z`);
+  return toUtcDate(addMinutes(midnight, minutes), offsetMinutes);
+}
+
+function anchorIso(template: CaptureEntryRow) {
+  return template.start_target_at ?? template.original_target_time ??
+    (template.constraint_type === "start_time"
+      ? template.constraint_time
+      : null) ??
+    template.window_start ??
+    (template.constraint_type === "window" ? template.constraint_time : null);
+}
+
+function minutesOfLocalDay(date: Date, offsetMinutes: number) {
+  const local = toLocalDate(date, offsetMinutes);
+  return local.getUTCHours() * 60 + local.getUTCMinutes();
+}
+
+/**
+ * Lists the occurrence dates that should exist for a template, starting from
+ * the local day of `referenceNow`. Returns an empty list for invalid rules.
+ */
+export function upcomingOccurrenceDates(
+  template: CaptureEntryRow,
+  offsetMinutes: number,
+  referenceNow: Date,
+) {
+  const rule = parseRecurrenceRule(template.recurrence_rule);
+  if (!rule) return [];
+  const anchor = parseIsoDate(anchorIso(template)) ??
+    parseIsoDate(template.created_at ?? null) ??
+    referenceNow;
+  const { materializeCount, horizonDays } = schedulerConfig.recurrence;
+  return expandRecurrenceDates({
+    rule,
+    anchorDate: localDateKey(anchor, offsetMinutes),
+    fromDate: localDateKey(referenceNow, offsetMinutes),
+    throughDate: localDateKey(
+      addMinutes(referenceNow, horizonDays * 24 * 60),
+      offsetMinutes,
+    ),
+    limit: materializeCount,
+    exceptions: template.recurrence_exceptions ?? [],
+  });
+}
+
+/**
+ * Builds the capture row for one occurrence of a template. A start anchor or
+ * window on the template is carried over by its local time of day; otherwise
+ * the occurrence may land anywhere within the working window of that day.
+ */
+export function buildOccurrenceInsert(
+  template: CaptureEntryRow,
+  occurrenceDate: string,
+  offsetMinutes: number,
+): OccurrenceInsert {
+  const row: Record<string, unknown> = {};
+  for (const field of COPIED_FIELDS) {
+    row[field] = template[field] ?? null;
+  }
+
+  const { startHour, endHour } = workingWindowFor(
+    localDayInstant(occurrenceDate, 12 * 60, offsetMinutes),
+    offsetMinutes,
+  );
+  const dayStart = localDayInstant(
+    occurrenceDate,
+    startHour * 60,
+    offsetMinutes,
+  );
+  const dayEnd = localDayInstant(occurrenceDate, endHour * 60, offsetMinutes);
+
+  const anchor = parseIsoDate(anchorIso(template));
+  const templateWindowStart = parseIsoDate(template.window_start);
+  const templateWindowEnd = parseIsoDate(template.window_end);
+
+  let constraint: Partial<CaptureEntryRow>;
+  if (template.constraint_type === "start_time" && anchor) {
+    const start = localDayInstant(
+      occurrenceDate,
+      minutesOfLocalDay(anchor, offsetMinutes),
+      offsetMinutes,
+    ).toISOString();
+    constraint = {
+      constraint_type: "start_time",
+      constraint_time: start,
+      constraint_end: null,
+      original_target_time: start,
+      start_target_at: start,
+      is_soft_start: template.is_soft_start,
+      // Anchored occurrences may sit outside working hours (e.g. a 6am run),
+      // so only pin them to their calendar day.
+      window_start: localDayInstant(occurrenceDate, 0, offsetMinutes)
+        .toISOString(),
+      window_end: localDayInstant(occurrenceDate, 24 * 60, offsetMinutes)
+        .toISOString(),
+    };
+  } else if (templateWindowStart && templateWindowEnd) {
+    const spanMinutes = Math.round(
+      (templateWindowEnd.getTime() - templateWindowStart.getTime()) / 60000,
+    );
+    const start = localDayInstant(
+      occurrenceDate,
+      minutesOfLocalDay(templateWindowStart, offsetMinutes),
+      offsetMinutes,
+    );
+    const end = addMinutes(start, spanMinutes);
+    constraint = {
+      constraint_type: "window",
+      constraint_time: start.toISOString(),
+      constraint_end: end.toISOString(),
+      original_target_time: null,
+      start_target_at: null,
+      is_soft_start: false,
+      window_start: start.toISOString(),
+      window_end: end.toISOString(),
+    };
+  } else {
+    constraint = {
+      constraint_type: "window",
+      constraint_time: dayStart.toISOString(),
+      constraint_end: dayEnd.toISOString(),
+      original_target_time: null,
+      start_target_at: null,
+      is_soft_start: false,
+      window_start: dayStart.toISOString(),
+      window_end: dayEnd.toISOString(),
+    };
+  }
+
+  return {
+    ...(row as Partial<CaptureEntryRow>),
+    ...constraint,
+    user_id: template.user_id,
+    content: template.content,
+    status: "pending",
+    constraint_date: null,
+    deadline_at: null,
+    time_pref_day: "specific_date",
+    reschedule_count: 0,
+    recurrence_rule: null,
+    recurrence_parent_id: template.id,
+    occurrence_date: occurrenceDate,
+  };
+}
+
+/**
+ * True when the slot stays on the occurrence's own day window, so a busy day
+ * never pushes an occurrence into the next one.
+ */
+export function isSlotOnOccurrenceDay(
+  occurrence: CaptureEntryRow,
+  slot: { start: Date; end: Date },
+) {
+  const windowStart = parseIsoDate(occurrence.window_start);
+  const windowEnd = parseIsoDate(occurrence.window_end);
+  if (!windowStart || !windowEnd) return true;
+  return slot.start.getTime() >= windowStart.getTime() &&
+    slot.end.getTime() <= windowEnd.getTime();
+}
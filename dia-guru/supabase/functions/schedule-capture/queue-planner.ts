@@ -0,0 +1,335 @@
+import { normalizeTaskType } from "../_shared/duration-learning.ts";
+import type { CaptureDependencyRow, CaptureEntryRow } from "../types.ts";
+import type { ChunkRecord } from "./chunks.ts";
+import {
+  type CapturePrioritySnapshot,
+  computeCapturePrioritySnapshot,
+} from "./priority-model.ts";
+import { pencilledSlot } from "./long-range.ts";
+import {
+  type CalendarEvent,
+  computeBusyIntervals,
+  computeSchedulingPlan,
+  derivePreferredTimeOfDayBands,
+  isSlotAfterPredecessors,
+  isSlotWithinConstraints,
+  normalizeRoutineCapture,
+  type PredecessorSnapshot,
+  type PreferredSlot,
+  registerInterval,
+  resolveDependencyGate,
+  sanitizedEstimatedMinutes,
+  scheduleWithPlan,
+  type SchedulingPlan,
+  shouldEnforceWorkingWindow,
+  workloadBudgetFor,
+} from "./scheduling-core.ts";
+import { planSpacedSessions } from "./spaced-sessions.ts";
+import { normalizeLocation, type TravelTimeEstimator } from "./travel-time.ts";
+import type { WorkloadCapHit, WorkloadEntry } from "./workload-caps.ts";
+
+export type QueuePlacement = {
+  capture: CaptureEntryRow;
+  slot: PreferredSlot;
+  plan: SchedulingPlan;
+  priority: CapturePrioritySnapshot;
+  durationMinutes: number;
+  enforceWorkingWindow: boolean;
+  // Caps that pushed the capture past earlier days.
+  capHits: WorkloadCapHit[];
+  // Set for spaced study: every session, the first of which is `slot`.
+  sessions?: ChunkRecord[];
+};
+
+export type QueueUnplacedReason =
+  | "no_slot"
+  | "workload_cap"
+  | "slot_exceeds_deadline"
+  | "predecessor_unplaced"
+  | "predecessor_unscheduled"
+  | "dependency_cycle";
+
+export type QueueUnplaced = {
+  capture: CaptureEntryRow;
+  reason: QueueUnplacedReason;
+  priority: CapturePrioritySnapshot;
+  // Set for "workload_cap": the caps that turned every slot away.
+  capHits?: WorkloadCapHit[];
+};
+
+export type QueuePlan = {
+  placements: QueuePlacement[];
+  unplaced: QueueUnplaced[];
+};
+
+/**
+ * Places a whole pending queue in one greedy pass. Captures are ordered by
+ * priority score (ties broken by creation time) and each takes the first slot
+ * its own search finds; the placement is written back to the shared busy
+ * intervals before the next capture is considered, so later captures see
+ * earlier decisions but never move them.
+ *
+ * Dependency links hold a capture back until every predecessor has been
+ * placed, and its search starts after the latest predecessor ends.
+ * Predecessors outside the queue are supplied as `predecessors`. Captures
+ * whose links form a cycle are left unplaced, as is anything waiting on them.
+ *
+ * A capture with a location gets its own intervals, padded with the trip to
+ * and from every event and earlier placement around it.
+ *
+ * Workload caps count the sessions in `workload` (already scheduled ones)
+ * plus every placement made here.
+ *
+ * Pencilled captures that reached the commitment window are tried at their
+ * pencilled slot first. Study captures with a deadline are split into
+ * spaced sessions, all of which are booked before the next capture.
+ */
+export function planQueue(args: {
+  captures: CaptureEntryRow[];
+  events: CalendarEvent[];
+  offsetMinutes: number;
+  referenceNow: Date;
+  timezone?: string | null;
+  dependencies?: Pick<CaptureDependencyRow, "capture_id" | "predecessor_id">[];
+  predecessors?: PredecessorSnapshot[];
+  travelEstimator?: TravelTimeEstimator;
+  workload?: WorkloadEntry[];
+}): QueuePlan {
+  const { offsetMinutes, referenceNow } = args;
+  const busyIntervals = computeBusyIntervals(args.events);
+  const placedEvents: CalendarEvent[] = [];
+  const workloadEntries = [...(args.workload ?? [])];
+
+  const byPriority = args.captures
+    .map((raw) => {
+      const capture = normalizeRoutineCapture(raw, {
+        referenceNow,
+        timezone: args.timezone ?? undefined,
+      });
+      return {
+        capture,
+        priority: computeCapturePrioritySnapshot(capture, referenceNow),
+      };
+    })
+    .sort((a, b) => {
+      const delta = b.priority.score - a.priority.score;
+      if (delta !== 0) return delta;
+      return (a.capture.created_at ?? "").localeCompare(
+        b.capture.created_at ?? "",
+      );
+    });
+
+  const predecessorsOf = new Map<string, string[]>();
+  for (const link of args.dependencies ?? []) {
+    const list = predecessorsOf.get(link.capture_id) ?? [];
+    list.push(link.predecessor_id);
+    predecessorsOf.set(link.capture_id, list);
+  }
+  const { ordered, cyclic } = orderByDependencies(byPriority, predecessorsOf);
+  const external = new Map(
+    (args.predecessors ?? []).map((row) => [row.id, row]),
+  );
+
+  const placements: QueuePlacement[] = [];
+  const unplaced: QueueUnplaced[] = [];
+  const placedById = new Map<string, QueuePlacement>();
+  const unplacedIds = new Set<string>();
+
+  for (const { capture, priority } of ordered) {
+    if (cyclic.has(capture.id)) {
+      unplaced.push({ capture, reason: "dependency_cycle", priority });
+      unplacedIds.add(capture.id);
+      continue;
+    }
+    const snapshots: PredecessorSnapshot[] = [];
+    let predecessorUnplaced = false;
+    for (const predecessorId of predecessorsOf.get(capture.id) ?? []) {
+      const placed = placedById.get(predecessorId);
+      if (placed) {
+        snapshots.push({
+          id: placed.capture.id,
+          content: placed.capture.content,
+          status: "scheduled",
+          // A spaced capture is done once its last session ends.
+          planned_end: (placed.sessions?.at(-1) ?? placed.slot).end
+            .toISOString(),
+        });
+      } else if (unplacedIds.has(predecessorId)) {
+        predecessorUnplaced = true;
+      } else if (external.has(predecessorId)) {
+        snapshots.push(external.get(predecessorId)!);
+      }
+    }
+    if (predecessorUnplaced) {
+      unplaced.push({ capture, reason: "predecessor_unplaced", priority });
+      unplacedIds.add(capture.id);
+      continue;
+    }
+    const gate = resolveDependencyGate(snapshots);
+    if (gate.blocking.length > 0) {
+      unplaced.push({ capture, reason: "predecessor_unscheduled", priority });
+      unplacedIds.add(capture.id);
+      continue;
+    }
+    const searchFrom = gate.earliestStart &&
+        gate.earliestStart.getTime() > referenceNow.getTime()
+      ? gate.earliestStart
+      : referenceNow;
+
+    const durationMinutes = sanitizedEstimatedMinutes(capture);
+    const enforceWorkingWindow = shouldEnforceWorkingWindow(capture);
+    let plan = computeSchedulingPlan(
+      capture,
+      durationMinutes,
+      offsetMinutes,
+      searchFrom,
+    );
+    // A pencilled capture keeps its tentative slot while that is still free.
+    const pencilled = pencilledSlot(capture);
+    if (
+      pencilled && !plan.preferredSlot &&
+      pencilled.start.getTime() >= searchFrom.getTime()
+    ) {
+      plan = { ...plan, preferredSlot: pencilled };
+    }
+    const workload = workloadBudgetFor(
+      capture,
+      workloadEntries,
+      offsetMinutes,
+    );
+    const intervals = normalizeLocation(capture.location)
+      ? computeBusyIntervals([...args.events, ...placedEvents], undefined, {
+        location: capture.location,
+        estimator: args.travelEstimator,
+      })
+      : busyIntervals;
+    const sessions = planSpacedSessions({
+      capture,
+      plan,
+      durationMinutes,
+      busyIntervals: intervals,
+      offsetMinutes,
+      rangeStart: searchFrom,
+      enforceWorkingWindow,
+      workload,
+    });
+    const slot = sessions
+      ? { start: sessions[0].start, end: sessions[0].end }
+      : scheduleWithPlan({
+        plan,
+        durationMinutes,
+        busyIntervals: intervals,
+        offsetMinutes,
+        referenceNow: searchFrom,
+        isSoftStart: capture.is_soft_start,
+        enforceWorkingWindow,
+        preferredTimeOfDay: derivePreferredTimeOfDayBands(capture),
+        workload,
+      });
+    if (!slot && workload && workload.hits.length > 0) {
+      unplaced.push({
+        capture,
+        reason: "workload_cap",
+        priority,
+        capHits: workload.hits,
+      });
+      unplacedIds.add(capture.id);
+      continue;
+    }
+    if (!slot || !isSlotAfterPredecessors(gate, slot)) {
+      unplaced.push({ capture, reason: "no_slot", priority });
+      unplacedIds.add(capture.id);
+      continue;
+    }
+    if (!isSlotWithinConstraints(capture, slot)) {
+      unplaced.push({ capture, reason: "slot_exceeds_deadline", priority });
+      unplacedIds.add(capture.id);
+      continue;
+    }
+
+    for (const booked of sessions ?? [slot]) {
+      registerInterval(
+        busyIntervals,
+        booked,
+        capture.location,
+        args.travelEstimator,
+      );
+      placedEvents.push({
+        id: capture.id,
+        location: capture.location ?? undefined,
+        start: { dateTime: booked.start.toISOString() },
+        end: { dateTime: booked.end.toISOString() },
+      });
+      workloadEntries.push({
+        start: booked.start,
+        end: booked.end,
+        taskType: normalizeTaskType(capture.task_type_hint),
+      });
+    }
+    const placement = {
+      capture,
+      slot,
+      plan,
+      priority,
+      durationMinutes,
+      enforceWorkingWindow,
+      capHits: workload?.hits ?? [],
+      ...(sessions ? { sessions } : {}),
+    };
+    placements.push(placement);
+    placedById.set(capture.id, placement);
+  }
+
+  return { placements, unplaced };
+}
+
+/**
+ * Stable topological order: repeatedly takes the highest priority capture
+ * whose queued predecessors have all been taken. Captures on a cycle come
+ * first and are returned in `cyclic`, so they are turned away before anything
+ * that waits on them is considered.
+ */
+function orderByDependencies<T extends { capture: CaptureEntryRow }>(
+  byPriority: T[],
+  predecessorsOf: Map<string, string[]>,
+) {
+  const queued = new Set(byPriority.map((entry) => entry.capture.id));
+  const cyclic = captureIdsOnCycles(queued, predecessorsOf);
+  const ordered = byPriority.filter((entry) => cyclic.has(entry.capture.id));
+  const remaining = byPriority.filter((entry) => !cyclic.has(entry.capture.id));
+  const taken = new Set(cyclic);
+  while (remaining.length > 0) {
+    const index = remaining.findIndex((entry) =>
+      (predecessorsOf.get(entry.capture.id) ?? []).every((id) =>
+        !queued.has(id) || taken.has(id)
+      )
+    );
+    const [next] = remaining.splice(index, 1);
+    taken.add(next.capture.id);
+    ordered.push(next);
+  }
+  return { ordered, cyclic };
+}
+
+/** Queued captures that can reach themselves through predecessor links. */
+function captureIdsOnCycles(
+  queued: Set<string>,
+  predecessorsOf: Map<string, string[]>,
+) {
+  const cyclic = new Set<string>();
+  for (const id of queued) {
+    const seen = new Set<string>();
+    const stack = [...(predecessorsOf.get(id) ?? [])];
+    while (stack.length > 0) {
+      const current = stack.pop()!;
+      if (current === id) {
+        cyclic.add(id);
+        break;
+      }
+      if (!queued.has(current) || seen.has(current)) continue;
+      seen.add(current);
+      stack.push(...(predecessorsOf.get(current) ?? []));
+    }
+  }
+  return cyclic;
+}
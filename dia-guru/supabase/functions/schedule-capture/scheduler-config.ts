@@ -1,8 +1,30 @@
-import type { CaptureEntryRow } from "../types.ts";
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  chronotypeCurve,
+  energyBands,
+  type EnergyCurve,
+  type EnergyCurveSource,
+  energyDemandFor,
+  HIGH_ENERGY_TASK_TYPES,
+  LOW_ENERGY_TASK_TYPES,
+} from "../_shared/energy-curve.ts";
+import type { CaptureEntryRow, UserSchedulerPreferencesRow } from "../types.ts";
 import { computeCapturePrioritySnapshot } from "./priority-model.ts";
+import type { WorkloadCaps } from "./workload-caps.ts";
 
-type SchedulerConfig = {
-  workingWindow: { startHour: number; endHour: number };
+// An overnight window ends the next morning, so its endHour is past 24
+// (22 -> 30 runs 22:00 to 06:00), like a band that crosses midnight.
+export type WorkingWindow = { startHour: number; endHour: number };
+
+export type TimeOfDayBand = { start: number; end: number };
+
+export type SchedulerConfig = {
+  workingWindow: WorkingWindow;
+  // Per-weekday overrides keyed by getUTCDay() of the local date (0 = Sunday).
+  workingWindowByWeekday: Partial<Record<number, WorkingWindow>>;
+  buffers: {
+    minutes: number;
+  };
   rigidity: {
     reschedulePenaltyWeight: number;
     rescheduleCountWeight: number;
@@ -46,11 +68,37 @@ type SchedulerConfig = {
     perTaskOverlapFraction: number;
     softCostPerMinute: number;
   };
-  timeOfDayDefaults: Record<string, { start: number; end: number }[]>;
+  recurrence: {
+    materializeCount: number;
+    horizonDays: number;
+  };
+  timeOfDayDefaults: Record<string, TimeOfDayBand[]>;
+  // Hourly energy levels in local time; null keeps the static bands above.
+  energy: {
+    curve: EnergyCurve | null;
+    source: EnergyCurveSource | null;
+  };
+  workloadCaps: WorkloadCaps;
+  // Captures due after the commitment window are pencilled in across weeks
+  // up to the horizon and only put on the calendar once the window reaches
+  // them.
+  longRange: {
+    commitmentDays: number;
+    horizonDays: number;
+  };
+  // Study captures are split into sessions spread over the days before
+  // their deadline, at least this far apart.
+  studySpacing: {
+    minGapHours: number;
+  };
 };
 
 export const schedulerConfig: SchedulerConfig = {
   workingWindow: { startHour: 8, endHour: 22 },
+  workingWindowByWeekday: {},
+  buffers: {
+    minutes: 10,
+  },
   rigidity: {
     reschedulePenaltyWeight: 20,
     rescheduleCountWeight: 10,
@@ -94,6 +142,10 @@ export const schedulerConfig: SchedulerConfig = {
     perTaskOverlapFraction: 0.5,
     softCostPerMinute: 0.03,
   },
+  recurrence: {
+    materializeCount: 5,
+    horizonDays: 14,
+  },
   timeOfDayDefaults: {
     deep_work: [{ start: 8, end: 12 }],
     admin: [{ start: 13, end: 17 }],
@@ -109,9 +161,252 @@ export const schedulerConfig: SchedulerConfig = {
       { start: 18, end: 20 }, // dinner
     ],
   },
+  energy: {
+    curve: null,
+    source: null,
+  },
+  workloadCaps: {
+    dailyMinutes: { deep_work: 240, admin: 120 },
+    weeklyMinutes: 35 * 60,
+  },
+  longRange: {
+    commitmentDays: 7,
+    horizonDays: 56,
+  },
+  studySpacing: {
+    minGapHours: 20,
+  },
 };
 
 const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+const WEEKDAY_KEYS = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"] as const;
+
+export type WeekdayKey = typeof WEEKDAY_KEYS[number];
+
+const schedulerScope = new AsyncLocalStorage<{ config: SchedulerConfig }>();
+
+/**
+ * Runs `fn` with its own scheduler configuration slot, so per-user
+ * preferences applied inside never leak into concurrent requests.
+ */
+export function runWithSchedulerScope<T>(fn: () => Promise<T>): Promise<T> {
+  return schedulerScope.run({ config: schedulerConfig }, fn);
+}
+
+/**
+ * The configuration in effect for the current request: the defaults merged
+ * with the user's stored preferences, or the plain defaults outside a scope.
+ */
+export function activeSchedulerConfig(): SchedulerConfig {
+  return schedulerScope.getStore()?.config ?? schedulerConfig;
+}
+
+export function applySchedulerPreferences(
+  preferences: UserSchedulerPreferencesRow | null,
+  learnedEnergyCurve: EnergyCurve | null = null,
+) {
+  const merged = mergeSchedulerPreferences(
+    schedulerConfig,
+    preferences,
+    learnedEnergyCurve,
+  );
+  const scope = schedulerScope.getStore();
+  if (scope) scope.config = merged;
+  return merged;
+}
+
+/**
+ * Working hours for the local day containing `date`. An overnight window
+ * belongs to the day it starts on.
+ */
+export function workingWindowFor(
+  date: Date,
+  offsetMinutes: number,
+): WorkingWindow {
+  const config = activeSchedulerConfig();
+  const weekday = new Date(date.getTime() + offsetMinutes * MS_PER_MINUTE)
+    .getUTCDay();
+  return config.workingWindowByWeekday[weekday] ?? config.workingWindow;
+}
+
+/**
+ * The working window `date` belongs to: the previous day's while an overnight
+ * window is still running, otherwise the one on its own local day.
+ */
+export function workingDayFor(
+  date: Date,
+  offsetMinutes: number,
+): { start: Date; end: Date } {
+  const offsetMs = offsetMinutes * MS_PER_MINUTE;
+  const midnight = Math.floor((date.getTime() + offsetMs) / MS_PER_DAY) *
+      MS_PER_DAY - offsetMs;
+  const windowOn = (dayStart: number) => {
+    const { startHour, endHour } = workingWindowFor(
+      new Date(dayStart),
+      offsetMinutes,
+    );
+    return {
+      start: new Date(dayStart + Math.round(startHour * 60) * MS_PER_MINUTE),
+      end: new Date(dayStart + Math.round(endHour * 60) * MS_PER_MINUTE),
+    };
+  };
+  const previous = windowOn(midnight - MS_PER_DAY);
+  return previous.end.getTime() > date.getTime()
+    ? previous
+    : windowOn(midnight);
+}
+
+function readWorkingWindow(value: unknown): WorkingWindow | null {
+  if (!value || typeof value !== "object") return null;
+  const record = value as Record<string, unknown>;
+  const startHour = Number(record.start_hour);
+  const endHour = Number(record.end_hour);
+  if (!Number.isFinite(startHour) || !Number.isFinite(endHour)) return null;
+  if (startHour < 0 || startHour >= 24 || endHour < 0 || endHour > 24) {
+    return null;
+  }
+  if (startHour === endHour) return null;
+  // An end before the start runs into the next day.
+  return {
+    startHour,
+    endHour: endHour < startHour ? endHour + 24 : endHour,
+  };
+}
+
+function readBands(value: unknown): TimeOfDayBand[] | null {
+  if (!Array.isArray(value)) return null;
+  const bands = value
+    .map((entry) => {
+      if (!entry || typeof entry !== "object") return null;
+      const record = entry as Record<string, unknown>;
+      const start = Number(record.start);
+      const end = Number(record.end);
+      // Bands may run past midnight (e.g. sleep 22 -> 31) but not a full day.
+      if (!Number.isFinite(start) || !Number.isFinite(end)) return null;
+      if (start < 0 || end > 48 || start >= end || end - start > 24) {
+        return null;
+      }
+      return { start, end };
+    })
+    .filter((band): band is TimeOfDayBand => band !== null);
+  return bands.length > 0 ? bands : null;
+}
+
+function readBoundedInteger(value: unknown, min: number, max: number) {
+  if (typeof value !== "number" || !Number.isInteger(value)) return null;
+  if (value < min || value > max) return null;
+  return value;
+}
+
+/**
+ * Overlays a user's stored preferences on the defaults. Malformed entries
+ * are ignored individually so one bad weekday never discards the rest.
+ *
+ * A declared chronotype, or else the curve learned from completions, replaces
+ * the default bands of energy-sensitive task types with the user's peaks or
+ * troughs; bands the user set by hand still win.
+ */
+export function mergeSchedulerPreferences(
+  base: SchedulerConfig,
+  preferences: UserSchedulerPreferencesRow | null,
+  learnedEnergyCurve: EnergyCurve | null = null,
+): SchedulerConfig {
+  if (!preferences && !learnedEnergyCurve) return base;
+
+  const workingWindowByWeekday: Partial<Record<number, WorkingWindow>> = {
+    ...base.workingWindowByWeekday,
+  };
+  const workingHours = preferences?.working_hours ?? {};
+  WEEKDAY_KEYS.forEach((key, index) => {
+    const window = readWorkingWindow(workingHours[key]);
+    if (window) workingWindowByWeekday[index] = window;
+  });
+
+  const declaredCurve = chronotypeCurve(preferences?.chronotype);
+  const energyCurve = declaredCurve ?? learnedEnergyCurve;
+  const energy: SchedulerConfig["energy"] = energyCurve
+    ? { curve: energyCurve, source: declaredCurve ? "declared" : "learned" }
+    : base.energy;
+
+  const timeOfDayDefaults = { ...base.timeOfDayDefaults };
+  if (energyCurve) {
+    // Bands cover every weekday's hours; each day's own window still bounds
+    // the slots found in them.
+    const weekdayWindows = WEEKDAY_KEYS.map((_, index) =>
+      workingWindowByWeekday[index] ?? base.workingWindow
+    );
+    const energyWindow = {
+      startHour: Math.min(...weekdayWindows.map((window) => window.startHour)),
+      endHour: Math.max(...weekdayWindows.map((window) => window.endHour)),
+    };
+    for (
+      const taskType of [...HIGH_ENERGY_TASK_TYPES, ...LOW_ENERGY_TASK_TYPES]
+    ) {
+      const demand = energyDemandFor(taskType);
+      if (!demand) continue;
+      const bands = energyBands(energyCurve, demand, energyWindow);
+      if (bands.length > 0) timeOfDayDefaults[taskType] = bands;
+    }
+  }
+  for (
+    const [taskType, value] of Object.entries(
+      preferences?.time_of_day_bands ?? {},
+    )
+  ) {
+    const bands = readBands(value);
+    if (bands) timeOfDayDefaults[taskType] = bands;
+  }
+
+  // 0 lifts a cap the defaults set.
+  const dailyCaps = { ...base.workloadCaps.dailyMinutes };
+  for (
+    const [taskType, value] of Object.entries(
+      preferences?.daily_cap_minutes ?? {},
+    )
+  ) {
+    const minutes = readBoundedInteger(value, 0, 24 * 60);
+    if (minutes === null) continue;
+    if (minutes === 0) delete dailyCaps[taskType];
+    else dailyCaps[taskType] = minutes;
+  }
+  const weeklyCap = readBoundedInteger(
+    preferences?.weekly_cap_minutes,
+    0,
+    7 * 24 * 60,
+  );
+
+  const bufferMinutes = readBoundedInteger(preferences?.buffer_minutes, 0, 60);
+  const maxMoves = readBoundedInteger(preferences?.max_moves_per_run, 0, 20);
+  const commitmentDays = readBoundedInteger(
+    preferences?.commitment_window_days,
+    1,
+    7,
+  );
+
+  return {
+    ...base,
+    workingWindowByWeekday,
+    timeOfDayDefaults,
+    energy,
+    workloadCaps: {
+      dailyMinutes: dailyCaps,
+      weeklyMinutes: weeklyCap === null
+        ? base.workloadCaps.weeklyMinutes
+        : weeklyCap || null,
+    },
+    longRange: {
+      ...base.longRange,
+      commitmentDays: commitmentDays ?? base.longRange.commitmentDays,
+    },
+    buffers: { minutes: bufferMinutes ?? base.buffers.minutes },
+    limits: {
+      ...base.limits,
+      maxMovedTasksPerRun: maxMoves ?? base.limits.maxMovedTasksPerRun,
+    },
+  };
+}
 
 const clamp01 = (value: number) => {
   if (Number.isNaN(value) || !Number.isFinite(value)) return 0;
@@ -325,11 +620,12 @@ export function evaluatePreemptionNetGain(args: {
   };
   const meetsBaseThreshold = net >= thresholds.base;
   const meetsGainPerMinuteThreshold = perMinuteGain >= thresholds.gainPerMinute;
+  const { maxMovedTasksPerRun } = activeSchedulerConfig().limits;
   const limitChecks = {
-    exceedsTaskCap: movedTasks > schedulerConfig.limits.maxMovedTasksPerRun,
+    exceedsTaskCap: movedTasks > maxMovedTasksPerRun,
     exceedsMinuteCap:
       totalDisplacedMinutes > schedulerConfig.limits.maxTotalMinutesShifted,
-    maxMovedTasks: schedulerConfig.limits.maxMovedTasksPerRun,
+    maxMovedTasks: maxMovedTasksPerRun,
     maxMinutesShifted: schedulerConfig.limits.maxTotalMinutesShifted,
   };
   const allowed = meetsBaseThreshold && meetsGainPerMinuteThreshold &&
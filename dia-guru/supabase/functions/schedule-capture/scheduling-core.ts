@@ -1,9 +1,22 @@
+import type { FreeBusyCalendars } from "../_shared/calendar-provider.ts";
+import { normalizeTaskType } from "../_shared/duration-learning.ts";
+import {
+  type EnergyCurve,
+  type EnergyDemand,
+  energyDemandFor,
+  energyFit,
+  slotEnergy,
+} from "../_shared/energy-curve.ts";
+import type { LlmCallMetrics } from "../_shared/llm-provider.ts";
 import type { CaptureEntryRow } from "../types.ts";
 import type { ChunkRecord } from "./chunks.ts";
 import {
+  activeSchedulerConfig,
   type NetGainEvaluation,
   type PreemptionDisplacement,
   schedulerConfig,
+  workingDayFor,
+  workingWindowFor,
 } from "./scheduler-config.ts";
 import {
   applyRoutinePriorityScore,
@@ -12,16 +25,26 @@ import {
   priorityForCapture,
   type RoutineKind,
 } from "./priority-model.ts";
+import {
+  type TravelContext,
+  travelPaddingMinutes,
+  type TravelTimeEstimator,
+} from "./travel-time.ts";
+import {
+  bookWorkload,
+  type WorkloadBudget,
+  workloadCapHit,
+  type WorkloadEntry,
+} from "./workload-caps.ts";
 export {
   detectRoutineKind,
   priorityForCapture,
   type RoutineKind,
 } from "./priority-model.ts";
 
-export const BUFFER_MINUTES = 10;
+export const BUFFER_MINUTES = schedulerConfig.buffers.minutes;
 export const COMPRESSED_BUFFER_MINUTES = 5;
 export const SEARCH_DAYS = 7;
-export const DAY_END_HOUR = 22;
 export const SLOT_INCREMENT_MINUTES = 15;
 export const STABILITY_WINDOW_MINUTES = 30;
 export const DEFAULT_MIN_CHUNK_MINUTES = SLOT_INCREMENT_MINUTES;
@@ -56,6 +79,7 @@ export class ScheduleError extends Error {
 export type CalendarEvent = {
   id: string;
   summary?: string;
+  location?: string;
   etag?: string;
   updated?: string;
   start: { dateTime?: string; date?: string };
@@ -92,6 +116,7 @@ export type ScheduleDecision = {
     llmAttempted: boolean;
     llmModel?: string | null;
     llmError?: string | null;
+    llmMetrics?: LlmCallMetrics | null;
     preemptionAttempted?: boolean;
     preemptionBlockedByLock?: boolean;
     lockReasons?: {
@@ -172,6 +197,14 @@ export type GridWindowCandidate = {
     diaguruCount: number;
   };
   hasExternal: boolean;
+  // How well the window suits the capture's energy demand, 0..1.
+  energyFit?: number;
+};
+
+export type EnergyScoring = {
+  curve: EnergyCurve;
+  demand: EnergyDemand;
+  offsetMinutes: number;
 };
 
 export type GridPreemptionChoice = {
@@ -363,11 +396,15 @@ export function findNextAvailableSlot(
     referenceNow?: Date;
     enforceWorkingWindow?: boolean;
     preferredTimeOfDay?: { start: number; end: number }[];
+    workload?: WorkloadBudget;
   } = {},
 ) {
   const referenceNow = options.referenceNow ?? new Date();
   const enforceWorkingWindow = options.enforceWorkingWindow ?? true;
   intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
+  const isSlotOpen = (start: Date, end: Date) =>
+    isSlotFree(start, end, intervals) &&
+    !(options.workload && workloadCapHit(options.workload, { start, end }));
 
   let cursor = options.startFrom
     ? new Date(Math.max(options.startFrom.getTime(), referenceNow.getTime()))
@@ -380,7 +417,7 @@ export function findNextAvailableSlot(
 
     while (candidateStart.getTime() + durationMs <= limit) {
       const candidateEnd = new Date(candidateStart.getTime() + durationMs);
-      if (isSlotFree(candidateStart, candidateEnd, intervals)) {
+      if (isSlotOpen(candidateStart, candidateEnd)) {
         return { start: candidateStart, end: candidateEnd };
       }
       candidateStart = addMinutes(candidateStart, SLOT_INCREMENT_MINUTES);
@@ -419,7 +456,7 @@ export function findNextAvailableSlot(
     const durationMs = durationMinutes * 60000;
     while (candidateStart.getTime() + durationMs <= limit) {
       const candidateEnd = new Date(candidateStart.getTime() + durationMs);
-      if (isSlotFree(candidateStart, candidateEnd, intervals)) {
+      if (isSlotOpen(candidateStart, candidateEnd)) {
         return { start: candidateStart, end: candidateEnd };
       }
       candidateStart = addMinutes(candidateStart, SLOT_INCREMENT_MINUTES);
@@ -433,17 +470,20 @@ export function findNextAvailableSlot(
 
   for (let day = 0; day < SEARCH_DAYS; day++) {
     const dayAnchor = addDays(referenceNow, day);
-    const dayStart = startOfDayOffset(dayAnchor, offsetMinutes);
+    const { start: dayStart, end: dayEnd } = workingDayFor(
+      dayAnchor,
+      offsetMinutes,
+    );
     let candidateStart = new Date(
       Math.max(dayStart.getTime(), cursor.getTime()),
     );
 
     while (true) {
-      if (isAfterDayEnd(candidateStart, offsetMinutes)) break;
+      if (candidateStart.getTime() > dayEnd.getTime()) break;
       const candidateEnd = addMinutes(candidateStart, durationMinutes);
-      if (isAfterDayEnd(candidateEnd, offsetMinutes)) break;
+      if (candidateEnd.getTime() > dayEnd.getTime()) break;
 
-      if (isSlotFree(candidateStart, candidateEnd, intervals)) {
+      if (isSlotOpen(candidateStart, candidateEnd)) {
         return { start: candidateStart, end: candidateEnd };
       }
 
@@ -456,18 +496,59 @@ export function findNextAvailableSlot(
   return null;
 }
 
+export type { FreeBusyCalendars };
+
+/**
+ * Turns a Google freebusy response into busy-only calendar events so
+ * blocks from secondary calendars flow through the same interval and grid
+ * code as listed events. They carry no DiaGuru marker and therefore count
+ * as external time.
+ */
+export function buildFreeBusyEvents(
+  calendars: FreeBusyCalendars,
+  excludeCalendarIds: string[] = [],
+): CalendarEvent[] {
+  const excluded = new Set(excludeCalendarIds);
+  const events: CalendarEvent[] = [];
+  for (const [calendarId, entry] of Object.entries(calendars)) {
+    if (excluded.has(calendarId)) continue;
+    for (const block of entry.busy ?? []) {
+      if (!parseIsoDate(block.start) || !parseIsoDate(block.end)) continue;
+      events.push({
+        id: `freebusy:${calendarId}:${block.start}`,
+        summary: "Busy",
+        start: { dateTime: block.start },
+        end: { dateTime: block.end },
+        extendedProperties: { private: { busySource: calendarId } },
+      });
+    }
+  }
+  return events;
+}
+
+/**
+ * Busy time around `events`, each padded with the buffer or, when the event
+ * or the capture being placed (`travel.location`) is somewhere, with the trip
+ * between the two if that is longer.
+ */
 export function computeBusyIntervals(
   events: CalendarEvent[],
-  bufferMinutes = BUFFER_MINUTES,
+  bufferMinutes = activeBufferMinutes(),
+  travel: TravelContext = {},
 ) {
   const intervals = events
     .map((event) => {
       const start = parseEventDate(event.start);
       const end = parseEventDate(event.end);
       if (!start || !end) return null;
+      const padding = travelPaddingMinutes(
+        bufferMinutes,
+        event.location,
+        travel,
+      );
       return {
-        start: addMinutes(start, -bufferMinutes),
-        end: addMinutes(end, bufferMinutes),
+        start: addMinutes(start, -padding),
+        end: addMinutes(end, padding),
       };
     })
     .filter(Boolean) as { start: Date; end: Date }[];
@@ -488,19 +569,32 @@ export function buildOccupancyGrid(args: {
     1,
     Math.min(SEARCH_DAYS, args.days ?? SEARCH_DAYS),
   );
-  const { startHour, endHour } = schedulerConfig.workingWindow;
-  const localNow = toLocalDate(args.referenceNow, args.offsetMinutes);
-  const localStart = new Date(localNow.getTime());
-  localStart.setUTCHours(startHour, 0, 0, 0);
-  if (localNow.getUTCHours() >= endHour) {
-    localStart.setUTCDate(localStart.getUTCDate() + 1);
+  // Start on the day whose window is still running, which may be yesterday's
+  // overnight window.
+  const currentDay = workingDayFor(args.referenceNow, args.offsetMinutes);
+  const firstDayLocal = toLocalDate(currentDay.start, args.offsetMinutes);
+  firstDayLocal.setUTCHours(0, 0, 0, 0);
+  if (args.referenceNow.getTime() >= currentDay.end.getTime()) {
+    firstDayLocal.setUTCDate(firstDayLocal.getUTCDate() + 1);
   }
 
-  const gridStart = toUtcDate(localStart, args.offsetMinutes);
-  const localGridEnd = new Date(localStart.getTime());
-  localGridEnd.setUTCDate(localGridEnd.getUTCDate() + totalDays - 1);
-  localGridEnd.setUTCHours(endHour, 0, 0, 0);
-  const gridEnd = toUtcDate(localGridEnd, args.offsetMinutes);
+  // Each day keeps its own working hours, so days may differ in length.
+  const dayRanges = Array.from({ length: totalDays }, (_, day) => {
+    const midnightLocal = new Date(firstDayLocal.getTime());
+    midnightLocal.setUTCDate(midnightLocal.getUTCDate() + day);
+    const midnightUtc = toUtcDate(midnightLocal, args.offsetMinutes);
+    const { startHour, endHour } = workingWindowFor(
+      midnightUtc,
+      args.offsetMinutes,
+    );
+    return {
+      start: addMinutes(midnightUtc, Math.round(startHour * 60)),
+      end: addMinutes(midnightUtc, Math.round(endHour * 60)),
+    };
+  });
+
+  const gridStart = dayRanges[0].start;
+  const gridEnd = dayRanges[dayRanges.length - 1].end;
 
   const eventWindows = args.events
     .map((event) => {
@@ -528,14 +622,7 @@ export function buildOccupancyGrid(args: {
   const allSlots: OccupancySlot[] = [];
   const daySummaries: OccupancyDaySummary[] = [];
 
-  for (let day = 0; day < totalDays; day++) {
-    const dayStartLocal = new Date(localStart.getTime());
-    dayStartLocal.setUTCDate(dayStartLocal.getUTCDate() + day);
-    const dayEndLocal = new Date(dayStartLocal.getTime());
-    dayEndLocal.setUTCHours(endHour, 0, 0, 0);
-    const dayStartUtc = toUtcDate(dayStartLocal, args.offsetMinutes);
-    const dayEndUtc = toUtcDate(dayEndLocal, args.offsetMinutes);
-
+  for (const { start: dayStartUtc, end: dayEndUtc } of dayRanges) {
     const daySlots: OccupancySlot[] = [];
     for (
       let cursor = new Date(dayStartUtc.getTime());
@@ -589,8 +676,9 @@ export function collectGridWindowCandidates(args: {
   windowEnd?: Date | null;
   referenceNow: Date;
   limit?: number;
+  energy?: EnergyScoring;
 }): GridWindowCandidate[] {
-  const { grid } = args;
+  const { grid, energy } = args;
   const slotMinutes = Math.max(1, grid.slotMinutes);
   const slotsNeeded = Math.max(
     1,
@@ -624,10 +712,24 @@ export function collectGridWindowCandidates(args: {
       slotsNeeded,
       slotMinutes,
     );
+    if (energy) {
+      candidate.energyFit = Number(
+        energyFit(
+          slotEnergy(energy.curve, candidate.slot, energy.offsetMinutes),
+          energy.demand,
+        ).toFixed(3),
+      );
+    }
     results.push(candidate);
-    if (args.limit && results.length >= args.limit) break;
+    if (!energy && args.limit && results.length >= args.limit) break;
   }
 
+  // With an energy curve every window is scored and the best-suited ones come
+  // first; equal fits keep their time order.
+  if (energy) {
+    results.sort((a, b) => (b.energyFit ?? 0) - (a.energyFit ?? 0));
+    if (args.limit) results.length = Math.min(results.length, args.limit);
+  }
   return results;
 }
 
@@ -750,6 +852,10 @@ export function placeChunksWithinRange(args: {
   rangeStart: Date;
   rangeEnd: Date;
   enforceWorkingWindow?: boolean;
+  workload?: WorkloadBudget;
+  // Spreads the chunks evenly over the range, each starting at least
+  // `minGapMinutes` after the previous one ends.
+  spacing?: { minGapMinutes: number };
 }): ChunkPlacementResult | null {
   if (args.chunkDurations.length === 0) {
     return {
@@ -766,8 +872,21 @@ export function placeChunksWithinRange(args: {
   }));
   const placements: ChunkRecord[] = [];
   let cursor = alignToSlotIncrement(args.rangeStart);
-
-  for (const minutes of args.chunkDurations) {
+  // Chunks book into a copy so a failed placement leaves the caller's
+  // entries alone; cap hits are still shared.
+  const workload = args.workload
+    ? { ...args.workload, entries: [...args.workload.entries] }
+    : undefined;
+
+  const spanMs = args.rangeEnd.getTime() - args.rangeStart.getTime();
+  for (const [index, minutes] of args.chunkDurations.entries()) {
+    if (args.spacing && index > 0) {
+      const anchor = args.rangeStart.getTime() +
+        (spanMs * index) / args.chunkDurations.length;
+      const afterGap = placements[index - 1].end.getTime() +
+        args.spacing.minGapMinutes * 60000;
+      cursor = alignToSlotIncrement(new Date(Math.max(anchor, afterGap)));
+    }
     const slot = findSlotWithinRange(
       intervals,
       minutes,
@@ -777,12 +896,14 @@ export function placeChunksWithinRange(args: {
         end: args.rangeEnd,
       },
       args.enforceWorkingWindow ?? true,
+      workload,
     );
     if (!slot) {
       return null;
     }
     placements.push({ start: slot.start, end: slot.end, prime: true });
     registerInterval(intervals, slot);
+    if (workload) bookWorkload(workload, slot);
     cursor = alignToSlotIncrement(slot.end);
   }
 
@@ -795,6 +916,7 @@ function findSlotWithinRange(
   offsetMinutes: number,
   options: { start: Date; end: Date },
   enforceWorkingWindow = true,
+  workload?: WorkloadBudget,
 ): PreferredSlot | null {
   const durationMs = durationMinutes * 60000;
   let candidateStart = alignToSlotIncrement(options.start);
@@ -805,9 +927,13 @@ function findSlotWithinRange(
     const candidateEnd = new Date(candidateStart.getTime() + durationMs);
     if (
       (!enforceWorkingWindow ||
-        !isBeforeDayStart(candidateStart, offsetMinutes)) &&
-      (!enforceWorkingWindow || !isAfterDayEnd(candidateEnd, offsetMinutes)) &&
-      isSlotFree(candidateStart, candidateEnd, intervals)
+        isSlotWithinWorkingWindow(
+          { start: candidateStart, end: candidateEnd },
+          offsetMinutes,
+        )) &&
+      isSlotFree(candidateStart, candidateEnd, intervals) &&
+      !(workload &&
+        workloadCapHit(workload, { start: candidateStart, end: candidateEnd }))
     ) {
       return { start: candidateStart, end: candidateEnd };
     }
@@ -1124,7 +1250,7 @@ export function computeDateDeadline(
   const base = new Date(`${dateInput}T00:00:00Z`);
   if (Number.isNaN(base.getTime())) return null;
   const local = toLocalDate(base, offsetMinutes);
-  local.setHours(DAY_END_HOUR, 0, 0, 0);
+  setLocalHour(local, workingWindowFor(base, offsetMinutes).endHour);
   return toUtcDate(local, offsetMinutes);
 }
 
@@ -1226,10 +1352,9 @@ export function isSlotFeasible(
   intervals: { start: Date; end: Date }[],
   enforceWorkingWindow = true,
 ) {
-  if (enforceWorkingWindow && isBeforeDayStart(slot.start, offsetMinutes)) {
-    return false;
-  }
-  if (enforceWorkingWindow && isAfterDayEnd(slot.end, offsetMinutes)) {
+  if (
+    enforceWorkingWindow && !isSlotWithinWorkingWindow(slot, offsetMinutes)
+  ) {
     return false;
   }
   return isSlotFree(slot.start, slot.end, intervals);
@@ -1264,8 +1389,10 @@ export function findSlotBeforeDeadline(
 
     if (
       (!enforceWorkingWindow ||
-        !isBeforeDayStart(candidateStart, offsetMinutes)) &&
-      (!enforceWorkingWindow || !isAfterDayEnd(candidateEnd, offsetMinutes)) &&
+        isSlotWithinWorkingWindow(
+          { start: candidateStart, end: candidateEnd },
+          offsetMinutes,
+        )) &&
       isSlotFree(candidateStart, candidateEnd, intervals)
     ) {
       return { start: candidateStart, end: candidateEnd };
@@ -1299,8 +1426,10 @@ export function findSlotWithinWindow(
     const candidateEnd = new Date(candidateStart.getTime() + durationMs);
     if (
       (!enforceWorkingWindow ||
-        !isBeforeDayStart(candidateStart, offsetMinutes)) &&
-      (!enforceWorkingWindow || !isAfterDayEnd(candidateEnd, offsetMinutes)) &&
+        isSlotWithinWorkingWindow(
+          { start: candidateStart, end: candidateEnd },
+          offsetMinutes,
+        )) &&
       isSlotFree(candidateStart, candidateEnd, intervals)
     ) {
       return { start: candidateStart, end: candidateEnd };
@@ -1320,6 +1449,7 @@ export function scheduleWithPlan(args: {
   isSoftStart?: boolean;
   enforceWorkingWindow?: boolean;
   preferredTimeOfDay?: { start: number; end: number }[];
+  workload?: WorkloadBudget;
 }): PreferredSlot | null {
   const {
     plan,
@@ -1330,6 +1460,7 @@ export function scheduleWithPlan(args: {
     isSoftStart,
     enforceWorkingWindow = true,
     preferredTimeOfDay,
+    workload,
   } = args;
   if (plan.preferredSlot) {
     const adjusted = adjustSlotToReference(plan.preferredSlot, referenceNow);
@@ -1395,6 +1526,7 @@ export function scheduleWithPlan(args: {
     referenceNow,
     enforceWorkingWindow,
     preferredTimeOfDay,
+    workload,
   });
 }
 
@@ -1433,6 +1565,74 @@ export function isSlotWithinConstraints(
   return slot.end.getTime() <= minEnd.getTime();
 }
 
+export type PredecessorSnapshot = Pick<
+  CaptureEntryRow,
+  "id" | "content" | "status" | "planned_end"
+>;
+
+export type DependencyGate = {
+  earliestStart: Date | null;
+  blocking: PredecessorSnapshot[];
+};
+
+export const DEPENDENCY_GATE_EVENT_ID = "diaguru-dependency-gate";
+
+/**
+ * Reduces a capture's predecessors to the earliest instant it may start.
+ * Completed or skipped predecessors no longer constrain anything; pending
+ * ones without a planned end cannot be ordered against yet, so they are
+ * reported as blocking instead.
+ */
+export function resolveDependencyGate(
+  predecessors: PredecessorSnapshot[],
+): DependencyGate {
+  let earliestStart: Date | null = null;
+  const blocking: PredecessorSnapshot[] = [];
+  for (const predecessor of predecessors) {
+    if (
+      predecessor.status === "completed" || predecessor.status === "skipped"
+    ) {
+      continue;
+    }
+    const plannedEnd = parseIsoDate(predecessor.planned_end ?? null);
+    if (!plannedEnd) {
+      blocking.push(predecessor);
+      continue;
+    }
+    if (!earliestStart || plannedEnd.getTime() > earliestStart.getTime()) {
+      earliestStart = plannedEnd;
+    }
+  }
+  return { earliestStart, blocking };
+}
+
+export function isSlotAfterPredecessors(
+  gate: DependencyGate | null,
+  slot: { start: Date; end: Date },
+) {
+  if (!gate?.earliestStart) return true;
+  return slot.start.getTime() >= gate.earliestStart.getTime();
+}
+
+/**
+ * Expresses the gate as a busy block from `referenceNow` until the last
+ * predecessor ends, so every placement path (plans, grid search, preemption)
+ * sees that span as unavailable external time.
+ */
+export function buildDependencyGateEvent(
+  gate: DependencyGate | null,
+  referenceNow: Date,
+): CalendarEvent | null {
+  if (!gate?.earliestStart) return null;
+  if (gate.earliestStart.getTime() <= referenceNow.getTime()) return null;
+  return {
+    id: DEPENDENCY_GATE_EVENT_ID,
+    summary: "Waiting on predecessor",
+    start: { dateTime: referenceNow.toISOString() },
+    end: { dateTime: gate.earliestStart.toISOString() },
+  };
+}
+
 export function hasActiveFreeze(capture: CaptureEntryRow, referenceNow: Date) {
   if (!capture.freeze_until) return false;
   const freezeTs = Date.parse(capture.freeze_until);
@@ -1459,9 +1659,10 @@ export function selectMinimalPreemptionSet(args: {
   allowCompressedBuffer: boolean;
 }) {
   if (args.candidateIds.length === 0) return null;
+  const bufferMinutes = activeBufferMinutes();
   const buffers = args.allowCompressedBuffer
-    ? [BUFFER_MINUTES, COMPRESSED_BUFFER_MINUTES]
-    : [BUFFER_MINUTES];
+    ? [bufferMinutes, Math.min(bufferMinutes, COMPRESSED_BUFFER_MINUTES)]
+    : [bufferMinutes];
   const uniqueBuffers = Array.from(new Set(buffers));
   const maxCombinationSize = Math.min(args.candidateIds.length, 4);
 
@@ -1564,7 +1765,8 @@ export function derivePreferredTimeOfDayBands(capture: CaptureEntryRow) {
   }
 
   if (bands.length === 0 && capture.task_type_hint) {
-    const defaults = schedulerConfig.timeOfDayDefaults[capture.task_type_hint];
+    const defaults =
+      activeSchedulerConfig().timeOfDayDefaults[capture.task_type_hint];
     if (defaults && defaults.length > 0) {
       bands.push(...defaults);
     }
@@ -1572,6 +1774,38 @@ export function derivePreferredTimeOfDayBands(capture: CaptureEntryRow) {
   return bands.length > 0 ? bands : undefined;
 }
 
+/**
+ * Energy scoring for a capture whose task type cares about the user's energy
+ * curve, or undefined when there is no curve or the user asked for a time of
+ * day themselves.
+ */
+export function deriveEnergyScoring(
+  capture: CaptureEntryRow,
+  offsetMinutes: number,
+): EnergyScoring | undefined {
+  const { curve } = activeSchedulerConfig().energy;
+  if (!curve || capture.time_pref_time_of_day) return undefined;
+  const demand = energyDemandFor(capture.task_type_hint);
+  return demand ? { curve, demand, offsetMinutes } : undefined;
+}
+
+/**
+ * Workload budget for placing `capture` among the sessions in `entries`, or
+ * undefined when neither its task type's daily cap nor the weekly cap is set.
+ * The budget shares `entries`, so booking into it updates the caller's list.
+ */
+export function workloadBudgetFor(
+  capture: CaptureEntryRow,
+  entries: WorkloadEntry[],
+  offsetMinutes: number,
+): WorkloadBudget | undefined {
+  const caps = activeSchedulerConfig().workloadCaps;
+  const taskType = normalizeTaskType(capture.task_type_hint);
+  const dailyCap = taskType ? caps.dailyMinutes[taskType] : undefined;
+  if (!dailyCap && !caps.weeklyMinutes) return undefined;
+  return { caps, taskType, entries, offsetMinutes, hits: [] };
+}
+
 export function canCaptureOverlap(capture: CaptureEntryRow) {
   if (capture.blocking) return false;
   if (capture.start_flexibility === "hard") return false;
@@ -1644,8 +1878,8 @@ export function collectConflictingEvents(
     const end = parseEventDate(event.end);
     if (!start || !end) continue;
 
-    let beforeBuffer = BUFFER_MINUTES;
-    let afterBuffer = BUFFER_MINUTES;
+    let beforeBuffer = activeBufferMinutes();
+    let afterBuffer = activeBufferMinutes();
 
     if (referenceNow && start <= referenceNow && referenceNow < end) {
       // Event is currently in progress
@@ -1673,22 +1907,33 @@ export function collectConflictingEvents(
   return conflicts;
 }
 
+/** A slot must fit inside the one working window its start falls in. */
 export function isSlotWithinWorkingWindow(
   slot: PreferredSlot,
   offsetMinutes: number,
 ) {
-  if (isBeforeDayStart(slot.start, offsetMinutes)) return false;
-  if (isAfterDayEnd(slot.end, offsetMinutes)) return false;
-  return true;
+  const { start, end } = workingDayFor(slot.start, offsetMinutes);
+  return slot.start.getTime() >= start.getTime() &&
+    slot.end.getTime() <= end.getTime();
 }
 
+/**
+ * Adds a freshly placed slot to `intervals`. A slot at `location` is padded
+ * with the trip back to base, since the captures placed after it are not
+ * known yet.
+ */
 export function registerInterval(
   intervals: { start: Date; end: Date }[],
   slot: PreferredSlot,
+  location?: string | null,
+  estimator?: TravelTimeEstimator,
 ) {
+  const padding = travelPaddingMinutes(activeBufferMinutes(), location, {
+    estimator,
+  });
   intervals.push({
-    start: addMinutes(slot.start, -BUFFER_MINUTES),
-    end: addMinutes(slot.end, BUFFER_MINUTES),
+    start: addMinutes(slot.start, -padding),
+    end: addMinutes(slot.end, padding),
   });
   intervals.sort((a, b) => a.start.getTime() - b.start.getTime());
 }
@@ -1710,23 +1955,25 @@ export function addDays(date: Date, days: number) {
 }
 
 export function startOfDayOffset(date: Date, offsetMinutes: number) {
-  const local = toLocalDate(date, offsetMinutes);
-  local.setHours(8, 0, 0, 0);
-  return toUtcDate(local, offsetMinutes);
+  return workingDayFor(date, offsetMinutes).start;
 }
 
 export function isBeforeDayStart(date: Date, offsetMinutes: number) {
-  const local = toLocalDate(date, offsetMinutes);
-  const start = new Date(local.getTime());
-  start.setHours(8, 0, 0, 0);
-  return local.getTime() < start.getTime();
+  return date.getTime() < workingDayFor(date, offsetMinutes).start.getTime();
 }
 
 export function isAfterDayEnd(date: Date, offsetMinutes: number) {
-  const local = toLocalDate(date, offsetMinutes);
-  if (local.getHours() > DAY_END_HOUR) return true;
-  if (local.getHours() === DAY_END_HOUR && local.getMinutes() > 0) return true;
-  return false;
+  return date.getTime() > workingDayFor(date, offsetMinutes).end.getTime();
+}
+
+export function activeBufferMinutes() {
+  return activeSchedulerConfig().buffers.minutes;
+}
+
+// Hours may be fractional (7.5 = 07:30); past 24 runs into the next day.
+function setLocalHour(local: Date, hour: number) {
+  local.setUTCHours(0, 0, 0, 0);
+  local.setTime(local.getTime() + Math.round(hour * 60) * 60000);
 }
 
 export function toLocalDate(date: Date, offsetMinutes: number) {
@@ -1819,7 +2066,7 @@ function getLocalTimeParts(reference: Date, timezone: string) {
   };
 }
 
-function getTimezoneOffsetMinutes(date: Date, timeZone: string) {
+export function getTimezoneOffsetMinutes(date: Date, timeZone: string) {
   const localDate = new Date(date.toLocaleString("en-US", { timeZone }));
   const utcDate = new Date(date.toLocaleString("en-US", { timeZone: "UTC" }));
   return (localDate.getTime() - utcDate.getTime()) / 60000;
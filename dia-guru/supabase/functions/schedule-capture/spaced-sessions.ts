@@ -0,0 +1,100 @@
+// Spaced sessions for study and practice. Rather than packing a long study
+// capture into one block, it is split into sessions spread over the days
+// before its deadline, with a rest gap between them. Every session is kept
+// as a capture chunk with a calendar event of its own; the capture's event
+// and planned window are the first session's. A check-in after a session
+// spreads what is left over the days after.
+
+import { normalizeTaskType } from "../_shared/duration-learning.ts";
+import type { CaptureEntryRow } from "../types.ts";
+import type { ChunkRecord } from "./chunks.ts";
+import { longRangeWindow } from "./long-range.ts";
+import { activeSchedulerConfig } from "./scheduler-config.ts";
+import {
+  DEFAULT_MIN_CHUNK_MINUTES,
+  generateChunkDurations,
+  placeChunksWithinRange,
+  type SchedulingPlan,
+} from "./scheduling-core.ts";
+import type { WorkloadBudget } from "./workload-caps.ts";
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+export function isSpacedStudyCapture(capture: CaptureEntryRow) {
+  return capture.extraction_kind === "study" ||
+    normalizeTaskType(capture.task_type_hint) === "study";
+}
+
+/**
+ * Sessions for a study capture with a deadline, spread between `rangeStart`
+ * and the deadline (or the end of the long-range horizon, if sooner), so the
+ * busy intervals must cover that whole range. Session lengths follow
+ * `min_chunk_minutes` and `max_splits`, and there are never more sessions
+ * than the range has room to keep apart. Returns null when the capture is
+ * not spaced, would be a single session, or the sessions do not fit; the
+ * caller then places it as one block.
+ */
+export function planSpacedSessions(args: {
+  capture: CaptureEntryRow;
+  plan: SchedulingPlan;
+  durationMinutes: number;
+  busyIntervals: { start: Date; end: Date }[];
+  offsetMinutes: number;
+  rangeStart: Date;
+  enforceWorkingWindow?: boolean;
+  workload?: WorkloadBudget;
+}): ChunkRecord[] | null {
+  const { capture, plan } = args;
+  if (!isSpacedStudyCapture(capture)) return null;
+  if (plan.mode !== "deadline" || !plan.deadline) return null;
+
+  const rangeEnd = new Date(
+    Math.min(
+      plan.deadline.getTime(),
+      longRangeWindow(args.rangeStart).horizonEnd.getTime(),
+    ),
+  );
+  const gapMs = activeSchedulerConfig().studySpacing.minGapHours * MS_PER_HOUR;
+  const roomForSessions = Math.floor(
+    (rangeEnd.getTime() - args.rangeStart.getTime()) / gapMs,
+  );
+  const maxSplits = Math.min(
+    capture.max_splits && capture.max_splits > 0
+      ? capture.max_splits
+      : Infinity,
+    roomForSessions,
+  );
+  if (maxSplits < 2) return null;
+
+  const chunkDurations = generateChunkDurations({
+    totalMinutes: args.durationMinutes,
+    minChunkMinutes: capture.min_chunk_minutes ?? DEFAULT_MIN_CHUNK_MINUTES,
+    maxSplits,
+    allowSplitting: true,
+  });
+  if (chunkDurations.length < 2) return null;
+
+  // Caps only count as hits when the spaced placement is kept.
+  const workload: WorkloadBudget | undefined = args.workload && {
+    ...args.workload,
+    hits: [],
+  };
+  const placement = placeChunksWithinRange({
+    chunkDurations,
+    busyIntervals: args.busyIntervals,
+    offsetMinutes: args.offsetMinutes,
+    rangeStart: args.rangeStart,
+    rangeEnd,
+    enforceWorkingWindow: args.enforceWorkingWindow,
+    workload,
+    spacing: { minGapMinutes: gapMs / 60000 },
+  });
+  if (!placement) return null;
+  if (workload) args.workload!.hits.push(...workload.hits);
+  return placement.records;
+}
+
+export function describeSpacedSessions(sessions: ChunkRecord[]) {
+  const { minGapHours } = activeSchedulerConfig().studySpacing;
+  return `Split into ${sessions.length} study sessions at least ${minGapHours}h apart before the deadline.`;
+}
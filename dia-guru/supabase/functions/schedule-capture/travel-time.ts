@@ -0,0 +1,84 @@
+// Travel time between the places captures and calendar events happen at.
+// Location-bound items are padded with the trip to or from their neighbours
+// instead of the fixed buffer, so errands and appointments are not packed
+// back-to-back without a commute.
+
+/**
+ * Minutes it takes to get from one place to another. A null place is the
+ * user's base (wherever location-free work happens). Estimators are
+ * synchronous so slot search stays cheap; a routing service would be queried
+ * up front and wrapped with `createStaticTravelEstimator`.
+ */
+export type TravelTimeEstimator = (
+  from: string | null,
+  to: string | null,
+) => number;
+
+export type TravelMatrix = Record<string, Record<string, number>>;
+
+export type TravelContext = {
+  // Where the capture being placed happens.
+  location?: string | null;
+  estimator?: TravelTimeEstimator;
+};
+
+// Assumed for trips the matrix does not know.
+export const DEFAULT_TRAVEL_MINUTES = 20;
+// Matrix key for the user's base.
+export const BASE_LOCATION = "home";
+
+// Meeting links and calls do not need a commute.
+const VIRTUAL_LOCATION =
+  /(?:https?:\/\/|\b(?:zoom|teams|meet\.google|google meet|webex|skype|online|virtual|remote|phone|call)\b)/i;
+
+/**
+ * Lower-cased place with collapsed whitespace, or null when there is no
+ * physical place to travel to.
+ */
+export function normalizeLocation(value: string | null | undefined) {
+  const normalized = value?.trim().replace(/\s+/g, " ").toLowerCase() ?? "";
+  if (!normalized || VIRTUAL_LOCATION.test(normalized)) return null;
+  return normalized;
+}
+
+/**
+ * Estimator backed by a fixed table of minutes between named places, looked
+ * up in either direction. Staying put costs nothing; pairs the table lacks
+ * take `fallbackMinutes`.
+ */
+export function createStaticTravelEstimator(
+  matrix: TravelMatrix,
+  fallbackMinutes = DEFAULT_TRAVEL_MINUTES,
+): TravelTimeEstimator {
+  const table = new Map<string, number>();
+  for (const [from, row] of Object.entries(matrix)) {
+    for (const [to, minutes] of Object.entries(row)) {
+      const a = normalizeLocation(from) ?? BASE_LOCATION;
+      const b = normalizeLocation(to) ?? BASE_LOCATION;
+      table.set(`${a}\n${b}`, minutes);
+      if (!table.has(`${b}\n${a}`)) table.set(`${b}\n${a}`, minutes);
+    }
+  }
+  return (from, to) => {
+    const a = normalizeLocation(from) ?? BASE_LOCATION;
+    const b = normalizeLocation(to) ?? BASE_LOCATION;
+    if (a === b) return 0;
+    return table.get(`${a}\n${b}`) ?? fallbackMinutes;
+  };
+}
+
+export const defaultTravelTimeEstimator = createStaticTravelEstimator({});
+
+/**
+ * Gap to keep between an item at `other` and the capture being placed: the
+ * regular buffer, or the trip between the two places when that is longer.
+ */
+export function travelPaddingMinutes(
+  bufferMinutes: number,
+  other: string | null | undefined,
+  travel: TravelContext = {},
+) {
+  const estimator = travel.estimator ?? defaultTravelTimeEstimator;
+  const trip = estimator(other ?? null, travel.location ?? null);
+  return Math.max(bufferMinutes, Number.isFinite(trip) ? trip : 0);
+}
@@ -0,0 +1,173 @@
+// Daily and weekly limits on how much DiaGuru schedules. A day that already
+// holds its cap of a task type (or a week that holds its total) is skipped
+// during slot search, so the work spills to the next day with room.
+
+export type WorkloadCaps = {
+  // Minutes per local day, keyed by task type.
+  dailyMinutes: Record<string, number>;
+  // Minutes of scheduled sessions per local week (Monday to Sunday), across
+  // every task type; null for no limit.
+  weeklyMinutes: number | null;
+};
+
+// A scheduled session counted against the caps.
+export type WorkloadEntry = {
+  start: Date;
+  end: Date;
+  taskType: string | null;
+};
+
+export type WorkloadCapHit = {
+  scope: "daily" | "weekly";
+  // The capped task type; null for the weekly total.
+  taskType: string | null;
+  limitMinutes: number;
+  bookedMinutes: number;
+  // Local date of the day, or of the Monday starting the week, that was full.
+  period: string;
+};
+
+/**
+ * What slot search checks a capture against: the caps, the sessions already
+ * booked, and the caps that turned candidates away so far.
+ */
+export type WorkloadBudget = {
+  caps: WorkloadCaps;
+  taskType: string | null;
+  entries: WorkloadEntry[];
+  offsetMinutes: number;
+  hits: WorkloadCapHit[];
+};
+
+const MS_PER_MINUTE = 60 * 1000;
+const MS_PER_DAY = 24 * 60 * MS_PER_MINUTE;
+
+function localDayStart(date: Date, offsetMinutes: number) {
+  const local = date.getTime() + offsetMinutes * MS_PER_MINUTE;
+  return Math.floor(local / MS_PER_DAY) * MS_PER_DAY;
+}
+
+function localWeekStart(date: Date, offsetMinutes: number) {
+  const day = localDayStart(date, offsetMinutes);
+  const weekday = (new Date(day).getUTCDay() + 6) % 7; // 0 = Monday
+  return day - weekday * MS_PER_DAY;
+}
+
+function minutesOf(slot: { start: Date; end: Date }) {
+  return Math.max(0, (slot.end.getTime() - slot.start.getTime()) / 60000);
+}
+
+function bookedMinutes(
+  budget: WorkloadBudget,
+  periodStart: number,
+  periodEnd: number,
+  taskType: string | null,
+) {
+  let total = 0;
+  for (const entry of budget.entries) {
+    if (taskType && entry.taskType !== taskType) continue;
+    const dayStart = localDayStart(entry.start, budget.offsetMinutes);
+    if (dayStart < periodStart || dayStart >= periodEnd) continue;
+    total += minutesOf(entry);
+  }
+  return total;
+}
+
+function periodLabel(periodStart: number) {
+  return new Date(periodStart).toISOString().slice(0, 10);
+}
+
+/**
+ * The cap `slot` would break, or null when it fits. Sessions count toward the
+ * local day they start on. A day or week with nothing booked yet always takes
+ * one session, so a single session longer than its cap is still placed.
+ *
+ * Hits are noted on the budget (once per cap and period) so callers can
+ * report what pushed the capture later.
+ */
+export function workloadCapHit(
+  budget: WorkloadBudget,
+  slot: { start: Date; end: Date },
+): WorkloadCapHit | null {
+  const minutes = minutesOf(slot);
+  let hit: WorkloadCapHit | null = null;
+
+  const dailyLimit = budget.taskType
+    ? budget.caps.dailyMinutes[budget.taskType]
+    : undefined;
+  if (dailyLimit && dailyLimit > 0) {
+    const dayStart = localDayStart(slot.start, budget.offsetMinutes);
+    const booked = bookedMinutes(
+      budget,
+      dayStart,
+      dayStart + MS_PER_DAY,
+      budget.taskType,
+    );
+    if (booked > 0 && booked + minutes > dailyLimit) {
+      hit = {
+        scope: "daily",
+        taskType: budget.taskType,
+        limitMinutes: dailyLimit,
+        bookedMinutes: booked,
+        period: periodLabel(dayStart),
+      };
+    }
+  }
+
+  const weeklyLimit = budget.caps.weeklyMinutes;
+  if (!hit && weeklyLimit && weeklyLimit > 0) {
+    const weekStart = localWeekStart(slot.start, budget.offsetMinutes);
+    const booked = bookedMinutes(
+      budget,
+      weekStart,
+      weekStart + 7 * MS_PER_DAY,
+      null,
+    );
+    if (booked > 0 && booked + minutes > weeklyLimit) {
+      hit = {
+        scope: "weekly",
+        taskType: null,
+        limitMinutes: weeklyLimit,
+        bookedMinutes: booked,
+        period: periodLabel(weekStart),
+      };
+    }
+  }
+
+  if (
+    hit &&
+    !budget.hits.some((existing) =>
+      existing.scope === hit.scope && existing.period === hit.period
+    )
+  ) {
+    budget.hits.push(hit);
+  }
+  return hit;
+}
+
+/** Counts a newly placed session so later searches see it. */
+export function bookWorkload(
+  budget: WorkloadBudget,
+  slot: { start: Date; end: Date },
+) {
+  budget.entries.push({
+    start: new Date(slot.start),
+    end: new Date(slot.end),
+    taskType: budget.taskType,
+  });
+}
+
+function formatLimit(minutes: number) {
+  return minutes % 60 === 0 ? `${minutes / 60}h` : `${minutes} min`;
+}
+
+export function describeWorkloadCapHit(hit: WorkloadCapHit) {
+  if (hit.scope === "weekly") {
+    return `Moved past the week of ${hit.period}: your ${
+      formatLimit(hit.limitMinutes)
+    } weekly cap on scheduled time was reached.`;
+  }
+  return `Moved past ${hit.period}: your ${
+    formatLimit(hit.limitMinutes)
+  } daily cap on ${hit.taskType?.replace(/_/g, " ")} was reached.`;
+}
@@ -0,0 +1,72 @@
+import { assertEquals } from "std/assert";
+
+import type { NotificationJobRow } from "../types.ts";
+import { buildPushMessages, readPushTickets } from "./index.ts";
+
+function job(id: string, userId: string): NotificationJobRow & { id: string } {
+  return {
+    id,
+    user_id: userId,
+    capture_id: `cap-${id}`,
+    kind: "check_in",
+    send_at: "2026-10-19T10:00:00Z",
+    title: "Time to check in",
+    body: 'Did you complete "Draft the report"?',
+    status: "pending",
+  };
+}
+
+Deno.test("buildPushMessages sends each job to every device of its user", () => {
+  const messages = buildPushMessages(
+    [job("a", "user-1"), job("b", "user-2")],
+    [
+      { user_id: "user-1", expo_push_token: "ExponentPushToken[phone]" },
+      { user_id: "user-1", expo_push_token: "ExponentPushToken[tablet]" },
+    ],
+  );
+
+  assertEquals(messages.map((message) => message.to), [
+    "ExponentPushToken[phone]",
+    "ExponentPushToken[tablet]",
+  ]);
+  assertEquals(messages[0].data, {
+    captureId: "cap-a",
+    kind: "check_in",
+    jobId: "a",
+  });
+  assertEquals(messages[0].categoryId, "capture-reminder");
+});
+
+Deno.test("buildPushMessages leaves deadline warnings without action buttons", () => {
+  const messages = buildPushMessages(
+    [{ ...job("a", "user-1"), kind: "deadline" }],
+    [{ user_id: "user-1", expo_push_token: "ExponentPushToken[phone]" }],
+  );
+
+  assertEquals(messages[0].categoryId, undefined);
+});
+
+Deno.test("readPushTickets counts a job as sent when any device accepted it", () => {
+  const messages = buildPushMessages(
+    [job("a", "user-1"), job("b", "user-2")],
+    [
+      { user_id: "user-1", expo_push_token: "phone" },
+      { user_id: "user-1", expo_push_token: "old-phone" },
+      { user_id: "user-2", expo_push_token: "laptop" },
+    ],
+  );
+
+  const result = readPushTickets(messages, [
+    { status: "ok", id: "ticket-1" },
+    {
+      status: "error",
+      message: "not registered",
+      details: { error: "DeviceNotRegistered" },
+    },
+    { status: "error", message: "Rate exceeded" },
+  ]);
+
+  assertEquals([...result.sentJobIds], ["a"]);
+  assertEquals([...result.errors], [["b", "Rate exceeded"]]);
+  assertEquals([...result.staleTokens], ["old-phone"]);
+});
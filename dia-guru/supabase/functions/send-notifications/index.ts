@@ -0,0 +1,254 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+import { json, maybeHandleCors } from "../_shared/cors.ts";
+import {
+  isNotificationJobCurrent,
+  loadNotificationCaptures,
+  loadReminderLeads,
+} from "../_shared/notification-jobs.ts";
+import type { Database, NotificationJobRow, PushDeviceRow } from "../types.ts";
+
+type AdminClient = SupabaseClient<Database, "public">;
+
+const EXPO_PUSH_URL = "https://exp.host/--/api/v2/push/send";
+// Expo accepts at most 100 messages per request.
+const PUSH_BATCH_SIZE = 100;
+const DUE_JOB_LIMIT = 500;
+// Registered by the app (lib/notifications.ts) with Done, Snooze and
+// Reschedule buttons.
+const CAPTURE_REMINDER_CATEGORY = "capture-reminder";
+const ACTIONABLE_KINDS = new Set<NotificationJobRow["kind"]>([
+  "pre_start",
+  "start",
+  "check_in",
+]);
+// A reminder this late (the job did not run for a while) is noise.
+const STALE_AFTER_MS = 30 * 60 * 1000;
+
+type DueJob = NotificationJobRow & { id: string };
+
+export type PushMessage = {
+  to: string;
+  title: string;
+  body: string;
+  sound: "default";
+  categoryId?: string;
+  data: { captureId: string; kind: NotificationJobRow["kind"]; jobId: string };
+};
+
+export type PushTicket = {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+};
+
+/**
+ * One message per job and registered device of the job's user. Jobs whose
+ * user has no device produce no messages. Session reminders carry the
+ * category that gives them action buttons.
+ */
+export function buildPushMessages(
+  jobs: DueJob[],
+  devices: Pick<PushDeviceRow, "user_id" | "expo_push_token">[],
+): PushMessage[] {
+  const tokensByUser = new Map<string, string[]>();
+  for (const device of devices) {
+    const tokens = tokensByUser.get(device.user_id) ?? [];
+    tokens.push(device.expo_push_token);
+    tokensByUser.set(device.user_id, tokens);
+  }
+  return jobs.flatMap((job) =>
+    (tokensByUser.get(job.user_id) ?? []).map((token) => ({
+      to: token,
+      title: job.title,
+      body: job.body,
+      sound: "default" as const,
+      ...(ACTIONABLE_KINDS.has(job.kind)
+        ? { categoryId: CAPTURE_REMINDER_CATEGORY }
+        : {}),
+      data: { captureId: job.capture_id, kind: job.kind, jobId: job.id },
+    }))
+  );
+}
+
+/**
+ * Reads Expo's tickets, which come back in message order. A job counts as
+ * sent when any of its devices accepted it; tokens Expo no longer knows are
+ * returned so their devices can be dropped.
+ */
+export function readPushTickets(
+  messages: PushMessage[],
+  tickets: PushTicket[],
+) {
+  const sentJobIds = new Set<string>();
+  const errors = new Map<string, string>();
+  const staleTokens = new Set<string>();
+  messages.forEach((message, index) => {
+    const ticket = tickets[index];
+    if (ticket?.status === "ok") {
+      sentJobIds.add(message.data.jobId);
+      return;
+    }
+    const reason = ticket?.details?.error ?? ticket?.message ?? "no_ticket";
+    errors.set(message.data.jobId, reason);
+    if (reason === "DeviceNotRegistered") staleTokens.add(message.to);
+  });
+  for (const jobId of sentJobIds) errors.delete(jobId);
+  return { sentJobIds, errors, staleTokens };
+}
+
+async function sendPushBatch(
+  messages: PushMessage[],
+  fetchImpl: typeof fetch,
+): Promise<PushTicket[]> {
+  const accessToken = Deno.env.get("EXPO_ACCESS_TOKEN");
+  const res = await fetchImpl(EXPO_PUSH_URL, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "application/json",
+      ...(accessToken ? { Authorization: `Bearer ${accessToken}` } : {}),
+    },
+    body: JSON.stringify(messages),
+  });
+  const payload = await res.json().catch(() => null) as
+    | { data?: PushTicket[] }
+    | null;
+  if (!res.ok || !Array.isArray(payload?.data)) {
+    // The whole batch failed; every message gets an error ticket.
+    return messages.map(() => ({
+      status: "error",
+      message: `Expo push failed with ${res.status}`,
+    }));
+  }
+  return payload.data;
+}
+
+async function updateJobs(
+  admin: AdminClient,
+  ids: string[],
+  values: Partial<NotificationJobRow>,
+) {
+  if (ids.length === 0) return;
+  const { error } = await admin
+    .from("notification_jobs")
+    .update(values)
+    .in("id", ids);
+  if (error) throw new Error(error.message);
+}
+
+/**
+ * Delivers every pending job that is due. Jobs that are far past due or no
+ * longer match their capture are expired instead of sent.
+ */
+export async function sendDueNotifications(
+  admin: AdminClient,
+  now: Date,
+  fetchImpl: typeof fetch = fetch,
+) {
+  const { data, error } = await admin
+    .from("notification_jobs")
+    .select("*")
+    .eq("status", "pending")
+    .lte("send_at", now.toISOString())
+    .order("send_at", { ascending: true })
+    .limit(DUE_JOB_LIMIT);
+  if (error) throw new Error(error.message);
+  const due = (data ?? []) as DueJob[];
+  if (due.length === 0) return { sent: 0, failed: 0, expired: 0 };
+
+  const captures = new Map(
+    (await loadNotificationCaptures(admin, [
+      ...new Set(due.map((job) => job.capture_id)),
+    ])).map((capture) => [capture.id, capture]),
+  );
+  const leads = await loadReminderLeads(admin, [
+    ...new Set(due.map((job) => job.user_id)),
+  ]);
+  const expired: string[] = [];
+  const deliverable: DueJob[] = [];
+  for (const job of due) {
+    const late = now.getTime() - Date.parse(job.send_at) > STALE_AFTER_MS;
+    const current = isNotificationJobCurrent(
+      job,
+      captures.get(job.capture_id),
+      leads.get(job.user_id),
+    );
+    if (late || !current) {
+      expired.push(job.id);
+    } else {
+      deliverable.push(job);
+    }
+  }
+  await updateJobs(admin, expired, { status: "expired" });
+
+  const { data: deviceRows, error: devicesError } = await admin
+    .from("push_devices")
+    .select("user_id, expo_push_token")
+    .in("user_id", [...new Set(deliverable.map((job) => job.user_id))]);
+  if (devicesError) throw new Error(devicesError.message);
+  const messages = buildPushMessages(
+    deliverable,
+    (deviceRows ?? []) as PushDeviceRow[],
+  );
+
+  const tickets: PushTicket[] = [];
+  for (let index = 0; index < messages.length; index += PUSH_BATCH_SIZE) {
+    const batch = messages.slice(index, index + PUSH_BATCH_SIZE);
+    tickets.push(...await sendPushBatch(batch, fetchImpl));
+  }
+  const { sentJobIds, errors, staleTokens } = readPushTickets(
+    messages,
+    tickets,
+  );
+
+  await updateJobs(admin, [...sentJobIds], {
+    status: "sent",
+    sent_at: now.toISOString(),
+  });
+  const failed = deliverable.filter((job) => !sentJobIds.has(job.id));
+  for (const job of failed) {
+    await updateJobs(admin, [job.id], {
+      status: "failed",
+      error: errors.get(job.id) ?? "no_devices",
+    });
+  }
+  if (staleTokens.size > 0) {
+    await admin
+      .from("push_devices")
+      .delete()
+      .in("expo_push_token", [...staleTokens]);
+  }
+
+  return {
+    sent: sentJobIds.size,
+    failed: failed.length,
+    expired: expired.length,
+  };
+}
+
+/**
+ * Meant for a scheduled job; callers authenticate with the service role key.
+ */
+export async function handler(req: Request) {
+  const corsResponse = maybeHandleCors(req);
+  if (corsResponse) return corsResponse;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+  const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
+  if (req.headers.get("Authorization") !== `Bearer ${serviceRole}`) {
+    return json({ error: "Forbidden" }, 403);
+  }
+
+  try {
+    const admin = createClient<Database, "public">(supabaseUrl, serviceRole);
+    return json(await sendDueNotifications(admin, new Date()));
+  } catch (error) {
+    const details = error instanceof Error ? error.message : String(error);
+    return json({ error: "Sending notifications failed", details }, 500);
+  }
+}
+
+if (import.meta.main) {
+  Deno.serve(handler);
+}
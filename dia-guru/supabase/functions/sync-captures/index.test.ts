@@ -1,9 +1,13 @@
 import { assertEquals, assertStrictEquals } from "std/assert";
 import {
+  buildChangeSync,
   evaluateCaptureSyncState,
   extractGoogleError,
+  findMissingCaptures,
+  onSyncedAccount,
   parseEventDate,
   sameInstant,
+  sessionChunkIndex,
 } from "./index.ts";
 
 Deno.test("extractGoogleError returns nested message", () => {
@@ -138,3 +142,142 @@ Deno.test(
     assertStrictEquals(state.manualChangeDetected, false);
   },
 );
+
+const taggedEvent = (id: string, captureId: string) => ({
+  id,
+  summary: "[DG] Task",
+  start: { dateTime: "2026-11-02T09:00:00Z" },
+  end: { dateTime: "2026-11-02T10:00:00Z" },
+  extendedProperties: { private: { diaGuru: "true", capture_id: captureId } },
+});
+
+const scheduled = [
+  {
+    id: "cap_moved",
+    calendar_event_id: "evt_moved",
+    planned_start: "2027-03-01T09:00:00Z",
+  },
+  {
+    id: "cap_deleted",
+    calendar_event_id: "evt_deleted",
+    planned_start: "2025-01-01T09:00:00Z",
+  },
+  {
+    id: "cap_untouched",
+    calendar_event_id: "evt_untouched",
+    planned_start: "2026-10-20T09:00:00Z",
+  },
+];
+
+Deno.test(
+  "incremental syncs only return captures whose events were deleted",
+  () => {
+    const sync = buildChangeSync(
+      {
+        events: [
+          taggedEvent("evt_moved", "cap_moved"),
+          { id: "evt_deleted", status: "cancelled", start: {}, end: {} },
+          { id: "evt_personal", summary: "Lunch", start: {}, end: {} },
+        ],
+        nextSyncToken: "token-2",
+        fullSync: false,
+      },
+      "primary",
+    );
+
+    assertEquals(sync.mode, "incremental");
+    assertEquals(sync.events.map((event) => event.id), ["evt_moved"]);
+    assertEquals(sync.complete, false);
+    assertEquals(
+      findMissingCaptures(scheduled, sync).map((capture) => capture.id),
+      ["cap_deleted"],
+    );
+  },
+);
+
+Deno.test("a complete full sync resets every capture without an event", () => {
+  const sync = buildChangeSync(
+    {
+      events: [taggedEvent("evt_moved", "cap_moved")],
+      nextSyncToken: "token-1",
+      fullSync: true,
+    },
+    "primary",
+  );
+
+  assertEquals(sync.mode, "full");
+  assertEquals(
+    findMissingCaptures(scheduled, sync).map((capture) => capture.id),
+    ["cap_deleted", "cap_untouched"],
+  );
+
+  // A full sync cut short before the last page cannot prove an event is gone.
+  const partial = buildChangeSync(
+    { events: [], nextSyncToken: null, fullSync: true },
+    "primary",
+  );
+  assertEquals(findMissingCaptures(scheduled, partial), []);
+});
+
+Deno.test("window syncs leave captures planned outside the window alone", () => {
+  const missing = findMissingCaptures(scheduled, {
+    events: [],
+    removedEventIds: new Set(),
+    complete: false,
+    window: {
+      timeMin: "2026-10-16T00:00:00.000Z",
+      timeMax: "2026-11-02T00:00:00.000Z",
+    },
+  });
+  assertEquals(missing.map((capture) => capture.id), ["cap_untouched"]);
+});
+
+Deno.test("captures on another linked account are left to that account", () => {
+  const captures = [
+    { id: "cap_here", calendar_account_id: 7 },
+    { id: "cap_elsewhere", calendar_account_id: 9 },
+    { id: "cap_legacy", calendar_account_id: null },
+  ];
+  assertEquals(
+    captures
+      .filter((capture) => onSyncedAccount(capture, 7))
+      .map((capture) => capture.id),
+    ["cap_here", "cap_legacy"],
+  );
+});
+
+Deno.test("later study sessions do not stand in for the capture's event", () => {
+  const session = (id: string, chunkIndex: string) => ({
+    ...taggedEvent(id, "cap_moved"),
+    extendedProperties: {
+      private: {
+        diaGuru: "true",
+        capture_id: "cap_moved",
+        chunk_index: chunkIndex,
+      },
+    },
+  });
+  assertStrictEquals(sessionChunkIndex(session("evt_moved", "0")), 0);
+  assertStrictEquals(sessionChunkIndex(session("evt_second", "1")), 1);
+  assertStrictEquals(
+    sessionChunkIndex(taggedEvent("evt_moved", "cap_moved")),
+    null,
+  );
+
+  // The first session's event was deleted while a later one moved.
+  const sync = buildChangeSync(
+    {
+      events: [
+        session("evt_second", "1"),
+        { id: "evt_moved", status: "cancelled", start: {}, end: {} },
+      ],
+      nextSyncToken: "token-3",
+      fullSync: false,
+    },
+    "primary",
+  );
+  assertEquals(
+    findMissingCaptures(scheduled, sync).map((capture) => capture.id),
+    ["cap_moved"],
+  );
+});
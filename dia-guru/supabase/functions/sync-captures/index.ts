@@ -1,23 +1,25 @@
 import { createClient } from "@supabase/supabase-js";
 import type { SupabaseClient } from "@supabase/supabase-js";
+import {
+  type CalendarClientCredentials,
+  resolveCalendarClient,
+  withCalendarAuth,
+} from "../_shared/calendar-client.ts";
+import {
+  CalendarProviderError,
+  extractProviderError,
+  type ProviderCalendarEvent,
+  providerCalendarId,
+  type ProviderEventChanges,
+} from "../_shared/calendar-provider.ts";
 import { json, maybeHandleCors } from "../_shared/cors.ts";
-import type { CalendarTokenRow, CaptureEntryRow, Database } from "../types.ts";
+import { enqueueNotificationJobs } from "../_shared/notification-jobs.ts";
+import type { CaptureChunkRow, CaptureEntryRow, Database } from "../types.ts";
 
 const GOOGLE_CALENDAR_ID =
   (Deno.env.get("GOOGLE_CALENDAR_ID") ?? "primary").trim() || "primary";
-const ENCODED_GOOGLE_CALENDAR_ID = encodeURIComponent(GOOGLE_CALENDAR_ID);
-const GOOGLE_EVENTS =
-  `https://www.googleapis.com/calendar/v3/calendars/${ENCODED_GOOGLE_CALENDAR_ID}/events`;
-const GOOGLE_TOKEN = "https://oauth2.googleapis.com/token";
-type CalendarEvent = {
-  id: string;
-  etag?: string;
-  updated?: string;
-  start?: { dateTime?: string; date?: string };
-  end?: { dateTime?: string; date?: string };
-  summary?: string;
-  extendedProperties?: { private?: Record<string, string> | null } | null;
-};
+const WINDOW_DAYS_BACK = 3;
+const WINDOW_DAYS_FORWARD = 14;
 
 class SyncError extends Error {
   status: number;
@@ -46,6 +48,34 @@ type SyncStateArgs = {
   eventEtag: string | null;
 };
 
+/**
+ * What one sync learned about DiaGuru events.
+ * - `full`: every DiaGuru event in the calendar (first sync or after a 410).
+ * - `incremental`: only events changed since the stored sync token.
+ * - `window`: providers without change tracking list a fixed time range.
+ */
+export type CaptureSyncSummary = {
+  provider: string;
+  mode: DiaGuruEventSync["mode"];
+  refreshedToken: boolean;
+  updates: number;
+  scannedEvents: number;
+  removedEvents: number;
+  timeMin: string | null;
+  timeMax: string | null;
+};
+
+type DiaGuruEventSync = {
+  mode: "full" | "incremental" | "window";
+  events: ProviderCalendarEvent[];
+  removedEventIds: Set<string>;
+  // True when `events` is known to hold every DiaGuru event in the calendar.
+  complete: boolean;
+  window: { timeMin: string; timeMax: string } | null;
+  calendarId: string;
+  nextSyncToken: string | null;
+};
+
 export async function handler(req: Request) {
   const corsResponse = maybeHandleCors(req);
   if (corsResponse) return corsResponse;
@@ -57,8 +87,6 @@ export async function handler(req: Request) {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const anon = Deno.env.get("SUPABASE_ANON_KEY")!;
     const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
-    const clientId = Deno.env.get("GOOGLE_CLIENT_ID")!;
-    const clientSecret = Deno.env.get("GOOGLE_CLIENT_SECRET")!;
 
     const supaFromUser = createClient<Database, "public">(supabaseUrl, anon, {
       global: { headers: { Authorization: auth } },
@@ -72,299 +100,477 @@ export async function handler(req: Request) {
     const userId = userData.user.id;
     const admin = createClient<Database, "public">(supabaseUrl, serviceRole);
 
-    const { data: account, error: accountError } = await admin
-      .from("calendar_accounts")
-      .select("id")
-      .eq("user_id", userId)
-      .eq("provider", "google")
-      .single();
-    if (accountError || !account) {
-      throw new SyncError("Google Calendar not linked", 400, accountError);
+    const summary = await reconcileCaptureEvents(admin, userId);
+    return json({ message: "Sync complete", ...summary });
+  } catch (error) {
+    if (error instanceof SyncError) {
+      return json(
+        { error: error.message, details: error.details ?? null },
+        error.status,
+      );
     }
-    const accountId = (account as { id: number }).id;
-
-    const { accessToken, refreshed } = await resolveAccessToken(
-      admin,
-      accountId,
-      clientId,
-      clientSecret,
-    );
+    const message = error instanceof Error ? error.message : String(error);
+    return json({ error: "Server error", details: message }, 500);
+  }
+}
 
-    const now = new Date();
-    const timeMin = new Date(now.getTime() - 3 * 86400000).toISOString(); // 3 days back
-    const timeMax = new Date(now.getTime() + 14 * 86400000).toISOString(); // 2 weeks forward
+if (import.meta.main) {
+  Deno.serve(handler);
+}
 
-    const events = await fetchDiaGuruEvents(accessToken, timeMin, timeMax);
+/**
+ * Brings the user's scheduled captures in line with their calendar: moved
+ * DiaGuru events update the capture, deleted ones return it to the queue.
+ * Shared by the app-triggered sync and calendar push notifications.
+ */
+export async function reconcileCaptureEvents(
+  admin: SupabaseClient<Database, "public">,
+  userId: string,
+): Promise<CaptureSyncSummary> {
+  const credentials = await resolveCalendarClient(admin, userId);
+  if (!credentials) {
+    throw new SyncError("Calendar not linked", 400);
+  }
+  const providerLabel = credentials.provider.label;
 
-    const captureIdSet = new Set<string>();
-    for (const event of events) {
-      const captureId = event.extendedProperties?.private?.capture_id;
-      if (captureId) captureIdSet.add(captureId);
-    }
+  const sync = await syncDiaGuruEvents(admin, credentials, new Date());
+  const events = sync.events;
 
-    const captureIds = Array.from(captureIdSet);
-    const { data: captureRows } = captureIds.length
-      ? await admin
-        .from("capture_entries")
-        .select(
-          "id, user_id, status, planned_start, planned_end, calendar_event_id, calendar_event_etag, freeze_until, manual_touch_at, scheduling_notes",
-        )
-        .eq("user_id", userId)
-        .in("id", captureIds)
-      : { data: [] as CaptureEntryRow[] };
-
-    const capturesById = new Map<string, CaptureEntryRow>();
-    for (const row of (captureRows ?? []) as CaptureEntryRow[]) {
-      capturesById.set(row.id, row);
-    }
+  const captureIdSet = new Set<string>();
+  for (const event of events) {
+    const captureId = event.extendedProperties?.private?.capture_id;
+    if (captureId) captureIdSet.add(captureId);
+  }
 
-    const { data: scheduledRows } = await admin
+  const captureIds = Array.from(captureIdSet);
+  const { data: captureRows } = captureIds.length
+    ? await admin
       .from("capture_entries")
       .select(
-        "id, user_id, status, planned_start, planned_end, calendar_event_id, calendar_event_etag, freeze_until, manual_touch_at, scheduling_notes",
+        "id, user_id, status, planned_start, planned_end, calendar_event_id, calendar_event_etag, calendar_account_id, freeze_until, manual_touch_at, scheduling_notes",
       )
       .eq("user_id", userId)
-      .eq("status", "scheduled");
+      .in("id", captureIds)
+    : { data: [] as CaptureEntryRow[] };
 
-    const scheduledCaptures = (scheduledRows ?? []) as CaptureEntryRow[];
-    const scheduledById = new Map<string, CaptureEntryRow>();
-    for (const row of scheduledCaptures) {
-      scheduledById.set(row.id, row);
-    }
+  const capturesById = new Map<string, CaptureEntryRow>();
+  for (const row of (captureRows ?? []) as CaptureEntryRow[]) {
+    capturesById.set(row.id, row);
+  }
+
+  const { data: scheduledRows } = await admin
+    .from("capture_entries")
+    .select(
+      "id, user_id, status, planned_start, planned_end, calendar_event_id, calendar_event_etag, calendar_account_id, freeze_until, manual_touch_at, scheduling_notes",
+    )
+    .eq("user_id", userId)
+    .eq("status", "scheduled");
+
+  // Only the resolved account is synced; events on the user's other linked
+  // accounts are neither missing nor ours to update.
+  const scheduledCaptures = ((scheduledRows ?? []) as CaptureEntryRow[])
+    .filter((row) => onSyncedAccount(row, credentials.accountId));
+  const scheduledById = new Map<string, CaptureEntryRow>();
+  for (const row of scheduledCaptures) {
+    scheduledById.set(row.id, row);
+  }
 
-    const scheduledUpdates: {
-      id: string;
-      planned_start: string;
-      planned_end: string;
-      calendar_event_id: string;
-      calendar_event_etag: string | null;
-      manual_touch_at: string | null;
-      freeze_until: string | null;
-      scheduling_notes: string | null;
-    }[] = [];
-    const pendingResets: { id: string }[] = [];
-
-    for (const event of events) {
-      const captureId = event.extendedProperties?.private?.capture_id;
-      if (!captureId) continue;
-      const start = parseEventDate(event.start);
-      const end = parseEventDate(event.end);
-      if (!start || !end) continue;
-
-      const capture = capturesById.get(captureId);
-      const plannedStart = start.toISOString();
-      const plannedEnd = end.toISOString();
-      if (!capture) continue;
-      const eventEtag = typeof event.etag === "string" ? event.etag : null;
-      const syncState = evaluateCaptureSyncState({
-        capture,
-        plannedStart,
-        plannedEnd,
-        eventId: event.id,
-        eventEtag,
+  const scheduledUpdates: {
+    id: string;
+    planned_start: string;
+    planned_end: string;
+    calendar_event_id: string;
+    calendar_event_etag: string | null;
+    calendar_account_id: number;
+    manual_touch_at: string | null;
+    freeze_until: string | null;
+    scheduling_notes: string | null;
+  }[] = [];
+  const pendingResets: { id: string }[] = [];
+  const sessionUpdates: {
+    capture_id: string;
+    calendar_event_id: string;
+    start: string;
+    end: string;
+    calendar_event_etag: string | null;
+  }[] = [];
+
+  for (const event of events) {
+    const captureId = event.extendedProperties?.private?.capture_id;
+    if (!captureId) continue;
+    const start = parseEventDate(event.start);
+    const end = parseEventDate(event.end);
+    if (!start || !end) continue;
+
+    const capture = capturesById.get(captureId);
+    if (!capture || !onSyncedAccount(capture, credentials.accountId)) continue;
+    const plannedStart = start.toISOString();
+    const plannedEnd = end.toISOString();
+    const eventEtag = typeof event.etag === "string" ? event.etag : null;
+
+    // Each spaced session has its own event and chunk; only the first one
+    // is the capture's event.
+    const chunkIndex = sessionChunkIndex(event);
+    if (chunkIndex !== null) {
+      sessionUpdates.push({
+        capture_id: capture.id,
+        calendar_event_id: event.id,
+        start: plannedStart,
+        end: plannedEnd,
+        calendar_event_etag: eventEtag,
       });
+      if (chunkIndex > 0) continue;
+    }
+    const syncState = evaluateCaptureSyncState({
+      capture,
+      plannedStart,
+      plannedEnd,
+      eventId: event.id,
+      eventEtag,
+    });
 
-      if (
-        syncState.requiresUpdate
-      ) {
-        const manualTouchAt = syncState.manualChangeDetected
-          ? new Date().toISOString()
-          : capture.manual_touch_at ?? null;
-        const freezeUntil = syncState.staleSyncFreeze
-          ? null
-          : capture.freeze_until ?? null;
-
-        scheduledUpdates.push({
-          id: capture.id,
-          planned_start: plannedStart,
-          planned_end: plannedEnd,
-          calendar_event_id: event.id,
-          calendar_event_etag: eventEtag ?? null,
-          manual_touch_at: manualTouchAt,
-          freeze_until: freezeUntil,
-          scheduling_notes: mergeSchedulingNotes(
-            capture.scheduling_notes,
-            "Synced from Google Calendar.",
-          ),
-        });
-      }
+    if (
+      syncState.requiresUpdate
+    ) {
+      const manualTouchAt = syncState.manualChangeDetected
+        ? new Date().toISOString()
+        : capture.manual_touch_at ?? null;
+      const freezeUntil = syncState.staleSyncFreeze
+        ? null
+        : capture.freeze_until ?? null;
+
+      scheduledUpdates.push({
+        id: capture.id,
+        planned_start: plannedStart,
+        planned_end: plannedEnd,
+        calendar_event_id: event.id,
+        calendar_event_etag: eventEtag ?? null,
+        calendar_account_id: credentials.accountId,
+        manual_touch_at: manualTouchAt,
+        freeze_until: freezeUntil,
+        scheduling_notes: mergeSchedulingNotes(
+          capture.scheduling_notes,
+          `Synced from ${providerLabel}.`,
+        ),
+      });
     }
+  }
 
-    const scheduledIdsWithEvents = new Set(
-      events
-        .map((event) => event.extendedProperties?.private?.capture_id)
-        .filter((value): value is string => Boolean(value)),
-    );
+  for (const capture of findMissingCaptures(scheduledCaptures, sync)) {
+    pendingResets.push({ id: capture.id });
+  }
 
-    for (const capture of scheduledCaptures) {
-      if (!scheduledIdsWithEvents.has(capture.id)) {
-        pendingResets.push({ id: capture.id });
-      }
-    }
+  let updateCount = 0;
+
+  for (const change of scheduledUpdates) {
+    const { id, ...rest } = change;
+    const { error } = await admin
+      .from("capture_entries")
+      .update({
+        ...rest,
+        status: "scheduled",
+        scheduling_notes: rest.scheduling_notes,
+      })
+      .eq("id", id)
+      .eq("user_id", userId);
+    if (error) throw new SyncError("Failed to update capture", 500, error);
+    updateCount++;
+  }
 
-    let updateCount = 0;
-
-    for (const change of scheduledUpdates) {
-      const { id, ...rest } = change;
-      const { error } = await admin
-        .from("capture_entries")
-        .update({
-          ...rest,
-          status: "scheduled",
-          scheduling_notes: rest.scheduling_notes,
-        })
-        .eq("id", id)
-        .eq("user_id", userId);
-      if (error) throw new SyncError("Failed to update capture", 500, error);
-      updateCount++;
+  for (const session of sessionUpdates) {
+    const { capture_id, calendar_event_id, ...rest } = session;
+    const { error } = await admin
+      .from("capture_chunks")
+      .update(rest)
+      .eq("capture_id", capture_id)
+      .eq("calendar_event_id", calendar_event_id);
+    if (error) {
+      throw new SyncError("Failed to update study session", 500, error);
     }
+  }
 
-    for (const reset of pendingResets) {
-      const existing = scheduledById.get(reset.id);
-      const mergedNotes = mergeSchedulingNotes(
-        existing?.scheduling_notes ?? null,
-        "Google Calendar event missing; returned to queue.",
-      );
-      const { error } = await admin
-        .from("capture_entries")
-        .update({
-          status: "pending",
-          planned_start: null,
-          planned_end: null,
-          calendar_event_id: null,
-          calendar_event_etag: null,
-          manual_touch_at: null,
-          freeze_until: null,
-          scheduling_notes: mergedNotes,
-        })
-        .eq("id", reset.id)
-        .eq("user_id", userId);
-      if (error) {
-        throw new SyncError("Failed to reset missing capture", 500, error);
-      }
-      updateCount++;
+  for (const reset of pendingResets) {
+    const existing = scheduledById.get(reset.id);
+    const mergedNotes = mergeSchedulingNotes(
+      existing?.scheduling_notes ?? null,
+      `${providerLabel} event missing; returned to queue.`,
+    );
+    const { error } = await admin
+      .from("capture_entries")
+      .update({
+        status: "pending",
+        planned_start: null,
+        planned_end: null,
+        calendar_event_id: null,
+        calendar_event_etag: null,
+        calendar_account_id: null,
+        manual_touch_at: null,
+        freeze_until: null,
+        scheduling_notes: mergedNotes,
+      })
+      .eq("id", reset.id)
+      .eq("user_id", userId);
+    if (error) {
+      throw new SyncError("Failed to reset missing capture", 500, error);
     }
+    updateCount++;
+  }
 
-    return json({
-      message: "Sync complete",
-      refreshedToken: refreshed,
-      updates: updateCount,
-      scannedEvents: events.length,
-      timeMin,
-      timeMax,
-    });
-  } catch (error) {
-    if (error instanceof SyncError) {
-      return json(
-        { error: error.message, details: error.details ?? null },
-        error.status,
+  await releaseSessionEvents(
+    admin,
+    credentials,
+    sync.calendarId,
+    pendingResets.map((reset) => reset.id),
+  );
+
+  await enqueueNotificationJobs(
+    admin,
+    [
+      ...scheduledUpdates.map((change) => change.id),
+      ...pendingResets.map((reset) => reset.id),
+    ],
+    new Date(),
+  );
+
+  // Stored last so a failed run replays the same changes next time.
+  if (sync.nextSyncToken) {
+    await saveSyncToken(admin, credentials.accountId, sync);
+  }
+
+  return {
+    provider: credentials.provider.id,
+    mode: sync.mode,
+    refreshedToken: credentials.refreshed,
+    updates: updateCount,
+    scannedEvents: events.length,
+    removedEvents: sync.removedEventIds.size,
+    timeMin: sync.window?.timeMin ?? null,
+    timeMax: sync.window?.timeMax ?? null,
+  };
+}
+
+// A capture back in the queue gives up the events of its other study
+// sessions too; scheduling it again books new ones.
+async function releaseSessionEvents(
+  admin: SupabaseClient<Database, "public">,
+  credentials: CalendarClientCredentials,
+  calendarId: string,
+  captureIds: string[],
+) {
+  if (captureIds.length === 0) return;
+  const { data, error } = await admin
+    .from("capture_chunks")
+    .select("id, calendar_event_id, calendar_event_etag")
+    .in("capture_id", captureIds)
+    .is("completed_at", null)
+    .not("calendar_event_id", "is", null);
+  if (error) throw new SyncError("Failed to load study sessions", 500, error);
+  const sessions = (data ?? []) as Pick<
+    CaptureChunkRow,
+    "id" | "calendar_event_id" | "calendar_event_etag"
+  >[];
+  if (sessions.length === 0) return;
+  for (const session of sessions) {
+    try {
+      await withCalendarAuth(
+        admin,
+        credentials,
+        (token) =>
+          credentials.provider.deleteEvent(token, calendarId, {
+            eventId: session.calendar_event_id!,
+            etag: session.calendar_event_etag,
+          }),
       );
+    } catch (deleteError) {
+      // An edited session (412) is the user's now; leave it be.
+      console.log("sync-captures session delete failed", deleteError);
     }
-    const message = error instanceof Error ? error.message : String(error);
-    return json({ error: "Server error", details: message }, 500);
+  }
+  const { error: clearError } = await admin
+    .from("capture_chunks")
+    .update({ calendar_event_id: null, calendar_event_etag: null })
+    .in("id", sessions.map((session) => session.id));
+  if (clearError) {
+    throw new SyncError("Failed to clear study sessions", 500, clearError);
   }
 }
 
-if (import.meta.main) {
-  Deno.serve(handler);
+async function loadSyncToken(
+  admin: SupabaseClient<Database, "public">,
+  accountId: number,
+  calendarId: string,
+) {
+  const { data, error } = await admin
+    .from("calendar_accounts")
+    .select("sync_token, sync_calendar_id")
+    .eq("id", accountId)
+    .maybeSingle();
+  if (error) throw new SyncError("Failed to load sync state", 500, error);
+  const row = data as
+    | { sync_token?: string | null; sync_calendar_id?: string | null }
+    | null;
+  // A token only describes the calendar it was issued for.
+  if (!row?.sync_token || row.sync_calendar_id !== calendarId) return null;
+  return row.sync_token;
 }
 
-async function resolveAccessToken(
+async function saveSyncToken(
   admin: SupabaseClient<Database, "public">,
   accountId: number,
-  clientId: string,
-  clientSecret: string,
+  sync: Pick<DiaGuruEventSync, "calendarId" | "nextSyncToken">,
 ) {
-  const { data: tokenRow, error: tokenError } = await admin
-    .from("calendar_tokens")
-    .select("access_token, refresh_token, expiry")
-    .eq("account_id", accountId)
-    .single();
-  if (tokenError || !tokenRow) {
-    throw new SyncError("Missing Google token", 400, tokenError);
-  }
-
-  const typedTokenRow = tokenRow as CalendarTokenRow;
-
-  let accessToken = typedTokenRow.access_token;
-  const refreshToken = typedTokenRow.refresh_token;
-  const expiry = typedTokenRow.expiry ? Date.parse(typedTokenRow.expiry) : 0;
-  const aboutToExpire = expiry <= Date.now() + 30_000;
-  let refreshed = false;
+  const { error } = await admin
+    .from("calendar_accounts")
+    .update({
+      sync_token: sync.nextSyncToken,
+      sync_calendar_id: sync.calendarId,
+      synced_at: new Date().toISOString(),
+    })
+    .eq("id", accountId);
+  if (error) throw new SyncError("Failed to save sync state", 500, error);
+}
 
-  if (aboutToExpire && refreshToken) {
-    const body = new URLSearchParams({
-      client_id: clientId,
-      client_secret: clientSecret,
-      refresh_token: refreshToken,
-      grant_type: "refresh_token",
-    });
+async function syncDiaGuruEvents(
+  admin: SupabaseClient<Database, "public">,
+  credentials: CalendarClientCredentials,
+  now: Date,
+): Promise<DiaGuruEventSync> {
+  const provider = credentials.provider;
+  const calendarId = providerCalendarId(
+    provider,
+    GOOGLE_CALENDAR_ID,
+    credentials.calendarUrl,
+  );
 
-    const res = await fetch(GOOGLE_TOKEN, {
-      method: "POST",
-      headers: { "Content-Type": "application/x-www-form-urlencoded" },
-      body,
-    });
-    const payload = await safeParse(res);
-    if (!res.ok) {
-      throw new SyncError(
-        "Failed to refresh Google token",
-        res.status,
-        payload,
+  try {
+    const listChanges = provider.listChanges;
+    if (listChanges) {
+      const syncToken = await loadSyncToken(
+        admin,
+        credentials.accountId,
+        calendarId,
       );
+      let changes: ProviderEventChanges;
+      try {
+        changes = await withCalendarAuth(
+          admin,
+          credentials,
+          (token) => listChanges(token, calendarId, syncToken),
+        );
+      } catch (error) {
+        if (
+          !syncToken || !(error instanceof CalendarProviderError) ||
+          error.status !== 410
+        ) {
+          throw error;
+        }
+        // 410 Gone: the token expired, so start over with a full sync.
+        changes = await withCalendarAuth(
+          admin,
+          credentials,
+          (token) => listChanges(token, calendarId, null),
+        );
+      }
+      return buildChangeSync(changes, calendarId);
     }
 
-    const tokenData = (payload ?? {}) as Record<string, unknown>;
-    accessToken = String(tokenData.access_token ?? accessToken);
-    const expiresInValue = tokenData.expires_in;
-    const expiresIn = typeof expiresInValue === "number"
-      ? expiresInValue
-      : Number(expiresInValue ?? 0);
-    const newExpiry = new Date(Date.now() + expiresIn * 1000).toISOString();
-    await admin.from("calendar_tokens").upsert({
-      account_id: accountId,
-      access_token: accessToken,
-      refresh_token: typeof tokenData.refresh_token === "string"
-        ? tokenData.refresh_token
-        : refreshToken,
-      expiry: newExpiry,
-    });
-    refreshed = true;
+    const timeMin = new Date(now.getTime() - WINDOW_DAYS_BACK * 86400000)
+      .toISOString();
+    const timeMax = new Date(now.getTime() + WINDOW_DAYS_FORWARD * 86400000)
+      .toISOString();
+    const events = await withCalendarAuth(
+      admin,
+      credentials,
+      (token) => provider.listEvents(token, calendarId, timeMin, timeMax),
+    );
+    return {
+      mode: "window",
+      events: filterDiaGuruEvents(events),
+      removedEventIds: new Set(),
+      complete: false,
+      window: { timeMin, timeMax },
+      calendarId,
+      nextSyncToken: null,
+    };
+  } catch (error) {
+    if (error instanceof CalendarProviderError) {
+      throw new SyncError(error.message, error.status, error.details);
+    }
+    throw error;
   }
+}
 
-  return { accessToken, refreshed };
+function buildChangeSync(
+  changes: ProviderEventChanges,
+  calendarId: string,
+): DiaGuruEventSync {
+  // Deleted events come back as bare ids, so removals are matched on the
+  // stored calendar_event_id rather than on DiaGuru tags.
+  const removedEventIds = new Set(
+    changes.events
+      .filter((event) => event.status === "cancelled")
+      .map((event) => event.id),
+  );
+  return {
+    mode: changes.fullSync ? "full" : "incremental",
+    events: filterDiaGuruEvents(
+      changes.events.filter((event) => event.status !== "cancelled"),
+    ),
+    removedEventIds,
+    complete: changes.fullSync && Boolean(changes.nextSyncToken),
+    window: null,
+    calendarId,
+    nextSyncToken: changes.nextSyncToken,
+  };
 }
 
-async function fetchDiaGuruEvents(
-  accessToken: string,
-  timeMin: string,
-  timeMax: string,
+/**
+ * Scheduled captures whose calendar event is gone. A complete sync can judge
+ * every capture, a window sync only those planned inside the window, and an
+ * incremental sync only those whose event it saw deleted.
+ */
+function findMissingCaptures<
+  T extends Pick<CaptureEntryRow, "id" | "calendar_event_id" | "planned_start">,
+>(
+  scheduled: T[],
+  sync: Pick<
+    DiaGuruEventSync,
+    "events" | "removedEventIds" | "complete" | "window"
+  >,
 ) {
-  const url = new URL(GOOGLE_EVENTS);
-  url.searchParams.set("singleEvents", "true");
-  url.searchParams.set("orderBy", "startTime");
-  url.searchParams.set("timeMin", timeMin);
-  url.searchParams.set("timeMax", timeMax);
-  url.searchParams.set("maxResults", "250");
-
-  const res = await fetch(url.toString(), {
-    headers: { Authorization: `Bearer ${accessToken}` },
+  const captureIdsWithEvents = new Set(
+    sync.events
+      .filter((event) => !sessionChunkIndex(event))
+      .map((event) => event.extendedProperties?.private?.capture_id)
+      .filter((value): value is string => Boolean(value)),
+  );
+  return scheduled.filter((capture) => {
+    if (captureIdsWithEvents.has(capture.id)) return false;
+    if (sync.complete) return true;
+    if (sync.window) {
+      const start = capture.planned_start
+        ? Date.parse(capture.planned_start)
+        : NaN;
+      if (!Number.isFinite(start)) return true;
+      return start >= Date.parse(sync.window.timeMin) &&
+        start <= Date.parse(sync.window.timeMax);
+    }
+    return Boolean(capture.calendar_event_id) &&
+      sync.removedEventIds.has(capture.calendar_event_id!);
   });
-  const payload = await safeParse(res);
-  if (!res.ok) {
-    throw new SyncError(
-      extractGoogleError(payload) ??
-        `Google events fetch failed (status ${res.status})`,
-      res.status,
-      payload,
-    );
-  }
+}
 
-  const itemsValue = payload && typeof payload === "object"
-    ? (payload as Record<string, unknown>).items
-    : null;
-  const rawItems = Array.isArray(itemsValue) ? (itemsValue as unknown[]) : [];
-  return (rawItems as CalendarEvent[]).filter((event) => {
+/** Captures from before accounts were recorded belong to the synced one. */
+function onSyncedAccount(
+  capture: Pick<CaptureEntryRow, "calendar_account_id">,
+  accountId: number,
+) {
+  return capture.calendar_account_id == null ||
+    capture.calendar_account_id === accountId;
+}
+
+function filterDiaGuruEvents(events: ProviderCalendarEvent[]) {
+  return events.filter((event) => {
     const captureId = event.extendedProperties?.private?.capture_id;
     const tagged = event.extendedProperties?.private?.diaGuru === "true" ||
       (typeof event.summary === "string" &&
@@ -394,6 +600,16 @@ function sameInstant(
   return aTs === bTs;
 }
 
+/** The session an event holds for a spaced capture; null for other events. */
+function sessionChunkIndex(
+  event: Pick<ProviderCalendarEvent, "extendedProperties">,
+) {
+  const value = event.extendedProperties?.private?.chunk_index;
+  if (value === undefined) return null;
+  const index = Number(value);
+  return Number.isInteger(index) && index >= 0 ? index : null;
+}
+
 function evaluateCaptureSyncState(args: SyncStateArgs) {
   const startChanged = !sameInstant(
     args.capture.planned_start,
@@ -425,49 +641,6 @@ function evaluateCaptureSyncState(args: SyncStateArgs) {
   };
 }
 
-async function safeParse(res: Response) {
-  const text = await res.text();
-  if (!text) return null;
-  try {
-    return JSON.parse(text);
-  } catch {
-    return text;
-  }
-}
-
-function extractGoogleError(payload: unknown) {
-  if (!payload) return null;
-  if (typeof payload === "string") return payload;
-  if (typeof payload !== "object") return null;
-
-  const top = payload as Record<string, unknown>;
-  if (typeof top.error === "string" && top.error.trim()) return top.error;
-  if (top.error && typeof top.error === "object") {
-    const nested = top.error as Record<string, unknown>;
-    if (typeof nested.message === "string" && nested.message.trim()) {
-      return nested.message;
-    }
-    if (Array.isArray(nested.errors) && nested.errors.length > 0) {
-      const first = nested.errors[0] as Record<string, unknown>;
-      if (typeof first.message === "string" && first.message.trim()) {
-        return first.message;
-      }
-      if (typeof first.reason === "string" && first.reason.trim()) {
-        return first.reason;
-      }
-    }
-  }
-  if (typeof top.message === "string" && top.message.trim()) return top.message;
-  if (Array.isArray(top.errors) && top.errors.length > 0) {
-    const first = top.errors[0] as Record<string, unknown>;
-    if (typeof first.message === "string" && first.message.trim()) {
-      return first.message;
-    }
-  }
-
-  return null;
-}
-
 function mergeSchedulingNotes(
   existing: string | null | undefined,
   note: string,
@@ -498,8 +671,12 @@ function mergeSchedulingNotes(
 }
 
 export {
+  buildChangeSync,
   evaluateCaptureSyncState,
-  extractGoogleError,
+  extractProviderError as extractGoogleError,
+  findMissingCaptures,
+  onSyncedAccount,
   parseEventDate,
   sameInstant,
+  sessionChunkIndex,
 };
@@ -14,6 +14,7 @@ export type CaptureEntryRow = {
   updated_at?: string;
   calendar_event_id: string | null;
   calendar_event_etag: string | null;
+  calendar_account_id?: number | null;
   planned_start: string | null;
   planned_end: string | null;
   last_check_in: string | null;
@@ -35,6 +36,7 @@ export type CaptureEntryRow = {
   min_chunk_minutes?: number | null;
   max_splits?: number | null;
   extraction_kind?: string | null;
+  location?: string | null;
   time_pref_time_of_day?: string | null;
   time_pref_day?: string | null;
   importance_rationale?: string | null;
@@ -44,6 +46,10 @@ export type CaptureEntryRow = {
   freeze_until: string | null;
   plan_id: string | null;
   manual_touch_at: string | null;
+  recurrence_rule?: string | null;
+  recurrence_exceptions?: string[] | null;
+  recurrence_parent_id?: string | null;
+  occurrence_date?: string | null;
 };
 
 type TableDef<Row extends Record<string, unknown>> = {
@@ -62,6 +68,17 @@ export type CaptureChunkRow = {
   late: boolean;
   overlapped: boolean;
   prime: boolean;
+  completed_at?: string | null;
+  calendar_event_id?: string | null;
+  calendar_event_etag?: string | null;
+  created_at?: string;
+};
+
+export type CaptureDependencyRow = {
+  id: string;
+  user_id: string;
+  capture_id: string;
+  predecessor_id: string;
   created_at?: string;
 };
 
@@ -77,6 +94,88 @@ export type CalendarAccountRow = {
   user_id: string;
   provider: string;
   needs_reconnect: boolean;
+  busy_calendar_ids?: string[] | null;
+  calendar_url?: string | null;
+  sync_token?: string | null;
+  sync_calendar_id?: string | null;
+  synced_at?: string | null;
+};
+
+export type CalendarWatchChannelRow = {
+  id: string;
+  account_id: number;
+  user_id: string;
+  calendar_id: string;
+  resource_id: string;
+  token: string;
+  expires_at: string;
+  last_notified_at?: string | null;
+};
+
+export type ClarificationSessionRow = {
+  id: string;
+  user_id: string;
+  content: string;
+  mode: string;
+  timezone: string;
+  extraction: Record<string, unknown>;
+  turns: { field: string; question: string; answer: string | null }[];
+  status: "open" | "complete";
+  expires_at: string;
+  updated_at?: string;
+};
+
+export type CaptureDurationSampleRow = {
+  id?: string;
+  user_id: string;
+  capture_id: string | null;
+  task_type_hint: string | null;
+  estimated_minutes: number;
+  actual_minutes: number;
+  source: "check_in" | "planned_window";
+  completed_at: string;
+  created_at?: string;
+};
+
+export type PushDeviceRow = {
+  id?: string;
+  user_id: string;
+  expo_push_token: string;
+  platform: string | null;
+  created_at?: string;
+  last_seen_at?: string;
+};
+
+export type NotificationJobRow = {
+  id?: string;
+  user_id: string;
+  capture_id: string;
+  kind: "pre_start" | "start" | "check_in" | "deadline";
+  send_at: string;
+  title: string;
+  body: string;
+  status: "pending" | "sent" | "failed" | "expired";
+  sent_at?: string | null;
+  error?: string | null;
+  created_at?: string;
+};
+
+export type UserSchedulerPreferencesRow = {
+  user_id: string;
+  working_hours:
+    | Record<string, { start_hour: number; end_hour: number }>
+    | null;
+  time_of_day_bands: Record<string, { start: number; end: number }[]> | null;
+  buffer_minutes: number | null;
+  max_moves_per_run: number | null;
+  auto_reschedule_overdue?: boolean;
+  timezone?: string | null;
+  reminder_lead_minutes?: Record<string, number> | null;
+  chronotype?: "early" | "intermediate" | "late" | null;
+  daily_cap_minutes?: Record<string, number> | null;
+  weekly_cap_minutes?: number | null;
+  commitment_window_days?: number | null;
+  updated_at?: string;
 };
 
 export type PlanRunRow = {
@@ -94,7 +193,7 @@ export type PlanActionRow = {
   action_id: string;
   capture_id: string;
   capture_content: string;
-  action_type: "scheduled" | "rescheduled" | "unscheduled";
+  action_type: "scheduled" | "rescheduled" | "unscheduled" | "overdue";
   prev_status: string | null;
   prev_planned_start: string | null;
   prev_planned_end: string | null;
@@ -102,6 +201,7 @@ export type PlanActionRow = {
   prev_calendar_event_etag: string | null;
   prev_freeze_until: string | null;
   prev_plan_id: string | null;
+  prev_estimated_minutes: number | null;
   next_status: string | null;
   next_planned_start: string | null;
   next_planned_end: string | null;
@@ -109,6 +209,7 @@ export type PlanActionRow = {
   next_calendar_event_etag: string | null;
   next_freeze_until: string | null;
   next_plan_id: string | null;
+  next_estimated_minutes: number | null;
   performed_at: string;
 };
 
@@ -117,8 +218,15 @@ export type Database = {
     Tables: {
       capture_entries: TableDef<CaptureEntryRow>;
       capture_chunks: TableDef<CaptureChunkRow>;
+      capture_dependencies: TableDef<CaptureDependencyRow>;
+      user_scheduler_preferences: TableDef<UserSchedulerPreferencesRow>;
       calendar_accounts: TableDef<CalendarAccountRow>;
       calendar_tokens: TableDef<CalendarTokenRow>;
+      calendar_watch_channels: TableDef<CalendarWatchChannelRow>;
+      clarification_sessions: TableDef<ClarificationSessionRow>;
+      capture_duration_samples: TableDef<CaptureDurationSampleRow>;
+      push_devices: TableDef<PushDeviceRow>;
+      notification_jobs: TableDef<NotificationJobRow>;
       plan_runs: TableDef<PlanRunRow>;
       plan_actions: TableDef<PlanActionRow>;
     };
@@ -1,5 +1,7 @@
 import { createClient } from "@supabase/supabase-js";
+import { resolveCalendarClient } from "../_shared/calendar-client.ts";
 import { json, maybeHandleCors } from "../_shared/cors.ts";
+import { enqueueNotificationJobs } from "../_shared/notification-jobs.ts";
 import type {
   CaptureEntryRow,
   Database,
@@ -7,10 +9,10 @@ import type {
   PlanRunRow,
 } from "../types.ts";
 import {
-  createGoogleCalendarActions,
-  DEFAULT_GOOGLE_CALENDAR_TARGET,
+  createCalendarActions,
+  DEFAULT_CALENDAR_TARGET,
+  deleteSessionEvents,
   priorityForCapture,
-  resolveCalendarClient,
   ScheduleError,
 } from "../schedule-capture/index.ts";
 
@@ -33,8 +35,6 @@ export async function handler(req: Request) {
     const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
     const anon = Deno.env.get("SUPABASE_ANON_KEY")!;
     const serviceRole = Deno.env.get("SERVICE_ROLE_KEY")!;
-    const clientId = Deno.env.get("GOOGLE_CLIENT_ID")!;
-    const clientSecret = Deno.env.get("GOOGLE_CLIENT_SECRET")!;
 
     const supaFromUser = createClient<Database, "public">(supabaseUrl, anon, {
       global: { headers: { Authorization: auth } },
@@ -84,21 +84,15 @@ export async function handler(req: Request) {
       captureMap.set(row.id, row);
     }
 
-    const credentials = await resolveCalendarClient(
-      admin,
-      userId,
-      clientId,
-      clientSecret,
-    );
+    const credentials = await resolveCalendarClient(admin, userId);
     if (!credentials) {
-      return json({ error: "Google Calendar not linked" }, 400);
+      return json({ error: "Calendar not linked" }, 400);
     }
-    const google = createGoogleCalendarActions({
+    const calendar = createCalendarActions({
       credentials,
       admin,
-      clientId,
-      clientSecret,
-      calendarTarget: DEFAULT_GOOGLE_CALENDAR_TARGET,
+      userId,
+      calendarTarget: DEFAULT_CALENDAR_TARGET,
     });
 
     const now = new Date();
@@ -108,11 +102,16 @@ export async function handler(req: Request) {
       const capture = captureMap.get(action.capture_id);
       if (!capture) continue;
 
-      if (action.next_calendar_event_id) {
+      // Overdue flags leave the event in place; restoring the row is enough.
+      const eventUnchanged = action.action_type === "overdue" &&
+        action.next_calendar_event_id === action.prev_calendar_event_id;
+
+      if (action.next_calendar_event_id && !eventUnchanged) {
         try {
-          await google.deleteEvent({
+          await calendar.deleteEvent({
             eventId: action.next_calendar_event_id,
             etag: action.next_calendar_event_etag ?? undefined,
+            accountId: capture.calendar_account_id,
           });
         } catch (error) {
           if (
@@ -122,10 +121,26 @@ export async function handler(req: Request) {
             console.log("Failed to delete plan event during undo", error);
           }
         }
+        // The other sessions of a spaced capture were booked alongside it.
+        await deleteSessionEvents(
+          admin,
+          calendar,
+          capture,
+          action.next_calendar_event_id,
+        ).catch((error) =>
+          console.log("Failed to delete session events during undo", error)
+        );
       }
 
-      let recreatedEvent: { id: string; etag: string | null } | null = null;
-      const shouldRestoreEvent = action.prev_status === "scheduled" &&
+      let recreatedEvent: { id: string; etag: string | null } | null =
+        eventUnchanged && action.prev_calendar_event_id
+          ? {
+            id: action.prev_calendar_event_id,
+            etag: action.prev_calendar_event_etag,
+          }
+          : null;
+      const shouldRestoreEvent = !recreatedEvent &&
+        action.prev_status === "scheduled" &&
         action.prev_planned_start &&
         action.prev_planned_end;
 
@@ -134,7 +149,7 @@ export async function handler(req: Request) {
         const end = new Date(action.prev_planned_end!);
         if (!Number.isNaN(start.getTime()) && !Number.isNaN(end.getTime())) {
           try {
-            recreatedEvent = await google.createEvent({
+            recreatedEvent = await calendar.createEvent({
               capture,
               slot: { start, end },
               planId: action.prev_plan_id ?? null,
@@ -148,7 +163,8 @@ export async function handler(req: Request) {
         }
       }
 
-      const nextRescheduleCount = action.action_type === "scheduled"
+      const nextRescheduleCount = action.action_type === "scheduled" ||
+          action.action_type === "overdue"
         ? capture.reschedule_count ?? 0
         : Math.max(0, (capture.reschedule_count ?? 0) - 1);
 
@@ -171,8 +187,17 @@ export async function handler(req: Request) {
         scheduled_for: restoredStart,
         calendar_event_id: recreatedEvent ? recreatedEvent.id : null,
         calendar_event_etag: recreatedEvent ? recreatedEvent.etag : null,
+        // An untouched overdue event stays on the account that created it.
+        calendar_account_id: eventUnchanged
+          ? capture.calendar_account_id ?? null
+          : recreatedEvent
+          ? calendar.accountId
+          : null,
         plan_id: action.prev_plan_id,
         freeze_until: action.prev_freeze_until,
+        // A progress check-in shrinks the estimate to what was left.
+        estimated_minutes: action.prev_estimated_minutes ??
+          capture.estimated_minutes,
         reschedule_count: nextRescheduleCount,
         scheduling_notes: mergeSchedulingNotes(
           capture.scheduling_notes,
@@ -191,6 +216,8 @@ export async function handler(req: Request) {
       revertedCaptureIds.add(action.capture_id);
     }
 
+    await enqueueNotificationJobs(admin, [...revertedCaptureIds], now);
+
     await admin
       .from("plan_runs")
       .update({
@@ -0,0 +1,25 @@
+-- Recurring captures: a template row carries the recurrence rule and each
+-- concrete occurrence is materialized as its own capture linked to it.
+
+alter table if exists public.capture_entries
+  add column if not exists recurrence_rule text null,
+  add column if not exists recurrence_exceptions date[] not null default '{}',
+  add column if not exists recurrence_parent_id uuid null
+    references public.capture_entries(id) on delete cascade,
+  add column if not exists occurrence_date date null;
+
+comment on column public.capture_entries.recurrence_rule is 'RRULE subset (FREQ/INTERVAL/BYDAY/BYMONTHDAY/UNTIL/COUNT) on series templates.';
+comment on column public.capture_entries.recurrence_exceptions is 'Local dates skipped for this series.';
+comment on column public.capture_entries.recurrence_parent_id is 'Series template this occurrence was materialized from.';
+comment on column public.capture_entries.occurrence_date is 'Local date of this occurrence within its series.';
+
+create unique index if not exists capture_entries_occurrence_idx
+  on public.capture_entries (recurrence_parent_id, occurrence_date)
+  where recurrence_parent_id is not null;
+
+alter table public.capture_entries
+  drop constraint if exists capture_entries_status_check;
+
+alter table public.capture_entries
+  add constraint capture_entries_status_check
+  check (status in ('pending', 'scheduled', 'awaiting_confirmation', 'completed', 'recurring', 'skipped'));
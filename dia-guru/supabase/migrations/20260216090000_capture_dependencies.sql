@@ -0,0 +1,31 @@
+-- Predecessor links between captures ("do X before Y"). A capture is never
+-- placed before every predecessor's planned_end.
+create table if not exists public.capture_dependencies (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  capture_id uuid not null references public.capture_entries(id) on delete cascade,
+  predecessor_id uuid not null references public.capture_entries(id) on delete cascade,
+  created_at timestamptz not null default timezone('utc', now()),
+  constraint capture_dependencies_not_self check (capture_id <> predecessor_id),
+  constraint capture_dependencies_unique unique (capture_id, predecessor_id)
+);
+
+create index if not exists capture_dependencies_capture_id_idx on public.capture_dependencies (capture_id);
+create index if not exists capture_dependencies_predecessor_id_idx on public.capture_dependencies (predecessor_id);
+
+alter table public.capture_dependencies enable row level security;
+
+create policy "Users can select their capture dependencies"
+  on public.capture_dependencies
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their capture dependencies"
+  on public.capture_dependencies
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their capture dependencies"
+  on public.capture_dependencies
+  for delete
+  using (auth.uid() = user_id);
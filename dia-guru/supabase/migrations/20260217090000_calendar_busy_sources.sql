@@ -0,0 +1,7 @@
+-- Calendars (besides the DiaGuru target calendar) whose busy time blocks
+-- scheduling. Empty means only the target calendar is considered.
+alter table public.calendar_accounts
+  add column if not exists busy_calendar_ids text[] not null default '{}';
+
+comment on column public.calendar_accounts.busy_calendar_ids is
+  'Google calendar ids queried through freebusy when finding free slots.';
@@ -0,0 +1,35 @@
+-- Per-user overrides merged over the scheduler defaults by schedule-capture.
+create table if not exists public.user_scheduler_preferences (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  -- {"mon": {"start_hour": 8, "end_hour": 22}, ...}; missing days use the default
+  working_hours jsonb not null default '{}'::jsonb,
+  -- {"deep_work": [{"start": 6, "end": 10}], ...}; hours of the local day
+  time_of_day_bands jsonb not null default '{}'::jsonb,
+  buffer_minutes integer check (buffer_minutes between 0 and 60),
+  max_moves_per_run integer check (max_moves_per_run between 0 and 20),
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+alter table public.user_scheduler_preferences enable row level security;
+
+create trigger set_user_scheduler_preferences_updated_at
+before update on public.user_scheduler_preferences
+for each row
+execute procedure public.set_updated_at_timestamp();
+
+create policy "Users can select their scheduler preferences"
+  on public.user_scheduler_preferences
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their scheduler preferences"
+  on public.user_scheduler_preferences
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their scheduler preferences"
+  on public.user_scheduler_preferences
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
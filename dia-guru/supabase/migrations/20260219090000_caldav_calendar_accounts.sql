@@ -0,0 +1,8 @@
+-- CalDAV accounts (Nextcloud, Fastmail, ...) write into one calendar
+-- collection chosen when the account is linked. Their app password lives in
+-- calendar_tokens like the OAuth tokens of the other providers.
+alter table public.calendar_accounts
+  add column if not exists calendar_url text;
+
+comment on column public.calendar_accounts.calendar_url is
+  'CalDAV calendar collection URL DiaGuru schedules into; null for OAuth providers.';
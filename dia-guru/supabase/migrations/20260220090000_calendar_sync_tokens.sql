@@ -0,0 +1,10 @@
+-- Incremental calendar sync. sync_token is the provider's change cursor
+-- (Google's nextSyncToken) for the calendar in sync_calendar_id; a missing
+-- token or a different calendar makes the next sync a full one.
+alter table public.calendar_accounts
+  add column if not exists sync_token text,
+  add column if not exists sync_calendar_id text,
+  add column if not exists synced_at timestamptz;
+
+comment on column public.calendar_accounts.sync_token is
+  'Provider sync cursor from the last completed capture sync; cleared when the provider rejects it.';
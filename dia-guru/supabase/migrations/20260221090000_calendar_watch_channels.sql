@@ -0,0 +1,25 @@
+-- Google push notification channels (events.watch). Each row is one live
+-- channel; calendar-watch renews it before expires_at and runs the capture
+-- sync for the owning user whenever Google reports a change.
+create table if not exists public.calendar_watch_channels (
+  id uuid primary key,
+  account_id bigint not null references public.calendar_accounts (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  calendar_id text not null,
+  resource_id text not null,
+  -- Echoed back by Google in X-Goog-Channel-Token to authenticate pushes.
+  token text not null,
+  expires_at timestamptz not null,
+  last_notified_at timestamptz,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+comment on table public.calendar_watch_channels is 'Active calendar push channels; service role only.';
+
+create index if not exists calendar_watch_channels_account_id_idx
+  on public.calendar_watch_channels (account_id);
+
+create index if not exists calendar_watch_channels_expires_at_idx
+  on public.calendar_watch_channels (expires_at);
+
+alter table public.calendar_watch_channels enable row level security;
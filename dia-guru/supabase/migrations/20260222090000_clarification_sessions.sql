@@ -0,0 +1,29 @@
+-- Multi-turn clarification state for parse-task. A session holds the
+-- extraction read from the original capture and every question asked so far;
+-- each answer is merged into that extraction instead of re-reading the text.
+create table if not exists public.clarification_sessions (
+  id uuid primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  content text not null,
+  mode text not null,
+  timezone text not null,
+  extraction jsonb not null,
+  -- [{"field": "estimated_minutes", "question": "...", "answer": "45 min"}]
+  turns jsonb not null default '[]'::jsonb,
+  status text not null default 'open' check (status in ('open', 'complete')),
+  expires_at timestamptz not null,
+  created_at timestamptz not null default timezone('utc', now()),
+  updated_at timestamptz not null default timezone('utc', now())
+);
+
+comment on table public.clarification_sessions is 'Open parse-task clarifications; service role only.';
+
+create index if not exists clarification_sessions_user_id_expires_at_idx
+  on public.clarification_sessions (user_id, expires_at);
+
+alter table public.clarification_sessions enable row level security;
+
+create trigger set_clarification_sessions_updated_at
+before update on public.clarification_sessions
+for each row
+execute procedure public.set_updated_at_timestamp();
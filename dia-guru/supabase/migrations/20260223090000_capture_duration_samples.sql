@@ -0,0 +1,26 @@
+-- Actual time spent on completed captures. Each sample pairs the estimate a
+-- capture was planned with (before any learned adjustment) with the minutes
+-- it really took, so estimates can be corrected per user and task type.
+create table if not exists public.capture_duration_samples (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  capture_id uuid references public.capture_entries(id) on delete set null,
+  task_type_hint text,
+  estimated_minutes integer not null check (estimated_minutes > 0),
+  actual_minutes integer not null check (actual_minutes > 0),
+  -- 'check_in' when the user reported the minutes, 'planned_window' when they
+  -- were measured from planned_start to the completion time.
+  source text not null check (source in ('check_in', 'planned_window')),
+  completed_at timestamptz not null,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists capture_duration_samples_user_type_idx
+  on public.capture_duration_samples (user_id, task_type_hint, completed_at desc);
+
+alter table public.capture_duration_samples enable row level security;
+
+create policy "Users can select their duration samples"
+  on public.capture_duration_samples
+  for select
+  using (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Chunks of work a check-in reported as done. Rescheduling a capture replaces
+-- its planned chunks but keeps these, so a task split at a check-in shows the
+-- finished session next to the remainder.
+alter table public.capture_chunks
+  add column if not exists completed_at timestamptz;
+
+comment on column public.capture_chunks.completed_at is
+  'Set when a check-in kept this chunk as finished work; null for planned chunks.';
@@ -0,0 +1,18 @@
+-- The overdue-rollover job flags sessions that ended without a check-in and,
+-- for users who opt in, moves low-importance ones to the next free slot. Both
+-- are logged as plan actions so undo-plan can revert a run.
+alter table public.user_scheduler_preferences
+  add column if not exists auto_reschedule_overdue boolean not null default false,
+  add column if not exists timezone text;
+
+comment on column public.user_scheduler_preferences.auto_reschedule_overdue is
+  'Let the overdue-rollover job reschedule missed low-importance sessions instead of only flagging them.';
+comment on column public.user_scheduler_preferences.timezone is
+  'IANA timezone saved by the app; scheduled jobs use it to place sessions in working hours.';
+
+alter table public.plan_actions
+  drop constraint if exists plan_actions_action_type_check;
+
+alter table public.plan_actions
+  add constraint plan_actions_action_type_check
+  check (action_type in ('scheduled', 'rescheduled', 'unscheduled', 'overdue'));
@@ -0,0 +1,69 @@
+-- Server-side reminders. The app registers each device's Expo push token;
+-- scheduling functions rewrite a capture's pending notification jobs whenever
+-- its planned times change, and send-notifications delivers the due ones.
+create table if not exists public.push_devices (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  expo_push_token text not null unique,
+  platform text,
+  created_at timestamptz not null default timezone('utc', now()),
+  last_seen_at timestamptz not null default timezone('utc', now())
+);
+
+create index if not exists push_devices_user_idx
+  on public.push_devices (user_id);
+
+alter table public.push_devices enable row level security;
+
+create policy "Users can select their push devices"
+  on public.push_devices
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users can insert their push devices"
+  on public.push_devices
+  for insert
+  with check (auth.uid() = user_id);
+
+create policy "Users can update their push devices"
+  on public.push_devices
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create policy "Users can delete their push devices"
+  on public.push_devices
+  for delete
+  using (auth.uid() = user_id);
+
+create table if not exists public.notification_jobs (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  capture_id uuid not null references public.capture_entries (id) on delete cascade,
+  kind text not null check (kind in ('start', 'check_in', 'deadline')),
+  send_at timestamptz not null,
+  title text not null,
+  body text not null,
+  status text not null default 'pending'
+    check (status in ('pending', 'sent', 'failed', 'expired')),
+  sent_at timestamptz,
+  error text,
+  created_at timestamptz not null default timezone('utc', now())
+);
+
+comment on table public.notification_jobs is
+  'Push notifications queued for captures; only service-role functions write here.';
+
+create index if not exists notification_jobs_due_idx
+  on public.notification_jobs (send_at)
+  where status = 'pending';
+
+create index if not exists notification_jobs_capture_idx
+  on public.notification_jobs (capture_id);
+
+alter table public.notification_jobs enable row level security;
+
+create policy "Users can select their notification jobs"
+  on public.notification_jobs
+  for select
+  using (auth.uid() = user_id);
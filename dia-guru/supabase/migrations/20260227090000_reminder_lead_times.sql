@@ -0,0 +1,15 @@
+-- Pre-start reminders: users pick how long before a session they hear about
+-- it, per extraction kind or task type. Missing keys fall back to the defaults
+-- in _shared/notification-jobs.ts; 0 turns a kind's reminder off.
+alter table public.user_scheduler_preferences
+  add column if not exists reminder_lead_minutes jsonb not null default '{}'::jsonb;
+
+comment on column public.user_scheduler_preferences.reminder_lead_minutes is
+  'Minutes before planned_start to send a pre-start reminder, keyed by extraction_kind or task_type_hint.';
+
+alter table public.notification_jobs
+  drop constraint if exists notification_jobs_kind_check;
+
+alter table public.notification_jobs
+  add constraint notification_jobs_kind_check
+  check (kind in ('pre_start', 'start', 'check_in', 'deadline'));
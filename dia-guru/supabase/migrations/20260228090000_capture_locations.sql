@@ -0,0 +1,8 @@
+-- Where a capture happens, extracted by parse-task ("at the dentist"). The
+-- scheduler pads location-bound captures and calendar events with travel
+-- time instead of the fixed buffer, and new calendar events carry it too.
+alter table public.capture_entries
+  add column if not exists location text;
+
+comment on column public.capture_entries.location is
+  'Place the capture happens at, as written; null for work that can happen anywhere.';
@@ -0,0 +1,9 @@
+-- Energy-aware scheduling: a declared chronotype picks the energy curve that
+-- steers heavy captures to the user's peak hours and admin to the dips. Null
+-- means the curve is learned from completed deep work instead.
+alter table public.user_scheduler_preferences
+  add column if not exists chronotype text
+    check (chronotype in ('early', 'intermediate', 'late'));
+
+comment on column public.user_scheduler_preferences.chronotype is
+  'Declared chronotype (early, intermediate, late); null learns the energy curve from completions.';
@@ -0,0 +1,13 @@
+-- Workload caps: how many minutes of a task type DiaGuru may schedule on one
+-- day, and how many minutes of sessions in one week. Missing keys and a null
+-- weekly cap fall back to the defaults in schedule-capture/scheduler-config.ts;
+-- 0 lifts a cap.
+alter table public.user_scheduler_preferences
+  add column if not exists daily_cap_minutes jsonb not null default '{}'::jsonb,
+  add column if not exists weekly_cap_minutes integer
+    check (weekly_cap_minutes between 0 and 10080);
+
+comment on column public.user_scheduler_preferences.daily_cap_minutes is
+  'Most minutes scheduled per local day, keyed by task_type_hint; 0 means no cap.';
+comment on column public.user_scheduler_preferences.weekly_cap_minutes is
+  'Most minutes of DiaGuru sessions per local week; 0 means no cap.';
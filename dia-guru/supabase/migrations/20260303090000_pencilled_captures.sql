@@ -0,0 +1,17 @@
+-- Long-range planning: captures due after the commitment window are
+-- "pencilled" in (planned_start/planned_end set, no calendar event) and only
+-- committed to the calendar once the window reaches them. The window length
+-- falls back to the default in schedule-capture/scheduler-config.ts.
+alter table public.capture_entries
+  drop constraint if exists capture_entries_status_check;
+
+alter table public.capture_entries
+  add constraint capture_entries_status_check
+  check (status in ('pending', 'scheduled', 'awaiting_confirmation', 'completed', 'recurring', 'skipped', 'pencilled'));
+
+alter table public.user_scheduler_preferences
+  add column if not exists commitment_window_days integer
+    check (commitment_window_days between 1 and 7);
+
+comment on column public.user_scheduler_preferences.commitment_window_days is
+  'Days ahead within which pencilled captures are put on the calendar.';
@@ -0,0 +1,6 @@
+-- A progress check-in shrinks a capture's estimate to the minutes left, so
+-- plan actions keep the estimate on both sides and undo-plan can put the
+-- original back. Older actions leave these null and keep the current value.
+alter table public.plan_actions
+  add column if not exists prev_estimated_minutes integer,
+  add column if not exists next_estimated_minutes integer;
@@ -0,0 +1,21 @@
+-- Dependency links may only join the user's own captures; otherwise a link
+-- to someone else's capture would surface its content as a predecessor.
+drop policy if exists "Users can insert their capture dependencies"
+  on public.capture_dependencies;
+
+create policy "Users can insert their capture dependencies"
+  on public.capture_dependencies
+  for insert
+  with check (
+    auth.uid() = user_id
+    and exists (
+      select 1 from public.capture_entries entry
+      where entry.id = capture_dependencies.capture_id
+        and entry.user_id = auth.uid()
+    )
+    and exists (
+      select 1 from public.capture_entries entry
+      where entry.id = capture_dependencies.predecessor_id
+        and entry.user_id = auth.uid()
+    )
+  );
@@ -0,0 +1,5 @@
+-- A user may link several calendars, so each capture remembers the account
+-- its event was created on; moving or deleting the event goes back there.
+alter table public.capture_entries
+  add column if not exists calendar_account_id bigint
+    references public.calendar_accounts(id) on delete set null;
@@ -0,0 +1,9 @@
+-- Each spaced study session gets its own calendar event, so a chunk keeps
+-- the event that holds it; moving or dropping the capture deletes them all.
+alter table public.capture_chunks
+  add column if not exists calendar_event_id text,
+  add column if not exists calendar_event_etag text;
+
+create index if not exists capture_chunks_calendar_event_id_idx
+  on public.capture_chunks (calendar_event_id)
+  where calendar_event_id is not null;